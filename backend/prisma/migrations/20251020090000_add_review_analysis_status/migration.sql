@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "analysisStatus" TEXT NOT NULL DEFAULT 'ok',
+ADD COLUMN "analysisProvider" TEXT,
+ADD COLUMN "analysisModel" TEXT,
+ADD COLUMN "promptVersion" TEXT;
+
+-- CreateIndex
+CREATE INDEX "reviews_analysisStatus_createdAt_idx" ON "reviews"("analysisStatus", "createdAt");
+
+-- Backfill: rows stored from the old hard-coded fallback analysis
+UPDATE "reviews"
+SET "analysisStatus" = 'degraded_fallback'
+WHERE "overallScore" = 73
+  AND "highlights" = ARRAY['Clean and presentable look']
+  AND "technicalFlaws" = ARRAY['Limited styling creativity evident'];
+
+-- Backfill: rows where the model reported no visible outfit
+UPDATE "reviews"
+SET "analysisStatus" = 'no_outfit'
+WHERE lower("styleCategory") = 'no outfit';
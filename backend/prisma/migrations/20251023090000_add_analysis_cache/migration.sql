@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "analysisCacheStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "analysis_cache" (
+    "id" TEXT NOT NULL,
+    "ownerKey" TEXT NOT NULL,
+    "imageDigest" TEXT NOT NULL,
+    "perceptualHash" TEXT,
+    "contextKey" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "analysis" JSONB NOT NULL,
+    "analysisStatus" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "analysis_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "analysis_cache_lookup_key" ON "analysis_cache"("ownerKey", "imageDigest", "contextKey", "promptVersion");
+
+-- CreateIndex
+CREATE INDEX "analysis_cache_ownerKey_promptVersion_expiresAt_idx" ON "analysis_cache"("ownerKey", "promptVersion", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "analysis_cache_expiresAt_idx" ON "analysis_cache"("expiresAt");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT,
+    "userId" TEXT,
+    "guestDeviceId" TEXT,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER,
+    "completionTokens" INTEGER,
+    "totalTokens" INTEGER,
+    "latencyMs" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION,
+    "succeeded" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_userId_createdAt_idx" ON "ai_usage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_guestDeviceId_createdAt_idx" ON "ai_usage"("guestDeviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_reviewId_idx" ON "ai_usage"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_createdAt_idx" ON "ai_usage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE SET NULL ON UPDATE CASCADE;
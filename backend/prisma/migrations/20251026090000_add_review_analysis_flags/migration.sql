@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "analysisFlags" TEXT[] DEFAULT ARRAY[]::TEXT[];
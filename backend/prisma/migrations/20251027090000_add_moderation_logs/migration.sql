@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "moderation_logs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "guestDeviceId" TEXT,
+    "decision" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "scores" JSONB NOT NULL,
+    "classifier" TEXT NOT NULL,
+    "imageDigest" TEXT NOT NULL,
+    "quarantinePublicId" TEXT,
+    "appealStatus" TEXT NOT NULL DEFAULT 'none',
+    "appealMessage" TEXT,
+    "appealedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_logs_userId_createdAt_idx" ON "moderation_logs"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "moderation_logs_guestDeviceId_createdAt_idx" ON "moderation_logs"("guestDeviceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "moderation_logs_imageDigest_idx" ON "moderation_logs"("imageDigest");
+
+-- CreateIndex
+CREATE INDEX "moderation_logs_appealStatus_createdAt_idx" ON "moderation_logs"("appealStatus", "createdAt");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN "privacyMode" TEXT;
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "privacyMode" TEXT,
+ADD COLUMN "facesRedacted" INTEGER;
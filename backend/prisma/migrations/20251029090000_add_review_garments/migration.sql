@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "review_garments" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "colors" TEXT[],
+    "pattern" TEXT,
+    "fabric" TEXT,
+    "fitNotes" TEXT,
+    "score" INTEGER,
+    "boundingBox" JSONB,
+
+    CONSTRAINT "review_garments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_garments_reviewId_position_idx" ON "review_garments"("reviewId", "position");
+
+-- AddForeignKey
+ALTER TABLE "review_garments" ADD CONSTRAINT "review_garments_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
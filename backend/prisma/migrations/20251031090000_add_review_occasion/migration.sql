@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "occasion" TEXT,
+ADD COLUMN "season" TEXT,
+ADD COLUMN "climate" TEXT;
+
+-- CreateIndex
+CREATE INDEX "reviews_userId_occasion_createdAt_idx" ON "reviews"("userId", "occasion", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "reviews_guestDeviceId_occasion_createdAt_idx" ON "reviews"("guestDeviceId", "occasion", "createdAt");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "review_messages" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "provider" TEXT,
+    "model" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_messages_reviewId_createdAt_idx" ON "review_messages"("reviewId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "review_messages" ADD CONSTRAINT "review_messages_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "review_images" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "imagePublicId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_images_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_images_reviewId_position_idx" ON "review_images"("reviewId", "position");
+
+-- AddForeignKey
+ALTER TABLE "review_images" ADD CONSTRAINT "review_images_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
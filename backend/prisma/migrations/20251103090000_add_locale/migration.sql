@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "locale" TEXT;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "profiles" ADD COLUMN "persona" TEXT,
+ADD COLUMN "tone" TEXT;
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "persona" TEXT,
+ADD COLUMN "tone" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "analysis_cache" ADD COLUMN "promptHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN "promptHash" TEXT;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "guest_devices" ADD COLUMN "messageCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Questions asked before the counter existed
+UPDATE "guest_devices" SET "messageCount" = "counts"."questions"
+FROM (
+  SELECT "reviews"."guestDeviceId", COUNT(*)::INTEGER AS "questions"
+  FROM "review_messages"
+  JOIN "reviews" ON "reviews"."id" = "review_messages"."reviewId"
+  WHERE "review_messages"."role" = 'user' AND "reviews"."guestDeviceId" IS NOT NULL
+  GROUP BY "reviews"."guestDeviceId"
+) AS "counts"
+WHERE "guest_devices"."deviceId" = "counts"."guestDeviceId";
@@ -36,11 +36,161 @@ export const config = {
   },
   
   ai: {
+    // openrouter | openai | local | mock
+    provider: process.env.AI_PROVIDER || 'openrouter',
     openaiApiKey: process.env.OPENAI_API_KEY,
+    openaiUrl: process.env.OPENAI_URL || 'https://api.openai.com/v1/chat/completions',
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4.1-nano',
+    openaiTimeoutMs: parseInt(process.env.OPENAI_TIMEOUT_MS || '30000', 10),
     openrouterApiKey: process.env.OPENROUTER_API_KEY,
     openrouterUrl: process.env.OPENROUTER_URL || 'https://openrouter.ai/api/v1/chat/completions',
     model: process.env.AI_MODEL || 'openai/gpt-4.1-nano',
-    // Add other AI service configs as needed
+    openrouterTimeoutMs: parseInt(process.env.OPENROUTER_TIMEOUT_MS || '30000', 10),
+    // Local OpenAI-compatible server (Ollama, vLLM, LM Studio)
+    localUrl: process.env.LOCAL_AI_URL || 'http://localhost:11434/v1/chat/completions',
+    localModel: process.env.LOCAL_AI_MODEL || 'llava',
+    localApiKey: process.env.LOCAL_AI_API_KEY,
+    localJsonMode: process.env.LOCAL_AI_JSON_MODE !== 'false',
+    // Local vision models on CPU can take minutes
+    localTimeoutMs: parseInt(process.env.LOCAL_AI_TIMEOUT_MS || '120000', 10),
+    mock: {
+      latencyMs: parseInt(process.env.AI_MOCK_LATENCY_MS || '1000', 10),
+      // ok | timeout | malformed_json | no_outfit | rate_limited
+      scenario: process.env.AI_MOCK_SCENARIO || 'ok',
+    },
+    fallback: {
+      // Ordered provider[:model] list tried in turn, e.g. "openrouter,openrouter:google/gemini-2.0-flash-001,openai";
+      // empty uses AI_PROVIDER alone
+      chain: process.env.AI_PROVIDER_CHAIN || '',
+      // Retries per provider on 429, 5xx and timeouts, with full-jitter exponential backoff
+      maxRetries: parseInt(process.env.AI_RETRY_MAX || '2', 10),
+      retryBaseDelayMs: parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '500', 10),
+      retryMaxDelayMs: parseInt(process.env.AI_RETRY_MAX_DELAY_MS || '8000', 10),
+      // Consecutive failed requests that open a provider's circuit, and how long it then stays skipped
+      breakerFailureThreshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '5', 10),
+      breakerCooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '60000', 10),
+    },
+    ensemble: {
+      // provider[:model][*samples], comma separated, e.g. "openrouter*3" or
+      // "openrouter:openai/gpt-4.1-nano,openai:gpt-4.1-mini"; empty (or one sample in total) disables the ensemble
+      members: process.env.AI_ENSEMBLE_MEMBERS || '',
+      // Score spread (0-100 scale) between members above which a dimension is flagged as disputed
+      disagreementThreshold: parseInt(process.env.AI_ENSEMBLE_DISAGREEMENT_THRESHOLD || '15', 10),
+    },
+  },
+  
+  analysisJobs: {
+    // Set to false on instances that should only accept requests
+    workerEnabled: process.env.ANALYSIS_WORKER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.ANALYSIS_WORKER_POLL_MS || '2000', 10),
+    maxAttempts: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.ANALYSIS_JOB_RETRY_BASE_MS || '5000', 10),
+    // Jobs locked longer than this are assumed to belong to a crashed worker
+    staleAfterMs: parseInt(process.env.ANALYSIS_JOB_STALE_MS || '300000', 10),
+  },
+  
+  prompts: {
+    // Outfit analysis variants and weights, e.g. "outfit-analysis@1=90,outfit-analysis@2=10"; empty uses the default version
+    outfitAnalysisVariants: process.env.PROMPT_VARIANTS_OUTFIT_ANALYSIS || '',
+    // Change to reshuffle owners between variants when starting a new experiment
+    experimentSalt: process.env.PROMPT_EXPERIMENT_SALT || 'outfit-analysis',
+  },
+  
+  analysisCache: {
+    // Reuse analyses of identical (or near-identical) re-uploads instead of paying for a new vision call
+    enabled: process.env.ANALYSIS_CACHE_ENABLED !== 'false',
+    ttlHours: parseInt(process.env.ANALYSIS_CACHE_TTL_HOURS || '168', 10),
+    // Max differing bits between 64-bit perceptual hashes for two images to count as the same photo
+    maxPerceptualDistance: parseInt(process.env.ANALYSIS_CACHE_PHASH_DISTANCE || '4', 10),
+    // On an image hit with a different profile or description, adapt the cached analysis with a text-only call
+    repersonalize: process.env.ANALYSIS_CACHE_REPERSONALIZE !== 'false',
+  },
+  
+  usage: {
+    // USD per million tokens, matched against the model id reported by the provider.
+    // AI_PRICING adds or overrides entries, e.g. {"llava":{"prompt":0,"completion":0}}
+    pricing: {
+      'openai/gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+      'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+      'mock-analysis': { prompt: 0, completion: 0 },
+      ...JSON.parse(process.env.AI_PRICING || '{}'),
+    } as Record<string, { prompt: number; completion: number }>,
+    // Monthly AI spend caps in USD, per calendar month (UTC); 0 means no cap
+    userMonthlyBudgetUsd: parseFloat(process.env.AI_BUDGET_USER_MONTHLY_USD || '0'),
+    guestMonthlyBudgetUsd: parseFloat(process.env.AI_BUDGET_GUEST_MONTHLY_USD || '0'),
+    totalMonthlyBudgetUsd: parseFloat(process.env.AI_BUDGET_TOTAL_MONTHLY_USD || '0'),
+  },
+  
+  moderation: {
+    // Checks every upload before it is stored or sent to the AI; false skips the check entirely
+    enabled: process.env.MODERATION_ENABLED !== 'false',
+    // local (structural checks plus MODERATION_LOCAL_SCENARIO, for development and tests) | openai
+    classifier: process.env.MODERATION_CLASSIFIER || 'local',
+    openaiUrl: process.env.MODERATION_OPENAI_URL || 'https://api.openai.com/v1/moderations',
+    openaiModel: process.env.MODERATION_OPENAI_MODEL || 'omni-moderation-latest',
+    timeoutMs: parseInt(process.env.MODERATION_TIMEOUT_MS || '10000', 10),
+    // clean | explicit | minor | non_photo | borderline
+    localScenario: process.env.MODERATION_LOCAL_SCENARIO || 'clean',
+    // 0-1 category scores at or above which an upload is rejected, or quarantined for manual review
+    rejectThreshold: parseFloat(process.env.MODERATION_REJECT_THRESHOLD || '0.8'),
+    quarantineThreshold: parseFloat(process.env.MODERATION_QUARANTINE_THRESHOLD || '0.4'),
+    // Accept uploads unchecked when the classifier is down instead of refusing them
+    failOpen: process.env.MODERATION_FAIL_OPEN === 'true',
+    // Estimate the apparent age of every face on the server and raise the minor score for young faces
+    ageCheck: process.env.MODERATION_AGE_CHECK !== 'false',
+    // Smallest side in pixels and widest aspect ratio an outfit photo can have
+    minImageSide: parseInt(process.env.MODERATION_MIN_IMAGE_SIDE || '128', 10),
+    maxAspectRatio: parseFloat(process.env.MODERATION_MAX_ASPECT_RATIO || '4'),
+  },
+  
+  privacy: {
+    // Mode for users without a privacyMode setting and for guests: off | blur | crop
+    defaultMode: process.env.PRIVACY_DEFAULT_MODE || 'off',
+    // Lower finds more faces at the cost of blurring some that are not; redaction errs on the side of blurring
+    minFaceConfidence: parseFloat(process.env.PRIVACY_MIN_FACE_CONFIDENCE || '0.3'),
+    // Extra margin around each detected face, as a share of its size
+    facePadding: parseFloat(process.env.PRIVACY_FACE_PADDING || '0.3'),
+  },
+  
+  palette: {
+    // Measured dominant colors, stored with the review and given to the AI as grounding
+    enabled: process.env.PALETTE_ENABLED !== 'false',
+    maxColors: parseInt(process.env.PALETTE_MAX_COLORS || '5', 10),
+    // Colors covering less of the outfit than this share are left out
+    minShare: parseFloat(process.env.PALETTE_MIN_SHARE || '0.04'),
+  },
+  
+  reviewImages: {
+    // Photos accepted per review (front, back, side, shoes, detail), all sent to the model in one call
+    maxImages: parseInt(process.env.REVIEW_MAX_IMAGES || '5', 10),
+  },
+  
+  chat: {
+    // Follow-up questions a guest device may ask across all of its reviews
+    guestMessageLimit: parseInt(process.env.CHAT_GUEST_MESSAGE_LIMIT || '10', 10),
+    // Questions per review for everyone; keeps threads short enough to stay grounded
+    maxQuestionsPerReview: parseInt(process.env.CHAT_MAX_QUESTIONS_PER_REVIEW || '20', 10),
+    // Earlier messages sent to the model with each question
+    historyMessages: parseInt(process.env.CHAT_HISTORY_MESSAGES || '12', 10),
+  },
+  
+  calibration: {
+    // Each review's overall score is also given relative to the wearer's usual score
+    enabled: process.env.CALIBRATION_ENABLED !== 'false',
+    // Earlier scored reviews needed before a baseline is shown
+    minReviews: parseInt(process.env.CALIBRATION_MIN_REVIEWS || '2', 10),
+    // Most recent earlier reviews the baseline is learned from
+    historyReviews: parseInt(process.env.CALIBRATION_HISTORY_REVIEWS || '20', 10),
+    // Starting point for short histories, worth priorWeight reviews
+    priorScore: parseFloat(process.env.CALIBRATION_PRIOR_SCORE || '70'),
+    priorWeight: parseFloat(process.env.CALIBRATION_PRIOR_WEIGHT || '2'),
+    // Points above or below the baseline that count as a notable change
+    notableDelta: parseInt(process.env.CALIBRATION_NOTABLE_DELTA || '5', 10),
+  },
+  
+  admin: {
+    // Required in the X-Admin-Key header for /api/admin endpoints; they are disabled when unset
+    apiKey: process.env.ADMIN_API_KEY,
   },
   
   frontend: {
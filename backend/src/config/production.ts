@@ -1,4 +1,5 @@
 import { config } from './config';
+import { apiMessage } from '../services/messageCatalog';
 
 /**
  * Production-specific configuration and validation
@@ -33,9 +34,16 @@ export function validateProductionConfig() {
     console.warn('⚠️ DATABASE_URL should use SSL in production');
   }
 
-  // AI API key validation (at least one required)
-  if (!process.env.OPENAI_API_KEY && !process.env.OPENROUTER_API_KEY) {
-    errors.push('Either OPENAI_API_KEY or OPENROUTER_API_KEY is required');
+  // AI provider validation (the selected provider must have credentials)
+  const aiProvider = process.env.AI_PROVIDER || 'openrouter';
+  if (aiProvider === 'openrouter' && !process.env.OPENROUTER_API_KEY) {
+    errors.push('OPENROUTER_API_KEY is required when AI_PROVIDER is openrouter');
+  } else if (aiProvider === 'openai' && !process.env.OPENAI_API_KEY) {
+    errors.push('OPENAI_API_KEY is required when AI_PROVIDER is openai');
+  } else if (aiProvider === 'local' && !process.env.LOCAL_AI_URL) {
+    errors.push('LOCAL_AI_URL is required when AI_PROVIDER is local');
+  } else if (aiProvider === 'mock') {
+    console.warn('⚠️ AI_PROVIDER is mock - outfit analyses will not use a real model');
   }
 
   if (errors.length > 0) {
@@ -89,7 +97,7 @@ export const productionConfig = {
       windowMs: 15 * 60 * 1000, // 15 minutes
       max: 1000, // Higher limit for production
       message: {
-        error: 'Rate limit exceeded',
+        error: apiMessage('rateLimit.exceeded'),
         retryAfter: 900, // 15 minutes
       },
     },
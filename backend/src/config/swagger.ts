@@ -40,6 +40,12 @@ const options: swaggerJSDoc.Options = {
           name: 'x-device-id',
           description: 'Device identification for guest users (requires x-device-fingerprint header)',
         },
+        AdminKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'x-admin-key',
+          description: 'ADMIN_API_KEY for operator endpoints',
+        },
       },
       schemas: {
         User: {
@@ -63,6 +69,10 @@ const options: swaggerJSDoc.Options = {
             height: { type: 'number', format: 'float', nullable: true },
             weight: { type: 'number', format: 'float', nullable: true },
             otherMeasurements: { type: 'object', nullable: true },
+            privacyMode: { type: 'string', enum: ['off', 'blur', 'crop'], nullable: true, description: 'Face redaction applied to uploads; null uses PRIVACY_DEFAULT_MODE' },
+            locale: { type: 'string', enum: ['en', 'es', 'fr', 'de'], nullable: true, description: 'Language of analyses, answers and API messages; null uses the Accept-Language header' },
+            persona: { type: 'string', enum: ['gentle_coach', 'editorial_critic', 'practical_friend', 'image_consultant'], nullable: true, description: 'Reviewer persona analyses are written as; null keeps the default consultant voice' },
+            tone: { type: 'string', enum: ['gentle', 'balanced', 'direct', 'brutal'], nullable: true, description: 'How bluntly flaws are put; null keeps the default tone' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
           },
@@ -94,13 +104,31 @@ const options: swaggerJSDoc.Options = {
             improvementSuggestions: { type: 'array', items: { type: 'string' } },
             expertInsights: { type: 'array', items: { type: 'string' } },
             technicalFlaws: { type: 'array', items: { type: 'string' } },
+            garments: { type: 'array', items: { $ref: '#/components/schemas/Garment' } },
+            colorPalette: { allOf: [{ $ref: '#/components/schemas/ColorPalette' }], nullable: true },
+            occasion: { allOf: [{ $ref: '#/components/schemas/Occasion' }], nullable: true },
+            season: { type: 'string', enum: ['spring', 'summer', 'autumn', 'winter'], nullable: true },
+            climate: { type: 'string', enum: ['tropical', 'hot_dry', 'temperate', 'cold', 'rainy'], nullable: true },
+            locale: { type: 'string', enum: ['en', 'es', 'fr', 'de'], nullable: true, description: 'Language the analysis text is written in; null for reviews from before localization (English)' },
+            persona: { type: 'string', enum: ['gentle_coach', 'editorial_critic', 'practical_friend', 'image_consultant'], nullable: true, description: 'Persona the analysis was written as; null for the default consultant voice' },
+            tone: { type: 'string', enum: ['gentle', 'balanced', 'direct', 'brutal'], nullable: true, description: 'Tone the analysis was written in; null for the default tone' },
             userFeedback: { type: 'string', nullable: true },
             feedbackRating: { type: 'integer', minimum: 1, maximum: 5, nullable: true },
             accepted: { type: 'boolean', nullable: true },
             comparedWithIds: { type: 'array', items: { type: 'string' } },
             comparisonInsight: { type: 'string', nullable: true },
+            comparisonDetails: { type: 'object', nullable: true, description: 'Structured comparison: per-dimension deltas, improved, regressed and narrative' },
+            analysisStatus: { type: 'string', enum: ['pending', 'processing', 'ok', 'degraded_fallback', 'no_outfit', 'failed'], default: 'ok' },
+            analysisProvider: { type: 'string', nullable: true },
+            analysisModel: { type: 'string', nullable: true },
+            promptVersion: { type: 'string', nullable: true },
+            ensembleDetails: { type: 'object', nullable: true, description: 'Ensemble members, per-dimension confidence and disagreements' },
+            analysisFlags: { type: 'array', items: { type: 'string', enum: ['instruction_like_description', 'description_echo', 'uniform_max_scores'] } },
+            privacyMode: { type: 'string', enum: ['blur', 'crop'], nullable: true, description: 'Face redaction applied before storage and analysis' },
+            facesRedacted: { type: 'integer', nullable: true },
             isGuest: { type: 'boolean', default: false },
             createdAt: { type: 'string', format: 'date-time' },
+            calibration: { allOf: [{ $ref: '#/components/schemas/ScoreCalibration' }], nullable: true, description: 'Included in review history and single-review responses' },
           },
         },
         GuestDevice: {
@@ -121,6 +149,25 @@ const options: swaggerJSDoc.Options = {
             createdAt: { type: 'string', format: 'date-time' },
           },
         },
+        ModerationLog: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            userId: { type: 'string', nullable: true },
+            guestDeviceId: { type: 'string', nullable: true },
+            decision: { type: 'string', enum: ['rejected', 'quarantined'] },
+            reason: { type: 'string', enum: ['explicit', 'minor', 'non_photo'] },
+            scores: { type: 'object', description: '0-1 score per category', additionalProperties: { type: 'number' } },
+            classifier: { type: 'string' },
+            imageDigest: { type: 'string' },
+            quarantinePublicId: { type: 'string', nullable: true },
+            appealStatus: { type: 'string', enum: ['none', 'pending', 'upheld', 'overturned'] },
+            appealMessage: { type: 'string', nullable: true },
+            appealedAt: { type: 'string', format: 'date-time', nullable: true },
+            resolvedAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
@@ -160,6 +207,103 @@ const options: swaggerJSDoc.Options = {
             improvementSuggestions: { type: 'array', items: { type: 'string' } },
             expertInsights: { type: 'array', items: { type: 'string' } },
             technicalFlaws: { type: 'array', items: { type: 'string' } },
+            garments: { type: 'array', items: { $ref: '#/components/schemas/Garment' }, description: 'Garment-level breakdown, most prominent first; empty for prompt versions before outfit-analysis@2' },
+            colorPalette: { allOf: [{ $ref: '#/components/schemas/ColorPalette' }], nullable: true, description: 'Measured from the photo; null when PALETTE_ENABLED is off or the image could not be decoded' },
+            confidence: { type: 'object', nullable: true, additionalProperties: { type: 'number' }, description: 'Ensemble mode: 0-1 agreement per dimension' },
+            disagreements: { type: 'array', items: { type: 'object' }, description: 'Dimensions where ensemble members disagree' },
+            ensemble: { type: 'object', nullable: true, description: 'Models combined into this analysis' },
+          },
+        },
+        Garment: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', example: 'blazer' },
+            colors: { type: 'array', items: { type: 'string', pattern: '^#[0-9a-f]{6}$' }, description: 'Dominant colors, most prominent first' },
+            pattern: { type: 'string', nullable: true },
+            fabric: { type: 'string', nullable: true, description: 'Estimated from the photo' },
+            fitNotes: { type: 'string', nullable: true },
+            score: { type: 'integer', minimum: 0, maximum: 100, nullable: true },
+            boundingBox: {
+              type: 'object',
+              nullable: true,
+              description: 'Position in the image as fractions (0-1) of its width and height, from the top left',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+              },
+            },
+          },
+        },
+        ColorPalette: {
+          type: 'object',
+          properties: {
+            swatches: {
+              type: 'array',
+              description: 'Dominant colors measured from the pixels, largest share first',
+              items: {
+                type: 'object',
+                properties: {
+                  hex: { type: 'string', pattern: '^#[0-9a-f]{6}$', example: '#1f2a44' },
+                  share: { type: 'number', minimum: 0, maximum: 1, example: 0.45 },
+                  neutral: { type: 'boolean', description: 'Black, white, grey or beige; ignored for the harmony' },
+                },
+              },
+            },
+            harmony: {
+              type: 'string',
+              enum: ['monochromatic', 'analogous', 'complementary', 'split_complementary', 'triadic', 'neutral', 'mixed'],
+            },
+            backgroundExcluded: { type: 'boolean', description: 'False when the background could not be separated and the whole photo was measured' },
+          },
+        },
+        Occasion: {
+          type: 'string',
+          description: 'Event or dress code the outfit is scored against',
+          enum: [
+            'wedding_guest', 'job_interview', 'office', 'business_meeting', 'date_night', 'party', 'funeral',
+            'graduation', 'religious_service', 'brunch', 'casual_outing', 'travel', 'festival', 'beach', 'gym',
+            'white_tie', 'black_tie', 'cocktail', 'business_formal', 'business_casual', 'smart_casual', 'casual',
+          ],
+        },
+        ReviewImage: {
+          type: 'object',
+          properties: {
+            role: { type: 'string', enum: ['front', 'side', 'back', 'shoes', 'detail'] },
+            imageUrl: { type: 'string', format: 'uri' },
+          },
+        },
+        ReviewMessage: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            role: { type: 'string', enum: ['user', 'assistant'] },
+            content: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        MessageUsage: {
+          type: 'object',
+          description: 'Follow-up questions left for a guest device (authenticated users get unlimited: true)',
+          properties: {
+            used: { type: 'integer', minimum: 0 },
+            limit: { type: 'integer', minimum: 0, default: 10 },
+            remaining: { type: 'integer', minimum: 0 },
+          },
+        },
+        ScoreCalibration: {
+          type: 'object',
+          description: 'overallScore relative to the wearer\'s usual score, learned from their earlier reviews and weighted by recency and their accept/rating feedback. Null until they have enough scored reviews.',
+          properties: {
+            baseline: { type: 'integer', minimum: 0, maximum: 100, description: 'The wearer\'s usual overall score before this review' },
+            delta: { type: 'integer', description: 'overallScore minus baseline' },
+            trend: {
+              type: 'string',
+              enum: ['personal_best', 'above_usual', 'usual', 'below_usual'],
+              description: 'personal_best: above every earlier score; above_usual / below_usual: at least CALIBRATION_NOTABLE_DELTA points from the baseline',
+            },
+            reviewsConsidered: { type: 'integer', minimum: 1, description: 'Earlier reviews the baseline was learned from' },
           },
         },
         GuestUsage: {
@@ -185,6 +329,10 @@ const options: swaggerJSDoc.Options = {
         name: 'Reviews',
         description: 'Unified outfit review and analysis endpoints (supports both authenticated users and guests)',
       },
+      {
+        name: 'Admin',
+        description: 'Operator endpoints (AI usage and cost), protected by ADMIN_API_KEY',
+      },
       {
         name: 'System',
         description: 'System health and status endpoints',
@@ -0,0 +1,360 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { analyzeWithProvider, OutfitAnalysis, UserProfile } from '../services/aiService';
+import { COMPARISON_DIMENSIONS } from '../services/comparisonService';
+import { AIProvider } from '../services/providers';
+import { measurePalette } from '../services/paletteService';
+import { estimateCostUsd, AiCall } from '../services/usageService';
+
+export type ScoreField = (typeof COMPARISON_DIMENSIONS)[number]['field'];
+
+export const SCORE_FIELDS: ScoreField[] = COMPARISON_DIMENSIONS.map(({ field }) => field);
+
+// One labelled photo; image paths are relative to the dataset file
+export interface EvalCase {
+  id: string;
+  image: string;
+  description?: string;
+  profile?: UserProfile;
+  expected: {
+    // Any of these counts as correct (case-insensitive)
+    styleCategories?: string[];
+    // Inclusive [min, max] per score field, on the 0-100 scale
+    scores?: Partial<Record<ScoreField, [number, number]>>;
+    // Defaults to ok; use no_outfit for photos without clothing
+    status?: 'ok' | 'no_outfit';
+  };
+}
+
+export interface EvalDataset {
+  name: string;
+  baseDir: string;
+  cases: EvalCase[];
+}
+
+export interface EvalRunOptions {
+  runs: number;
+  promptVersion: string;
+  onRunComplete?: (testCase: EvalCase, run: EvalRun) => void;
+}
+
+export interface EvalRun {
+  run: number;
+  status: 'ok' | 'no_outfit' | 'failed';
+  styleCategory: string | null;
+  scores: Partial<Record<ScoreField, number>>;
+  // Why the run did not meet the case's expectations; empty when it passed
+  failures: string[];
+  error: string | null;
+  latencyMs: number;
+  costUsd: number | null;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  image: string;
+  passed: boolean;
+  passRate: number;
+  styleAccuracy: number | null;
+  // Population standard deviation of each score across successful runs
+  scoreStdDev: Partial<Record<ScoreField, number>>;
+  runs: EvalRun[];
+}
+
+export interface EvalSummary {
+  cases: number;
+  casesPassed: number;
+  runs: number;
+  runsPassed: number;
+  runsFailed: number;
+  passRate: number;
+  styleAccuracy: number | null;
+  meanScoreStdDev: Partial<Record<ScoreField, number>>;
+  maxScoreStdDev: number;
+  averageLatencyMs: number;
+  costUsd: number | null;
+}
+
+export interface EvalReport {
+  dataset: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  runsPerCase: number;
+  startedAt: string;
+  finishedAt: string;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+export interface BaselineComparison {
+  baseline: { provider: string; model: string; promptVersion: string; passRate: number; styleAccuracy: number | null };
+  passRateDelta: number;
+  styleAccuracyDelta: number | null;
+  // Cases that passed in the baseline and fail now
+  regressedCases: string[];
+  fixedCases: string[];
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+/**
+ * Read and validate a dataset file. Throws with every problem found so a broken
+ * dataset is fixed in one pass.
+ */
+export function loadDataset(datasetPath: string): EvalDataset {
+  const resolved = path.resolve(datasetPath);
+  const raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  const baseDir = path.dirname(resolved);
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw.cases) || raw.cases.length === 0) {
+    throw new Error(`${datasetPath}: "cases" must be a non-empty array`);
+  }
+
+  const ids = new Set<string>();
+  raw.cases.forEach((testCase: EvalCase, index: number) => {
+    const label = testCase?.id ? `case "${testCase.id}"` : `case #${index + 1}`;
+
+    if (typeof testCase?.id !== 'string' || !testCase.id) {
+      errors.push(`${label}: id is required`);
+    } else if (ids.has(testCase.id)) {
+      errors.push(`${label}: duplicate id`);
+    } else {
+      ids.add(testCase.id);
+    }
+
+    if (typeof testCase?.image !== 'string') {
+      errors.push(`${label}: image is required`);
+    } else if (!IMAGE_MIME_TYPES[path.extname(testCase.image).toLowerCase()]) {
+      errors.push(`${label}: unsupported image type ${path.extname(testCase.image) || '(none)'}`);
+    } else if (!fs.existsSync(path.resolve(baseDir, testCase.image))) {
+      errors.push(`${label}: image not found: ${testCase.image}`);
+    }
+
+    const expected = testCase?.expected;
+    if (!expected || typeof expected !== 'object') {
+      errors.push(`${label}: expected is required`);
+      return;
+    }
+    if (expected.status && !['ok', 'no_outfit'].includes(expected.status)) {
+      errors.push(`${label}: expected.status must be ok or no_outfit`);
+    }
+    if (expected.styleCategories && (!Array.isArray(expected.styleCategories) || expected.styleCategories.length === 0)) {
+      errors.push(`${label}: expected.styleCategories must be a non-empty array`);
+    }
+    Object.entries(expected.scores ?? {}).forEach(([field, range]) => {
+      if (!SCORE_FIELDS.includes(field as ScoreField)) {
+        errors.push(`${label}: unknown score field ${field}`);
+      } else if (!Array.isArray(range) || range.length !== 2 || !(range[0] <= range[1])) {
+        errors.push(`${label}: expected.scores.${field} must be [min, max]`);
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset ${datasetPath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    name: raw.name || path.basename(resolved, path.extname(resolved)),
+    baseDir,
+    cases: raw.cases,
+  };
+}
+
+/**
+ * Run every case `runs` times through the provider, sequentially, and score the
+ * results against the labels. Provider errors fail the run, not the evaluation.
+ */
+export async function runEvaluation(
+  dataset: EvalDataset,
+  provider: AIProvider,
+  options: EvalRunOptions
+): Promise<EvalReport> {
+  const startedAt = new Date().toISOString();
+  const cases: EvalCaseResult[] = [];
+  let model = provider.model;
+
+  for (const testCase of dataset.cases) {
+    const imageBytes = fs.readFileSync(path.resolve(dataset.baseDir, testCase.image));
+    const imageUrl = `data:${IMAGE_MIME_TYPES[path.extname(testCase.image).toLowerCase()]};base64,${imageBytes.toString('base64')}`;
+    // Same seed as production, so deterministic providers answer the same way on every run
+    const seed = `${crypto.createHash('sha256').update(imageBytes).digest('hex')}:${(testCase.description || '').trim()}`;
+    // Production grounds the analysis in the measured palette, so the evaluation does too
+    const palette = await measurePalette(imageBytes);
+    const runs: EvalRun[] = [];
+
+    for (let run = 1; run <= options.runs; run++) {
+      const aiCalls: AiCall[] = [];
+      const startedRun = Date.now();
+      let analysis: OutfitAnalysis | null = null;
+      let error: string | null = null;
+
+      try {
+        const result = await analyzeWithProvider(
+          provider,
+          imageUrl,
+          testCase.profile,
+          testCase.description,
+          { seed, aiCalls, promptVersion: options.promptVersion, palette }
+        );
+        analysis = result.analysis;
+        model = result.model;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      const evalRun = scoreRun(testCase, run, analysis, error, Date.now() - startedRun, aiCalls);
+      runs.push(evalRun);
+      options.onRunComplete?.(testCase, evalRun);
+    }
+
+    cases.push(summarizeCase(testCase, runs));
+  }
+
+  return {
+    dataset: dataset.name,
+    provider: provider.name,
+    model,
+    promptVersion: options.promptVersion,
+    runsPerCase: options.runs,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    summary: summarizeReport(cases),
+    cases,
+  };
+}
+
+/**
+ * How the report differs from an earlier one over the same dataset
+ */
+export function compareWithBaseline(report: EvalReport, baseline: EvalReport): BaselineComparison {
+  const baselinePassed = new Map(baseline.cases.map(testCase => [testCase.id, testCase.passed]));
+  const shared = report.cases.filter(testCase => baselinePassed.has(testCase.id));
+
+  return {
+    baseline: {
+      provider: baseline.provider,
+      model: baseline.model,
+      promptVersion: baseline.promptVersion,
+      passRate: baseline.summary.passRate,
+      styleAccuracy: baseline.summary.styleAccuracy,
+    },
+    passRateDelta: round(report.summary.passRate - baseline.summary.passRate),
+    styleAccuracyDelta: report.summary.styleAccuracy !== null && baseline.summary.styleAccuracy !== null
+      ? round(report.summary.styleAccuracy - baseline.summary.styleAccuracy)
+      : null,
+    regressedCases: shared.filter(testCase => baselinePassed.get(testCase.id) && !testCase.passed).map(testCase => testCase.id),
+    fixedCases: shared.filter(testCase => !baselinePassed.get(testCase.id) && testCase.passed).map(testCase => testCase.id),
+  };
+}
+
+function scoreRun(
+  testCase: EvalCase,
+  run: number,
+  analysis: OutfitAnalysis | null,
+  error: string | null,
+  latencyMs: number,
+  aiCalls: AiCall[]
+): EvalRun {
+  const costs = aiCalls.map(call => estimateCostUsd(call.model, call.usage));
+  const costUsd = costs.some(cost => cost === null) ? null : costs.reduce<number>((sum, cost) => sum + cost!, 0);
+
+  if (!analysis) {
+    return { run, status: 'failed', styleCategory: null, scores: {}, failures: [`failed: ${error}`], error, latencyMs, costUsd };
+  }
+
+  const status = analysis.styleCategory.toLowerCase() === 'no outfit' ? 'no_outfit' : 'ok';
+  const scores = Object.fromEntries(SCORE_FIELDS.map(field => [field, analysis[field]])) as Record<ScoreField, number>;
+  const failures: string[] = [];
+  const expectedStatus = testCase.expected.status ?? 'ok';
+
+  if (status !== expectedStatus) {
+    failures.push(`status ${status}, expected ${expectedStatus}`);
+  }
+
+  const styles = testCase.expected.styleCategories?.map(style => style.toLowerCase());
+  if (styles && !styles.includes(analysis.styleCategory.toLowerCase())) {
+    failures.push(`style "${analysis.styleCategory}", expected ${styles.join(' | ')}`);
+  }
+
+  Object.entries(testCase.expected.scores ?? {}).forEach(([field, [min, max]]) => {
+    const score = scores[field as ScoreField];
+    if (score < min || score > max) {
+      failures.push(`${field} ${score}, expected ${min}-${max}`);
+    }
+  });
+
+  return { run, status, styleCategory: analysis.styleCategory, scores, failures, error: null, latencyMs, costUsd };
+}
+
+function summarizeCase(testCase: EvalCase, runs: EvalRun[]): EvalCaseResult {
+  const completed = runs.filter(run => run.status !== 'failed');
+  const styles = testCase.expected.styleCategories?.map(style => style.toLowerCase());
+  const passedRuns = runs.filter(run => run.failures.length === 0).length;
+
+  return {
+    id: testCase.id,
+    image: testCase.image,
+    // A case passes only when every run does; a flaky case is a failing case
+    passed: passedRuns === runs.length,
+    passRate: round(passedRuns / runs.length),
+    styleAccuracy: styles
+      ? round(runs.filter(run => run.styleCategory && styles.includes(run.styleCategory.toLowerCase())).length / runs.length)
+      : null,
+    scoreStdDev: completed.length > 1
+      ? Object.fromEntries(SCORE_FIELDS.map(field => [field, round(standardDeviation(completed.map(run => run.scores[field]!)))]))
+      : {},
+    runs,
+  };
+}
+
+function summarizeReport(cases: EvalCaseResult[]): EvalSummary {
+  const runs = cases.flatMap(testCase => testCase.runs);
+  const labelledStyles = cases.filter(testCase => testCase.styleAccuracy !== null);
+  const withVariance = cases.filter(testCase => Object.keys(testCase.scoreStdDev).length > 0);
+  const costs = runs.map(run => run.costUsd);
+
+  const meanScoreStdDev = withVariance.length > 0
+    ? Object.fromEntries(SCORE_FIELDS.map(field => [
+      field,
+      round(average(withVariance.map(testCase => testCase.scoreStdDev[field]!))),
+    ])) as Partial<Record<ScoreField, number>>
+    : {};
+
+  return {
+    cases: cases.length,
+    casesPassed: cases.filter(testCase => testCase.passed).length,
+    runs: runs.length,
+    runsPassed: runs.filter(run => run.failures.length === 0).length,
+    runsFailed: runs.filter(run => run.status === 'failed').length,
+    passRate: round(runs.filter(run => run.failures.length === 0).length / runs.length),
+    styleAccuracy: labelledStyles.length > 0 ? round(average(labelledStyles.map(testCase => testCase.styleAccuracy!))) : null,
+    meanScoreStdDev,
+    maxScoreStdDev: Math.max(0, ...withVariance.flatMap(testCase => Object.values(testCase.scoreStdDev))),
+    averageLatencyMs: Math.round(average(runs.map(run => run.latencyMs))),
+    costUsd: costs.some(cost => cost === null) ? null : round(costs.reduce<number>((sum, cost) => sum + cost!, 0), 6),
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map(value => (value - mean) ** 2)));
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,101 @@
+import { BaselineComparison, EvalReport, SCORE_FIELDS } from './evaluation';
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function percent(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function signedPercent(value: number | null): string {
+  if (value === null) return '-';
+  return `${value > 0 ? '+' : ''}${percent(value)}`;
+}
+
+/**
+ * Self-contained HTML page for an evaluation report, viewable without a server
+ */
+export function renderHtmlReport(report: EvalReport, comparison?: BaselineComparison | null): string {
+  const { summary } = report;
+
+  const baselineSection = comparison
+    ? `
+  <h2>Against baseline</h2>
+  <table>
+    <tr><th>Baseline</th><td>${escapeHtml(comparison.baseline.provider)} / ${escapeHtml(comparison.baseline.model)} / ${escapeHtml(comparison.baseline.promptVersion)}</td></tr>
+    <tr><th>Pass rate</th><td>${percent(comparison.baseline.passRate)} → ${percent(summary.passRate)} (${signedPercent(comparison.passRateDelta)})</td></tr>
+    <tr><th>Style accuracy</th><td>${percent(comparison.baseline.styleAccuracy)} → ${percent(summary.styleAccuracy)} (${signedPercent(comparison.styleAccuracyDelta)})</td></tr>
+    <tr><th>Regressed cases</th><td class="${comparison.regressedCases.length > 0 ? 'fail' : ''}">${escapeHtml(comparison.regressedCases.join(', ') || 'none')}</td></tr>
+    <tr><th>Fixed cases</th><td>${escapeHtml(comparison.fixedCases.join(', ') || 'none')}</td></tr>
+  </table>`
+    : '';
+
+  const caseRows = report.cases.map(testCase => {
+    const failures = [...new Set(testCase.runs.flatMap(run => run.failures))];
+    const styles = testCase.runs.map(run => run.styleCategory ?? 'failed').join(', ');
+    const spread = Object.entries(testCase.scoreStdDev)
+      .filter(([, stdDev]) => stdDev > 0)
+      .map(([field, stdDev]) => `${field} ±${stdDev}`)
+      .join('<br>');
+
+    return `
+    <tr>
+      <td class="${testCase.passed ? 'pass' : 'fail'}">${testCase.passed ? 'PASS' : 'FAIL'}</td>
+      <td>${escapeHtml(testCase.id)}<div class="muted">${escapeHtml(testCase.image)}</div></td>
+      <td>${percent(testCase.passRate)}</td>
+      <td>${escapeHtml(styles)}</td>
+      <td>${spread || '<span class="muted">stable</span>'}</td>
+      <td>${failures.map(escapeHtml).join('<br>')}</td>
+    </tr>`;
+  }).join('');
+
+  const varianceRows = SCORE_FIELDS
+    .filter(field => summary.meanScoreStdDev[field] !== undefined)
+    .map(field => `<tr><th>${field}</th><td>±${summary.meanScoreStdDev[field]}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Outfit analysis eval - ${escapeHtml(report.dataset)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #1f2937; }
+    table { border-collapse: collapse; margin-bottom: 2rem; }
+    th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.75rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+    th { background: #f9fafb; }
+    .pass { color: #047857; font-weight: 600; }
+    .fail { color: #b91c1c; font-weight: 600; }
+    .muted { color: #9ca3af; font-size: 0.8rem; }
+  </style>
+</head>
+<body>
+  <h1>Outfit analysis eval: ${escapeHtml(report.dataset)}</h1>
+  <table>
+    <tr><th>Provider / model</th><td>${escapeHtml(report.provider)} / ${escapeHtml(report.model)}</td></tr>
+    <tr><th>Prompt version</th><td>${escapeHtml(report.promptVersion)}</td></tr>
+    <tr><th>Runs per case</th><td>${report.runsPerCase}</td></tr>
+    <tr><th>Cases passed</th><td>${summary.casesPassed} / ${summary.cases}</td></tr>
+    <tr><th>Run pass rate</th><td>${percent(summary.passRate)} (${summary.runsFailed} failed runs)</td></tr>
+    <tr><th>Style accuracy</th><td>${percent(summary.styleAccuracy)}</td></tr>
+    <tr><th>Largest score std dev</th><td>±${summary.maxScoreStdDev}</td></tr>
+    <tr><th>Average latency</th><td>${summary.averageLatencyMs} ms</td></tr>
+    <tr><th>Estimated cost</th><td>${summary.costUsd === null ? 'unpriced model' : `$${summary.costUsd}`}</td></tr>
+    <tr><th>Ran</th><td>${escapeHtml(report.startedAt)} - ${escapeHtml(report.finishedAt)}</td></tr>
+  </table>
+${baselineSection}
+  ${varianceRows ? `<h2>Mean score std dev across runs</h2>\n  <table>${varianceRows}</table>` : ''}
+
+  <h2>Cases</h2>
+  <table>
+    <tr><th>Result</th><th>Case</th><th>Runs passed</th><th>Style per run</th><th>Score spread</th><th>Failures</th></tr>${caseRows}
+  </table>
+</body>
+</html>
+`;
+}
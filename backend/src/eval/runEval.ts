@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { config } from '../config/config';
+import { AI_PROVIDER_NAMES, AIProviderName, createProvider } from '../services/providers';
+import { DEFAULT_OUTFIT_ANALYSIS_PROMPT_VERSION, getPromptTemplate } from '../services/prompts';
+import { compareWithBaseline, loadDataset, runEvaluation, EvalReport } from './evaluation';
+import { renderHtmlReport } from './htmlReport';
+
+const USAGE = `Usage: npm run eval -- --dataset <file> [options]
+
+Runs a labelled image set through an AI provider and writes report.json and report.html.
+
+Options:
+  --dataset <file>         Dataset JSON (see eval/dataset.example.json)
+  --provider <name>        ${AI_PROVIDER_NAMES.join(' | ')} (default: AI_PROVIDER, currently ${config.ai.provider})
+  --runs <n>               Runs per image, to measure score variance (default: 3)
+  --prompt-version <id>    Prompt template version (default: ${DEFAULT_OUTFIT_ANALYSIS_PROMPT_VERSION})
+  --out <dir>              Report directory (default: eval-reports/<dataset>-<timestamp>)
+  --baseline <file>        Earlier report.json to compare against
+  --min-pass-rate <0-1>    Fail when the run pass rate is below this
+  --max-regression <0-1>   Fail when the pass rate drops more than this below the baseline (default: 0.05)
+
+The model comes from the provider's usual settings (AI_MODEL, OPENAI_MODEL, LOCAL_AI_MODEL).
+Exits with 1 when a gate fails, so it can guard a model or prompt change in CI.`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function parseFraction(value: string | undefined, flag: string): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0 || parsed > 1) {
+    fail(`${flag} must be between 0 and 1`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      provider: { type: 'string', default: config.ai.provider },
+      runs: { type: 'string', default: '3' },
+      'prompt-version': { type: 'string', default: DEFAULT_OUTFIT_ANALYSIS_PROMPT_VERSION },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      'min-pass-rate': { type: 'string' },
+      'max-regression': { type: 'string', default: '0.05' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.dataset) fail('--dataset is required');
+
+  const runs = parseInt(values.runs!, 10);
+  if (!Number.isInteger(runs) || runs < 1) fail('--runs must be a positive integer');
+
+  const providerName = values.provider!;
+  if (!AI_PROVIDER_NAMES.includes(providerName as AIProviderName)) {
+    fail(`Unknown provider "${providerName}"`);
+  }
+  // Unlike the API, never fall back to the mock: the report would describe the wrong model
+  const provider = createProvider(providerName as AIProviderName);
+  if (!provider) fail(`Provider "${providerName}" is not configured (missing API key)`);
+
+  const promptVersion = values['prompt-version']!;
+  try {
+    getPromptTemplate(promptVersion);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const minPassRate = parseFraction(values['min-pass-rate'], '--min-pass-rate');
+  const maxRegression = parseFraction(values['max-regression'], '--max-regression')!;
+  const baseline: EvalReport | null = values.baseline
+    ? JSON.parse(fs.readFileSync(values.baseline, 'utf8'))
+    : null;
+
+  const dataset = loadDataset(values.dataset!);
+  console.log(`🧪 Evaluating ${dataset.cases.length} images x ${runs} runs with ${provider.name}/${provider.model} (${promptVersion})`);
+
+  const report = await runEvaluation(dataset, provider, {
+    runs,
+    promptVersion,
+    onRunComplete: (testCase, run) => {
+      const result = run.failures.length === 0 ? '✅' : '❌';
+      console.log(`${result} ${testCase.id} #${run.run}: ${run.styleCategory ?? run.error} (${run.latencyMs}ms)`);
+    },
+  });
+
+  const comparison = baseline ? compareWithBaseline(report, baseline) : null;
+  const outDir = path.resolve(
+    values.out || path.join('eval-reports', `${dataset.name}-${report.startedAt.replace(/[:.]/g, '-')}`)
+  );
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'report.json'), JSON.stringify({ ...report, baselineComparison: comparison }, null, 2));
+  fs.writeFileSync(path.join(outDir, 'report.html'), renderHtmlReport(report, comparison));
+
+  const { summary } = report;
+  console.log(`\n📊 ${summary.casesPassed}/${summary.cases} images passed, run pass rate ${summary.passRate}, ` +
+    `style accuracy ${summary.styleAccuracy ?? '-'}, largest score std dev ±${summary.maxScoreStdDev}`);
+  console.log(`📄 Report written to ${outDir}`);
+
+  const gateFailures: string[] = [];
+  if (minPassRate !== null && summary.passRate < minPassRate) {
+    gateFailures.push(`pass rate ${summary.passRate} is below --min-pass-rate ${minPassRate}`);
+  }
+  if (comparison && -comparison.passRateDelta > maxRegression) {
+    gateFailures.push(`pass rate dropped ${-comparison.passRateDelta} from the baseline (max ${maxRegression}); ` +
+      `regressed: ${comparison.regressedCases.join(', ') || 'none'}`);
+  }
+
+  gateFailures.forEach(message => console.error(`❌ ${message}`));
+  return gateFailures.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
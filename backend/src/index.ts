@@ -8,8 +8,13 @@ import { initializeProduction, productionConfig, validateProductionConfig } from
 import { authRoutes } from './routes/auth';
 import { profileRoutes } from './routes/profile';
 import { reviewRoutes } from './routes/reviews';
+import { adminRoutes } from './routes/admin';
+import { startAnalysisWorker } from './services/analysisJobs';
+import { apiMessage } from './services/messageCatalog';
+import { getAIProviderHealth } from './services/providers';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
+import { localeMiddleware } from './middleware/locale';
 import { 
   mobileSecurityMiddleware, 
   securityLogger, 
@@ -89,21 +94,26 @@ const corsConfig = config.nodeEnv === 'production' ? productionConfig.cors : {
     'X-Platform',
     'X-App-Version',
     'X-Device-ID',
-    'X-Device-Fingerprint'
+    'X-Device-Fingerprint',
+    'X-Mock-Scenario',
+    'X-Moderation-Scenario'
   ],
   exposedHeaders: ['X-RateLimit-Remaining', 'X-RateLimit-Limit'],
 };
 
 app.use(cors(corsConfig));
 
+// Request language, and translated error messages (before the rate limiters, whose messages it translates)
+app.use(localeMiddleware);
+
 // Environment-specific rate limiting
 const rateLimitConfig = config.nodeEnv === 'production' ? productionConfig.rateLimits : {
   general: {
     windowMs: 15 * 60 * 1000,
     max: 100,
     message: {
-      error: 'Too many requests',
-      message: 'Please try again later',
+      error: apiMessage('rateLimit.tooManyRequests'),
+      message: apiMessage('rateLimit.tryLater'),
       retryAfter: 15 * 60,
     },
   },
@@ -111,8 +121,8 @@ const rateLimitConfig = config.nodeEnv === 'production' ? productionConfig.rateL
     windowMs: 15 * 60 * 1000,
     max: 5,
     message: {
-      error: 'Too many login attempts',
-      message: 'Please wait 15 minutes before trying again',
+      error: apiMessage('rateLimit.tooManyLogins'),
+      message: apiMessage('rateLimit.loginWait'),
       retryAfter: 15 * 60,
     },
     skipSuccessfulRequests: true,
@@ -121,8 +131,8 @@ const rateLimitConfig = config.nodeEnv === 'production' ? productionConfig.rateL
     windowMs: 60 * 1000,
     max: 10,
     message: {
-      error: 'Upload limit exceeded',
-      message: 'Please wait a moment before uploading again',
+      error: apiMessage('rateLimit.uploadLimit'),
+      message: apiMessage('rateLimit.uploadWait'),
       retryAfter: 60,
     },
   },
@@ -200,9 +210,51 @@ app.use(sanitizeInput);
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *                 ai:
+ *                   type: object
+ *                   description: |
+ *                     AI provider chain and circuit breakers. `status` is `ok` while the primary provider
+ *                     is available, `degraded` while fallbacks (or the mock provider) answer, and
+ *                     `unavailable` while every configured provider's circuit is open. The service
+ *                     itself stays healthy in all three cases.
+ *                   properties:
+ *                     status:
+ *                       type: string
+ *                       enum: [ok, degraded, unavailable]
+ *                     chain:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           provider:
+ *                             type: string
+ *                           model:
+ *                             type: string
+ *                           configured:
+ *                             type: boolean
+ *                           breaker:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               state:
+ *                                 type: string
+ *                                 enum: [closed, open, half_open]
+ *                               consecutiveFailures:
+ *                                 type: integer
+ *                               openedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               retryAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               lastError:
+ *                                 type: string
+ *                                 nullable: true
  */
 app.get('/health', (req, res) => {
-  res.json({ status: 'OK', timestamp: new Date().toISOString() });
+  res.json({ status: 'OK', timestamp: new Date().toISOString(), ai: getAIProviderHealth() });
 });
 
 // API Documentation
@@ -217,6 +269,7 @@ app.get('/api/schema', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/profile', profileRoutes);
 app.use('/api/reviews', reviewRoutes); // Now supports both authenticated users and guests
+app.use('/api/admin', adminRoutes);
 
 // Error handling middleware (must be last)
 app.use(notFoundHandler);
@@ -228,4 +281,8 @@ app.listen(PORT, () => {
   console.log(`🚀 Fashion Agent API server running on port ${PORT}`);
   console.log(`📊 Environment: ${config.nodeEnv}`);
   console.log(`🔗 Database: ${config.database.url ? 'Connected' : 'Not configured'}`);
+
+  if (config.analysisJobs.workerEnabled) {
+    startAnalysisWorker();
+  }
 });
@@ -11,6 +11,8 @@ export interface UploadResult {
   publicId: string;
   url: string;
   secureUrl: string;
+  // 64-bit perceptual hash (hex) computed by Cloudinary
+  phash?: string;
 }
 
 export const uploadImage = async (
@@ -24,6 +26,7 @@ export const uploadImage = async (
         resource_type: 'image',
         folder: folder || config.cloudinary.uploadFolder,
         public_id: filename.replace(/\.[^/.]+$/, ''), // Remove extension
+        phash: true,
         transformation: [
           { width: 1000, height: 1000, crop: 'limit' },
           { quality: 'auto:good' }
@@ -37,6 +40,7 @@ export const uploadImage = async (
             publicId: result.public_id,
             url: result.url,
             secureUrl: result.secure_url,
+            phash: result.phash,
           });
         } else {
           reject(new Error('Upload failed'));
@@ -46,8 +50,34 @@ export const uploadImage = async (
   });
 };
 
-export const deleteImage = async (publicId: string): Promise<void> => {
-  await cloudinary.uploader.destroy(publicId);
+// Private delivery type: no public URL, viewable only through signed admin requests
+export const uploadQuarantinedImage = async (
+  buffer: Buffer,
+  filename: string
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    cloudinary.uploader.upload_stream(
+      {
+        resource_type: 'image',
+        type: 'private',
+        folder: `${config.cloudinary.uploadFolder}/quarantine`,
+        public_id: filename.replace(/\.[^/.]+$/, ''),
+      },
+      (error, result) => {
+        if (error) {
+          reject(error);
+        } else if (result) {
+          resolve(result.public_id);
+        } else {
+          reject(new Error('Upload failed'));
+        }
+      }
+    ).end(buffer);
+  });
+};
+
+export const deleteImage = async (publicId: string, type: 'upload' | 'private' = 'upload'): Promise<void> => {
+  await cloudinary.uploader.destroy(publicId, { type });
 };
 
 export { cloudinary };
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+/**
+ * SHA-256 digest of the raw uploaded image bytes
+ */
+export const hashImageBuffer = (buffer: Buffer): string => {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+};
+
+/**
+ * Number of differing bits between two hex-encoded perceptual hashes,
+ * or null when they cannot be compared
+ */
+export const perceptualHashDistance = (a: string, b: string): number | null => {
+  if (a.length !== b.length || !/^[0-9a-f]+$/i.test(a + b)) {
+    return null;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+};
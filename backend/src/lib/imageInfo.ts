@@ -0,0 +1,62 @@
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'heic';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  // Null when the header does not state them (HEIC, truncated files)
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Format and dimensions read from the image header, or null when the bytes are
+ * not a recognized raster image (SVG, PDF, text renamed to .jpg)
+ */
+export const readImageInfo = (buffer: Buffer): ImageInfo | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return { format: 'jpeg', ...readJpegSize(buffer) };
+  }
+  if (buffer.length >= 24 && buffer.toString('latin1', 1, 4) === 'PNG') {
+    return { format: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+  if (buffer.length >= 10 && buffer.toString('latin1', 0, 3) === 'GIF') {
+    return { format: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+  if (buffer.length >= 16 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return { format: 'webp', ...readWebpSize(buffer) };
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 4, 8) === 'ftyp'
+    && /^(heic|heix|mif1|msf1)$/.test(buffer.toString('latin1', 8, 12))) {
+    return { format: 'heic', width: null, height: null };
+  }
+  return null;
+};
+
+// Dimensions are in the first start-of-frame segment
+function readJpegSize(buffer: Buffer): Pick<ImageInfo, 'width' | 'height'> {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) break;
+    const marker = buffer[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return { width: null, height: null };
+}
+
+function readWebpSize(buffer: Buffer): Pick<ImageInfo, 'width' | 'height'> {
+  const chunk = buffer.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+  return { width: null, height: null };
+}
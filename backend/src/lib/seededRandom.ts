@@ -0,0 +1,13 @@
+/**
+ * mulberry32 - small seedable PRNG: the same 32-bit seed always yields the same
+ * sequence of numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
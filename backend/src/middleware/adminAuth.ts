@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/config';
+import { apiMessage } from '../services/messageCatalog';
+
+/**
+ * Require the X-Admin-Key header to match ADMIN_API_KEY.
+ * Admin endpoints are disabled entirely when no key is configured.
+ */
+export const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.admin.apiKey;
+  if (!expected) {
+    return res.status(404).json({ error: apiMessage('admin.notFound') });
+  }
+
+  const provided = Buffer.from(req.get('X-Admin-Key') || '');
+  const expectedBuffer = Buffer.from(expected);
+  const matches = provided.length === expectedBuffer.length && crypto.timingSafeEqual(provided, expectedBuffer);
+
+  if (!matches) {
+    return res.status(403).json({ error: apiMessage('admin.invalidKey'), code: 'INVALID_ADMIN_KEY' });
+  }
+
+  next();
+};
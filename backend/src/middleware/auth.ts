@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/config';
+import { apiMessage } from '../services/messageCatalog';
 
 export interface AuthRequest extends Request {
   userId?: string;
@@ -11,12 +12,12 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
   if (!token) {
-    return res.status(401).json({ error: 'Access token required' });
+    return res.status(401).json({ error: apiMessage('auth.tokenRequired') });
   }
 
   jwt.verify(token, config.jwt.secret, (err, decoded: any) => {
     if (err) {
-      return res.status(403).json({ error: 'Invalid or expired token' });
+      return res.status(403).json({ error: apiMessage('auth.invalidOrExpiredToken') });
     }
     
     req.userId = decoded.userId;
@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config/config';
+import { ApiMessage, apiMessage } from '../services/messageCatalog';
 
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  // What the client is told instead of the (English) error message
+  userMessage?: ApiMessage;
 }
 
 export const errorHandler = (
@@ -23,7 +26,7 @@ export const errorHandler = (
   });
 
   res.status(statusCode).json({
-    error: message || 'Internal Server Error',
+    error: err.userMessage ?? (message || apiMessage('server.internalError')),
     ...(config.nodeEnv === 'development' && { stack: err.stack }),
   });
 };
@@ -31,6 +34,7 @@ export const errorHandler = (
 export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
   const error = new Error(`Route ${req.originalUrl} not found`) as AppError;
   error.statusCode = 404;
+  error.userMessage = apiMessage('server.routeNotFound', { route: req.originalUrl });
   next(error);
 };
 
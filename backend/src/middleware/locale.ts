@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_LOCALE, Locale, parseAcceptLanguage } from '../services/localeService';
+import { localizeMessages } from '../services/messageCatalog';
+
+export interface LocalizedRequest extends Request {
+  // Language of the analysis and API messages; authentication replaces it with the profile setting
+  locale?: Locale;
+}
+
+/**
+ * Take the request language from Accept-Language and write the API messages in
+ * response bodies in it. Messages are written when the response is sent, so a
+ * language set by later middleware still applies.
+ */
+export const localeMiddleware = (req: LocalizedRequest, res: Response, next: NextFunction) => {
+  req.locale = parseAcceptLanguage(req.headers['accept-language']) ?? DEFAULT_LOCALE;
+  res.vary('Accept-Language');
+
+  const json = res.json.bind(res);
+  res.json = ((body?: any) => {
+    const locale = req.locale ?? DEFAULT_LOCALE;
+    res.setHeader('Content-Language', locale);
+    return json(localizeMessages(body, locale));
+  }) as Response['json'];
+
+  next();
+};
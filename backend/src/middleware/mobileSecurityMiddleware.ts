@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import { apiMessage } from '../services/messageCatalog';
 
 // Extended Request interface to include mobile security headers
 interface MobileRequest extends Request {
@@ -40,8 +41,8 @@ export const mobileSecurityMiddleware = (req: MobileRequest, res: Response, next
       if (timeDifference > maxTimeDifference) {
         console.warn(`⚠️ Request timestamp too old: ${timeDifference}ms difference`);
         return res.status(400).json({
-          error: 'Invalid request timestamp',
-          message: 'Request timestamp is too old or too far in the future',
+          error: apiMessage('security.invalidTimestamp'),
+          message: apiMessage('security.timestampOutOfRange'),
         });
       }
       
@@ -100,8 +101,8 @@ export const requireValidSignature = (req: MobileRequest, res: Response, next: N
 
   if (isSensitiveOperation && !req.isValidSignature) {
     return res.status(400).json({
-      error: 'Invalid request signature',
-      message: 'This operation requires a valid request signature',
+      error: apiMessage('security.invalidSignature'),
+      message: apiMessage('security.signatureRequired'),
     });
   }
 
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from './errorHandler';
+import { apiMessage } from '../services/messageCatalog';
 
 export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
   const error = new Error(`Route ${req.originalUrl} not found`) as AppError;
   error.statusCode = 404;
+  error.userMessage = apiMessage('server.routeNotFound', { route: req.originalUrl });
   next(error);
 };
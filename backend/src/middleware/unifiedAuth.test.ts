@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response } from 'express';
+import { config } from '../config/config';
+import { createMessageLimitCheck, MessageLimitOptions, UnifiedAuthRequest } from './unifiedAuth';
+
+// Records what the middleware sent, or that it called next
+async function runMiddleware(req: Partial<UnifiedAuthRequest>, options: MessageLimitOptions) {
+  const result: { status?: number; body?: any; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = JSON.parse(JSON.stringify(body));
+      return this;
+    },
+  } as unknown as Response;
+  await createMessageLimitCheck(options)(req as UnifiedAuthRequest, res, () => { result.next = true; });
+  return result;
+}
+
+describe('checkMessageLimits', () => {
+  const guest = { isGuest: true, guestSessionId: 'device-1234567890' };
+  const questionsAsked = (count: number): MessageLimitOptions => ({ countGuestMessages: async () => count });
+
+  it('lets a guest ask until CHAT_GUEST_MESSAGE_LIMIT questions were answered', async () => {
+    const result = await runMiddleware(guest, questionsAsked(config.chat.guestMessageLimit - 1));
+
+    assert.equal(result.next, true);
+  });
+
+  it('refuses the next question with MESSAGE_LIMIT_REACHED', async () => {
+    const result = await runMiddleware(guest, questionsAsked(config.chat.guestMessageLimit));
+
+    assert.equal(result.next, false);
+    assert.equal(result.status, 429);
+    assert.equal(result.body.code, 'MESSAGE_LIMIT_REACHED');
+    assert.equal(result.body.used, config.chat.guestMessageLimit);
+  });
+
+  it('does not limit signed-in users', async () => {
+    const result = await runMiddleware(
+      { isAuthenticated: true, isGuest: false, userId: 'user-1' },
+      { countGuestMessages: async () => assert.fail('signed-in users have no guest device') },
+    );
+
+    assert.equal(result.next, true);
+  });
+});
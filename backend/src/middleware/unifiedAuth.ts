@@ -2,8 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { findExceededBudget } from '../services/usageService';
+import { isLocale } from '../services/localeService';
+import { apiMessage } from '../services/messageCatalog';
+import { LocalizedRequest } from './locale';
 
-export interface UnifiedAuthRequest extends Request {
+export interface UnifiedAuthRequest extends LocalizedRequest {
   // User authentication
   userId?: string;
   isAuthenticated?: boolean;
@@ -49,7 +54,7 @@ export async function unifiedAuthMiddleware(
   } catch (error) {
     console.error('❌ Unified auth error:', error);
     return res.status(500).json({
-      error: 'Authentication failed',
+      error: apiMessage('auth.failed'),
       code: 'AUTH_ERROR'
     });
   }
@@ -69,12 +74,13 @@ async function handleJWTAuth(
     
     // Verify user exists
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
+      where: { id: decoded.userId },
+      include: { profile: { select: { locale: true } } },
     });
     
     if (!user) {
       return res.status(401).json({ 
-        error: 'User not found', 
+        error: apiMessage('auth.userNotFound'),
         code: 'USER_NOT_FOUND' 
       });
     }
@@ -82,6 +88,10 @@ async function handleJWTAuth(
     req.userId = decoded.userId;
     req.isAuthenticated = true;
     req.isGuest = false;
+    // A saved language wins over the one the client sends
+    if (isLocale(user.profile?.locale)) {
+      req.locale = user.profile.locale;
+    }
     
     console.log('✅ JWT authentication successful:', decoded.userId);
     next();
@@ -89,7 +99,7 @@ async function handleJWTAuth(
   } catch (error) {
     console.error('❌ JWT authentication failed:', error);
     return res.status(401).json({ 
-      error: 'Invalid token', 
+      error: apiMessage('auth.invalidToken'),
       code: 'INVALID_TOKEN' 
     });
   }
@@ -121,7 +131,7 @@ async function handleGuestAuth(
       // Validate device ID format
       if (!/^[a-zA-Z0-9\-_]{10,128}$/.test(deviceId)) {
         return res.status(400).json({
-          error: 'Invalid device identifier',
+          error: apiMessage('auth.invalidDeviceId'),
           code: 'INVALID_DEVICE_ID'
         });
       }
@@ -164,7 +174,7 @@ async function handleGuestAuth(
   } catch (error) {
     console.error('❌ Guest authentication failed:', error);
     return res.status(500).json({
-      error: 'Guest authentication failed',
+      error: apiMessage('auth.guestFailed'),
       code: 'GUEST_AUTH_ERROR'
     });
   }
@@ -239,6 +249,10 @@ export async function checkReviewLimits(
   next: NextFunction
 ) {
   try {
+    if (await rejectOverBudget(req, res)) {
+      return;
+    }
+
     // Authenticated users have unlimited reviews
     if (req.isAuthenticated) {
       return next();
@@ -252,18 +266,27 @@ export async function checkReviewLimits(
       
       if (!guestSession) {
         return res.status(400).json({ 
-          error: 'Invalid guest session',
+          error: apiMessage('auth.invalidGuestSession'),
           code: 'INVALID_SESSION'
         });
       }
       
-      if (guestSession.reviewCount >= GUEST_REVIEW_LIMIT) {
+      // Queued analyses are only counted once they succeed, but they still hold a slot
+      const inFlightCount = await prisma.review.count({
+        where: {
+          guestDeviceId: req.guestSessionId,
+          analysisStatus: { in: ['pending', 'processing'] },
+        },
+      });
+      
+      if (guestSession.reviewCount + inFlightCount >= GUEST_REVIEW_LIMIT) {
         return res.status(429).json({
-          error: 'Guest review limit reached. Please sign up for unlimited reviews.',
+          error: apiMessage('limits.guestReviews'),
           code: 'LIMIT_REACHED',
           limit: GUEST_REVIEW_LIMIT,
           used: guestSession.reviewCount,
-          message: 'You\'ve used all 5 free reviews. Create an account for unlimited access!'
+          pending: inFlightCount,
+          message: apiMessage('limits.guestReviewsUsed', { limit: GUEST_REVIEW_LIMIT })
         });
       }
     }
@@ -275,22 +298,116 @@ export async function checkReviewLimits(
   }
 }
 
+export interface MessageLimitOptions {
+  // Questions a guest device has asked; counted in the database by default
+  countGuestMessages?: (guestDeviceId: string) => Promise<number>;
+}
+
+/**
+ * Middleware to check follow-up chat limits: the monthly AI budget for everyone and
+ * CHAT_GUEST_MESSAGE_LIMIT questions per guest device. Chats do not use up reviews.
+ */
+export function createMessageLimitCheck(options: MessageLimitOptions = {}) {
+  const countMessages = options.countGuestMessages ?? countGuestMessages;
+
+  return async function checkMessageLimits(
+    req: UnifiedAuthRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      if (await rejectOverBudget(req, res)) {
+        return;
+      }
+
+      if (req.isGuest && req.guestSessionId) {
+        const used = await countMessages(req.guestSessionId);
+        if (used >= config.chat.guestMessageLimit) {
+          return res.status(429).json({
+            error: apiMessage('limits.guestMessages'),
+            code: 'MESSAGE_LIMIT_REACHED',
+            limit: config.chat.guestMessageLimit,
+            used,
+          });
+        }
+      }
+
+      next();
+    } catch (error) {
+      console.error('❌ Message limit check error:', error);
+      next(error);
+    }
+  };
+}
+
+export const checkMessageLimits = createMessageLimitCheck();
+
+// Monthly AI spend caps apply to everyone; responds 429 and returns true once one is reached
+async function rejectOverBudget(req: UnifiedAuthRequest, res: Response): Promise<boolean> {
+  const exceeded = await findExceededBudget({
+    userId: req.isAuthenticated ? req.userId : undefined,
+    guestDeviceId: req.isGuest ? req.guestSessionId : undefined,
+  });
+  if (!exceeded) {
+    return false;
+  }
+
+  res.status(429).json({
+    error: exceeded.scope === 'total'
+      ? apiMessage('limits.analysisPaused')
+      : apiMessage('limits.monthlyBudget'),
+    code: 'BUDGET_EXCEEDED',
+    scope: exceeded.scope,
+    resetsAt: exceeded.resetsAt,
+  });
+  return true;
+}
+
+// Questions a guest device has had answered across all of its reviews, deleted ones included
+async function countGuestMessages(guestDeviceId: string) {
+  const device = await prisma.guestDevice.findUnique({
+    where: { deviceId: guestDeviceId },
+    select: { messageCount: true },
+  });
+  return device?.messageCount ?? 0;
+}
+
 /**
  * Increment review usage after successful review creation
  */
 export async function incrementReviewUsage(req: UnifiedAuthRequest) {
   // Only increment for guest users
   if (req.isGuest && req.guestSessionId) {
-    await prisma.guestDevice.update({
-      where: { deviceId: req.guestSessionId },
-      data: {
-        reviewCount: { increment: 1 },
-        lastUsedAt: new Date(),
-      },
-    });
+    await incrementGuestReviewUsage(req.guestSessionId);
   }
 }
 
+/**
+ * Increment a guest device's review count outside of a request (async analysis jobs)
+ */
+export async function incrementGuestReviewUsage(guestDeviceId: string) {
+  await prisma.guestDevice.update({
+    where: { deviceId: guestDeviceId },
+    data: {
+      reviewCount: { increment: 1 },
+      lastUsedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Count an answered follow-up question against the guest's limit
+ */
+export async function incrementGuestMessageUsage(guestDeviceId: string) {
+  await prisma.guestDevice.update({
+    where: { deviceId: guestDeviceId },
+    data: {
+      messageCount: { increment: 1 },
+      lastUsedAt: new Date(),
+    },
+  });
+}
+
 /**
  * Get usage information for current user/guest
  */
@@ -324,3 +441,20 @@ export async function getUsageInfo(req: UnifiedAuthRequest) {
   };
 }
 
+/**
+ * Follow-up questions left for a guest device, or unlimited for authenticated users
+ */
+export async function getMessageUsageInfo(req: UnifiedAuthRequest) {
+  if (!req.isGuest || !req.guestSessionId) {
+    return { isAuthenticated: !!req.isAuthenticated, unlimited: true };
+  }
+
+  const used = await countGuestMessages(req.guestSessionId);
+  return {
+    isAuthenticated: false,
+    used,
+    limit: config.chat.guestMessageLimit,
+    remaining: Math.max(0, config.chat.guestMessageLimit - used),
+  };
+}
+
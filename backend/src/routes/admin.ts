@@ -0,0 +1,544 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { requireAdminKey } from '../middleware/adminAuth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { apiMessage } from '../services/messageCatalog';
+import { getUsageReport } from '../services/usageService';
+import { getPromptVariantReport } from '../services/promptReport';
+import { findFlaggedReviews } from '../services/reviewService';
+import { ANALYSIS_FLAGS, AnalysisFlag } from '../services/promptSafety';
+import { prisma } from '../lib/prisma';
+import { APPEAL_STATUSES, findModerationLogs, resolveModerationAppeal } from '../services/moderationService';
+
+const router = Router();
+
+const periodValidators = [
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+];
+
+// Report period from ?from&to, defaulting to the current month (UTC) so far
+function parsePeriod(req: Request) {
+  const now = new Date();
+  const from = req.query.from
+    ? new Date(req.query.from as string)
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = req.query.to ? new Date(req.query.to as string) : now;
+  return { from, to };
+}
+
+// All admin routes require the admin key
+router.use(requireAdminKey);
+
+/**
+ * @swagger
+ * /api/admin/usage:
+ *   get:
+ *     summary: AI token usage and estimated cost, per user, per guest device and per day
+ *     tags: [Admin]
+ *     description: |
+ *       Costs are estimated from the token counts reported by the provider and the prices in
+ *       `config.usage.pricing` (extend with `AI_PRICING`). Calls to unpriced models count as 0.
+ *     security:
+ *       - AdminKey: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (inclusive). Defaults to the start of the current month (UTC).
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (exclusive). Defaults to now.
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *         description: Number of users and guest devices to list, most expensive first
+ *     responses:
+ *       200:
+ *         description: Usage report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from:
+ *                   type: string
+ *                   format: date-time
+ *                 to:
+ *                   type: string
+ *                   format: date-time
+ *                 totals:
+ *                   $ref: '#/components/schemas/UsageSummary'
+ *                 byUser:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           userId:
+ *                             type: string
+ *                       - $ref: '#/components/schemas/UsageSummary'
+ *                 byGuestDevice:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           guestDeviceId:
+ *                             type: string
+ *                       - $ref: '#/components/schemas/UsageSummary'
+ *                 byDay:
+ *                   type: array
+ *                   items:
+ *                     allOf:
+ *                       - type: object
+ *                         properties:
+ *                           day:
+ *                             type: string
+ *                             example: '2025-10-24'
+ *                       - $ref: '#/components/schemas/UsageSummary'
+ *                 budgets:
+ *                   type: object
+ *                   description: Configured monthly caps in USD, null when not set
+ *                   properties:
+ *                     userMonthlyUsd:
+ *                       type: number
+ *                       nullable: true
+ *                     guestMonthlyUsd:
+ *                       type: number
+ *                       nullable: true
+ *                     totalMonthlyUsd:
+ *                       type: number
+ *                       nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Missing or invalid X-Admin-Key
+ *       404:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY not set)
+ *
+ * components:
+ *   schemas:
+ *     UsageSummary:
+ *       type: object
+ *       properties:
+ *         calls:
+ *           type: integer
+ *         promptTokens:
+ *           type: integer
+ *         completionTokens:
+ *           type: integer
+ *         costUsd:
+ *           type: number
+ */
+router.get(
+  '/usage',
+  [
+    ...periodValidators,
+    query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('limit must be 1-500'),
+  ],
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { from, to } = parsePeriod(req);
+    const limit = parseInt(req.query.limit as string || '50', 10);
+
+    if (from >= to) {
+      return res.status(400).json({ error: apiMessage('admin.invalidRange') });
+    }
+
+    res.json(await getUsageReport(from, to, limit));
+  })
+);
+
+/**
+ * @swagger
+ * /api/admin/prompt-variants:
+ *   get:
+ *     summary: Compare outfit analysis prompt versions (A/B report)
+ *     tags: [Admin]
+ *     description: |
+ *       Groups reviews by `promptVersion`. Average scores, accept rate and feedback ratings
+ *       only count reviews with analysisStatus `ok`; `statuses` counts every outcome.
+ *     security:
+ *       - AdminKey: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (inclusive). Defaults to the start of the current month (UTC).
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (exclusive). Defaults to now.
+ *     responses:
+ *       200:
+ *         description: Per-variant report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 from:
+ *                   type: string
+ *                   format: date-time
+ *                 to:
+ *                   type: string
+ *                   format: date-time
+ *                 assignment:
+ *                   type: array
+ *                   description: Variants new reviews are currently bucketed into
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       version:
+ *                         type: string
+ *                         example: outfit-analysis@1
+ *                       weight:
+ *                         type: integer
+ *                 variants:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       promptVersion:
+ *                         type: string
+ *                       reviews:
+ *                         type: integer
+ *                       statuses:
+ *                         type: object
+ *                         additionalProperties:
+ *                           type: integer
+ *                         example: { ok: 120, no_outfit: 4, failed: 2 }
+ *                       scoredReviews:
+ *                         type: integer
+ *                       averageScores:
+ *                         type: object
+ *                         description: Keyed by dimension (overall, style, fit, color, occasion, proportion, fabric, sophistication)
+ *                         additionalProperties:
+ *                           type: number
+ *                           nullable: true
+ *                       accepted:
+ *                         type: object
+ *                         properties:
+ *                           responses:
+ *                             type: integer
+ *                           rate:
+ *                             type: number
+ *                             nullable: true
+ *                       feedbackRating:
+ *                         type: object
+ *                         properties:
+ *                           responses:
+ *                             type: integer
+ *                           average:
+ *                             type: number
+ *                             nullable: true
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Missing or invalid X-Admin-Key
+ *       404:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY not set)
+ */
+router.get(
+  '/prompt-variants',
+  periodValidators,
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { from, to } = parsePeriod(req);
+    if (from >= to) {
+      return res.status(400).json({ error: apiMessage('admin.invalidRange') });
+    }
+
+    res.json(await getPromptVariantReport(from, to));
+  })
+);
+
+/**
+ * @swagger
+ * /api/admin/flagged-reviews:
+ *   get:
+ *     summary: Reviews whose analysis may have been steered by the description
+ *     tags: [Admin]
+ *     description: |
+ *       Flags are set when the analysis is stored:
+ *       - **instruction_like_description**: the description addresses the model ("ignore the above", "give 100")
+ *       - **description_echo**: the analysis repeats six or more consecutive words of the description
+ *       - **uniform_max_scores**: every component score is 95 or higher
+ *     security:
+ *       - AdminKey: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (inclusive). Defaults to the start of the current month (UTC).
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (exclusive). Defaults to now.
+ *       - in: query
+ *         name: flag
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [instruction_like_description, description_echo, uniform_max_scores]
+ *         description: Only reviews with this flag
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Flagged reviews, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviews:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       userId:
+ *                         type: string
+ *                         nullable: true
+ *                       guestDeviceId:
+ *                         type: string
+ *                         nullable: true
+ *                       description:
+ *                         type: string
+ *                         nullable: true
+ *                       analysisFlags:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       analysisStatus:
+ *                         type: string
+ *                       overallScore:
+ *                         type: integer
+ *                         nullable: true
+ *                       createdAt:
+ *                         type: string
+ *                         format: date-time
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Missing or invalid X-Admin-Key
+ *       404:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY not set)
+ */
+router.get(
+  '/flagged-reviews',
+  [
+    ...periodValidators,
+    query('flag').optional().isIn(ANALYSIS_FLAGS).withMessage(`flag must be one of: ${ANALYSIS_FLAGS.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('limit must be 1-500'),
+  ],
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { from, to } = parsePeriod(req);
+    if (from >= to) {
+      return res.status(400).json({ error: apiMessage('admin.invalidRange') });
+    }
+    const limit = parseInt(req.query.limit as string || '50', 10);
+
+    res.json({
+      reviews: await findFlaggedReviews(from, to, req.query.flag as AnalysisFlag | undefined, limit),
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /api/admin/moderation:
+ *   get:
+ *     summary: Uploads rejected or quarantined by content moderation
+ *     tags: [Admin]
+ *     description: |
+ *       Quarantined uploads keep a private Cloudinary copy (`quarantinePublicId`) until the appeal
+ *       is resolved. Use `appealStatus=pending` to list the appeals waiting for a decision.
+ *     security:
+ *       - AdminKey: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (inclusive). Defaults to the start of the current month (UTC).
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (exclusive). Defaults to now.
+ *       - in: query
+ *         name: appealStatus
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [none, pending, upheld, overturned]
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Moderation decisions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 decisions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ModerationLog'
+ *       400:
+ *         description: Invalid query parameters
+ *       403:
+ *         description: Missing or invalid X-Admin-Key
+ *       404:
+ *         description: Admin endpoints are disabled (ADMIN_API_KEY not set)
+ */
+router.get(
+  '/moderation',
+  [
+    ...periodValidators,
+    query('appealStatus').optional().isIn(APPEAL_STATUSES).withMessage(`appealStatus must be one of: ${APPEAL_STATUSES.join(', ')}`),
+    query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('limit must be 1-500'),
+  ],
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { from, to } = parsePeriod(req);
+    if (from >= to) {
+      return res.status(400).json({ error: apiMessage('admin.invalidRange') });
+    }
+    const limit = parseInt(req.query.limit as string || '50', 10);
+
+    res.json({
+      decisions: await findModerationLogs(from, to, req.query.appealStatus as string | undefined, limit),
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /api/admin/moderation/{moderationId}/resolve:
+ *   post:
+ *     summary: Decide an appeal against a moderation decision
+ *     tags: [Admin]
+ *     description: |
+ *       `overturned` lets the owner upload the same photo again without moderation; `upheld` keeps
+ *       the decision. The quarantined copy, if any, is deleted either way.
+ *     security:
+ *       - AdminKey: []
+ *     parameters:
+ *       - in: path
+ *         name: moderationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [resolution]
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 enum: [upheld, overturned]
+ *     responses:
+ *       200:
+ *         description: Appeal resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ModerationLog'
+ *       400:
+ *         description: Invalid resolution
+ *       404:
+ *         description: Moderation decision not found
+ *       409:
+ *         description: No pending appeal for this decision
+ */
+router.post(
+  '/moderation/:moderationId/resolve',
+  [
+    param('moderationId').isString(),
+    body('resolution').isIn(['upheld', 'overturned']).withMessage('resolution must be upheld or overturned'),
+  ],
+  asyncHandler(async (req: Request, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const log = await prisma.moderationLog.findUnique({ where: { id: req.params.moderationId } });
+    if (!log) {
+      return res.status(404).json({ error: apiMessage('moderation.decisionNotFound') });
+    }
+    if (log.appealStatus !== 'pending') {
+      return res.status(409).json({ error: apiMessage('admin.noPendingAppeal'), appealStatus: log.appealStatus });
+    }
+
+    res.json(await resolveModerationAppeal(log.id, req.body.resolution));
+  })
+);
+
+export { router as adminRoutes };
@@ -5,6 +5,7 @@ import { body, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma';
 import { config } from '../config/config';
 import { asyncHandler } from '../middleware/errorHandler';
+import { apiMessage } from '../services/messageCatalog';
 
 const router = Router();
 
@@ -107,7 +108,7 @@ router.post('/register', registerValidation, asyncHandler(async (req: Request, r
   });
 
   if (existingUser) {
-    return res.status(400).json({ error: 'User with this email already exists' });
+    return res.status(400).json({ error: apiMessage('auth.emailTaken') });
   }
 
   // Hash password
@@ -188,13 +189,13 @@ router.post('/login', loginValidation, asyncHandler(async (req: Request, res: Re
   });
 
   if (!user) {
-    return res.status(401).json({ error: 'Invalid email or password' });
+    return res.status(401).json({ error: apiMessage('auth.invalidCredentials') });
   }
 
   // Verify password
   const isValidPassword = await bcrypt.compare(password, user.passwordHash);
   if (!isValidPassword) {
-    return res.status(401).json({ error: 'Invalid email or password' });
+    return res.status(401).json({ error: apiMessage('auth.invalidCredentials') });
   }
 
   // Generate JWT
@@ -3,6 +3,10 @@ import { body, validationResult } from 'express-validator';
 import { prisma } from '../lib/prisma';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { apiMessage } from '../services/messageCatalog';
+import { PRIVACY_MODES } from '../services/privacyService';
+import { LOCALES } from '../services/localeService';
+import { PERSONAS, TONES } from '../services/personaService';
 
 const router = Router();
 
@@ -52,7 +56,7 @@ router.get('/', asyncHandler(async (req: AuthRequest, res: Response) => {
   });
 
   if (!user) {
-    return res.status(404).json({ error: 'User not found' });
+    return res.status(404).json({ error: apiMessage('auth.userNotFound') });
   }
 
   res.json({
@@ -69,6 +73,10 @@ const profileValidation = [
   body('height').optional().isNumeric(),
   body('weight').optional().isNumeric(),
   body('otherMeasurements').optional().isObject(),
+  body('privacyMode').optional({ values: 'null' }).isIn(PRIVACY_MODES).withMessage(`privacyMode must be one of: ${PRIVACY_MODES.join(', ')}`),
+  body('locale').optional({ values: 'null' }).isIn(LOCALES).withMessage(`locale must be one of: ${LOCALES.join(', ')}`),
+  body('persona').optional({ values: 'null' }).isIn(PERSONAS).withMessage(`persona must be one of: ${PERSONAS.join(', ')}`),
+  body('tone').optional({ values: 'null' }).isIn(TONES).withMessage(`tone must be one of: ${TONES.join(', ')}`),
 ];
 
 /**
@@ -116,6 +124,30 @@ const profileValidation = [
  *                 type: object
  *                 description: Additional body measurements
  *                 example: {"chest": "95cm", "waist": "80cm", "hips": "100cm"}
+ *               privacyMode:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [off, blur, crop]
+ *                 description: Redact faces from every upload before it is stored or analyzed (null uses the server default)
+ *                 example: "blur"
+ *               locale:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [en, es, fr, de]
+ *                 description: Language of analyses, answers and API messages (null uses the Accept-Language header)
+ *                 example: "es"
+ *               persona:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [gentle_coach, editorial_critic, practical_friend, image_consultant]
+ *                 description: Reviewer persona analyses are worded as (null is the standard consultant)
+ *                 example: "gentle_coach"
+ *               tone:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [gentle, balanced, direct, brutal]
+ *                 description: How bluntly flaws are put; scores are unaffected (null is the standard tone)
+ *                 example: "balanced"
  *     responses:
  *       200:
  *         description: Profile updated successfully
@@ -154,6 +186,10 @@ router.put('/', profileValidation, asyncHandler(async (req: AuthRequest, res: Re
     height,
     weight,
     otherMeasurements,
+    privacyMode,
+    locale,
+    persona,
+    tone,
   } = req.body;
 
   // Upsert profile
@@ -167,6 +203,10 @@ router.put('/', profileValidation, asyncHandler(async (req: AuthRequest, res: Re
       height: height ? parseFloat(height) : undefined,
       weight: weight ? parseFloat(weight) : undefined,
       otherMeasurements,
+      privacyMode,
+      locale,
+      persona,
+      tone,
     },
     create: {
       userId,
@@ -177,6 +217,10 @@ router.put('/', profileValidation, asyncHandler(async (req: AuthRequest, res: Re
       height: height ? parseFloat(height) : undefined,
       weight: weight ? parseFloat(weight) : undefined,
       otherMeasurements,
+      privacyMode,
+      locale,
+      persona,
+      tone,
     },
   });
 
@@ -1,14 +1,123 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { uploadImage, deleteImage } from '../lib/cloudinary';
-import { unifiedAuthMiddleware, checkReviewLimits, incrementReviewUsage, getUsageInfo, UnifiedAuthRequest } from '../middleware/unifiedAuth';
-import { asyncHandler } from '../middleware/errorHandler';
-import { analyzeOutfit } from '../services/aiService';
+import { uploadImage } from '../lib/cloudinary';
+import {
+  unifiedAuthMiddleware,
+  checkReviewLimits,
+  checkMessageLimits,
+  getUsageInfo,
+  getMessageUsageInfo,
+  incrementGuestMessageUsage,
+  UnifiedAuthRequest,
+} from '../middleware/unifiedAuth';
+import { config } from '../config/config';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import { getAnalysisOwnerKey } from '../services/aiService';
+import { analyzeOutfitCached, toCacheReport } from '../services/analysisCache';
+import { generateComparison, ComparisonFailedError, MAX_COMPARED_REVIEWS } from '../services/comparisonService';
+import {
+  generateChatReply,
+  sanitizeMessage,
+  toMessageResponse,
+  ChatReply,
+  ChatFailedError,
+  MESSAGE_MAX_LENGTH,
+} from '../services/reviewChatService';
+import { isMockScenario } from '../services/providers';
+import { DESCRIPTION_MAX_LENGTH } from '../services/promptSafety';
+import { isModerationScenario } from '../services/moderation';
+import { ApiMessage, apiMessage } from '../services/messageCatalog';
+import { moderateUpload, toModerationResponse, ModerationUnavailableError } from '../services/moderationService';
+import {
+  redactFaces,
+  resolvePrivacyMode,
+  PrivacyRedactionError,
+  RedactionResult,
+  RedactionMode,
+  PRIVACY_MODES,
+} from '../services/privacyService';
+import { measurePalette } from '../services/paletteService';
+import { toAnalysisTarget, OCCASIONS, SEASONS, CLIMATES } from '../services/occasionService';
+import {
+  combineImageDigests,
+  IMAGE_ROLES,
+  MAX_IMAGES_PER_ROLE,
+  REVIEW_IMAGES_SELECT,
+  ImageRole,
+} from '../services/reviewImageService';
+import { calibrateReview, calibrateReviews, ReviewOwner } from '../services/calibrationService';
+import { DEFAULT_LOCALE } from '../services/localeService';
+import { resolveReviewerVoice, PERSONAS, TONES } from '../services/personaService';
+import { hashImageBuffer } from '../lib/imageHash';
+import {
+  commitReviewUsage,
+  deleteOwnedReview,
+  toFailedReviewData,
+  toOutfitAnalysisResponse,
+  toReviewAnalysisData,
+  IN_FLIGHT_ANALYSIS_STATUSES,
+  REVIEW_GARMENTS_INCLUDE,
+  REVIEW_GARMENTS_SELECT,
+} from '../services/reviewService';
+import { createAnalysisJobData, wakeAnalysisWorker, waitForAnalysis } from '../services/analysisJobs';
+import { recordAiUsage, AiCall } from '../services/usageService';
+import { publishProgress, subscribeProgress, AnalysisProgressEvent, FINAL_ANALYSIS_STAGES } from '../services/analysisProgress';
 
 const router = Router();
 
+// Longest a status request may be held open waiting for an analysis to finish
+const MAX_STATUS_WAIT_SECONDS = 25;
+
+// Keep-alive comment interval for event streams; also how often the database is re-checked
+const EVENT_STREAM_HEARTBEAT_MS = 15000;
+
+// Fields of a review as listed in the history and returned on its own
+const REVIEW_HISTORY_SELECT = {
+  id: true,
+  imageUrl: true,
+  description: true,
+  styleCategory: true,
+  styleCategoryScore: true,
+  fit: true,
+  fitScore: true,
+  colorHarmony: true,
+  colorHarmonyScore: true,
+  occasionSuitability: true,
+  occasionScore: true,
+  proportionBalance: true,
+  proportionScore: true,
+  fabricSynergy: true,
+  fabricScore: true,
+  stylingSophistication: true,
+  sophisticationScore: true,
+  overallScore: true,
+  highlights: true,
+  improvementSuggestions: true,
+  expertInsights: true,
+  technicalFlaws: true,
+  comparisonInsight: true,
+  comparisonDetails: true,
+  accepted: true,
+  analysisStatus: true,
+  analysisProvider: true,
+  analysisModel: true,
+  promptVersion: true,
+  ensembleDetails: true,
+  garments: REVIEW_GARMENTS_SELECT,
+  images: REVIEW_IMAGES_SELECT,
+  colorPalette: true,
+  occasion: true,
+  season: true,
+  climate: true,
+  locale: true,
+  persona: true,
+  tone: true,
+  createdAt: true,
+};
+
 // Configure multer for memory storage
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -19,20 +128,65 @@ const upload = multer({
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      const error = new Error('Only image files are allowed') as AppError;
+      error.userMessage = apiMessage('upload.imagesOnly');
+      cb(error);
     }
   },
 });
 
+// The main photo arrives as image (taken as the front view) or under its role; extra angles under theirs
+const reviewImageFields = upload.fields([
+  { name: 'image', maxCount: 1 },
+  ...IMAGE_ROLES.map(role => ({ name: role, maxCount: MAX_IMAGES_PER_ROLE[role] })),
+]);
+
+// Uploaded photos in the order they are sent to the model, or why they cannot be accepted
+function collectReviewImages(
+  files: Request['files']
+): { images: { role: ImageRole; file: Express.Multer.File }[] } | { error: ApiMessage } {
+  const fields = (files ?? {}) as Record<string, Express.Multer.File[]>;
+  if (fields.image && fields.front) {
+    return { error: apiMessage('upload.frontTwice') };
+  }
+
+  const images = IMAGE_ROLES.flatMap(role => [
+    ...(role === 'front' ? fields.image ?? [] : []),
+    ...(fields[role] ?? []),
+  ].map(file => ({ role, file })));
+
+  if (images.length === 0) {
+    return { error: apiMessage('upload.imageRequired') };
+  }
+  if (images.length > config.reviewImages.maxImages) {
+    return { error: apiMessage('upload.tooManyImages', { max: config.reviewImages.maxImages }) };
+  }
+  return { images };
+}
+
+// Privacy mode must never fall back to sending the unredacted image
+function sendRedactionError(res: Response, error: unknown) {
+  if (error instanceof PrivacyRedactionError) {
+    console.error(error.message);
+    return res.status(503).json({
+      error: apiMessage('upload.privacyUnavailable'),
+      code: 'PRIVACY_UNAVAILABLE',
+    });
+  }
+  console.error('Image could not be decoded for redaction:', error);
+  return res.status(400).json({ error: apiMessage('upload.unreadableImage'), code: 'INVALID_IMAGE' });
+}
+
 // All review routes use unified authentication (supports both JWT and guest)
 router.use(unifiedAuthMiddleware);
 
-// Create new review (upload outfit image)
+// Show the redacted image before uploading it; nothing is stored or sent to third parties
 router.post(
-  '/',
-  checkReviewLimits, // Check limits before processing
+  '/privacy-preview',
   upload.single('image'),
-  [body('description').optional().isString().trim()],
+  [
+    query('privacy').optional().isIn(['blur', 'crop']).withMessage('privacy must be blur or crop'),
+  ],
   asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -40,12 +194,132 @@ router.post(
     }
 
     if (!req.file) {
-      return res.status(400).json({ error: 'Image file is required' });
+      return res.status(400).json({ error: apiMessage('upload.imageRequired') });
+    }
+
+    const savedPrivacy = req.isAuthenticated
+      ? await prisma.profile.findUnique({ where: { userId: req.userId! }, select: { privacyMode: true } })
+      : null;
+    const resolved = resolvePrivacyMode(req.query.privacy, savedPrivacy?.privacyMode);
+    // Previewing only makes sense with redaction on, so "off" previews the default blur
+    const mode = resolved === 'off' ? 'blur' : resolved;
+
+    let redaction: RedactionResult;
+    try {
+      redaction = await redactFaces(req.file.buffer, mode);
+    } catch (error) {
+      return sendRedactionError(res, error);
+    }
+
+    res.json({
+      privacyMode: redaction.mode,
+      facesRedacted: redaction.faces,
+      image: `data:${redaction.mimeType};base64,${redaction.buffer.toString('base64')}`,
+    });
+  })
+);
+
+// Create new review (upload outfit image, optionally with more angles)
+router.post(
+  '/',
+  checkReviewLimits, // Check limits before processing
+  reviewImageFields,
+  [
+    body('description')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: DESCRIPTION_MAX_LENGTH })
+      .withMessage(`Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`),
+    query('privacy').optional().isIn(PRIVACY_MODES).withMessage(`privacy must be one of: ${PRIVACY_MODES.join(', ')}`),
+    body('occasion').optional({ values: 'falsy' }).isIn(OCCASIONS).withMessage(`occasion must be one of: ${OCCASIONS.join(', ')}`),
+    body('season').optional({ values: 'falsy' }).isIn(SEASONS).withMessage(`season must be one of: ${SEASONS.join(', ')}`),
+    body('climate').optional({ values: 'falsy' }).isIn(CLIMATES).withMessage(`climate must be one of: ${CLIMATES.join(', ')}`),
+    body('persona').optional({ values: 'falsy' }).isIn(PERSONAS).withMessage(`persona must be one of: ${PERSONAS.join(', ')}`),
+    body('tone').optional({ values: 'falsy' }).isIn(TONES).withMessage(`tone must be one of: ${TONES.join(', ')}`),
+  ],
+  asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const collected = collectReviewImages(req.files);
+    if ('error' in collected) {
+      return res.status(400).json({ error: collected.error });
     }
 
     const { description } = req.body;
+    const target = toAnalysisTarget(req.body.occasion, req.body.season, req.body.climate);
 
     try {
+      const uploader = {
+        userId: req.isAuthenticated ? req.userId! : null,
+        guestDeviceId: req.isGuest ? req.guestSessionId! : null,
+      };
+
+      // Per-upload choices win over the profile settings
+      const saved = req.isAuthenticated
+        ? await prisma.profile.findUnique({ where: { userId: req.userId! }, select: { privacyMode: true, persona: true, tone: true } })
+        : null;
+      const voice = resolveReviewerVoice(req.body, saved);
+
+      const privacyMode = resolvePrivacyMode(req.query.privacy, saved?.privacyMode);
+
+      // Nothing is stored or sent to the AI before every photo passes moderation. It checks the
+      // original photos, so the age check still sees faces; anything stored is redacted below.
+      const moderationScenarioHeader = req.headers['x-moderation-scenario'];
+      for (const { role, file } of collected.images) {
+        let moderation;
+        try {
+          moderation = await moderateUpload(
+            file,
+            uploader,
+            hashImageBuffer(file.buffer),
+            isModerationScenario(moderationScenarioHeader) ? moderationScenarioHeader : undefined,
+            privacyMode !== 'off' ? privacyMode : undefined
+          );
+        } catch (error) {
+          if (error instanceof ModerationUnavailableError) {
+            console.error(error.message);
+            return res.status(503).json({
+              error: apiMessage('upload.moderationUnavailable'),
+              code: 'MODERATION_UNAVAILABLE',
+            });
+          }
+          throw error;
+        }
+        if (moderation.action !== 'allow') {
+          return res.status(422).json({ ...toModerationResponse(moderation), imageRole: role });
+        }
+      }
+
+      // Faces are redacted before storage, so Cloudinary and the AI only ever see the redacted images
+      const images: { role: ImageRole; digest: string; buffer: Buffer; mimetype: string; faces: number; mode: RedactionMode | null }[] = [];
+      for (const { role, file } of collected.images) {
+        let image: Omit<typeof images[number], 'role' | 'digest'> = { buffer: file.buffer, mimetype: file.mimetype, faces: 0, mode: null };
+        if (privacyMode !== 'off') {
+          let redacted: RedactionResult;
+          try {
+            redacted = await redactFaces(file.buffer, privacyMode);
+          } catch (error) {
+            return sendRedactionError(res, error);
+          }
+          image = { buffer: redacted.buffer, mimetype: redacted.mimeType, faces: redacted.faces, mode: redacted.mode };
+        }
+        images.push({ role, ...image, digest: hashImageBuffer(image.buffer) });
+      }
+      // Crop may fall back to blur per photo; the review records what happened to the main one
+      const redaction = images[0].mode && {
+        mode: images[0].mode,
+        faces: images.reduce((total, image) => total + image.faces, 0),
+      };
+
+      const imageDigest = combineImageDigests(images);
+
+      // Measured from the same (redacted) pixels the AI sees, on the main photo
+      const colorPalette = await measurePalette(images[0].buffer);
+
       // Generate appropriate image identifier
       const imageId = req.isAuthenticated 
         ? `${req.userId}_${Date.now()}`
@@ -55,12 +329,95 @@ router.post(
         ? `reviews/${req.userId}`
         : `reviews/guest/${req.guestSessionId}`;
 
-      // Upload image to Cloudinary
-      const uploadResult = await uploadImage(
-        req.file.buffer,
-        imageId,
+      // Upload images to Cloudinary; the main photo keeps the plain id
+      const uploadResults = await Promise.all(images.map((image, position) => uploadImage(
+        image.buffer,
+        position === 0 ? imageId : `${imageId}_${position}_${image.role}`,
         folderPath
-      );
+      )));
+      const [uploadResult] = uploadResults;
+      const reviewImages = images.map((image, position) => ({
+        position,
+        role: image.role,
+        imageUrl: uploadResults[position].secureUrl,
+        imagePublicId: uploadResults[position].publicId,
+      }));
+      const views = images.length > 1
+        ? reviewImages.map(image => ({ role: image.role, url: image.imageUrl }))
+        : null;
+      // Near-duplicate matching compares single photos only; a set of photos must match exactly
+      const perceptualHash = images.length === 1 ? uploadResult.phash : undefined;
+
+      const mockScenarioHeader = req.headers['x-mock-scenario'];
+      const mockScenario = isMockScenario(mockScenarioHeader) ? mockScenarioHeader : undefined;
+      // ?cache=false forces a fresh analysis and keeps it out of the cache
+      const skipCache = req.query.cache === 'false';
+
+      const owner = {
+        ...uploader,
+        imageUrl: uploadResult.secureUrl,
+        imagePublicId: uploadResult.publicId,
+        description,
+        isGuest: req.isGuest || false,
+        privacyMode: redaction?.mode ?? null,
+        facesRedacted: redaction?.faces ?? null,
+        colorPalette: colorPalette ? (colorPalette as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+        occasion: target?.occasion ?? null,
+        season: target?.season ?? null,
+        climate: target?.climate ?? null,
+        locale: req.locale ?? DEFAULT_LOCALE,
+        persona: voice?.persona ?? null,
+        tone: voice?.tone ?? null,
+        imageDigest,
+        images: { create: reviewImages },
+      };
+      const imagesResponse = reviewImages.map(({ role, imageUrl }) => ({ role, imageUrl }));
+
+      // Async mode: queue the analysis and let the client poll for the result
+      if (req.query.async === 'true') {
+        const pendingReview = await prisma.review.create({
+          data: {
+            ...owner,
+            analysisStatus: 'pending',
+            analysisJob: {
+              create: createAnalysisJobData({
+                imageDigest,
+                perceptualHash,
+                skipCache,
+                mockScenario,
+              }),
+            },
+          },
+          include: { analysisJob: true },
+        });
+        publishProgress(pendingReview.id, 'uploaded', { imageUrl: pendingReview.imageUrl });
+        publishProgress(pendingReview.id, 'image_preprocessed', { imageDigest });
+        publishProgress(pendingReview.id, 'queued', { jobId: pendingReview.analysisJob?.id });
+        wakeAnalysisWorker();
+
+        const statusUrl = `/api/reviews/${pendingReview.id}/status`;
+        const accepted: any = {
+          reviewId: pendingReview.id,
+          jobId: pendingReview.analysisJob?.id,
+          analysisStatus: pendingReview.analysisStatus,
+          privacyMode: pendingReview.privacyMode,
+          facesRedacted: pendingReview.facesRedacted,
+          occasion: pendingReview.occasion,
+          season: pendingReview.season,
+          climate: pendingReview.climate,
+          locale: pendingReview.locale,
+          persona: pendingReview.persona,
+          tone: pendingReview.tone,
+          images: imagesResponse,
+          statusUrl,
+          eventsUrl: `/api/reviews/${pendingReview.id}/events`,
+        };
+        if (req.isGuest) {
+          accepted.guestUsage = await getUsageInfo(req);
+        }
+
+        return res.status(202).location(statusUrl).json(accepted);
+      }
 
       // Get user profile for context (authenticated users only)
       let userProfile = null;
@@ -73,102 +430,77 @@ router.post(
       }
 
       // Analyze outfit with AI
-      const analysis = await analyzeOutfit(uploadResult.secureUrl, userProfile, description);
+      const aiCalls: AiCall[] = [];
+      let outcome;
+      try {
+        outcome = await analyzeOutfitCached(uploadResult.secureUrl, userProfile, description, {
+          ownerKey: getAnalysisOwnerKey(owner),
+          imageDigest,
+          perceptualHash,
+          skipCache,
+          mockScenario,
+          redaction: redaction?.mode,
+          palette: colorPalette,
+          target,
+          views,
+          locale: req.locale,
+          voice,
+          aiCalls,
+        });
+      } catch (error) {
+        console.error('Outfit analysis failed:', error);
+
+        // Keep a failed row (without scores) so support can find it; guest usage is not consumed
+        const failedReview = await prisma.review.create({
+          data: {
+            ...owner,
+            ...toFailedReviewData(error),
+          }
+        });
+        await recordAiUsage(aiCalls, failedReview);
+
+        return res.status(502).json({
+          error: apiMessage('upload.analysisUnavailable'),
+          code: 'ANALYSIS_FAILED',
+          reviewId: failedReview.id,
+          analysisStatus: failedReview.analysisStatus,
+        });
+      }
 
       // Create review record
       const review = await prisma.review.create({
         data: {
-          userId: req.isAuthenticated ? req.userId! : null,
-          guestDeviceId: req.isGuest ? req.guestSessionId! : null,
-          imageUrl: uploadResult.secureUrl,
-          imagePublicId: uploadResult.publicId,
-          description,
-          isGuest: req.isGuest || false,
-          styleCategory: analysis.styleCategory,
-          styleCategoryScore: analysis.styleCategoryScore,
-          fit: analysis.fit,
-          fitScore: analysis.fitScore,
-          colorHarmony: analysis.colorHarmony,
-          colorHarmonyScore: analysis.colorHarmonyScore,
-          occasionSuitability: analysis.occasionSuitability,
-          occasionScore: analysis.occasionScore,
-          proportionBalance: analysis.proportionBalance,
-          proportionScore: analysis.proportionScore,
-          fabricSynergy: analysis.fabricSynergy,
-          fabricScore: analysis.fabricScore,
-          stylingSophistication: analysis.stylingSophistication,
-          sophisticationScore: analysis.sophisticationScore,
-          overallScore: analysis.overallScore,
-          highlights: analysis.highlights,
-          improvementSuggestions: analysis.improvementSuggestions,
-          expertInsights: analysis.expertInsights,
-          technicalFlaws: analysis.technicalFlaws,
-        }
+          ...owner,
+          ...toReviewAnalysisData(outcome),
+        },
+        include: REVIEW_GARMENTS_INCLUDE,
       });
+      await recordAiUsage(aiCalls, review);
 
-      // Handle cleanup and usage tracking
-      if (req.isAuthenticated) {
-        // Cleanup old reviews for authenticated users (keep only last 10)
-        const userReviewsCount = await prisma.review.count({
-          where: { userId: req.userId }
-        });
-
-        if (userReviewsCount > 10) {
-          const oldReviews = await prisma.review.findMany({
-            where: { userId: req.userId },
-            orderBy: { createdAt: 'asc' },
-            take: userReviewsCount - 10,
-          });
-
-          // Delete old images from Cloudinary
-          for (const oldReview of oldReviews) {
-            if (oldReview.imagePublicId) {
-              try {
-                await deleteImage(oldReview.imagePublicId);
-              } catch (error) {
-                console.error('Failed to delete old image:', error);
-              }
-            }
-          }
-
-          // Delete old review records
-          await prisma.review.deleteMany({
-            where: {
-              id: { in: oldReviews.map((r: any) => r.id) }
-            }
-          });
-        }
-      } else {
-        // Increment guest usage
-        await incrementReviewUsage(req);
-      }
+      // Prune old reviews for authenticated users, spend a free review for guests
+      await commitReviewUsage(review);
 
       // Get usage information for response
       const usage = await getUsageInfo(req);
 
       const response: any = {
         reviewId: review.id,
-        outfitAnalysis: {
-          styleCategory: review.styleCategory,
-          styleCategoryScore: review.styleCategoryScore,
-          fit: review.fit,
-          fitScore: review.fitScore,
-          colorHarmony: review.colorHarmony,
-          colorHarmonyScore: review.colorHarmonyScore,
-          occasionSuitability: review.occasionSuitability,
-          occasionScore: review.occasionScore,
-          proportionBalance: review.proportionBalance,
-          proportionScore: review.proportionScore,
-          fabricSynergy: review.fabricSynergy,
-          fabricScore: review.fabricScore,
-          stylingSophistication: review.stylingSophistication,
-          sophisticationScore: review.sophisticationScore,
-          overallScore: review.overallScore,
-          highlights: review.highlights,
-          improvementSuggestions: review.improvementSuggestions,
-          expertInsights: review.expertInsights,
-          technicalFlaws: review.technicalFlaws,
-        }
+        analysisStatus: review.analysisStatus,
+        analysisProvider: review.analysisProvider,
+        analysisModel: review.analysisModel,
+        promptVersion: review.promptVersion,
+        privacyMode: review.privacyMode,
+        facesRedacted: review.facesRedacted,
+        occasion: review.occasion,
+        season: review.season,
+        climate: review.climate,
+        locale: review.locale,
+        persona: review.persona,
+        tone: review.tone,
+        images: imagesResponse,
+        outfitAnalysis: toOutfitAnalysisResponse(review),
+        calibration: await calibrateReview(review),
+        cache: toCacheReport(review.analysisCacheStatus),
       };
 
       // Add usage info for guests
@@ -180,114 +512,282 @@ router.post(
 
     } catch (error) {
       console.error('Review creation error:', error);
-      res.status(500).json({ error: 'Failed to process outfit review' });
+      res.status(500).json({ error: apiMessage('upload.failed') });
     }
   })
 );
 
 // Get user reviews (supports both authenticated users and guests)
-router.get('/', asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+const historyValidation = [
+  query('occasion').optional().isIn(OCCASIONS).withMessage(`occasion must be one of: ${OCCASIONS.join(', ')}`),
+];
+
+router.get('/', historyValidation, asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  // ?occasion= narrows the history to reviews scored against that occasion
+  const occasionFilter = req.query.occasion ? { occasion: req.query.occasion as string } : {};
+
   try {
     let reviews;
+    let owner: ReviewOwner;
     
     if (req.isAuthenticated && req.userId) {
       // Get authenticated user's reviews (last 10)
+      owner = { userId: req.userId, guestDeviceId: null };
       reviews = await prisma.review.findMany({
-        where: { userId: req.userId },
+        where: { userId: req.userId, ...occasionFilter },
         orderBy: { createdAt: 'desc' },
         take: 10,
-        select: {
-          id: true,
-          imageUrl: true,
-          description: true,
-          styleCategory: true,
-          styleCategoryScore: true,
-          fit: true,
-          fitScore: true,
-          colorHarmony: true,
-          colorHarmonyScore: true,
-          occasionSuitability: true,
-          occasionScore: true,
-          proportionBalance: true,
-          proportionScore: true,
-          fabricSynergy: true,
-          fabricScore: true,
-          stylingSophistication: true,
-          sophisticationScore: true,
-          overallScore: true,
-          highlights: true,
-          improvementSuggestions: true,
-          expertInsights: true,
-          technicalFlaws: true,
-          comparisonInsight: true,
-          accepted: true,
-          createdAt: true,
-        }
+        select: REVIEW_HISTORY_SELECT,
       });
     } else if (req.isGuest && req.guestSessionId) {
       // Get guest's reviews (up to 5, the limit)
+      owner = { userId: null, guestDeviceId: req.guestSessionId };
       reviews = await prisma.review.findMany({
         where: { 
           guestDeviceId: req.guestSessionId,
-          isGuest: true 
+          isGuest: true,
+          ...occasionFilter,
         },
         orderBy: { createdAt: 'desc' },
         take: 5, // Match guest review limit
-        select: {
-          id: true,
-          imageUrl: true,
-          description: true,
-          styleCategory: true,
-          styleCategoryScore: true,
-          fit: true,
-          fitScore: true,
-          colorHarmony: true,
-          colorHarmonyScore: true,
-          occasionSuitability: true,
-          occasionScore: true,
-          proportionBalance: true,
-          proportionScore: true,
-          fabricSynergy: true,
-          fabricScore: true,
-          stylingSophistication: true,
-          sophisticationScore: true,
-          overallScore: true,
-          highlights: true,
-          improvementSuggestions: true,
-          expertInsights: true,
-          technicalFlaws: true,
-          accepted: true,
-          createdAt: true,
-        }
+        select: REVIEW_HISTORY_SELECT,
       });
     } else {
       return res.status(400).json({ 
-        error: 'Invalid authentication',
+        error: apiMessage('auth.invalidAuthentication'),
         code: 'INVALID_AUTH'
       });
     }
 
+    // Each score is compared with the wearer's usual score at the time it was given
+    const calibrations = await calibrateReviews(owner, reviews);
+    const calibratedReviews = reviews.map(review => ({ ...review, calibration: calibrations.get(review.id) ?? null }));
+
     // Add usage information for guests
     if (req.isGuest) {
       const usage = await getUsageInfo(req);
       res.json({
-        reviews,
+        reviews: calibratedReviews,
         usage
       });
     } else {
-      res.json(reviews);
+      res.json(calibratedReviews);
     }
 
   } catch (error) {
     console.error('Error fetching reviews:', error);
-    res.status(500).json({ error: 'Failed to fetch reviews' });
+    res.status(500).json({ error: apiMessage('reviews.fetchFailed') });
+  }
+}));
+
+// One review of the user or guest, with the same fields as the history
+router.get('/:reviewId', asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+  const { reviewId } = req.params;
+  const owner: ReviewOwner = req.isAuthenticated
+    ? { userId: req.userId!, guestDeviceId: null }
+    : { userId: null, guestDeviceId: req.guestSessionId! };
+  const whereClause = req.isAuthenticated
+    ? { id: reviewId, userId: req.userId }
+    : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+  const review = await prisma.review.findFirst({
+    where: whereClause,
+    select: REVIEW_HISTORY_SELECT,
+  });
+
+  if (!review) {
+    return res.status(404).json({ error: apiMessage('reviews.notFound') });
+  }
+
+  const calibrations = await calibrateReviews(owner, [review]);
+  res.json({ ...review, calibration: calibrations.get(review.id) ?? null });
+}));
+
+// Delete a review with its photos, garments and follow-up messages
+router.delete('/:reviewId', asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+  const { reviewId } = req.params;
+  const whereClause = req.isAuthenticated
+    ? { id: reviewId, userId: req.userId }
+    : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+  const result = await deleteOwnedReview(whereClause);
+  if (result === 'not_found') {
+    return res.status(404).json({ error: apiMessage('reviews.notFound') });
+  }
+  if (result === 'analysis_in_progress') {
+    return res.status(409).json({
+      error: apiMessage('reviews.stillAnalyzing'),
+      code: 'ANALYSIS_IN_PROGRESS',
+    });
+  }
+
+  res.json({ status: 'deleted' });
+}));
+
+// Poll the analysis status of a review (used with POST /api/reviews?async=true)
+router.get(
+  '/:reviewId/status',
+  [query('wait').optional().isInt({ min: 0, max: MAX_STATUS_WAIT_SECONDS }).withMessage(`wait must be 0-${MAX_STATUS_WAIT_SECONDS} seconds`)],
+  asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { reviewId } = req.params;
+    const whereClause = req.isAuthenticated 
+      ? { id: reviewId, userId: req.userId } 
+      : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+    const findReview = () => prisma.review.findFirst({
+      where: whereClause,
+      include: { analysisJob: true, images: REVIEW_IMAGES_SELECT, ...REVIEW_GARMENTS_INCLUDE },
+    });
+
+    let review = await findReview();
+    if (!review) {
+      return res.status(404).json({ error: apiMessage('reviews.notFound') });
+    }
+
+    // Long-poll: hold the request until the job finishes or the wait runs out
+    const waitSeconds = parseInt(req.query.wait as string || '0', 10);
+    if (waitSeconds > 0 && IN_FLIGHT_ANALYSIS_STATUSES.includes(review.analysisStatus)) {
+      await waitForAnalysis(review.id, waitSeconds * 1000);
+      review = await findReview() ?? review;
+    }
+
+    const done = !IN_FLIGHT_ANALYSIS_STATUSES.includes(review.analysisStatus);
+    const response: any = {
+      reviewId: review.id,
+      analysisStatus: review.analysisStatus,
+      done,
+      images: review.images,
+      job: review.analysisJob && {
+        id: review.analysisJob.id,
+        status: review.analysisJob.status,
+        attempts: review.analysisJob.attempts,
+        maxAttempts: review.analysisJob.maxAttempts,
+        nextAttemptAt: review.analysisJob.status === 'queued' ? review.analysisJob.runAfter : null,
+      },
+    };
+
+    if (done && review.analysisStatus !== 'failed') {
+      response.analysisProvider = review.analysisProvider;
+      response.analysisModel = review.analysisModel;
+      response.promptVersion = review.promptVersion;
+      response.locale = review.locale;
+      response.persona = review.persona;
+      response.tone = review.tone;
+      response.outfitAnalysis = toOutfitAnalysisResponse(review);
+      response.calibration = await calibrateReview(review);
+      response.cache = toCacheReport(review.analysisCacheStatus);
+    }
+
+    if (req.isGuest) {
+      response.guestUsage = await getUsageInfo(req);
+    }
+
+    res.json(response);
+  })
+);
+
+// Stream analysis progress as Server-Sent Events (used with POST /api/reviews?async=true)
+router.get('/:reviewId/events', asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+  const { reviewId } = req.params;
+  const whereClause = req.isAuthenticated 
+    ? { id: reviewId, userId: req.userId } 
+    : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+  const review = await prisma.review.findFirst({ where: whereClause, include: REVIEW_GARMENTS_INCLUDE });
+  if (!review) {
+    return res.status(404).json({ error: apiMessage('reviews.notFound') });
   }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  let unsubscribe = () => {};
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const send = (event: AnalysisProgressEvent) => {
+    if (closed) return;
+    res.write(`event: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (FINAL_ANALYSIS_STAGES.includes(event.stage)) {
+      close();
+    }
+  };
+
+  // Finished reviews (or jobs finished by another instance) get a single final event
+  const sendFinalSnapshot = async (finished: typeof review) => send({
+    reviewId: finished.id,
+    stage: finished.analysisStatus === 'failed' ? 'failed' : 'persisted',
+    at: new Date().toISOString(),
+    data: {
+      analysisStatus: finished.analysisStatus,
+      ...(finished.analysisStatus !== 'failed' && {
+        analysisProvider: finished.analysisProvider,
+        analysisModel: finished.analysisModel,
+        outfitAnalysis: toOutfitAnalysisResponse(finished),
+        calibration: await calibrateReview(finished),
+        cache: toCacheReport(finished.analysisCacheStatus),
+      }),
+    },
+  });
+
+  if (!IN_FLIGHT_ANALYSIS_STATUSES.includes(review.analysisStatus)) {
+    await sendFinalSnapshot(review);
+    return;
+  }
+
+  req.on('close', close);
+  unsubscribe = subscribeProgress(review.id, send);
+  if (closed) {
+    unsubscribe();
+    return;
+  }
+
+  heartbeat = setInterval(async () => {
+    res.write(': keep-alive\n\n');
+    try {
+      const current = await prisma.review.findUnique({ where: { id: review.id }, include: REVIEW_GARMENTS_INCLUDE });
+      if (!current) {
+        close();
+      } else if (!IN_FLIGHT_ANALYSIS_STATUSES.includes(current.analysisStatus)) {
+        await sendFinalSnapshot(current);
+      }
+    } catch (error) {
+      console.error('Event stream status check failed:', error);
+    }
+  }, EVENT_STREAM_HEARTBEAT_MS);
 }));
 
 // Compare reviews
 router.post(
   '/:reviewId/compare',
-  [body('previousReviewIds').isArray().withMessage('previousReviewIds must be an array')],
+  [
+    body('previousReviewIds')
+      .isArray({ min: 1, max: MAX_COMPARED_REVIEWS })
+      .withMessage(`previousReviewIds must be an array of 1-${MAX_COMPARED_REVIEWS} review IDs`),
+  ],
   asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -313,47 +813,184 @@ router.post(
     });
 
     if (reviews.length !== allReviewIds.length) {
-      return res.status(400).json({ error: 'Invalid review IDs' });
+      return res.status(400).json({ error: apiMessage('reviews.invalidIds') });
     }
 
     const currentReview = reviews.find((r: any) => r.id === reviewId);
     const previousReviews = reviews.filter((r: any) => previousReviewIds.includes(r.id));
 
     if (!currentReview || previousReviews.length === 0) {
-      return res.status(400).json({ error: 'Reviews not found' });
+      return res.status(400).json({ error: apiMessage('reviews.someNotFound') });
+    }
+
+    // Failed, no-outfit and still-running reviews have no scores to compare
+    if (reviews.some((r: any) => ['failed', 'no_outfit', ...IN_FLIGHT_ANALYSIS_STATUSES].includes(r.analysisStatus))) {
+      return res.status(400).json({ error: apiMessage('reviews.notComparable') });
     }
 
+    const aiCalls: AiCall[] = [];
     try {
-      // Generate comparison insight with AI
-      const comparisonInsight = await generateComparisonInsight(currentReview, previousReviews);
+      // Generate structured comparison with AI
+      const comparison = await generateComparison(currentReview, previousReviews, aiCalls);
+
+      await recordAiUsage(aiCalls, currentReview);
 
       // Update review with comparison data
       await prisma.review.update({
         where: { id: reviewId },
         data: {
-          comparedWithIds: previousReviewIds,
-          comparisonInsight,
+          comparedWithIds: comparison.previousReviewIds,
+          comparisonInsight: comparison.narrative,
+          comparisonDetails: comparison as unknown as Prisma.InputJsonObject,
         }
       });
 
       res.json({
         comparison: {
-          withReviewIds: previousReviewIds,
-          insight: comparisonInsight,
+          withReviewIds: comparison.previousReviewIds,
+          insight: comparison.narrative,
+          details: comparison,
         }
       });
 
     } catch (error) {
+      if (error instanceof ComparisonFailedError) {
+        await recordAiUsage(aiCalls, currentReview);
+        return res.status(502).json({
+          error: apiMessage('reviews.comparisonUnavailable'),
+          code: 'COMPARISON_FAILED',
+        });
+      }
       console.error('Comparison error:', error);
-      res.status(500).json({ error: 'Failed to generate comparison' });
+      res.status(500).json({ error: apiMessage('reviews.comparisonFailed') });
     }
   })
 );
 
+// Follow-up conversation about a review, oldest message first
+router.get('/:reviewId/messages', asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+  const { reviewId } = req.params;
+  const whereClause = req.isAuthenticated
+    ? { id: reviewId, userId: req.userId }
+    : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+  const review = await prisma.review.findFirst({
+    where: whereClause,
+    select: { id: true, messages: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!review) {
+    return res.status(404).json({ error: apiMessage('reviews.notFound') });
+  }
+
+  const response: any = { messages: review.messages.map(toMessageResponse) };
+  if (req.isGuest) {
+    response.messageUsage = await getMessageUsageInfo(req);
+  }
+  res.json(response);
+}));
+
+// Ask a follow-up question about a review; the answer is grounded in its analysis, photo and profile
+router.post(
+  '/:reviewId/messages',
+  checkMessageLimits,
+  [
+    body('content')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: MESSAGE_MAX_LENGTH })
+      .withMessage(`content must be 1-${MESSAGE_MAX_LENGTH} characters`),
+  ],
+  asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { reviewId } = req.params;
+    const whereClause = req.isAuthenticated
+      ? { id: reviewId, userId: req.userId }
+      : { id: reviewId, guestDeviceId: req.guestSessionId, isGuest: true };
+
+    const review = await prisma.review.findFirst({
+      where: whereClause,
+      include: {
+        ...REVIEW_GARMENTS_INCLUDE,
+        user: { select: { profile: true } },
+        images: { orderBy: { position: 'asc' } },
+        messages: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+    if (!review) {
+      return res.status(404).json({ error: apiMessage('reviews.notFound') });
+    }
+
+    // Failed, no-outfit and still-running reviews have no analysis to talk about
+    if (['failed', 'no_outfit', ...IN_FLIGHT_ANALYSIS_STATUSES].includes(review.analysisStatus)) {
+      return res.status(400).json({ error: apiMessage('reviews.notDiscussable') });
+    }
+
+    const questions = review.messages.filter(message => message.role === 'user').length;
+    if (questions >= config.chat.maxQuestionsPerReview) {
+      return res.status(429).json({
+        error: apiMessage('chat.conversationLimit'),
+        code: 'THREAD_LIMIT_REACHED',
+        limit: config.chat.maxQuestionsPerReview,
+      });
+    }
+
+    const question = sanitizeMessage(req.body.content);
+    if (!question) {
+      return res.status(400).json({ error: apiMessage('chat.emptyMessage') });
+    }
+
+    const aiCalls: AiCall[] = [];
+    let reply: ChatReply;
+    try {
+      reply = await generateChatReply(review, review.messages, question, aiCalls);
+    } catch (error) {
+      await recordAiUsage(aiCalls, review);
+      if (error instanceof ChatFailedError) {
+        // Nothing is stored, so the question does not count against guest limits
+        return res.status(502).json({
+          error: apiMessage('chat.unavailable'),
+          code: 'CHAT_FAILED',
+        });
+      }
+      throw error;
+    }
+    await recordAiUsage(aiCalls, review);
+
+    // Only answered questions are stored, so a failed call can simply be retried
+    const [userMessage, assistantMessage] = await prisma.$transaction([
+      prisma.reviewMessage.create({ data: { reviewId, role: 'user', content: question } }),
+      prisma.reviewMessage.create({
+        data: { reviewId, role: 'assistant', content: reply.content, provider: reply.provider, model: reply.model },
+      }),
+    ]);
+    // Counted on the device, so deleting the review does not give the question back
+    if (req.isGuest && req.guestSessionId) {
+      await incrementGuestMessageUsage(req.guestSessionId);
+    }
+
+    const response: any = {
+      question: toMessageResponse(userMessage),
+      reply: toMessageResponse(assistantMessage),
+    };
+    if (req.isGuest) {
+      response.messageUsage = await getMessageUsageInfo(req);
+    }
+    res.status(201).json(response);
+  })
+);
+
 // Accept/reject feedback
 router.post(
   '/:reviewId/accept',
-  [body('accepted').isBoolean().withMessage('accepted must be true or false')],
+  [
+    body('accepted').isBoolean().withMessage('accepted must be true or false'),
+    body('feedbackRating').optional({ values: 'null' }).isInt({ min: 1, max: 5 }).withMessage('feedbackRating must be 1-5'),
+    body('userFeedback').optional({ values: 'null' }).isString().trim().isLength({ max: 1000 }),
+  ],
   asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -362,7 +999,7 @@ router.post(
 
     const userId = req.userId;
     const { reviewId } = req.params;
-    const { accepted } = req.body;
+    const { accepted, feedbackRating, userFeedback } = req.body;
 
     // Build query based on user type
     const whereClause = req.isAuthenticated 
@@ -374,23 +1011,61 @@ router.post(
     });
 
     if (!review) {
-      return res.status(404).json({ error: 'Review not found' });
+      return res.status(404).json({ error: apiMessage('reviews.notFound') });
     }
 
     await prisma.review.update({
       where: { id: reviewId },
-      data: { accepted }
+      data: {
+        accepted,
+        ...(feedbackRating != null && { feedbackRating: Number(feedbackRating) }),
+        ...(userFeedback != null && { userFeedback: userFeedback || null }),
+      }
     });
 
     res.json({ status: 'updated' });
   })
 );
 
-// Helper function for AI comparison
-async function generateComparisonInsight(currentReview: any, previousReviews: any[]): Promise<string> {
-  // This is a placeholder - implement actual AI comparison logic
-  const styles = previousReviews.map(r => r.styleCategory).join(', ');
-  return `Your current ${currentReview.styleCategory} outfit shows evolution from your previous ${styles} styles. The color harmony has improved, and the fit appears more confident.`;
-}
+// Appeal a rejected or quarantined upload
+router.post(
+  '/moderation/:moderationId/appeal',
+  [
+    body('message').optional({ values: 'null' }).isString().trim().isLength({ max: 1000 }).withMessage('message must be at most 1000 characters'),
+  ],
+  asyncHandler(async (req: UnifiedAuthRequest, res: Response) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { moderationId } = req.params;
+    const whereClause = req.isAuthenticated
+      ? { id: moderationId, userId: req.userId }
+      : { id: moderationId, guestDeviceId: req.guestSessionId };
+
+    const log = await prisma.moderationLog.findFirst({
+      where: whereClause
+    });
+
+    if (!log) {
+      return res.status(404).json({ error: apiMessage('moderation.decisionNotFound') });
+    }
+    if (log.appealStatus !== 'none') {
+      return res.status(409).json({ error: apiMessage('moderation.alreadyAppealed'), appealStatus: log.appealStatus });
+    }
+
+    const appealed = await prisma.moderationLog.update({
+      where: { id: moderationId },
+      data: {
+        appealStatus: 'pending',
+        appealMessage: req.body.message || null,
+        appealedAt: new Date(),
+      }
+    });
+
+    res.status(202).json({ moderationId: appealed.id, appealStatus: appealed.appealStatus });
+  })
+);
 
 export { router as reviewRoutes };
@@ -85,6 +85,139 @@
  *           items:
  *             type: string
  *           description: Technical issues identified
+ *         garments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Garment'
+ *           description: |
+ *             Garments detected in the photo, most prominent first, with dominant colors, pattern,
+ *             estimated fabric, fit notes, a 0-100 score and an optional bounding box. Empty for
+ *             reviews analyzed with prompt versions before outfit-analysis@2.
+ *         colorPalette:
+ *           allOf:
+ *             - $ref: '#/components/schemas/ColorPalette'
+ *           nullable: true
+ *           description: |
+ *             Dominant colors measured from the photo's pixels (k-means, background excluded where
+ *             possible) and the color scheme they form. The same measurements ground the AI's
+ *             colorHarmony assessment. Null when palette extraction is off or failed.
+ *         confidence:
+ *           type: object
+ *           nullable: true
+ *           description: |
+ *             Ensemble mode only: 0-1 per dimension (overall, style, fit, color, occasion, proportion,
+ *             fabric, sophistication). 1 when every model gave the same score, 0.5 at the disagreement
+ *             threshold. Null when the analysis came from a single model call.
+ *           additionalProperties:
+ *             type: number
+ *           example: { overall: 0.93, style: 0.8, fit: 0.4 }
+ *         disagreements:
+ *           type: array
+ *           description: Dimensions where ensemble members' scores spread more than AI_ENSEMBLE_DISAGREEMENT_THRESHOLD
+ *           items:
+ *             type: object
+ *             properties:
+ *               dimension:
+ *                 type: string
+ *               field:
+ *                 type: string
+ *               min:
+ *                 type: integer
+ *               max:
+ *                 type: integer
+ *               spread:
+ *                 type: integer
+ *         ensemble:
+ *           type: object
+ *           nullable: true
+ *           description: Models combined into this analysis; scores are the median of the members
+ *           properties:
+ *             members:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   provider:
+ *                     type: string
+ *                   model:
+ *                     type: string
+ *                   overallScore:
+ *                     type: integer
+ *                   styleCategory:
+ *                     type: string
+ *             failedMembers:
+ *               type: integer
+ *               description: Calls that failed and were left out
+ *     AnalysisStatus:
+ *       type: string
+ *       enum: [pending, processing, ok, degraded_fallback, no_outfit, failed]
+ *       description: |
+ *         - **pending** / **processing**: queued analysis (async mode) has not finished; scores are null
+ *         - **ok**: real analysis from the configured model
+ *         - **degraded_fallback**: produced by a fallback provider, scores are not from the configured model
+ *         - **no_outfit**: the model found no clothing to analyze
+ *         - **failed**: no usable analysis; scores are null
+ *     AnalysisCache:
+ *       type: object
+ *       description: Whether the analysis was served from the re-upload cache
+ *       properties:
+ *         status:
+ *           type: string
+ *           enum: [miss, exact_hit, perceptual_hit, repersonalized, skipped, disabled]
+ *           description: |
+ *             - **miss**: fresh vision call, result stored for later re-uploads
+ *             - **exact_hit** / **perceptual_hit**: earlier analysis of the same (or a re-encoded) photo reused
+ *             - **repersonalized**: earlier analysis adapted to a new profile or description with a text-only call
+ *             - **skipped**: the request opted out with `cache=false`
+ *             - **disabled**: the cache is turned off on the server
+ *         hit:
+ *           type: boolean
+ *           description: True when no vision call was made
+ *     ComparisonDetails:
+ *       type: object
+ *       properties:
+ *         previousReviewIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         dimensions:
+ *           type: array
+ *           description: Score change per dimension, current minus the average of the previous reviews
+ *           items:
+ *             type: object
+ *             properties:
+ *               dimension:
+ *                 type: string
+ *                 example: fit
+ *               label:
+ *                 type: string
+ *                 example: Fit
+ *               previous:
+ *                 type: integer
+ *                 nullable: true
+ *               current:
+ *                 type: integer
+ *                 nullable: true
+ *               delta:
+ *                 type: integer
+ *                 nullable: true
+ *         improved:
+ *           type: array
+ *           items:
+ *             type: string
+ *         regressed:
+ *           type: array
+ *           items:
+ *             type: string
+ *         narrative:
+ *           type: string
+ *         provider:
+ *           type: string
+ *         model:
+ *           type: string
+ *         generatedAt:
+ *           type: string
+ *           format: date-time
  *     GuestUsage:
  *       type: object
  *       properties:
@@ -187,14 +320,61 @@
  *           items:
  *             type: string
  *           nullable: true
+ *         garments:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Garment'
+ *         images:
+ *           type: array
+ *           description: Every photo of the review, main photo first; empty for reviews from before multi-angle uploads
+ *           items:
+ *             $ref: '#/components/schemas/ReviewImage'
+ *         colorPalette:
+ *           allOf:
+ *             - $ref: '#/components/schemas/ColorPalette'
+ *           nullable: true
+ *         occasion:
+ *           allOf:
+ *             - $ref: '#/components/schemas/Occasion'
+ *           nullable: true
+ *         season:
+ *           type: string
+ *           nullable: true
+ *         climate:
+ *           type: string
+ *           nullable: true
  *         comparisonInsight:
  *           type: string
  *           nullable: true
  *           description: AI-generated comparison with previous reviews
+ *         comparisonDetails:
+ *           allOf:
+ *             - $ref: '#/components/schemas/ComparisonDetails'
+ *           nullable: true
  *         accepted:
  *           type: boolean
  *           nullable: true
  *           description: Whether user accepted the AI feedback
+ *         analysisStatus:
+ *           $ref: '#/components/schemas/AnalysisStatus'
+ *         analysisProvider:
+ *           type: string
+ *           nullable: true
+ *           description: AI provider that produced the analysis
+ *         analysisModel:
+ *           type: string
+ *           nullable: true
+ *           description: Model id reported by the provider
+ *         promptVersion:
+ *           type: string
+ *           nullable: true
+ *           description: Version of the analysis prompt
+ *         analysisFlags:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [instruction_like_description, description_echo, uniform_max_scores]
+ *           description: Signs that the description tried to steer the analysis
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -223,10 +403,63 @@
  *       **Unified endpoint supporting both authentication methods:**
  *       - **Authenticated users**: Use Bearer JWT token (unlimited reviews, keeps last 10)
  *       - **Guest users**: Use device identification headers (limited to 5 reviews)
+ *
+ *       With `?async=true` the image is uploaded, the analysis is queued and the endpoint
+ *       responds `202` right away. Poll `GET /api/reviews/{reviewId}/status` for the result.
+ *       Guest usage is only spent once a queued analysis succeeds.
+ *
+ *       Every upload passes content moderation before it is stored or analyzed. Explicit content,
+ *       photos that appear to show a child and non-photos (screenshots, drawings, animations, tiny
+ *       images) are rejected, or quarantined for manual review when the classifier is unsure.
+ *       The apparent age of every face is estimated on the server for the child check.
+ *       Both respond `422` with a `reason` and a `moderationId` that can be appealed.
+ *
+ *       With privacy mode (`?privacy=blur|crop`, or the profile's `privacyMode`), faces are
+ *       blurred or cropped out on the server before storage and analysis. Moderation checks the
+ *       original photo, so only the OpenAI moderation classifier (when configured) receives it
+ *       unredacted; quarantined copies are redacted.
+ *
+ *       `occasion` (an event or a dress code), `season` and `climate` set the target the outfit
+ *       is scored against: occasionScore rates the fit for that occasion, and the other scores
+ *       weigh how well the outfit serves it. They are stored on the review.
+ *
+ *       The analysis is written in the profile's `locale`, or else the best supported language of
+ *       the `Accept-Language` header (en, es, fr, de), and stored on the review as `locale`.
+ *
+ *       `persona` and `tone` choose who the analysis is written as and how bluntly flaws are put.
+ *       Each falls back to the profile's setting, and then to the default consultant voice. They
+ *       change only the wording: scores follow the same rubric. Both are stored on the review.
  *     security:
  *       - BearerAuth: []
  *       - DeviceAuth: []
  *     parameters:
+ *       - in: query
+ *         name: async
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *         description: Queue the analysis and return 202 instead of waiting for it
+ *       - in: query
+ *         name: cache
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Set to false to skip the re-upload cache and keep this analysis out of it
+ *       - in: query
+ *         name: privacy
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [off, blur, crop]
+ *         description: Face redaction for this upload; overrides the profile's privacyMode. Crop falls back to blur when it would cut off more than half the photo.
+ *       - in: header
+ *         name: Accept-Language
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: es-ES, es;q=0.9, en;q=0.5
+ *         description: Language of the analysis and error messages when the profile sets no locale
  *       - in: header
  *         name: x-device-id
  *         required: false
@@ -270,17 +503,58 @@
  *         multipart/form-data:
  *           schema:
  *             type: object
- *             required:
- *               - image
+ *             description: |
+ *               One outfit photo as image, or several angles of the same outfit, one field per view
+ *               (at most REVIEW_MAX_IMAGES photos, 5 by default). All photos are analyzed together in one AI call.
+ *               The first photo sent (front, then side, back, shoes, detail) becomes the review's main imageUrl.
  *             properties:
  *               image:
  *                 type: string
  *                 format: binary
- *                 description: Outfit image file (max 10MB)
+ *                 description: Outfit image file (max 10MB), taken as the front view. Send either image or front.
+ *               front:
+ *                 type: string
+ *                 format: binary
+ *               side:
+ *                 type: array
+ *                 maxItems: 2
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *               back:
+ *                 type: string
+ *                 format: binary
+ *               shoes:
+ *                 type: string
+ *                 format: binary
+ *               detail:
+ *                 type: array
+ *                 maxItems: 3
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: Close-ups of fabric, construction or accessories
  *               description:
  *                 type: string
- *                 description: Optional description of the outfit
+ *                 maxLength: 500
+ *                 description: Optional description of the outfit. Passed to the model as context only; it cannot change the scoring instructions.
  *                 example: "Business casual outfit for work meeting"
+ *               occasion:
+ *                 $ref: '#/components/schemas/Occasion'
+ *               season:
+ *                 type: string
+ *                 enum: [spring, summer, autumn, winter]
+ *               climate:
+ *                 type: string
+ *                 enum: [tropical, hot_dry, temperate, cold, rainy]
+ *               persona:
+ *                 type: string
+ *                 enum: [gentle_coach, editorial_critic, practical_friend, image_consultant]
+ *                 description: Reviewer persona for this review; overrides the profile setting
+ *               tone:
+ *                 type: string
+ *                 enum: [gentle, balanced, direct, brutal]
+ *                 description: How bluntly flaws are put for this review; overrides the profile setting
  *     responses:
  *       201:
  *         description: Review created successfully with AI analysis
@@ -292,21 +566,97 @@
  *                 reviewId:
  *                   type: string
  *                   description: Unique identifier for the review
+ *                 analysisStatus:
+ *                   $ref: '#/components/schemas/AnalysisStatus'
+ *                 analysisProvider:
+ *                   type: string
+ *                 analysisModel:
+ *                   type: string
+ *                 promptVersion:
+ *                   type: string
+ *                 locale:
+ *                   type: string
+ *                   enum: [en, es, fr, de]
+ *                 persona:
+ *                   type: string
+ *                   nullable: true
+ *                 tone:
+ *                   type: string
+ *                   nullable: true
+ *                 images:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReviewImage'
  *                 outfitAnalysis:
  *                   $ref: '#/components/schemas/OutfitAnalysis'
+ *                 calibration:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ScoreCalibration'
+ *                   nullable: true
+ *                 cache:
+ *                   $ref: '#/components/schemas/AnalysisCache'
  *                 guestUsage:
  *                   $ref: '#/components/schemas/GuestUsage'
  *                   description: Usage information (only included for guest users)
+ *       202:
+ *         description: Analysis queued (async mode). The Location header points at the status endpoint.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviewId:
+ *                   type: string
+ *                 jobId:
+ *                   type: string
+ *                 analysisStatus:
+ *                   type: string
+ *                   example: pending
+ *                 statusUrl:
+ *                   type: string
+ *                   example: /api/reviews/clx123/status
+ *                 eventsUrl:
+ *                   type: string
+ *                   example: /api/reviews/clx123/events
+ *                 images:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReviewImage'
+ *                 guestUsage:
+ *                   $ref: '#/components/schemas/GuestUsage'
  *       400:
- *         description: Validation error, missing image, or invalid device identification
+ *         description: Validation error, missing image, too many photos, or invalid device identification
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Invalid or missing authentication (JWT token or device headers)
+ *       422:
+ *         description: One of the photos was refused by content moderation (imageRole names which). Nothing was stored and guest usage is not consumed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 code:
+ *                   type: string
+ *                   enum: [CONTENT_REJECTED, CONTENT_QUARANTINED]
+ *                 reason:
+ *                   type: string
+ *                   enum: [explicit, minor, non_photo]
+ *                 moderationId:
+ *                   type: string
+ *                 appealUrl:
+ *                   type: string
+ *                   example: /api/reviews/moderation/clx123/appeal
+ *                 imageRole:
+ *                   type: string
+ *                   enum: [front, side, back, shoes, detail]
  *       429:
- *         description: Rate limit exceeded or guest review limit reached (5 reviews for guests)
+ *         description: Rate limit exceeded, guest review limit reached (5 reviews for guests) or monthly AI budget reached (BUDGET_EXCEEDED)
  *         content:
  *           application/json:
  *             schema:
@@ -316,18 +666,37 @@
  *                   type: string
  *                 code:
  *                   type: string
- *                   enum: [LIMIT_REACHED, RATE_LIMIT_EXCEEDED]
+ *                   enum: [LIMIT_REACHED, RATE_LIMIT_EXCEEDED, BUDGET_EXCEEDED]
+ *                 scope:
+ *                   type: string
+ *                   enum: [user, guest, total]
+ *                   description: Which budget cap was reached (BUDGET_EXCEEDED only)
+ *                 resetsAt:
+ *                   type: string
+ *                   format: date-time
+ *                   description: Start of next month (UTC), when budgets reset (BUDGET_EXCEEDED only)
  *                 limit:
  *                   type: integer
  *                   description: Maximum allowed reviews
  *                 used:
  *                   type: integer
  *                   description: Reviews already used
+ *                 pending:
+ *                   type: integer
+ *                   description: Queued analyses that still hold a slot
  *                 message:
  *                   type: string
  *                   example: "You've used all 5 free reviews. Create an account for unlimited access!"
  *       500:
  *         description: Internal server error
+ *       502:
+ *         description: The AI model failed or returned unusable output (code ANALYSIS_FAILED). The review is stored with analysisStatus "failed" and no scores, and guest usage is not consumed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: The moderation classifier is unreachable (code MODERATION_UNAVAILABLE) and MODERATION_FAIL_OPEN is off, or face detection failed in privacy mode (code PRIVACY_UNAVAILABLE)
  *   get:
  *     summary: Get recent outfit reviews (Supports both authenticated users and guests)
  *     tags: [Reviews]
@@ -339,6 +708,12 @@
  *       - BearerAuth: []
  *       - DeviceAuth: []
  *     parameters:
+ *       - in: query
+ *         name: occasion
+ *         required: false
+ *         schema:
+ *           $ref: '#/components/schemas/Occasion'
+ *         description: Only reviews scored against this occasion
  *       - in: header
  *         name: x-device-id
  *         required: false
@@ -372,12 +747,219 @@
  *                       $ref: '#/components/schemas/GuestUsage'
  *                   description: Reviews with usage info (for guest users)
  *       400:
- *         description: Invalid authentication
+ *         description: Invalid authentication or unknown occasion
  *       401:
  *         description: Invalid or missing authentication
  *       500:
  *         description: Internal server error
  * 
+ * /api/reviews/{reviewId}:
+ *   get:
+ *     summary: Get a single review (Supports both user types)
+ *     tags: [Reviews]
+ *     description: Returns the review with the same fields as an entry of the review history.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the review
+ *       - in: header
+ *         name: x-device-id
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device ID for guest authentication (required for guests)
+ *       - in: header
+ *         name: x-device-fingerprint
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device fingerprint for guest authentication (required for guests)
+ *     responses:
+ *       200:
+ *         description: The review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Review'
+ *       401:
+ *         description: Invalid or missing authentication
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ *   delete:
+ *     summary: Delete a review (Supports both user types)
+ *     tags: [Reviews]
+ *     description: |
+ *       Deletes the review with its photos (also removed from Cloudinary), garments and
+ *       follow-up messages, and drops the cached analysis of its photos so a re-upload is analyzed
+ *       again. AI usage records are kept. A guest's deleted review and the questions asked about it
+ *       still count towards the free review and follow-up question limits.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the review
+ *       - in: header
+ *         name: x-device-id
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device ID for guest authentication (required for guests)
+ *       - in: header
+ *         name: x-device-fingerprint
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device fingerprint for guest authentication (required for guests)
+ *     responses:
+ *       200:
+ *         description: Review deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: "deleted"
+ *       401:
+ *         description: Invalid or missing authentication
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ *       409:
+ *         description: The review is still being analyzed (code ANALYSIS_IN_PROGRESS)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ * 
+ * /api/reviews/{reviewId}/status:
+ *   get:
+ *     summary: Get the analysis status of a review (Supports both user types)
+ *     tags: [Reviews]
+ *     description: |
+ *       Poll this after `POST /api/reviews?async=true`. Pass `wait` to long-poll: the request is
+ *       held until the analysis finishes or the wait runs out.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: wait
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 25
+ *         description: Seconds to wait for the analysis to finish before responding
+ *     responses:
+ *       200:
+ *         description: Current analysis status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviewId:
+ *                   type: string
+ *                 analysisStatus:
+ *                   $ref: '#/components/schemas/AnalysisStatus'
+ *                 done:
+ *                   type: boolean
+ *                   description: False while the analysis is pending or processing
+ *                 images:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReviewImage'
+ *                 job:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Queue job, null for reviews analyzed synchronously
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [queued, processing, succeeded, failed]
+ *                     attempts:
+ *                       type: integer
+ *                     maxAttempts:
+ *                       type: integer
+ *                     nextAttemptAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                 analysisProvider:
+ *                   type: string
+ *                 analysisModel:
+ *                   type: string
+ *                 promptVersion:
+ *                   type: string
+ *                 outfitAnalysis:
+ *                   $ref: '#/components/schemas/OutfitAnalysis'
+ *                   description: Present once done, unless the analysis failed
+ *                 calibration:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ScoreCalibration'
+ *                   nullable: true
+ *                   description: Present once done, unless the analysis failed
+ *                 cache:
+ *                   $ref: '#/components/schemas/AnalysisCache'
+ *                 guestUsage:
+ *                   $ref: '#/components/schemas/GuestUsage'
+ *       400:
+ *         description: Invalid wait parameter
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ * 
+ * /api/reviews/{reviewId}/events:
+ *   get:
+ *     summary: Stream analysis progress as Server-Sent Events (Supports both user types)
+ *     tags: [Reviews]
+ *     description: |
+ *       Each event is named after its stage: `uploaded`, `image_preprocessed`, `queued`,
+ *       `model_started`, `partial`, `repair_started`, `retry_scheduled`, `persisted` or `failed`.
+ *       Events seen so far are replayed on connect. `partial` carries `data.fields`, the fields
+ *       the model has finished writing; they are provisional until `persisted`, which carries the
+ *       validated `outfitAnalysis` and its `calibration`. The stream closes after `persisted` or `failed`. For reviews
+ *       that are no longer in flight a single final event is sent.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 event: model_started
+ *                 data: {"reviewId":"clx123","stage":"model_started","at":"2025-10-23T09:00:00.000Z","data":{"provider":"openrouter","model":"openai/gpt-4.1-nano"}}
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ * 
  * /api/reviews/{reviewId}/compare:
  *   post:
  *     summary: Compare current review with previous reviews (Supports both user types)
@@ -417,6 +999,8 @@
  *                 type: array
  *                 items:
  *                   type: string
+ *                 minItems: 1
+ *                 maxItems: 5
  *                 description: Array of previous review IDs to compare with
  *                 example: ["review1", "review2", "review3"]
  *     responses:
@@ -436,15 +1020,132 @@
  *                         type: string
  *                     insight:
  *                       type: string
- *                       description: AI-generated comparison insight
+ *                       description: AI-generated comparison narrative
+ *                     details:
+ *                       $ref: '#/components/schemas/ComparisonDetails'
  *       400:
- *         description: Invalid review IDs or validation error
+ *         description: Invalid review IDs, validation error, or a review without a successful analysis
  *       401:
  *         description: Invalid or missing authentication
  *       404:
  *         description: Review not found or not accessible by current user/guest
  *       500:
  *         description: Failed to generate comparison
+ *       502:
+ *         description: The AI provider could not produce a comparison (code COMPARISON_FAILED); nothing is stored
+ * 
+ * /api/reviews/{reviewId}/messages:
+ *   get:
+ *     summary: Get the follow-up conversation about a review (Supports both user types)
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the review
+ *       - in: header
+ *         name: x-device-id
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device ID for guest authentication (required for guests)
+ *       - in: header
+ *         name: x-device-fingerprint
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device fingerprint for guest authentication (required for guests)
+ *     responses:
+ *       200:
+ *         description: Messages, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 messages:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReviewMessage'
+ *                 messageUsage:
+ *                   $ref: '#/components/schemas/MessageUsage'
+ *       401:
+ *         description: Invalid or missing authentication
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ *   post:
+ *     summary: Ask a follow-up question about a review (Supports both user types)
+ *     description: |
+ *       The answer is grounded in the stored analysis, garments, palette, occasion, photo and profile,
+ *       plus the most recent messages of the thread. The question and answer are stored only when
+ *       the AI answers. Questions do not use up guest reviews but are capped per guest device
+ *       (CHAT_GUEST_MESSAGE_LIMIT) and per review (CHAT_MAX_QUESTIONS_PER_REVIEW).
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reviewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the review
+ *       - in: header
+ *         name: x-device-id
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device ID for guest authentication (required for guests)
+ *       - in: header
+ *         name: x-device-fingerprint
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: Device fingerprint for guest authentication (required for guests)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 minLength: 1
+ *                 maxLength: 1000
+ *                 example: What shoes would make this work for the office?
+ *     responses:
+ *       201:
+ *         description: Question answered and stored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 question:
+ *                   $ref: '#/components/schemas/ReviewMessage'
+ *                 reply:
+ *                   $ref: '#/components/schemas/ReviewMessage'
+ *                 messageUsage:
+ *                   $ref: '#/components/schemas/MessageUsage'
+ *       400:
+ *         description: Validation error, or the review has no successful analysis to discuss
+ *       401:
+ *         description: Invalid or missing authentication
+ *       404:
+ *         description: Review not found or not accessible by current user/guest
+ *       429:
+ *         description: Guest question limit (MESSAGE_LIMIT_REACHED), per-review limit (THREAD_LIMIT_REACHED) or monthly budget (BUDGET_EXCEEDED) reached
+ *       502:
+ *         description: The AI provider could not answer (code CHAT_FAILED); nothing is stored
  * 
  * /api/reviews/{reviewId}/accept:
  *   post:
@@ -485,6 +1186,15 @@
  *                 type: boolean
  *                 description: Whether the user accepts the AI feedback
  *                 example: true
+ *               feedbackRating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *                 description: Optional star rating of the feedback, compared across prompt versions
+ *               userFeedback:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Optional free-text comment
  *     responses:
  *       200:
  *         description: Feedback status updated
@@ -504,6 +1214,109 @@
  *         description: Review not found or not accessible by current user/guest
  *       500:
  *         description: Internal server error
+ *
+ * /api/reviews/privacy-preview:
+ *   post:
+ *     summary: Preview an image with faces redacted, without uploading it
+ *     tags: [Reviews]
+ *     description: |
+ *       Runs the same face redaction as `POST /api/reviews` with privacy mode and returns the result.
+ *       Nothing is stored, sent to third parties or counted against review limits.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: privacy
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [blur, crop]
+ *         description: Defaults to the profile's privacyMode, or blur
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [image]
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Redacted image
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 privacyMode:
+ *                   type: string
+ *                   enum: [blur, crop]
+ *                   description: Mode applied; crop falls back to blur when it would cut off more than half the photo
+ *                 facesRedacted:
+ *                   type: integer
+ *                 image:
+ *                   type: string
+ *                   description: Redacted JPEG as a data URL
+ *       400:
+ *         description: Missing or unreadable image (code INVALID_IMAGE)
+ *       401:
+ *         description: Invalid or missing authentication
+ *       503:
+ *         description: Face detection failed (code PRIVACY_UNAVAILABLE)
+ *
+ * /api/reviews/moderation/{moderationId}/appeal:
+ *   post:
+ *     summary: Appeal a rejected or quarantined upload
+ *     tags: [Reviews]
+ *     description: |
+ *       Each decision can be appealed once. If an admin overturns it, the same photo can be
+ *       uploaded again and skips moderation.
+ *     security:
+ *       - BearerAuth: []
+ *       - DeviceAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: moderationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: moderationId from the 422 response
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Why the decision is wrong
+ *     responses:
+ *       202:
+ *         description: Appeal submitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 moderationId:
+ *                   type: string
+ *                 appealStatus:
+ *                   type: string
+ *                   example: pending
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Invalid or missing authentication
+ *       404:
+ *         description: Decision not found or not made on this user's or device's upload
+ *       409:
+ *         description: The decision has already been appealed
  */
 
 /**
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import type { AnalysisCacheEntry, Prisma } from '@prisma/client';
+import { config } from '../config/config';
+import { prisma } from '../lib/prisma';
+import { perceptualHashDistance } from '../lib/imageHash';
+import {
+  analyzeOutfit,
+  repersonalizeAnalysis,
+  AnalysisOptions,
+  AnalysisOutcome,
+  OutfitAnalysis,
+  UserProfile,
+} from './aiService';
+import { assignPromptVersion } from './prompts';
+import { flagSuspiciousAnalysis } from './promptSafety';
+import type { AnalysisTarget } from './occasionService';
+import { DEFAULT_LOCALE, Locale } from './localeService';
+import type { ReviewerVoice } from './personaService';
+
+// miss: fresh vision call | exact_hit / perceptual_hit: cached analysis reused as-is |
+// repersonalized: cached analysis adapted with a text-only call | skipped: caller opted out |
+// disabled: ANALYSIS_CACHE_ENABLED=false
+export type AnalysisCacheStatus = 'miss' | 'exact_hit' | 'perceptual_hit' | 'repersonalized' | 'skipped' | 'disabled';
+
+export interface CachedAnalysisOutcome extends AnalysisOutcome {
+  cacheStatus: AnalysisCacheStatus;
+}
+
+export interface AnalysisCacheOptions extends AnalysisOptions {
+  // Cloudinary pHash of the upload, matches re-encoded or resized copies
+  perceptualHash?: string;
+  // Neither read nor write the cache for this request
+  skipCache?: boolean;
+}
+
+// Statuses that avoided a full vision call
+const CACHE_HIT_STATUSES: AnalysisCacheStatus[] = ['exact_hit', 'perceptual_hit', 'repersonalized'];
+
+// Fallback output is not cached so the configured provider gets another chance next time.
+// Flagged analyses (see promptSafety) are not cached either.
+const CACHEABLE_ANALYSIS_STATUSES = ['ok', 'no_outfit'];
+
+// Most recent entries compared by perceptual hash on each lookup
+const MAX_PERCEPTUAL_CANDIDATES = 200;
+
+interface CacheMatch {
+  entry: AnalysisCacheEntry;
+  exact: boolean;
+  sameContext: boolean;
+}
+
+/**
+ * The cache object returned to clients
+ */
+export function toCacheReport(status: string | null) {
+  return {
+    status,
+    hit: CACHE_HIT_STATUSES.includes(status as AnalysisCacheStatus),
+  };
+}
+
+/**
+ * analyzeOutfit, but re-uploads of a photo the owner already had analyzed reuse
+ * the earlier analysis instead of paying for another vision call.
+ * Entries are only shared between uploads of the same owner (options.ownerKey).
+ */
+export async function analyzeOutfitCached(
+  imageUrl: string,
+  userProfile: UserProfile | null | undefined,
+  description: string | null | undefined,
+  cacheOptions: AnalysisCacheOptions
+): Promise<CachedAnalysisOutcome> {
+  // Resolve the variant once so lookup, analysis and storage agree on it
+  const options = {
+    ...cacheOptions,
+    promptVersion: cacheOptions.promptVersion ?? assignPromptVersion(cacheOptions.ownerKey),
+  };
+
+  if (!config.analysisCache.enabled) {
+    return { ...await analyzeOutfit(imageUrl, userProfile, description, options), cacheStatus: 'disabled' };
+  }
+
+  const { ownerKey, imageDigest } = options;
+  if (options.skipCache || !ownerKey || !imageDigest) {
+    return { ...await analyzeOutfit(imageUrl, userProfile, description, options), cacheStatus: 'skipped' };
+  }
+
+  const contextKey = createContextKey(userProfile, description, options.target, options.locale, options.voice);
+  const match = await findCachedAnalysis(ownerKey, imageDigest, options.perceptualHash, contextKey, options.promptVersion);
+
+  if (match && (match.sameContext || match.entry.analysisStatus === 'no_outfit')) {
+    await recordHit(match.entry.id);
+    console.log(`🗃️ Analysis cache ${match.exact ? 'exact' : 'perceptual'} hit for ${ownerKey}`);
+    const analysis = match.entry.analysis as unknown as OutfitAnalysis;
+    return {
+      analysis,
+      status: match.entry.analysisStatus as AnalysisOutcome['status'],
+      provider: match.entry.provider,
+      model: match.entry.model,
+      promptVersion: match.entry.promptVersion,
+      promptHash: match.entry.promptHash,
+      flags: flagSuspiciousAnalysis(analysis, description),
+      cacheStatus: match.exact ? 'exact_hit' : 'perceptual_hit',
+    };
+  }
+
+  if (match && config.analysisCache.repersonalize) {
+    try {
+      const outcome = await repersonalizeAnalysis(
+        match.entry.analysis as unknown as OutfitAnalysis,
+        userProfile,
+        description,
+        options
+      );
+      await recordHit(match.entry.id);
+      await storeAnalysis(ownerKey, imageDigest, options.perceptualHash, contextKey, outcome);
+      console.log(`🗃️ Analysis cache hit for ${ownerKey}, repersonalized for new context`);
+      return { ...outcome, cacheStatus: 'repersonalized' };
+    } catch (error) {
+      // Fall through to a full analysis
+      console.warn('⚠️ Could not repersonalize cached analysis:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const outcome = await analyzeOutfit(imageUrl, userProfile, description, options);
+  await storeAnalysis(ownerKey, imageDigest, options.perceptualHash, contextKey, outcome);
+  return { ...outcome, cacheStatus: 'miss' };
+}
+
+/**
+ * Drop the owner's cached analyses of a photo, e.g. when its review is deleted
+ */
+export async function purgeCachedAnalyses(ownerKey: string | null, imageDigest: string | null) {
+  if (!ownerKey || !imageDigest) {
+    return;
+  }
+  await prisma.analysisCacheEntry.deleteMany({ where: { ownerKey, imageDigest } });
+}
+
+// Hash of everything besides the image that the analysis prompt depends on
+function createContextKey(
+  userProfile: UserProfile | null | undefined,
+  description: string | null | undefined,
+  target: AnalysisTarget | null | undefined,
+  locale: Locale | null | undefined,
+  voice: ReviewerVoice | null | undefined
+): string {
+  const snapshot = {
+    skinTone: userProfile?.skinTone ?? null,
+    build: userProfile?.build ?? null,
+    faceStructure: userProfile?.faceStructure ?? null,
+    hairType: userProfile?.hairType ?? null,
+    height: userProfile?.height ?? null,
+    description: (description || '').trim().replace(/\s+/g, ' ').toLowerCase(),
+    // Only present when set, so entries from before occasion targeting keep their keys
+    ...(target && { target }),
+    // English is the language entries from before localization were written in
+    ...(locale && locale !== DEFAULT_LOCALE && { locale }),
+    // Absent for the published voice, like the target
+    ...(voice && { voice }),
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(snapshot)).digest('hex');
+}
+
+// Best live entry for this image: same context first, then the closest image
+async function findCachedAnalysis(
+  ownerKey: string,
+  imageDigest: string,
+  perceptualHash: string | undefined,
+  contextKey: string,
+  promptVersion: string
+): Promise<CacheMatch | null> {
+  const candidates = await prisma.analysisCacheEntry.findMany({
+    where: {
+      ownerKey,
+      promptVersion,
+      expiresAt: { gt: new Date() },
+      OR: [
+        { imageDigest },
+        ...(perceptualHash ? [{ perceptualHash: { not: null } }] : []),
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_PERCEPTUAL_CANDIDATES,
+  });
+
+  const matches = candidates
+    .map(entry => {
+      const exact = entry.imageDigest === imageDigest;
+      const distance = exact
+        ? 0
+        : perceptualHash && entry.perceptualHash
+          ? perceptualHashDistance(perceptualHash, entry.perceptualHash)
+          : null;
+      return { entry, exact, distance, sameContext: entry.contextKey === contextKey };
+    })
+    .filter(match => match.distance !== null && match.distance <= config.analysisCache.maxPerceptualDistance)
+    .sort((a, b) => Number(b.sameContext) - Number(a.sameContext) || a.distance! - b.distance!);
+
+  return matches[0] ?? null;
+}
+
+async function recordHit(entryId: string) {
+  try {
+    await prisma.analysisCacheEntry.update({
+      where: { id: entryId },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+    });
+  } catch (error) {
+    console.error('Failed to record analysis cache hit:', error);
+  }
+}
+
+// Cache failures are logged, never surfaced: the analysis itself succeeded
+async function storeAnalysis(
+  ownerKey: string,
+  imageDigest: string,
+  perceptualHash: string | undefined,
+  contextKey: string,
+  outcome: AnalysisOutcome
+) {
+  if (!CACHEABLE_ANALYSIS_STATUSES.includes(outcome.status) || outcome.flags.length > 0) {
+    return;
+  }
+
+  const now = new Date();
+  const entry = {
+    perceptualHash: perceptualHash ?? null,
+    analysis: outcome.analysis as unknown as Prisma.InputJsonObject,
+    analysisStatus: outcome.status,
+    provider: outcome.provider,
+    model: outcome.model,
+    promptHash: outcome.promptHash,
+    expiresAt: new Date(now.getTime() + config.analysisCache.ttlHours * 60 * 60 * 1000),
+  };
+
+  try {
+    await prisma.analysisCacheEntry.upsert({
+      where: {
+        ownerKey_imageDigest_contextKey_promptVersion: {
+          ownerKey,
+          imageDigest,
+          contextKey,
+          promptVersion: outcome.promptVersion,
+        },
+      },
+      create: { ownerKey, imageDigest, contextKey, promptVersion: outcome.promptVersion, ...entry },
+      update: { ...entry, hitCount: 0, lastHitAt: null, createdAt: now },
+    });
+
+    await prisma.analysisCacheEntry.deleteMany({
+      where: { ownerKey, expiresAt: { lte: now } },
+    });
+  } catch (error) {
+    console.error('Failed to store analysis in cache:', error);
+  }
+}
@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { Prisma } from '@prisma/client';
+import { config } from '../config/config';
+import { prisma } from '../lib/prisma';
+import { getAnalysisOwnerKey } from './aiService';
+import { analyzeOutfitCached, toCacheReport } from './analysisCache';
+import { isMockScenario } from './providers';
+import { isPrivacyMode } from './privacyService';
+import type { ColorPalette } from './paletteService';
+import { toAnalysisTarget } from './occasionService';
+import { toReviewViews } from './reviewImageService';
+import { calibrateReview } from './calibrationService';
+import { isLocale } from './localeService';
+import { toReviewerVoice } from './personaService';
+import {
+  commitReviewUsage,
+  toFailedReviewData,
+  toOutfitAnalysisResponse,
+  toReviewAnalysisData,
+  REVIEW_GARMENTS_INCLUDE,
+} from './reviewService';
+import { createProgressReporter } from './analysisProgress';
+import { recordAiUsage, AiCall } from './usageService';
+
+export interface AnalysisJobPayload {
+  imageDigest?: string;
+  perceptualHash?: string;
+  skipCache?: boolean;
+  mockScenario?: string;
+}
+
+export interface AnalysisCompletedEvent {
+  reviewId: string;
+  analysisStatus: string;
+}
+
+interface ClaimedJob {
+  id: string;
+  reviewId: string;
+  attempts: number;
+  maxAttempts: number;
+  payload: Prisma.JsonValue;
+}
+
+/**
+ * Emits 'completed' with an AnalysisCompletedEvent when a job reaches a final state.
+ * Only jobs run by this process are reported; other instances' jobs are seen by polling.
+ */
+export const analysisEvents = new EventEmitter();
+analysisEvents.setMaxListeners(0);
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+let stopped = true;
+
+/**
+ * Nested-create input for a review's analysis job
+ */
+export function createAnalysisJobData(payload: AnalysisJobPayload) {
+  return {
+    payload: payload as Prisma.InputJsonObject,
+    maxAttempts: config.analysisJobs.maxAttempts,
+  };
+}
+
+/**
+ * Resolve once the review's job finishes or timeoutMs passes, whichever comes first
+ */
+export function waitForAnalysis(reviewId: string, timeoutMs: number): Promise<void> {
+  return new Promise(resolve => {
+    const onCompleted = (event: AnalysisCompletedEvent) => {
+      if (event.reviewId === reviewId) done();
+    };
+    const timeout = setTimeout(() => done(), timeoutMs);
+    const done = () => {
+      clearTimeout(timeout);
+      analysisEvents.off('completed', onCompleted);
+      resolve();
+    };
+    analysisEvents.on('completed', onCompleted);
+  });
+}
+
+/**
+ * Start polling the analysis_jobs table. Safe to run on several instances:
+ * jobs are claimed with FOR UPDATE SKIP LOCKED.
+ */
+export function startAnalysisWorker() {
+  if (!stopped) return;
+  stopped = false;
+  console.log(`🧵 Analysis worker started (poll every ${config.analysisJobs.pollIntervalMs}ms)`);
+  void tick();
+}
+
+export function stopAnalysisWorker() {
+  stopped = true;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+}
+
+/**
+ * Check for work now instead of waiting for the next poll, e.g. right after enqueueing
+ */
+export function wakeAnalysisWorker() {
+  if (stopped || running) return;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  void tick();
+}
+
+async function tick() {
+  running = true;
+  try {
+    while (!stopped) {
+      const job = await claimNextJob();
+      if (!job) break;
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('❌ Analysis worker error:', error);
+  } finally {
+    running = false;
+    if (!stopped) {
+      timer = setTimeout(tick, config.analysisJobs.pollIntervalMs);
+    }
+  }
+}
+
+// Claim the next due job, or one whose worker stopped responding
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const staleBefore = new Date(Date.now() - config.analysisJobs.staleAfterMs);
+
+  const jobs = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "analysis_jobs"
+    SET "status" = 'processing', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "analysis_jobs"
+      WHERE ("status" = 'queued' AND "runAfter" <= NOW())
+         OR ("status" = 'processing' AND "lockedAt" < ${staleBefore})
+      ORDER BY "runAfter" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id", "reviewId", "attempts", "maxAttempts", "payload"
+  `;
+
+  return jobs[0] ?? null;
+}
+
+async function runJob(job: ClaimedJob) {
+  const review = await prisma.review.update({
+    where: { id: job.reviewId },
+    data: { analysisStatus: 'processing' },
+    include: { user: { include: { profile: true } }, images: true },
+  });
+
+  const payload = (job.payload ?? {}) as AnalysisJobPayload;
+  const reportProgress = createProgressReporter(review.id);
+  const aiCalls: AiCall[] = [];
+  console.log(`🧵 Running analysis job ${job.id} for review ${job.reviewId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  try {
+    const outcome = await analyzeOutfitCached(review.imageUrl, review.user?.profile, review.description, {
+      ownerKey: getAnalysisOwnerKey(review),
+      imageDigest: payload.imageDigest,
+      perceptualHash: payload.perceptualHash,
+      skipCache: payload.skipCache,
+      mockScenario: isMockScenario(payload.mockScenario) ? payload.mockScenario : undefined,
+      redaction: isPrivacyMode(review.privacyMode) && review.privacyMode !== 'off' ? review.privacyMode : null,
+      palette: review.colorPalette as unknown as ColorPalette | null,
+      target: toAnalysisTarget(review.occasion, review.season, review.climate),
+      views: toReviewViews(review.images),
+      locale: isLocale(review.locale) ? review.locale : null,
+      voice: toReviewerVoice(review.persona, review.tone),
+      onProgress: reportProgress,
+      aiCalls,
+    });
+    await recordAiUsage(aiCalls, review);
+
+    const [analyzedReview] = await prisma.$transaction([
+      prisma.review.update({
+        where: { id: review.id },
+        data: toReviewAnalysisData(outcome),
+        include: REVIEW_GARMENTS_INCLUDE,
+      }),
+      prisma.analysisJob.update({
+        where: { id: job.id },
+        data: { status: 'succeeded', lockedAt: null, lastError: null },
+      }),
+    ]);
+
+    // Usage is committed only once the analysis succeeded
+    await commitReviewUsage(review);
+
+    console.log(`✅ Analysis job ${job.id} finished with status ${outcome.status}`);
+    reportProgress('persisted', {
+      analysisStatus: outcome.status,
+      analysisProvider: outcome.provider,
+      analysisModel: outcome.model,
+      outfitAnalysis: toOutfitAnalysisResponse(analyzedReview),
+      calibration: await calibrateReview(analyzedReview),
+      cache: toCacheReport(analyzedReview.analysisCacheStatus),
+    });
+    analysisEvents.emit('completed', { reviewId: review.id, analysisStatus: outcome.status });
+
+  } catch (error) {
+    // Every attempt is billed, including the ones that will be retried
+    await recordAiUsage(aiCalls, review);
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+
+    if (job.attempts < job.maxAttempts) {
+      // Exponential backoff: base, 2x base, 4x base...
+      const delayMs = config.analysisJobs.retryBaseDelayMs * 2 ** (job.attempts - 1);
+      const nextAttemptAt = new Date(Date.now() + delayMs);
+      console.warn(`⚠️ Analysis job ${job.id} failed, retrying in ${delayMs}ms:`, message);
+
+      await prisma.$transaction([
+        prisma.review.update({
+          where: { id: review.id },
+          data: { analysisStatus: 'pending' },
+        }),
+        prisma.analysisJob.update({
+          where: { id: job.id },
+          data: {
+            status: 'queued',
+            lockedAt: null,
+            lastError: message,
+            runAfter: nextAttemptAt,
+          },
+        }),
+      ]);
+      reportProgress('retry_scheduled', { attempt: job.attempts, maxAttempts: job.maxAttempts, nextAttemptAt });
+      return;
+    }
+
+    console.error(`❌ Analysis job ${job.id} failed after ${job.attempts} attempts:`, message);
+
+    await prisma.$transaction([
+      prisma.review.update({
+        where: { id: review.id },
+        data: toFailedReviewData(error),
+      }),
+      prisma.analysisJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', lockedAt: null, lastError: message },
+      }),
+    ]);
+
+    reportProgress('failed', { analysisStatus: 'failed' });
+    analysisEvents.emit('completed', { reviewId: review.id, analysisStatus: 'failed' });
+  }
+}
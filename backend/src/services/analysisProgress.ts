@@ -0,0 +1,71 @@
+import { EventEmitter } from 'events';
+
+// uploaded -> image_preprocessed -> queued -> model_started -> partial* -> persisted | failed
+// (repair_started and retry_scheduled may appear in between)
+export type AnalysisStage =
+  | 'uploaded'
+  | 'image_preprocessed'
+  | 'queued'
+  | 'model_started'
+  | 'partial'
+  | 'repair_started'
+  | 'retry_scheduled'
+  | 'persisted'
+  | 'failed';
+
+export type ProgressReporter = (stage: AnalysisStage, data?: Record<string, unknown>) => void;
+
+export interface AnalysisProgressEvent {
+  reviewId: string;
+  stage: AnalysisStage;
+  at: string;
+  data?: Record<string, unknown>;
+}
+
+export const FINAL_ANALYSIS_STAGES: AnalysisStage[] = ['persisted', 'failed'];
+
+// Finished histories are kept briefly so late subscribers can still replay them
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const histories = new Map<string, AnalysisProgressEvent[]>();
+
+/**
+ * Record a stage for a review and notify its subscribers (this process only)
+ */
+export function publishProgress(reviewId: string, stage: AnalysisStage, data?: Record<string, unknown>) {
+  const event: AnalysisProgressEvent = { reviewId, stage, at: new Date().toISOString(), ...(data && { data }) };
+
+  const history = histories.get(reviewId) ?? [];
+  history.push(event);
+  histories.set(reviewId, history);
+
+  if (FINAL_ANALYSIS_STAGES.includes(stage)) {
+    setTimeout(() => histories.delete(reviewId), HISTORY_TTL_MS).unref();
+  }
+
+  emitter.emit(reviewId, event);
+}
+
+/**
+ * Bind publishProgress to one review, for code that does not know the review id
+ */
+export function createProgressReporter(reviewId: string): ProgressReporter {
+  return (stage, data) => publishProgress(reviewId, stage, data);
+}
+
+/**
+ * Replay the review's events so far, then deliver new ones until unsubscribed
+ */
+export function subscribeProgress(reviewId: string, listener: (event: AnalysisProgressEvent) => void): () => void {
+  for (const event of histories.get(reviewId) ?? []) {
+    listener(event);
+  }
+
+  emitter.on(reviewId, listener);
+  return () => {
+    emitter.off(reviewId, listener);
+  };
+}
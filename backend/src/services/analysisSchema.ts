@@ -0,0 +1,256 @@
+import type { Garment, GarmentBoundingBox, OutfitAnalysis } from './aiService';
+
+// Limits applied to model output before it is stored
+export const ANALYSIS_LIMITS = {
+  maxTextLength: 200,
+  maxListItems: 6,
+  maxListItemLength: 400,
+  maxGarments: 8,
+  maxGarmentColors: 3,
+};
+
+const TEXT_FIELDS = [
+  'styleCategory',
+  'fit',
+  'colorHarmony',
+  'occasionSuitability',
+  'proportionBalance',
+  'fabricSynergy',
+  'stylingSophistication',
+] as const;
+
+export const SCORE_FIELDS = [
+  'styleCategoryScore',
+  'fitScore',
+  'colorHarmonyScore',
+  'occasionScore',
+  'proportionScore',
+  'fabricScore',
+  'sophisticationScore',
+] as const;
+
+const LIST_FIELDS = [
+  'highlights',
+  'improvementSuggestions',
+  'expertInsights',
+  'technicalFlaws',
+] as const;
+
+export type ValidationResult =
+  | { valid: true; analysis: OutfitAnalysis }
+  | { valid: false; errors: string[] };
+
+export class AnalysisValidationError extends Error {
+  errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parse a model reply as JSON, tolerating markdown code fences and leading prose
+ */
+export function parseModelJson(content: string): unknown {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(unfenced.slice(start, end + 1));
+    }
+    throw new Error('Response is not valid JSON');
+  }
+}
+
+// "key": value pairs whose value is complete - a string, a number or an array of strings
+const COMPLETE_FIELD_PATTERN = /"(\w+)"\s*:\s*("(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?=\s*[,}])|\[(?:\s*"(?:[^"\\]|\\.)*"\s*,?)*\s*\])/g;
+
+const KNOWN_FIELDS = new Set<string>([...TEXT_FIELDS, ...SCORE_FIELDS, ...LIST_FIELDS]);
+
+/**
+ * Pull the fields that are already complete out of a partially streamed JSON reply.
+ * Values are provisional: they are not clamped or validated until the reply is complete.
+ */
+export function extractPartialFields(content: string): Partial<OutfitAnalysis> {
+  const fields: Record<string, unknown> = {};
+
+  for (const match of content.matchAll(COMPLETE_FIELD_PATTERN)) {
+    const [, key, value] = match;
+    if (!KNOWN_FIELDS.has(key)) continue;
+    try {
+      fields[key] = JSON.parse(value);
+    } catch {
+      // Incomplete escape sequence - picked up on a later delta
+    }
+  }
+
+  return fields as Partial<OutfitAnalysis>;
+}
+
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+function toScore(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return clampScore(value);
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return clampScore(Number(value));
+  }
+  return null;
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value;
+}
+
+function toOptionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? truncate(value.trim(), ANALYSIS_LIMITS.maxTextLength) : null;
+}
+
+// #rgb, #rrggbb, with or without the #, as lowercase #rrggbb
+function toHexColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+// Boxes in pixels or outside the image are dropped rather than guessed at
+function toBoundingBox(value: unknown): GarmentBoundingBox | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  const numbers = [x, y, width, height];
+  if (!numbers.every(number => typeof number === 'number' && Number.isFinite(number) && number >= 0 && number <= 1)) {
+    return null;
+  }
+  const box = { x, y, width, height } as GarmentBoundingBox;
+  if (box.width === 0 || box.height === 0) return null;
+
+  const round = (number: number) => Math.round(number * 1000) / 1000;
+  return {
+    x: round(box.x),
+    y: round(box.y),
+    width: round(Math.min(box.width, 1 - box.x)),
+    height: round(Math.min(box.height, 1 - box.y)),
+  };
+}
+
+/**
+ * Validate the optional garments list. Only its shape is enforced; unusable
+ * colors, scores and boxes are dropped so one bad value does not cost a repair call.
+ */
+function validateGarments(value: unknown, errors: string[]): Garment[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push('"garments" must be an array of objects');
+    return [];
+  }
+
+  const garments: Garment[] = [];
+  value.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`"garments[${index}]" must be an object`);
+      return;
+    }
+    const garment = item as Record<string, unknown>;
+    const type = toOptionalText(garment.type);
+    if (!type) {
+      errors.push(`"garments[${index}].type" must be a non-empty string`);
+      return;
+    }
+
+    const colors = Array.isArray(garment.colors)
+      ? garment.colors.map(toHexColor).filter((color): color is string => color !== null)
+      : [];
+    garments.push({
+      type,
+      colors: [...new Set(colors)].slice(0, ANALYSIS_LIMITS.maxGarmentColors),
+      pattern: toOptionalText(garment.pattern),
+      fabric: toOptionalText(garment.fabric),
+      fitNotes: toOptionalText(garment.fitNotes),
+      score: toScore(garment.score),
+      boundingBox: toBoundingBox(garment.boundingBox),
+    });
+  });
+
+  return garments.slice(0, ANALYSIS_LIMITS.maxGarments);
+}
+
+/**
+ * Validate and normalize a raw model payload into an OutfitAnalysis.
+ * Scores are clamped to 0-100, lists are capped and overallScore is recomputed
+ * from the seven component scores instead of trusting the model's arithmetic.
+ * garments is optional and defaults to an empty list.
+ */
+export function validateOutfitAnalysis(raw: unknown): ValidationResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const analysis: Record<string, unknown> = {};
+
+  for (const field of TEXT_FIELDS) {
+    const value = input[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`"${field}" must be a non-empty string`);
+    } else {
+      analysis[field] = truncate(value.trim(), ANALYSIS_LIMITS.maxTextLength);
+    }
+  }
+
+  for (const field of SCORE_FIELDS) {
+    const score = toScore(input[field]);
+    if (score === null) {
+      errors.push(`"${field}" must be a number between 0 and 100`);
+    } else {
+      analysis[field] = score;
+    }
+  }
+
+  for (const field of LIST_FIELDS) {
+    const value = input[field];
+    if (!Array.isArray(value)) {
+      errors.push(`"${field}" must be an array of strings`);
+    } else if (value.some(item => typeof item !== 'string')) {
+      errors.push(`"${field}" must only contain strings`);
+    } else {
+      analysis[field] = (value as string[])
+        .map(item => item.trim())
+        .filter(item => item !== '')
+        .slice(0, ANALYSIS_LIMITS.maxListItems)
+        .map(item => truncate(item, ANALYSIS_LIMITS.maxListItemLength));
+    }
+  }
+
+  analysis.garments = validateGarments(input.garments, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const componentScores = SCORE_FIELDS.map(field => analysis[field] as number);
+  analysis.overallScore = Math.round(componentScores.reduce((sum, score) => sum + score, 0) / componentScores.length);
+
+  return { valid: true, analysis: analysis as unknown as OutfitAnalysis };
+}
+
+/**
+ * Follow-up instruction sent once when the model's first answer fails validation
+ */
+export function createRepairPrompt(errors: string[]): string {
+  return `Your previous response could not be used because it did not match the required JSON format:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a single valid JSON object containing every required field (${[...TEXT_FIELDS, ...SCORE_FIELDS, 'overallScore', ...LIST_FIELDS].join(', ')}). Scores must be integers from 0 to 100 and list fields must be arrays of strings. If you include "garments", it must be an array of objects that each have a non-empty "type". Do not include any text outside the JSON.`;
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calibrateScore } from './calibrationService';
+
+// Earlier review, newest first in the lists below; accepted unless said otherwise
+const earlier = (overallScore: number, accepted: boolean | null = true, feedbackRating: number | null = null) => ({
+  overallScore,
+  accepted,
+  feedbackRating,
+  createdAt: new Date('2025-10-01T00:00:00Z'),
+});
+
+describe('calibrateScore', () => {
+  it('needs CALIBRATION_MIN_REVIEWS earlier scores', () => {
+    assert.equal(calibrateScore(80, []), null);
+    assert.equal(calibrateScore(80, [earlier(80)]), null);
+  });
+
+  it('learns the baseline from recent scores and the prior', () => {
+    // (70 * 2 + 80 + 80 * 0.85) / (2 + 1 + 0.85)
+    assert.deepEqual(calibrateScore(76, [earlier(80), earlier(80)]), {
+      baseline: 75,
+      delta: 1,
+      trend: 'usual',
+      reviewsConsidered: 2,
+    });
+  });
+
+  it('calls a score above every earlier one a personal best', () => {
+    assert.equal(calibrateScore(90, [earlier(80), earlier(80)])?.trend, 'personal_best');
+  });
+
+  it('flags notable changes that are not a personal best', () => {
+    assert.equal(calibrateScore(80, [earlier(85), earlier(60)])?.trend, 'above_usual');
+    assert.equal(calibrateScore(60, [earlier(80), earlier(80)])?.trend, 'below_usual');
+  });
+
+  it('gives rejected and poorly rated scores less weight', () => {
+    const agreed = calibrateScore(70, [earlier(40), earlier(80)])!;
+    const rejected = calibrateScore(70, [earlier(40, false), earlier(80)])!;
+    const poorlyRated = calibrateScore(70, [earlier(40, null, 1), earlier(80)])!;
+
+    assert.ok(rejected.baseline > poorlyRated.baseline);
+    assert.ok(poorlyRated.baseline > agreed.baseline);
+  });
+});
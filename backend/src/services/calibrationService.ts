@@ -0,0 +1,133 @@
+import type { Review } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { config } from '../config/config';
+
+// Only these carry a score worth comparing against; no_outfit, failed and in-flight reviews do not
+const CALIBRATED_ANALYSIS_STATUSES = ['ok', 'degraded_fallback'];
+
+// Each older review counts this much less than the one after it
+const RECENCY_DECAY = 0.85;
+
+// above_usual / below_usual: the score is at least notableDelta away from the wearer's baseline
+// personal_best: higher than every earlier score that went into the baseline
+export type CalibrationTrend = 'personal_best' | 'above_usual' | 'usual' | 'below_usual';
+
+export interface ScoreCalibration {
+  baseline: number;
+  delta: number;
+  trend: CalibrationTrend;
+  reviewsConsidered: number;
+}
+
+export interface ReviewOwner {
+  userId: string | null;
+  guestDeviceId: string | null;
+}
+
+type CalibratedReview = Pick<Review, 'id' | 'overallScore' | 'analysisStatus' | 'createdAt'>;
+
+type HistoryEntry = Pick<Review, 'overallScore' | 'accepted' | 'feedbackRating' | 'createdAt'>;
+
+/**
+ * Compare each review's overall score with its owner's usual score, learned from the
+ * reviews they had before it. Null for reviews without a score or with too little history.
+ */
+export async function calibrateReviews(
+  owner: ReviewOwner,
+  reviews: CalibratedReview[]
+): Promise<Map<string, ScoreCalibration | null>> {
+  const calibrations = new Map<string, ScoreCalibration | null>();
+  const scored = reviews.filter(isCalibrated);
+  for (const review of reviews) {
+    calibrations.set(review.id, null);
+  }
+
+  const ownerWhere = toOwnerWhere(owner);
+  if (!config.calibration.enabled || !ownerWhere || scored.length === 0) {
+    return calibrations;
+  }
+
+  const latest = new Date(Math.max(...scored.map(review => review.createdAt.getTime())));
+  const history: HistoryEntry[] = await prisma.review.findMany({
+    where: {
+      ...ownerWhere,
+      analysisStatus: { in: CALIBRATED_ANALYSIS_STATUSES },
+      overallScore: { not: null },
+      createdAt: { lt: latest },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: config.calibration.historyReviews + scored.length,
+    select: { overallScore: true, accepted: true, feedbackRating: true, createdAt: true },
+  });
+
+  for (const review of scored) {
+    const earlier = history
+      .filter(entry => entry.createdAt < review.createdAt)
+      .slice(0, config.calibration.historyReviews);
+    calibrations.set(review.id, calibrateScore(review.overallScore!, earlier));
+  }
+  return calibrations;
+}
+
+/**
+ * Calibration of a single review
+ */
+export async function calibrateReview(
+  review: CalibratedReview & ReviewOwner
+): Promise<ScoreCalibration | null> {
+  const calibrations = await calibrateReviews(review, [review]);
+  return calibrations.get(review.id) ?? null;
+}
+
+/**
+ * A score compared with the earlier scores it follows (newest first); null with too little history
+ */
+export function calibrateScore(score: number, earlier: HistoryEntry[]): ScoreCalibration | null {
+  if (earlier.length < config.calibration.minReviews) {
+    return null;
+  }
+
+  // The prior keeps two or three early scores from setting the baseline on their own
+  let weightedSum = config.calibration.priorScore * config.calibration.priorWeight;
+  let totalWeight = config.calibration.priorWeight;
+  earlier.forEach((entry, index) => {
+    const weight = RECENCY_DECAY ** index * feedbackWeight(entry);
+    weightedSum += entry.overallScore! * weight;
+    totalWeight += weight;
+  });
+
+  const baseline = Math.round(weightedSum / totalWeight);
+  const delta = score - baseline;
+  return {
+    baseline,
+    delta,
+    trend: toTrend(score, delta, earlier),
+    reviewsConsidered: earlier.length,
+  };
+}
+
+// Scores the wearer rejected or rated poorly did not match how they see their own outfits,
+// so they say less about their usual level than the ones they agreed with
+function feedbackWeight(entry: HistoryEntry): number {
+  if (entry.accepted === false) return 0.4;
+  if (entry.feedbackRating != null && entry.feedbackRating <= 2) return 0.6;
+  if (entry.accepted === true || (entry.feedbackRating != null && entry.feedbackRating >= 4)) return 1;
+  return 0.8;
+}
+
+function toTrend(score: number, delta: number, earlier: HistoryEntry[]): CalibrationTrend {
+  if (delta > 0 && score > Math.max(...earlier.map(entry => entry.overallScore!))) return 'personal_best';
+  if (delta >= config.calibration.notableDelta) return 'above_usual';
+  if (delta <= -config.calibration.notableDelta) return 'below_usual';
+  return 'usual';
+}
+
+function isCalibrated(review: CalibratedReview): boolean {
+  return review.overallScore != null && CALIBRATED_ANALYSIS_STATUSES.includes(review.analysisStatus);
+}
+
+function toOwnerWhere(owner: ReviewOwner) {
+  if (owner.userId) return { userId: owner.userId };
+  if (owner.guestDeviceId) return { guestDeviceId: owner.guestDeviceId, isGuest: true };
+  return null;
+}
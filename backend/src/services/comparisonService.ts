@@ -0,0 +1,280 @@
+import type { Review } from '@prisma/client';
+import { getAIProvider, AIProvider, ChatContentPart, ChatMessage } from './providers';
+import { ANALYSIS_LIMITS, parseModelJson } from './analysisSchema';
+import { meteredCompletion, AiCall } from './usageService';
+import { describeLocale, isLocale } from './localeService';
+
+// Score columns compared between reviews, in display order
+export const COMPARISON_DIMENSIONS = [
+  { dimension: 'overall', label: 'Overall', field: 'overallScore' },
+  { dimension: 'style', label: 'Style Execution', field: 'styleCategoryScore' },
+  { dimension: 'fit', label: 'Fit', field: 'fitScore' },
+  { dimension: 'color', label: 'Color Harmony', field: 'colorHarmonyScore' },
+  { dimension: 'occasion', label: 'Occasion', field: 'occasionScore' },
+  { dimension: 'proportion', label: 'Proportion', field: 'proportionScore' },
+  { dimension: 'fabric', label: 'Fabric Synergy', field: 'fabricScore' },
+  { dimension: 'sophistication', label: 'Sophistication', field: 'sophisticationScore' },
+] as const;
+
+// Previous reviews beyond this are not sent to the model
+export const MAX_COMPARED_REVIEWS = 5;
+
+export interface DimensionDelta {
+  dimension: string;
+  label: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+// Stored in Review.comparisonDetails; comparisonInsight keeps the narrative on its own
+export interface ComparisonDetails {
+  previousReviewIds: string[];
+  dimensions: DimensionDelta[];
+  improved: string[];
+  regressed: string[];
+  narrative: string;
+  provider: string;
+  model: string;
+  generatedAt: string;
+}
+
+export class ComparisonFailedError extends Error {
+  provider: string;
+
+  constructor(message: string, provider: string) {
+    super(message);
+    this.name = 'ComparisonFailedError';
+    this.provider = provider;
+  }
+}
+
+type ComparableReview = Pick<
+  Review,
+  | 'id'
+  | 'imageUrl'
+  | 'createdAt'
+  | 'styleCategory'
+  | 'fit'
+  | 'colorHarmony'
+  | 'occasionSuitability'
+  | 'proportionBalance'
+  | 'fabricSynergy'
+  | 'stylingSophistication'
+  | 'locale'
+  | (typeof COMPARISON_DIMENSIONS)[number]['field']
+>;
+
+type ModelComparison = Pick<ComparisonDetails, 'improved' | 'regressed' | 'narrative'>;
+
+/**
+ * Per-dimension deltas between the current review and the average of the previous ones.
+ * Computed from stored scores so the numbers never depend on the model's arithmetic.
+ */
+export function computeDimensionDeltas(current: ComparableReview, previous: ComparableReview[]): DimensionDelta[] {
+  return COMPARISON_DIMENSIONS.map(({ dimension, label, field }) => {
+    const previousScores = previous
+      .map(review => review[field])
+      .filter((score): score is number => typeof score === 'number');
+    const previousScore = previousScores.length > 0
+      ? Math.round(previousScores.reduce((sum, score) => sum + score, 0) / previousScores.length)
+      : null;
+    const currentScore = current[field];
+
+    return {
+      dimension,
+      label,
+      previous: previousScore,
+      current: currentScore,
+      delta: previousScore !== null && currentScore !== null ? currentScore - previousScore : null,
+    };
+  });
+}
+
+/**
+ * Ask the AI provider to explain how the current outfit compares to earlier ones.
+ * Provider calls are appended to aiCalls for usage accounting.
+ */
+export async function generateComparison(
+  current: ComparableReview,
+  previous: ComparableReview[],
+  aiCalls?: AiCall[]
+): Promise<ComparisonDetails> {
+  const provider = getAIProvider();
+  const compared = [...previous]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, MAX_COMPARED_REVIEWS);
+  const dimensions = computeDimensionDeltas(current, compared);
+
+  try {
+    const { comparison, model, answeredBy } = await compareWithProvider(provider, current, compared, dimensions, aiCalls);
+
+    return {
+      previousReviewIds: compared.map(review => review.id),
+      dimensions,
+      ...comparison,
+      provider: answeredBy,
+      model,
+      generatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error('AI comparison error:', error);
+    throw new ComparisonFailedError(
+      error instanceof Error ? error.message : 'AI comparison failed',
+      provider.name
+    );
+  }
+}
+
+async function compareWithProvider(
+  provider: AIProvider,
+  current: ComparableReview,
+  previous: ComparableReview[],
+  dimensions: DimensionDelta[],
+  aiCalls?: AiCall[]
+): Promise<{ comparison: ModelComparison; model: string; answeredBy: string }> {
+  const content: ChatContentPart[] = [
+    { type: 'text', text: createComparisonPrompt(current, previous, dimensions) },
+    { type: 'text', text: 'CURRENT outfit:' },
+    { type: 'image_url', image_url: { url: current.imageUrl, detail: 'low' } },
+  ];
+  previous.forEach((review, index) => {
+    content.push({ type: 'text', text: `PREVIOUS ${index + 1} outfit:` });
+    content.push({ type: 'image_url', image_url: { url: review.imageUrl, detail: 'low' } });
+  });
+
+  const messages: ChatMessage[] = [{ role: 'user', content }];
+  const seed = [current.id, ...previous.map(review => review.id)].join(':');
+
+  const result = await meteredCompletion(provider, {
+    messages,
+    task: 'comparison',
+    maxTokens: 700,
+    temperature: 0.3,
+    jsonResponse: true,
+    seed,
+  }, 'comparison', aiCalls);
+
+  console.log(`AI Comparison Response (${result.provider ?? provider.name}/${result.model}):`, result.content);
+
+  const validation = parseAndValidateComparison(result.content);
+  if (validation.valid) {
+    return { comparison: validation.comparison, model: result.model, answeredBy: result.provider ?? provider.name };
+  }
+
+  // One repair attempt, same as outfit analysis
+  console.warn('⚠️ AI comparison failed validation, requesting repair:', validation.errors);
+  const repaired = await meteredCompletion(provider, {
+    messages: [
+      ...messages,
+      { role: 'assistant', content: result.content },
+      {
+        role: 'user',
+        content: `Your previous response could not be used:\n${validation.errors.map(error => `- ${error}`).join('\n')}\n\nRespond again with ONLY a JSON object with "improved" (array of strings), "regressed" (array of strings) and "narrative" (string).`,
+      },
+    ],
+    task: 'comparison',
+    maxTokens: 700,
+    temperature: 0,
+    jsonResponse: true,
+    seed,
+  }, 'comparison_repair', aiCalls);
+
+  const repairedValidation = parseAndValidateComparison(repaired.content);
+  if (repairedValidation.valid) {
+    return { comparison: repairedValidation.comparison, model: repaired.model, answeredBy: repaired.provider ?? provider.name };
+  }
+
+  throw new Error(`Invalid comparison format from AI: ${repairedValidation.errors.join('; ')}`);
+}
+
+function parseAndValidateComparison(
+  content: string
+): { valid: true; comparison: ModelComparison } | { valid: false; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = parseModelJson(content);
+  } catch {
+    return { valid: false, errors: ['Response is not valid JSON'] };
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const toList = (field: 'improved' | 'regressed'): string[] => {
+    const value = input[field];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      errors.push(`"${field}" must be an array of strings`);
+      return [];
+    }
+    return (value as string[])
+      .map(item => item.trim())
+      .filter(item => item !== '')
+      .slice(0, ANALYSIS_LIMITS.maxListItems)
+      .map(item => item.slice(0, ANALYSIS_LIMITS.maxListItemLength));
+  };
+
+  const improved = toList('improved');
+  const regressed = toList('regressed');
+
+  if (typeof input.narrative !== 'string' || input.narrative.trim() === '') {
+    errors.push('"narrative" must be a non-empty string');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    comparison: { improved, regressed, narrative: (input.narrative as string).trim().slice(0, 1200) },
+  };
+}
+
+function describeReview(review: ComparableReview) {
+  return {
+    date: review.createdAt.toISOString().slice(0, 10),
+    styleCategory: review.styleCategory,
+    fit: review.fit,
+    colorHarmony: review.colorHarmony,
+    occasionSuitability: review.occasionSuitability,
+    proportionBalance: review.proportionBalance,
+    fabricSynergy: review.fabricSynergy,
+    stylingSophistication: review.stylingSophistication,
+    scores: Object.fromEntries(COMPARISON_DIMENSIONS.map(({ dimension, field }) => [dimension, review[field]])),
+  };
+}
+
+function createComparisonPrompt(
+  current: ComparableReview,
+  previous: ComparableReview[],
+  dimensions: DimensionDelta[]
+): string {
+  // Written in the language of the current review
+  const language = describeLocale(isLocale(current.locale) ? current.locale : null);
+  return `You are an elite fashion consultant reviewing how a client's styling has changed over time. Compare the CURRENT outfit with the PREVIOUS outfit(s) using both the images and the earlier expert assessments below. Scores are 0-100.
+
+CURRENT assessment:
+${JSON.stringify(describeReview(current), null, 2)}
+
+PREVIOUS assessments (most recent first):
+${JSON.stringify(previous.map(describeReview), null, 2)}
+
+Score change per dimension (current minus average of previous):
+${dimensions.map(({ label, delta }) => `- ${label}: ${delta === null ? 'n/a' : delta > 0 ? `+${delta}` : delta}`).join('\n')}
+
+Be specific and honest. Only claim an improvement or regression that is supported by the images or the score changes - do not invent progress.
+
+Respond ONLY with valid JSON in this exact format:
+{
+  "improved": ["what got better, with concrete garment/color/fit details"],
+  "regressed": ["what got worse or was lost compared to before"],
+  "narrative": "2-4 sentences summarizing the style evolution and the single most valuable next step"
+}
+
+Use empty arrays when nothing improved or regressed.${language ? `\n\n${language}` : ''}`;
+}
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateAnalyses, parseEnsembleMembers, EnsembleSample } from './ensembleService';
+import type { OutfitAnalysis } from './aiService';
+
+// Analysis with every score set to score and texts that tell the samples apart
+function analysis(score: number, overrides: Partial<OutfitAnalysis> = {}): OutfitAnalysis {
+  return {
+    styleCategory: 'Smart Casual',
+    styleCategoryScore: score,
+    fit: `fit ${score}`,
+    fitScore: score,
+    colorHarmony: `color ${score}`,
+    colorHarmonyScore: score,
+    occasionSuitability: `occasion ${score}`,
+    occasionScore: score,
+    proportionBalance: `proportion ${score}`,
+    proportionScore: score,
+    fabricSynergy: `fabric ${score}`,
+    fabricScore: score,
+    stylingSophistication: `sophistication ${score}`,
+    sophisticationScore: score,
+    overallScore: score,
+    highlights: [],
+    improvementSuggestions: [],
+    expertInsights: [],
+    technicalFlaws: [],
+    garments: [],
+    ...overrides,
+  };
+}
+
+const sample = (outfit: OutfitAnalysis): EnsembleSample => ({ provider: 'mock', model: 'mock-1', analysis: outfit, fallback: false });
+
+const noOutfit = () => analysis(0, { styleCategory: 'no outfit' });
+
+describe('aggregateAnalyses', () => {
+  it('takes the median of each score and the text of the sample closest to it', () => {
+    const result = aggregateAnalyses([sample(analysis(60)), sample(analysis(90)), sample(analysis(70))], 0);
+
+    assert.equal(result.fitScore, 70);
+    assert.equal(result.overallScore, 70);
+    assert.equal(result.fit, 'fit 70');
+    assert.equal(result.styleCategory, 'Smart Casual');
+  });
+
+  it('averages the component medians into the overall score', () => {
+    const result = aggregateAnalyses([
+      sample(analysis(70, { fitScore: 90, overallScore: 73 })),
+      sample(analysis(70, { fitScore: 90, overallScore: 73 })),
+    ], 0);
+
+    assert.equal(result.overallScore, 73);
+  });
+
+  it('flags dimensions whose spread exceeds the disagreement threshold', () => {
+    const close = aggregateAnalyses([sample(analysis(70)), sample(analysis(75))], 0);
+    const apart = aggregateAnalyses([sample(analysis(60)), sample(analysis(90))], 1);
+
+    assert.deepEqual(close.ensemble!.disagreements, []);
+    assert.equal(close.ensemble!.confidence.fit, 0.83);
+    assert.equal(apart.ensemble!.confidence.fit, 0);
+    assert.deepEqual(apart.ensemble!.disagreements.find(({ dimension }) => dimension === 'fit'), {
+      dimension: 'fit',
+      field: 'fitScore',
+      min: 60,
+      max: 90,
+      spread: 30,
+    });
+    assert.equal(apart.ensemble!.failedMembers, 1);
+  });
+
+  it('leaves a minority "no outfit" answer out of the scores', () => {
+    const result = aggregateAnalyses([sample(noOutfit()), sample(analysis(80)), sample(analysis(84))], 0);
+
+    assert.equal(result.styleCategory, 'Smart Casual');
+    assert.equal(result.fitScore, 82);
+  });
+
+  it('answers "no outfit" when most samples saw none', () => {
+    const result = aggregateAnalyses([sample(noOutfit()), sample(noOutfit()), sample(analysis(80))], 0);
+
+    assert.equal(result.styleCategory, 'no outfit');
+    assert.equal(result.overallScore, 0);
+  });
+
+  it('merges lists round-robin without near-duplicates', () => {
+    const result = aggregateAnalyses([
+      sample(analysis(70, { highlights: ['Sharp collar', 'Clean lines'] })),
+      sample(analysis(70, { highlights: ['sharp collar!', 'Good shoes'] })),
+    ], 0);
+
+    assert.deepEqual(result.highlights, ['Sharp collar', 'Clean lines', 'Good shoes']);
+  });
+});
+
+describe('parseEnsembleMembers', () => {
+  it('reads providers, models and sample counts', () => {
+    assert.deepEqual(parseEnsembleMembers('openrouter:openai/gpt-4.1-nano*2, openai'), [
+      { provider: 'openrouter', model: 'openai/gpt-4.1-nano', samples: 2 },
+      { provider: 'openai', model: undefined, samples: 1 },
+    ]);
+    assert.deepEqual(parseEnsembleMembers(''), []);
+  });
+
+  it('rejects invalid sample counts', () => {
+    assert.throws(() => parseEnsembleMembers('openai*0'), /Invalid sample count/);
+  });
+});
@@ -0,0 +1,179 @@
+import { config } from '../config/config';
+import { ANALYSIS_LIMITS } from './analysisSchema';
+import { COMPARISON_DIMENSIONS } from './comparisonService';
+import { parseProviderTarget, ProviderTarget } from './providers';
+import type { OutfitAnalysis } from './aiService';
+
+// One configured model; `samples` independent calls are made to it per analysis
+export interface EnsembleMember extends ProviderTarget {
+  samples: number;
+}
+
+export interface EnsembleDisagreement {
+  dimension: string;
+  field: string;
+  min: number;
+  max: number;
+  spread: number;
+}
+
+// Stored with the analysis; null on analyses made by a single call
+export interface EnsembleDetails {
+  members: { provider: string; model: string; overallScore: number; styleCategory: string }[];
+  failedMembers: number;
+  // 0-1 per dimension: 1 when every member gave the same score, 0.5 at the disagreement threshold
+  confidence: Record<string, number>;
+  disagreements: EnsembleDisagreement[];
+}
+
+export interface EnsembleSample {
+  provider: string;
+  model: string;
+  analysis: OutfitAnalysis;
+  // True when a fallback answered instead of the member's provider
+  fallback: boolean;
+}
+
+const TEXT_FIELDS = [
+  'fit',
+  'colorHarmony',
+  'occasionSuitability',
+  'proportionBalance',
+  'fabricSynergy',
+  'stylingSophistication',
+] as const;
+
+const LIST_FIELDS = ['highlights', 'improvementSuggestions', 'expertInsights', 'technicalFlaws'] as const;
+
+/**
+ * Parse "openrouter:openai/gpt-4.1-nano*2,openai,local:llava" into members.
+ * The model defaults to the provider's configured one and the sample count to 1.
+ */
+export function parseEnsembleMembers(spec: string): EnsembleMember[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [target, samples = '1'] = entry.split('*').map(part => part.trim());
+      const parsedSamples = Number(samples);
+      if (!Number.isInteger(parsedSamples) || parsedSamples < 1) {
+        throw new Error(`Invalid sample count "${samples}" for ensemble member ${target}`);
+      }
+      return { ...parseProviderTarget(target), samples: parsedSamples };
+    });
+}
+
+// Validated at startup so a typo in AI_ENSEMBLE_MEMBERS fails fast
+export const ENSEMBLE_MEMBERS = parseEnsembleMembers(config.ai.ensemble.members);
+
+/**
+ * Total calls made per analysis; 1 means ensemble mode is off
+ */
+export function getEnsembleSize(): number {
+  return ENSEMBLE_MEMBERS.reduce((sum, member) => sum + member.samples, 0);
+}
+
+/**
+ * Combine several analyses of the same photo: median per score, majority style,
+ * text and garments from the sample closest to the medians, and merged, deduplicated lists
+ */
+export function aggregateAnalyses(samples: EnsembleSample[], failedMembers: number): OutfitAnalysis {
+  const threshold = config.ai.ensemble.disagreementThreshold;
+  const analyses = samples.map(sample => sample.analysis);
+
+  // Scores of "no outfit" answers are all zero, so they are only used when most members saw no outfit
+  const noOutfit = analyses.filter(analysis => analysis.styleCategory.toLowerCase() === 'no outfit');
+  const voters = noOutfit.length * 2 > analyses.length ? noOutfit : analyses.filter(analysis => !noOutfit.includes(analysis));
+  const styleCategory = majority(voters.map(analysis => analysis.styleCategory.toLowerCase()));
+
+  const componentMedians = Object.fromEntries(
+    COMPARISON_DIMENSIONS
+      .filter(({ field }) => field !== 'overallScore')
+      .map(({ field }) => [field, Math.round(median(voters.map(analysis => analysis[field])))])
+  ) as Record<Exclude<(typeof COMPARISON_DIMENSIONS)[number]['field'], 'overallScore'>, number>;
+  const componentScores = Object.values(componentMedians);
+  // Same rule as a single analysis: overall is the average of the component scores
+  const overallScore = Math.round(componentScores.reduce((sum, score) => sum + score, 0) / componentScores.length);
+
+  // Its wording has to match the scores, so text comes from one representative analysis
+  const representative = [...voters].sort((a, b) =>
+    Number(b.styleCategory.toLowerCase() === styleCategory) - Number(a.styleCategory.toLowerCase() === styleCategory) ||
+    distanceFrom(a, componentMedians) - distanceFrom(b, componentMedians)
+  )[0];
+
+  const confidence: Record<string, number> = {};
+  const disagreements: EnsembleDisagreement[] = [];
+  COMPARISON_DIMENSIONS.forEach(({ dimension, field }) => {
+    const scores = analyses.map(analysis => analysis[field]);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+    const spread = max - min;
+
+    confidence[dimension] = Math.round(Math.max(0, 1 - spread / (2 * threshold)) * 100) / 100;
+    if (spread > threshold) {
+      disagreements.push({ dimension, field, min, max, spread });
+    }
+  });
+
+  const ensemble: EnsembleDetails = {
+    members: samples.map(({ provider, model, analysis }) => ({
+      provider,
+      model,
+      overallScore: analysis.overallScore,
+      styleCategory: analysis.styleCategory,
+    })),
+    failedMembers,
+    confidence,
+    disagreements,
+  };
+
+  return {
+    ...Object.fromEntries(TEXT_FIELDS.map(field => [field, representative[field]])),
+    ...Object.fromEntries(LIST_FIELDS.map(field => [field, mergeLists(voters.map(analysis => analysis[field]))])),
+    ...componentMedians,
+    styleCategory: representative.styleCategory,
+    // Boxes and notes describe one reading of the photo, so they are not merged either
+    garments: representative.garments,
+    overallScore,
+    ensemble,
+  } as OutfitAnalysis;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Most common value; ties go to the one seen first
+function majority(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+function distanceFrom(analysis: OutfitAnalysis, medians: Record<string, number>): number {
+  return Object.entries(medians)
+    .reduce((sum, [field, value]) => sum + Math.abs((analysis[field as keyof OutfitAnalysis] as number) - value), 0);
+}
+
+// Round-robin across samples so each contributes its top items first
+function mergeLists(lists: string[][]): string[] {
+  const merged: string[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+
+  for (let index = 0; index < longest; index++) {
+    for (const list of lists) {
+      const item = list[index];
+      const key = item?.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+      if (item && key && !seen.has(key)) {
+        seen.add(key);
+        merged.push(item);
+      }
+    }
+  }
+
+  return merged.slice(0, ANALYSIS_LIMITS.maxListItems);
+}
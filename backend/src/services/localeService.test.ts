@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAcceptLanguage } from './localeService';
+import { apiMessage, formatMessage, localizeMessages } from './messageCatalog';
+
+describe('parseAcceptLanguage', () => {
+  it('picks the supported language with the highest quality', () => {
+    assert.equal(parseAcceptLanguage('de-CH, fr;q=0.8, *;q=0.1'), 'de');
+    assert.equal(parseAcceptLanguage('it;q=0.9, fr;q=0.5, es;q=0.7'), 'es');
+    assert.equal(parseAcceptLanguage('FR-ca'), 'fr');
+  });
+
+  it('skips unsupported and refused languages', () => {
+    assert.equal(parseAcceptLanguage('ja, es;q=0'), null);
+    assert.equal(parseAcceptLanguage('ja, en-GB;q=0.3'), 'en');
+    assert.equal(parseAcceptLanguage('de;q=abc, fr;q=0.2'), 'fr');
+  });
+
+  it('returns null without a header', () => {
+    assert.equal(parseAcceptLanguage(undefined), null);
+    assert.equal(parseAcceptLanguage(''), null);
+  });
+});
+
+describe('messageCatalog', () => {
+  it('fills in placeholders in every language', () => {
+    assert.equal(formatMessage('upload.tooManyImages', 'en', { max: 4 }), 'A review takes at most 4 photos');
+    assert.equal(formatMessage('limits.guestReviewsUsed', 'de', { limit: 5 }),
+      'Du hast alle 5 kostenlosen Analysen genutzt. Erstelle ein Konto für unbegrenzten Zugang!');
+  });
+
+  it('leaves placeholders without a value visible', () => {
+    assert.equal(formatMessage('server.routeNotFound', 'en'), 'Route {route} not found');
+  });
+
+  it('writes every message in a response body in the request language', () => {
+    const body = {
+      error: apiMessage('reviews.notFound'),
+      code: 'NOT_FOUND',
+      details: [{ message: apiMessage('admin.notFound') }],
+      at: new Date(0),
+    };
+
+    assert.deepEqual(localizeMessages(body, 'fr'), {
+      error: 'Analyse introuvable',
+      code: 'NOT_FOUND',
+      details: [{ message: 'Introuvable' }],
+      at: new Date(0),
+    });
+  });
+
+  it('serializes to English outside a localized response', () => {
+    assert.equal(JSON.stringify({ error: apiMessage('auth.invalidToken') }), '{"error":"Invalid token"}');
+  });
+});
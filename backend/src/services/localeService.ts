@@ -0,0 +1,61 @@
+// Languages the analysis, follow-up answers and API messages are available in
+export type Locale = 'en' | 'es' | 'fr' | 'de';
+
+export const LOCALES: Locale[] = ['en', 'es', 'fr', 'de'];
+
+// Prompts are written in English, so English output needs no extra instruction
+export const DEFAULT_LOCALE = 'en' satisfies Locale;
+
+// How each language is named to the model
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && LOCALES.includes(value as Locale);
+}
+
+/**
+ * Best supported language from an Accept-Language header ("de-CH, fr;q=0.8, *;q=0.1"), or null
+ */
+export function parseAcceptLanguage(header: string | undefined): Locale | null {
+  if (!header) {
+    return null;
+  }
+
+  const ranked = header
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return { language: tag.trim().split('-')[0].toLowerCase(), q: quality ? parseFloat(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ q }) => !isNaN(q) && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return ranked.map(({ language }) => language).find(isLocale) ?? null;
+}
+
+/**
+ * Instructions for prompts that answer in JSON to write their text in the wearer's language.
+ * Null for English so English prompts stay exactly as published.
+ */
+export function describeLocale(locale: Locale | null | undefined): string | null {
+  if (!locale || locale === DEFAULT_LOCALE) {
+    return null;
+  }
+  return `## LANGUAGE\n\nWrite every text value in ${LANGUAGE_NAMES[locale]}. Keep the JSON keys in English and hex colors as they are.`;
+}
+
+/**
+ * Instruction for follow-up answers to be written in the wearer's language
+ */
+export function describeReplyLocale(locale: Locale | null | undefined): string | null {
+  if (!locale || locale === DEFAULT_LOCALE) {
+    return null;
+  }
+  return `- Answer in ${LANGUAGE_NAMES[locale]}, unless the client writes to you in another language`;
+}
@@ -0,0 +1,447 @@
+import { DEFAULT_LOCALE, Locale } from './localeService';
+
+// User-facing API messages by id, in every supported language. {name} placeholders are
+// filled in from the values a message is sent with. Validation details stay in English.
+const MESSAGES = {
+  // Rate limits and server errors
+  'rateLimit.tooManyRequests': {
+    en: 'Too many requests',
+    es: 'Demasiadas solicitudes',
+    fr: 'Trop de requêtes',
+    de: 'Zu viele Anfragen',
+  },
+  'rateLimit.exceeded': {
+    en: 'Rate limit exceeded',
+    es: 'Límite de solicitudes superado',
+    fr: 'Limite de requêtes dépassée',
+    de: 'Anfragelimit überschritten',
+  },
+  'rateLimit.tryLater': {
+    en: 'Please try again later',
+    es: 'Inténtalo de nuevo más tarde',
+    fr: 'Veuillez réessayer plus tard',
+    de: 'Bitte versuche es später erneut',
+  },
+  'rateLimit.tooManyLogins': {
+    en: 'Too many login attempts',
+    es: 'Demasiados intentos de inicio de sesión',
+    fr: 'Trop de tentatives de connexion',
+    de: 'Zu viele Anmeldeversuche',
+  },
+  'rateLimit.loginWait': {
+    en: 'Please wait 15 minutes before trying again',
+    es: 'Espera 15 minutos antes de volver a intentarlo',
+    fr: 'Veuillez patienter 15 minutes avant de réessayer',
+    de: 'Bitte warte 15 Minuten, bevor du es erneut versuchst',
+  },
+  'rateLimit.uploadLimit': {
+    en: 'Upload limit exceeded',
+    es: 'Límite de subidas superado',
+    fr: "Limite d'envois dépassée",
+    de: 'Upload-Limit überschritten',
+  },
+  'rateLimit.uploadWait': {
+    en: 'Please wait a moment before uploading again',
+    es: 'Espera un momento antes de volver a subir una foto',
+    fr: "Veuillez patienter un instant avant d'envoyer une nouvelle photo",
+    de: 'Bitte warte einen Moment, bevor du erneut hochlädst',
+  },
+  'server.internalError': {
+    en: 'Internal Server Error',
+    es: 'Error interno del servidor',
+    fr: 'Erreur interne du serveur',
+    de: 'Interner Serverfehler',
+  },
+  'server.routeNotFound': {
+    en: 'Route {route} not found',
+    es: 'Ruta {route} no encontrada',
+    fr: 'Route {route} introuvable',
+    de: 'Route {route} nicht gefunden',
+  },
+
+  // Authentication
+  'auth.tokenRequired': {
+    en: 'Access token required',
+    es: 'Se requiere un token de acceso',
+    fr: "Jeton d'accès requis",
+    de: 'Zugriffstoken erforderlich',
+  },
+  'auth.invalidOrExpiredToken': {
+    en: 'Invalid or expired token',
+    es: 'Token no válido o caducado',
+    fr: 'Jeton invalide ou expiré',
+    de: 'Ungültiges oder abgelaufenes Token',
+  },
+  'auth.invalidToken': {
+    en: 'Invalid token',
+    es: 'Token no válido',
+    fr: 'Jeton invalide',
+    de: 'Ungültiges Token',
+  },
+  'auth.emailTaken': {
+    en: 'User with this email already exists',
+    es: 'Ya existe un usuario con este correo electrónico',
+    fr: 'Un utilisateur avec cette adresse e-mail existe déjà',
+    de: 'Ein Benutzer mit dieser E-Mail-Adresse existiert bereits',
+  },
+  'auth.invalidCredentials': {
+    en: 'Invalid email or password',
+    es: 'Correo electrónico o contraseña incorrectos',
+    fr: 'E-mail ou mot de passe incorrect',
+    de: 'E-Mail-Adresse oder Passwort ist falsch',
+  },
+  'auth.failed': {
+    en: 'Authentication failed',
+    es: 'Error de autenticación',
+    fr: "Échec de l'authentification",
+    de: 'Authentifizierung fehlgeschlagen',
+  },
+  'auth.userNotFound': {
+    en: 'User not found',
+    es: 'Usuario no encontrado',
+    fr: 'Utilisateur introuvable',
+    de: 'Benutzer nicht gefunden',
+  },
+  'auth.invalidDeviceId': {
+    en: 'Invalid device identifier',
+    es: 'Identificador de dispositivo no válido',
+    fr: "Identifiant d'appareil invalide",
+    de: 'Ungültige Gerätekennung',
+  },
+  'auth.guestFailed': {
+    en: 'Guest authentication failed',
+    es: 'Error de autenticación de invitado',
+    fr: "Échec de l'authentification invité",
+    de: 'Gast-Authentifizierung fehlgeschlagen',
+  },
+  'auth.invalidGuestSession': {
+    en: 'Invalid guest session',
+    es: 'Sesión de invitado no válida',
+    fr: 'Session invité invalide',
+    de: 'Ungültige Gastsitzung',
+  },
+  'auth.invalidAuthentication': {
+    en: 'Invalid authentication',
+    es: 'Autenticación no válida',
+    fr: 'Authentification invalide',
+    de: 'Ungültige Authentifizierung',
+  },
+
+  // Limits and budgets
+  'limits.guestReviews': {
+    en: 'Guest review limit reached. Please sign up for unlimited reviews.',
+    es: 'Has alcanzado el límite de análisis como invitado. Regístrate para tener análisis ilimitados.',
+    fr: "Limite d'analyses invité atteinte. Créez un compte pour des analyses illimitées.",
+    de: 'Gast-Limit für Analysen erreicht. Registriere dich für unbegrenzte Analysen.',
+  },
+  'limits.guestReviewsUsed': {
+    en: "You've used all {limit} free reviews. Create an account for unlimited access!",
+    es: 'Has usado tus {limit} análisis gratuitos. ¡Crea una cuenta para tener acceso ilimitado!',
+    fr: 'Vous avez utilisé vos {limit} analyses gratuites. Créez un compte pour un accès illimité !',
+    de: 'Du hast alle {limit} kostenlosen Analysen genutzt. Erstelle ein Konto für unbegrenzten Zugang!',
+  },
+  'limits.guestMessages': {
+    en: 'Guest follow-up limit reached. Please sign up to keep the conversation going.',
+    es: 'Has alcanzado el límite de preguntas como invitado. Regístrate para continuar la conversación.',
+    fr: 'Limite de questions invité atteinte. Créez un compte pour poursuivre la conversation.',
+    de: 'Gast-Limit für Fragen erreicht. Registriere dich, um das Gespräch fortzusetzen.',
+  },
+  'limits.analysisPaused': {
+    en: 'Outfit analysis is paused until next month. Please try again later.',
+    es: 'El análisis de outfits está en pausa hasta el próximo mes. Inténtalo de nuevo más tarde.',
+    fr: "L'analyse de tenues est suspendue jusqu'au mois prochain. Veuillez réessayer plus tard.",
+    de: 'Die Outfit-Analyse ist bis nächsten Monat pausiert. Bitte versuche es später erneut.',
+  },
+  'limits.monthlyBudget': {
+    en: 'Monthly analysis budget reached. Please try again next month.',
+    es: 'Se ha alcanzado el presupuesto mensual de análisis. Inténtalo de nuevo el próximo mes.',
+    fr: "Budget mensuel d'analyses atteint. Veuillez réessayer le mois prochain.",
+    de: 'Monatliches Analysebudget erreicht. Bitte versuche es nächsten Monat erneut.',
+  },
+
+  // Uploads and analysis
+  'upload.imageRequired': {
+    en: 'Image file is required',
+    es: 'Se requiere una imagen',
+    fr: 'Une image est requise',
+    de: 'Ein Bild ist erforderlich',
+  },
+  'upload.imagesOnly': {
+    en: 'Only image files are allowed',
+    es: 'Solo se permiten imágenes',
+    fr: 'Seules les images sont acceptées',
+    de: 'Nur Bilddateien sind erlaubt',
+  },
+  'upload.unreadableImage': {
+    en: 'The image could not be read',
+    es: 'No se pudo leer la imagen',
+    fr: "L'image n'a pas pu être lue",
+    de: 'Das Bild konnte nicht gelesen werden',
+  },
+  'upload.privacyUnavailable': {
+    en: 'Privacy mode is temporarily unavailable. Please try again in a moment.',
+    es: 'El modo privacidad no está disponible en este momento. Inténtalo de nuevo en un momento.',
+    fr: 'Le mode confidentialité est temporairement indisponible. Veuillez réessayer dans un instant.',
+    de: 'Der Privatsphäre-Modus ist vorübergehend nicht verfügbar. Bitte versuche es gleich noch einmal.',
+  },
+  'upload.moderationUnavailable': {
+    en: 'We cannot check uploads right now. Please try again in a moment.',
+    es: 'Ahora mismo no podemos revisar las fotos subidas. Inténtalo de nuevo en un momento.',
+    fr: 'Nous ne pouvons pas vérifier les envois pour le moment. Veuillez réessayer dans un instant.',
+    de: 'Wir können Uploads gerade nicht prüfen. Bitte versuche es gleich noch einmal.',
+  },
+  'upload.analysisUnavailable': {
+    en: 'Outfit analysis is temporarily unavailable. Please try again.',
+    es: 'El análisis de outfits no está disponible en este momento. Inténtalo de nuevo.',
+    fr: "L'analyse de tenues est temporairement indisponible. Veuillez réessayer.",
+    de: 'Die Outfit-Analyse ist vorübergehend nicht verfügbar. Bitte versuche es erneut.',
+  },
+  'upload.failed': {
+    en: 'Failed to process outfit review',
+    es: 'No se pudo procesar el análisis del outfit',
+    fr: "Impossible de traiter l'analyse de la tenue",
+    de: 'Die Outfit-Analyse konnte nicht verarbeitet werden',
+  },
+  'upload.frontTwice': {
+    en: 'Send the front photo as either image or front, not both',
+    es: 'Envía la foto frontal como image o como front, no como ambas',
+    fr: 'Envoyez la photo de face soit comme image, soit comme front, pas les deux',
+    de: 'Sende das Frontfoto entweder als image oder als front, nicht beides',
+  },
+  'upload.tooManyImages': {
+    en: 'A review takes at most {max} photos',
+    es: 'Un análisis admite como máximo {max} fotos',
+    fr: 'Une analyse accepte au maximum {max} photos',
+    de: 'Eine Analyse nimmt höchstens {max} Fotos an',
+  },
+
+  // Moderation
+  'moderation.explicit': {
+    en: 'This photo appears to contain explicit content and cannot be reviewed.',
+    es: 'Esta foto parece tener contenido explícito y no se puede analizar.',
+    fr: 'Cette photo semble contenir du contenu explicite et ne peut pas être analysée.',
+    de: 'Dieses Foto scheint explizite Inhalte zu enthalten und kann nicht analysiert werden.',
+  },
+  'moderation.minor': {
+    en: 'This photo appears to show a child. Outfit reviews are only available for adults.',
+    es: 'Esta foto parece mostrar a un menor. Los análisis de outfits solo están disponibles para adultos.',
+    fr: 'Cette photo semble montrer un enfant. Les analyses de tenues sont réservées aux adultes.',
+    de: 'Dieses Foto scheint ein Kind zu zeigen. Outfit-Analysen gibt es nur für Erwachsene.',
+  },
+  'moderation.nonPhoto': {
+    en: 'Please upload a photo of an outfit being worn. Screenshots, drawings, animations and very small images cannot be reviewed.',
+    es: 'Sube una foto de un outfit puesto. No se pueden analizar capturas de pantalla, dibujos, animaciones ni imágenes muy pequeñas.',
+    fr: "Veuillez envoyer la photo d'une tenue portée. Les captures d'écran, dessins, animations et très petites images ne peuvent pas être analysés.",
+    de: 'Bitte lade ein Foto eines getragenen Outfits hoch. Screenshots, Zeichnungen, Animationen und sehr kleine Bilder können nicht analysiert werden.',
+  },
+  'moderation.explicitHeld': {
+    en: 'This photo appears to contain explicit content and cannot be reviewed. It has been held for manual review.',
+    es: 'Esta foto parece tener contenido explícito y no se puede analizar. Se ha retenido para una revisión manual.',
+    fr: 'Cette photo semble contenir du contenu explicite et ne peut pas être analysée. Elle a été retenue pour une vérification manuelle.',
+    de: 'Dieses Foto scheint explizite Inhalte zu enthalten und kann nicht analysiert werden. Es wurde zur manuellen Prüfung zurückgehalten.',
+  },
+  'moderation.minorHeld': {
+    en: 'This photo appears to show a child. Outfit reviews are only available for adults. It has been held for manual review.',
+    es: 'Esta foto parece mostrar a un menor. Los análisis de outfits solo están disponibles para adultos. Se ha retenido para una revisión manual.',
+    fr: 'Cette photo semble montrer un enfant. Les analyses de tenues sont réservées aux adultes. Elle a été retenue pour une vérification manuelle.',
+    de: 'Dieses Foto scheint ein Kind zu zeigen. Outfit-Analysen gibt es nur für Erwachsene. Es wurde zur manuellen Prüfung zurückgehalten.',
+  },
+  'moderation.nonPhotoHeld': {
+    en: 'Please upload a photo of an outfit being worn. Screenshots, drawings, animations and very small images cannot be reviewed. It has been held for manual review.',
+    es: 'Sube una foto de un outfit puesto. No se pueden analizar capturas de pantalla, dibujos, animaciones ni imágenes muy pequeñas. Se ha retenido para una revisión manual.',
+    fr: "Veuillez envoyer la photo d'une tenue portée. Les captures d'écran, dessins, animations et très petites images ne peuvent pas être analysés. Elle a été retenue pour une vérification manuelle.",
+    de: 'Bitte lade ein Foto eines getragenen Outfits hoch. Screenshots, Zeichnungen, Animationen und sehr kleine Bilder können nicht analysiert werden. Es wurde zur manuellen Prüfung zurückgehalten.',
+  },
+  'moderation.decisionNotFound': {
+    en: 'Moderation decision not found',
+    es: 'No se encontró la decisión de moderación',
+    fr: 'Décision de modération introuvable',
+    de: 'Moderationsentscheidung nicht gefunden',
+  },
+  'moderation.alreadyAppealed': {
+    en: 'This decision has already been appealed',
+    es: 'Ya se ha recurrido esta decisión',
+    fr: "Cette décision a déjà fait l'objet d'un recours",
+    de: 'Gegen diese Entscheidung wurde bereits Einspruch erhoben',
+  },
+
+  // History, comparison and follow-up questions
+  'reviews.fetchFailed': {
+    en: 'Failed to fetch reviews',
+    es: 'No se pudieron cargar los análisis',
+    fr: 'Impossible de charger les analyses',
+    de: 'Analysen konnten nicht geladen werden',
+  },
+  'reviews.notFound': {
+    en: 'Review not found',
+    es: 'Análisis no encontrado',
+    fr: 'Analyse introuvable',
+    de: 'Analyse nicht gefunden',
+  },
+  'reviews.stillAnalyzing': {
+    en: 'This review is still being analyzed. Please try again once it has finished.',
+    es: 'Este análisis aún está en curso. Inténtalo de nuevo cuando haya terminado.',
+    fr: "Cette analyse est encore en cours. Veuillez réessayer une fois qu'elle sera terminée.",
+    de: 'Diese Analyse läuft noch. Bitte versuche es erneut, sobald sie abgeschlossen ist.',
+  },
+  'reviews.someNotFound': {
+    en: 'Reviews not found',
+    es: 'Análisis no encontrados',
+    fr: 'Analyses introuvables',
+    de: 'Analysen nicht gefunden',
+  },
+  'reviews.notComparable': {
+    en: 'Only successfully analyzed reviews can be compared',
+    es: 'Solo se pueden comparar los análisis completados correctamente',
+    fr: 'Seules les analyses réussies peuvent être comparées',
+    de: 'Nur erfolgreich abgeschlossene Analysen können verglichen werden',
+  },
+  'reviews.comparisonUnavailable': {
+    en: 'Our fashion AI could not compare these outfits right now. Please try again in a moment.',
+    es: 'Nuestra IA de moda no ha podido comparar estos outfits ahora mismo. Inténtalo de nuevo en un momento.',
+    fr: "Notre IA mode n'a pas pu comparer ces tenues pour le moment. Veuillez réessayer dans un instant.",
+    de: 'Unsere Mode-KI konnte diese Outfits gerade nicht vergleichen. Bitte versuche es gleich noch einmal.',
+  },
+  'reviews.comparisonFailed': {
+    en: 'Failed to generate comparison',
+    es: 'No se pudo generar la comparación',
+    fr: 'Impossible de générer la comparaison',
+    de: 'Der Vergleich konnte nicht erstellt werden',
+  },
+  'reviews.notDiscussable': {
+    en: 'Only successfully analyzed reviews can be discussed',
+    es: 'Solo se puede preguntar sobre análisis completados correctamente',
+    fr: "Seules les analyses réussies peuvent faire l'objet de questions",
+    de: 'Fragen sind nur zu erfolgreich abgeschlossenen Analysen möglich',
+  },
+  'chat.conversationLimit': {
+    en: 'This conversation has reached its limit. Upload a new photo to keep going.',
+    es: 'Esta conversación ha llegado a su límite. Sube una foto nueva para continuar.',
+    fr: 'Cette conversation a atteint sa limite. Envoyez une nouvelle photo pour continuer.',
+    de: 'Dieses Gespräch hat sein Limit erreicht. Lade ein neues Foto hoch, um weiterzumachen.',
+  },
+  'chat.unavailable': {
+    en: 'Our fashion AI could not answer right now. Please try again in a moment.',
+    es: 'Nuestra IA de moda no ha podido responder ahora mismo. Inténtalo de nuevo en un momento.',
+    fr: "Notre IA mode n'a pas pu répondre pour le moment. Veuillez réessayer dans un instant.",
+    de: 'Unsere Mode-KI konnte gerade nicht antworten. Bitte versuche es gleich noch einmal.',
+  },
+  'chat.emptyMessage': {
+    en: 'Message is empty',
+    es: 'El mensaje está vacío',
+    fr: 'Le message est vide',
+    de: 'Die Nachricht ist leer',
+  },
+  'reviews.invalidIds': {
+    en: 'Invalid review IDs',
+    es: 'IDs de análisis no válidos',
+    fr: "Identifiants d'analyse invalides",
+    de: 'Ungültige Analyse-IDs',
+  },
+
+  // Request signing
+  'security.invalidTimestamp': {
+    en: 'Invalid request timestamp',
+    es: 'Marca de tiempo de la solicitud no válida',
+    fr: 'Horodatage de la requête invalide',
+    de: 'Ungültiger Zeitstempel der Anfrage',
+  },
+  'security.timestampOutOfRange': {
+    en: 'Request timestamp is too old or too far in the future',
+    es: 'La marca de tiempo de la solicitud es demasiado antigua o está demasiado en el futuro',
+    fr: "L'horodatage de la requête est trop ancien ou trop loin dans le futur",
+    de: 'Der Zeitstempel der Anfrage ist zu alt oder liegt zu weit in der Zukunft',
+  },
+  'security.invalidSignature': {
+    en: 'Invalid request signature',
+    es: 'Firma de la solicitud no válida',
+    fr: 'Signature de la requête invalide',
+    de: 'Ungültige Signatur der Anfrage',
+  },
+  'security.signatureRequired': {
+    en: 'This operation requires a valid request signature',
+    es: 'Esta operación requiere una firma de solicitud válida',
+    fr: 'Cette opération nécessite une signature de requête valide',
+    de: 'Dieser Vorgang erfordert eine gültige Signatur der Anfrage',
+  },
+
+  // Admin
+  'admin.notFound': {
+    en: 'Not found',
+    es: 'No encontrado',
+    fr: 'Introuvable',
+    de: 'Nicht gefunden',
+  },
+  'admin.invalidKey': {
+    en: 'Invalid admin key',
+    es: 'Clave de administrador no válida',
+    fr: "Clé d'administration invalide",
+    de: 'Ungültiger Admin-Schlüssel',
+  },
+  'admin.invalidRange': {
+    en: 'from must be before to',
+    es: 'from debe ser anterior a to',
+    fr: 'from doit précéder to',
+    de: 'from muss vor to liegen',
+  },
+  'admin.noPendingAppeal': {
+    en: 'No pending appeal for this decision',
+    es: 'No hay ninguna apelación pendiente para esta decisión',
+    fr: 'Aucun recours en attente pour cette décision',
+    de: 'Für diese Entscheidung liegt kein offener Einspruch vor',
+  },
+} satisfies Record<string, Record<Locale, string>>;
+
+export type MessageId = keyof typeof MESSAGES;
+
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * A message in a response body. The locale middleware writes it in the request language
+ * when the response is sent; anywhere else it serializes to English.
+ */
+export class ApiMessage {
+  constructor(
+    public readonly id: MessageId,
+    public readonly values: MessageValues = {}
+  ) {}
+
+  format(locale: Locale): string {
+    return formatMessage(this.id, locale, this.values);
+  }
+
+  toJSON(): string {
+    return this.format(DEFAULT_LOCALE);
+  }
+}
+
+export function apiMessage(id: MessageId, values?: MessageValues): ApiMessage {
+  return new ApiMessage(id, values);
+}
+
+/**
+ * The message in the given language with its placeholders filled in
+ */
+export function formatMessage(id: MessageId, locale: Locale, values: MessageValues = {}): string {
+  return MESSAGES[id][locale].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * The response body with every ApiMessage in it written in the given language
+ */
+export function localizeMessages(body: unknown, locale: Locale): unknown {
+  if (body instanceof ApiMessage) {
+    return body.format(locale);
+  }
+  if (Array.isArray(body)) {
+    return body.map(item => localizeMessages(item, locale));
+  }
+  if (body && typeof body === 'object' && Object.getPrototypeOf(body) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, localizeMessages(value, locale)])
+    );
+  }
+  return body;
+}
@@ -0,0 +1,15 @@
+// Apparent ages at or below which a face certainly scores as a minor, and at or above which it does not count.
+// Age estimates are off by several years, so the ramp starts well below 18 and ends above it.
+const CHILD_AGE = 12;
+const ADULT_AGE = 20;
+
+/**
+ * 0-1 minor score for the apparent ages of the faces in a photo; the youngest face decides
+ */
+export function scoreApparentAges(ages: number[]): number {
+  if (ages.length === 0) {
+    return 0;
+  }
+  const youngest = Math.min(...ages);
+  return Math.min(1, Math.max(0, (ADULT_AGE - youngest) / (ADULT_AGE - CHILD_AGE)));
+}
@@ -0,0 +1,37 @@
+import { config } from '../../config/config';
+import { createLocalClassifier, ModerationScenario } from './localClassifier';
+import { createOpenAIClassifier } from './openAIClassifier';
+import { ModerationClassifier } from './types';
+
+export * from './types';
+export { createLocalClassifier, isModerationScenario, MODERATION_SCENARIOS, ModerationScenario } from './localClassifier';
+export { scoreApparentAges } from './ageCheck';
+
+export type ModerationClassifierName = 'local' | 'openai';
+
+export const MODERATION_CLASSIFIER_NAMES: ModerationClassifierName[] = ['local', 'openai'];
+
+/**
+ * Classifier selected by MODERATION_CLASSIFIER. A scenario (from X-Moderation-Scenario)
+ * only applies to the local classifier, and never in production.
+ */
+export function getModerationClassifier(scenario?: ModerationScenario): ModerationClassifier {
+  const name = config.moderation.classifier;
+
+  if (name === 'openai') {
+    if (!config.ai.openaiApiKey) {
+      throw new Error('MODERATION_CLASSIFIER=openai requires OPENAI_API_KEY');
+    }
+    return createOpenAIClassifier({
+      url: config.moderation.openaiUrl,
+      model: config.moderation.openaiModel,
+      apiKey: config.ai.openaiApiKey,
+      timeoutMs: config.moderation.timeoutMs,
+    });
+  }
+
+  if (name !== 'local') {
+    throw new Error(`Unknown moderation classifier "${name}". Expected one of: ${MODERATION_CLASSIFIER_NAMES.join(', ')}`);
+  }
+  return createLocalClassifier({ scenario: config.nodeEnv !== 'production' ? scenario : undefined });
+}
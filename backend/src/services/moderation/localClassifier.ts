@@ -0,0 +1,67 @@
+import { config } from '../../config/config';
+import { ModerationClassifier, ModerationImage, ModerationScores } from './types';
+
+// clean: nothing found | explicit, minor, non_photo: a confident hit | borderline: an uncertain explicit hit
+export type ModerationScenario = 'clean' | 'explicit' | 'minor' | 'non_photo' | 'borderline';
+
+export const MODERATION_SCENARIOS: ModerationScenario[] = ['clean', 'explicit', 'minor', 'non_photo', 'borderline'];
+
+export interface LocalClassifierOptions {
+  scenario?: ModerationScenario;
+}
+
+const SCENARIO_SCORES: Record<ModerationScenario, Partial<ModerationScores>> = {
+  clean: {},
+  explicit: { explicit: 0.97 },
+  minor: { minor: 0.93 },
+  non_photo: { non_photo: 0.95 },
+  borderline: { explicit: 0.55 },
+};
+
+export function isModerationScenario(value: unknown): value is ModerationScenario {
+  return typeof value === 'string' && MODERATION_SCENARIOS.includes(value as ModerationScenario);
+}
+
+/**
+ * Offline stand-in for a moderation model, for development and tests. It only
+ * checks that the upload is a usable photo; explicit and minor scores come from
+ * the scenario (MODERATION_LOCAL_SCENARIO or the X-Moderation-Scenario header).
+ * The moderation age check still adds the apparent age of faces to minor.
+ */
+export function createLocalClassifier(options: LocalClassifierOptions = {}): ModerationClassifier {
+  const scenario = options.scenario
+    ?? (isModerationScenario(config.moderation.localScenario) ? config.moderation.localScenario : 'clean');
+
+  return {
+    name: 'local',
+    model: `local-${scenario}`,
+    async classify(image: ModerationImage): Promise<ModerationScores> {
+      return {
+        explicit: 0,
+        minor: 0,
+        non_photo: scoreNonPhoto(image),
+        ...SCENARIO_SCORES[scenario],
+      };
+    },
+  };
+}
+
+/**
+ * Structural check run before every classifier: unreadable files, animations,
+ * thumbnails and banner-shaped images cannot be outfit photos
+ */
+export function scoreNonPhoto({ info }: ModerationImage): number {
+  if (!info || info.format === 'gif') {
+    return 1;
+  }
+  if (info.width === null || info.height === null) {
+    return 0;
+  }
+
+  const shortSide = Math.min(info.width, info.height);
+  const aspectRatio = Math.max(info.width, info.height) / Math.max(1, shortSide);
+  if (shortSide < config.moderation.minImageSide || aspectRatio > config.moderation.maxAspectRatio) {
+    return 1;
+  }
+  return 0;
+}
@@ -0,0 +1,76 @@
+import { ModerationClassifier, ModerationClassifierError, ModerationImage, ModerationScores } from './types';
+import { scoreNonPhoto } from './localClassifier';
+
+interface ModerationResponse {
+  model: string;
+  results: {
+    flagged: boolean;
+    category_scores: Record<string, number>;
+  }[];
+}
+
+export interface OpenAIClassifierOptions {
+  url: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+/**
+ * Classifier backed by the OpenAI moderation endpoint (omni-moderation models accept images).
+ * The endpoint does not estimate age: its minor score is only sexual/minors, and the apparent
+ * age of faces is added by the moderation age check. It has no category for non-photos, so
+ * that score comes from the structural check.
+ */
+export function createOpenAIClassifier(options: OpenAIClassifierOptions): ModerationClassifier {
+  const { url, model, apiKey, timeoutMs } = options;
+
+  return {
+    name: 'openai',
+    model,
+    async classify(image: ModerationImage): Promise<ModerationScores> {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          signal: AbortSignal.timeout(timeoutMs),
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            input: [{
+              type: 'image_url',
+              image_url: { url: `data:${image.mimeType};base64,${image.buffer.toString('base64')}` },
+            }],
+          }),
+        });
+      } catch (error) {
+        const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+        throw new ModerationClassifierError(
+          timedOut ? `Moderation request timed out after ${timeoutMs}ms` : `Moderation request failed: ${(error as Error).message}`,
+          'openai',
+          timedOut ? 504 : undefined
+        );
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new ModerationClassifierError(`Moderation API error: ${response.status} - ${errorText}`, 'openai', response.status);
+      }
+
+      const data = await response.json() as ModerationResponse;
+      const scores = data.results?.[0]?.category_scores;
+      if (!scores) {
+        throw new ModerationClassifierError('Moderation API returned no result', 'openai');
+      }
+
+      return {
+        explicit: Math.max(scores['sexual'] ?? 0, scores['sexual/minors'] ?? 0),
+        minor: scores['sexual/minors'] ?? 0,
+        non_photo: scoreNonPhoto(image),
+      };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+// Shared types for image moderation classifiers
+
+import type { ImageInfo } from '../../lib/imageInfo';
+
+// explicit: nudity or sexual content | minor: appears to show a child |
+// non_photo: not a photo of a person (screenshot, drawing, document, tiny or unreadable image)
+export type ModerationCategory = 'explicit' | 'minor' | 'non_photo';
+
+export const MODERATION_CATEGORIES: ModerationCategory[] = ['explicit', 'minor', 'non_photo'];
+
+// 0-1 likelihood per category
+export type ModerationScores = Record<ModerationCategory, number>;
+
+export interface ModerationImage {
+  buffer: Buffer;
+  mimeType: string;
+  // Null when the bytes are not a recognized raster image
+  info: ImageInfo | null;
+}
+
+export interface ModerationClassifier {
+  name: string;
+  model: string;
+  classify(image: ModerationImage): Promise<ModerationScores>;
+}
+
+export class ModerationClassifierError extends Error {
+  statusCode?: number;
+  classifier: string;
+
+  constructor(message: string, classifier: string, statusCode?: number) {
+    super(message);
+    this.name = 'ModerationClassifierError';
+    this.classifier = classifier;
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decideModeration, toModerationResponse } from './moderationService';
+import { createLocalClassifier, scoreApparentAges, ModerationImage } from './moderation';
+import { scoreNonPhoto } from './moderation/localClassifier';
+
+const scores = (overrides: Partial<Record<'explicit' | 'minor' | 'non_photo', number>> = {}) => ({
+  explicit: 0,
+  minor: 0,
+  non_photo: 0,
+  ...overrides,
+});
+
+const image = (info: ModerationImage['info']): ModerationImage => ({ buffer: Buffer.alloc(0), mimeType: 'image/jpeg', info });
+
+describe('decideModeration', () => {
+  it('allows uploads below the quarantine threshold', () => {
+    assert.deepEqual(decideModeration(scores({ explicit: 0.39 })), { action: 'allow', reason: null });
+  });
+
+  it('quarantines from MODERATION_QUARANTINE_THRESHOLD and rejects from MODERATION_REJECT_THRESHOLD', () => {
+    assert.deepEqual(decideModeration(scores({ explicit: 0.4 })), { action: 'quarantine', reason: 'explicit' });
+    assert.deepEqual(decideModeration(scores({ explicit: 0.8 })), { action: 'reject', reason: 'explicit' });
+  });
+
+  it('gives the most severe category as the reason', () => {
+    assert.deepEqual(decideModeration(scores({ explicit: 0.9, minor: 0.85 })), { action: 'reject', reason: 'minor' });
+    assert.deepEqual(decideModeration(scores({ non_photo: 0.9, explicit: 0.5 })), { action: 'reject', reason: 'non_photo' });
+  });
+
+  it('lets a rejection outrank a more severe quarantine', () => {
+    assert.deepEqual(decideModeration(scores({ minor: 0.5, non_photo: 1 })), { action: 'reject', reason: 'non_photo' });
+  });
+});
+
+describe('toModerationResponse', () => {
+  it('tells rejected and quarantined uploads apart', () => {
+    const decision = { reason: 'minor' as const, scores: scores({ minor: 0.9 }), moderationId: 'log-1' };
+    const rejected = JSON.parse(JSON.stringify(toModerationResponse({ ...decision, action: 'reject' })));
+    const quarantined = JSON.parse(JSON.stringify(toModerationResponse({ ...decision, action: 'quarantine' })));
+
+    assert.equal(rejected.code, 'CONTENT_REJECTED');
+    assert.equal(quarantined.code, 'CONTENT_QUARANTINED');
+    assert.match(quarantined.error, /held for manual review/);
+    assert.doesNotMatch(rejected.error, /held for manual review/);
+    assert.equal(rejected.appealUrl, '/api/reviews/moderation/log-1/appeal');
+  });
+});
+
+describe('scoreApparentAges', () => {
+  it('scores the youngest face on a ramp from 12 to 20', () => {
+    assert.equal(scoreApparentAges([]), 0);
+    assert.equal(scoreApparentAges([34, 25]), 0);
+    assert.equal(scoreApparentAges([20]), 0);
+    assert.equal(scoreApparentAges([30, 16]), 0.5);
+    assert.equal(scoreApparentAges([12]), 1);
+    assert.equal(scoreApparentAges([6, 40]), 1);
+  });
+});
+
+describe('local classifier', () => {
+  it('marks unreadable, animated, tiny and banner-shaped images as non-photos', () => {
+    assert.equal(scoreNonPhoto(image(null)), 1);
+    assert.equal(scoreNonPhoto(image({ format: 'gif', width: 800, height: 800 })), 1);
+    assert.equal(scoreNonPhoto(image({ format: 'png', width: 100, height: 100 })), 1);
+    assert.equal(scoreNonPhoto(image({ format: 'jpeg', width: 2000, height: 400 })), 1);
+    assert.equal(scoreNonPhoto(image({ format: 'jpeg', width: 800, height: 1200 })), 0);
+    assert.equal(scoreNonPhoto(image({ format: 'heic', width: null, height: null })), 0);
+  });
+
+  it('adds the scores of the requested scenario', async () => {
+    const photo = image({ format: 'jpeg', width: 800, height: 1200 });
+
+    assert.deepEqual(await createLocalClassifier({ scenario: 'clean' }).classify(photo), scores());
+    assert.deepEqual(await createLocalClassifier({ scenario: 'borderline' }).classify(photo), scores({ explicit: 0.55 }));
+  });
+});
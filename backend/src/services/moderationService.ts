@@ -0,0 +1,202 @@
+import { config } from '../config/config';
+import { prisma } from '../lib/prisma';
+import { readImageInfo } from '../lib/imageInfo';
+import { deleteImage, uploadQuarantinedImage } from '../lib/cloudinary';
+import {
+  getModerationClassifier,
+  scoreApparentAges,
+  ModerationCategory,
+  ModerationScenario,
+  ModerationScores,
+} from './moderation';
+import { estimateFaceAges, redactFaces, RedactionMode } from './privacyService';
+import { apiMessage, MessageId } from './messageCatalog';
+
+// allow: continue to storage and analysis | reject: discarded |
+// quarantine: kept privately for manual review, not analyzed
+export type ModerationAction = 'allow' | 'reject' | 'quarantine';
+
+export type AppealResolution = 'upheld' | 'overturned';
+
+export const APPEAL_STATUSES = ['none', 'pending', 'upheld', 'overturned'];
+
+export interface ModerationOwner {
+  userId: string | null;
+  guestDeviceId: string | null;
+}
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  // Category that decided a reject or quarantine
+  reason: ModerationCategory | null;
+  scores: ModerationScores | null;
+  // Moderation log row, set for rejected and quarantined uploads
+  moderationId: string | null;
+}
+
+// The classifier could not be reached and MODERATION_FAIL_OPEN is off
+export class ModerationUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Content moderation is unavailable: ${cause instanceof Error ? cause.message : cause}`);
+    this.name = 'ModerationUnavailableError';
+  }
+}
+
+// Most severe first: decides the reason when several categories score high
+const REASON_PRIORITY: ModerationCategory[] = ['minor', 'explicit', 'non_photo'];
+
+// Message for a rejected upload, and for one held for manual review
+const REASON_MESSAGES: Record<ModerationCategory, [MessageId, MessageId]> = {
+  explicit: ['moderation.explicit', 'moderation.explicitHeld'],
+  minor: ['moderation.minor', 'moderation.minorHeld'],
+  non_photo: ['moderation.nonPhoto', 'moderation.nonPhotoHeld'],
+};
+
+const ALLOW: ModerationDecision = { action: 'allow', reason: null, scores: null, moderationId: null };
+
+/**
+ * Apply the reject and quarantine thresholds to classifier scores
+ */
+export function decideModeration(scores: ModerationScores): Pick<ModerationDecision, 'action' | 'reason'> {
+  const rejected = REASON_PRIORITY.find(category => scores[category] >= config.moderation.rejectThreshold);
+  if (rejected) {
+    return { action: 'reject', reason: rejected };
+  }
+  const quarantined = REASON_PRIORITY.find(category => scores[category] >= config.moderation.quarantineThreshold);
+  if (quarantined) {
+    return { action: 'quarantine', reason: quarantined };
+  }
+  return { action: 'allow', reason: null };
+}
+
+/**
+ * Check an upload before it is stored or analyzed. Pass the original photo: faces must
+ * still be visible for the age check. Rejected and quarantined uploads are logged for
+ * appeals; quarantined ones also keep a private copy for review, with faces redacted
+ * when the upload asked for privacy mode.
+ */
+export async function moderateUpload(
+  file: { buffer: Buffer; mimetype: string },
+  owner: ModerationOwner,
+  imageDigest: string,
+  scenario?: ModerationScenario,
+  redaction?: RedactionMode
+): Promise<ModerationDecision> {
+  if (!config.moderation.enabled) {
+    return ALLOW;
+  }
+
+  // A photo cleared on appeal is not checked again for the same owner
+  const overturned = await prisma.moderationLog.findFirst({
+    where: { ...owner, imageDigest, appealStatus: 'overturned' },
+    select: { id: true },
+  });
+  if (overturned) {
+    return ALLOW;
+  }
+
+  const classifier = getModerationClassifier(scenario);
+  let scores: ModerationScores;
+  let ageChecked = false;
+  try {
+    scores = await classifier.classify({
+      buffer: file.buffer,
+      mimeType: file.mimetype,
+      info: readImageInfo(file.buffer),
+    });
+    // Non-photos are rejected anyway and may not even decode
+    if (config.moderation.ageCheck && scores.non_photo < config.moderation.rejectThreshold) {
+      const ageScore = scoreApparentAges(await estimateFaceAges(file.buffer));
+      scores = { ...scores, minor: Math.max(scores.minor, ageScore) };
+      ageChecked = true;
+    }
+  } catch (error) {
+    if (config.moderation.failOpen) {
+      console.warn('⚠️ Moderation unavailable, accepting upload unchecked:', error instanceof Error ? error.message : error);
+      return ALLOW;
+    }
+    throw new ModerationUnavailableError(error);
+  }
+
+  const { action, reason } = decideModeration(scores);
+  if (action === 'allow') {
+    return { ...ALLOW, scores };
+  }
+
+  let quarantinePublicId: string | null = null;
+  if (action === 'quarantine') {
+    try {
+      const copy = redaction ? (await redactFaces(file.buffer, redaction)).buffer : file.buffer;
+      quarantinePublicId = await uploadQuarantinedImage(copy, `${imageDigest.slice(0, 16)}_${Date.now()}`);
+    } catch (error) {
+      // The log entry still lets support find the decision; the reviewer asks for the photo again
+      console.error('Failed to store quarantined image:', error);
+    }
+  }
+
+  const log = await prisma.moderationLog.create({
+    data: {
+      ...owner,
+      decision: action === 'reject' ? 'rejected' : 'quarantined',
+      reason: reason!,
+      scores,
+      classifier: `${classifier.name}/${classifier.model}${ageChecked ? '+face-age' : ''}`,
+      imageDigest,
+      quarantinePublicId,
+    },
+  });
+  console.warn(`🚫 Upload ${log.decision} by moderation (${reason}), log ${log.id}`);
+
+  return { action, reason, scores, moderationId: log.id };
+}
+
+/**
+ * Response body for a rejected or quarantined upload
+ */
+export function toModerationResponse(decision: ModerationDecision) {
+  const quarantined = decision.action === 'quarantine';
+  return {
+    error: apiMessage(REASON_MESSAGES[decision.reason!][quarantined ? 1 : 0]),
+    code: quarantined ? 'CONTENT_QUARANTINED' : 'CONTENT_REJECTED',
+    reason: decision.reason,
+    moderationId: decision.moderationId,
+    appealUrl: `/api/reviews/moderation/${decision.moderationId}/appeal`,
+  };
+}
+
+/**
+ * Most recent moderation decisions between from and to, optionally only those with one appeal status
+ */
+export async function findModerationLogs(from: Date, to: Date, appealStatus: string | undefined, limit: number) {
+  return prisma.moderationLog.findMany({
+    where: {
+      createdAt: { gte: from, lt: to },
+      ...(appealStatus && { appealStatus }),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Record the outcome of an appeal. The quarantined copy is deleted either way:
+ * an overturned photo is uploaded again by its owner and skips moderation.
+ */
+export async function resolveModerationAppeal(id: string, resolution: AppealResolution) {
+  const { quarantinePublicId } = await prisma.moderationLog.findUniqueOrThrow({
+    where: { id },
+    select: { quarantinePublicId: true },
+  });
+
+  const log = await prisma.moderationLog.update({
+    where: { id },
+    data: { appealStatus: resolution, resolvedAt: new Date(), quarantinePublicId: null },
+  });
+
+  if (quarantinePublicId) {
+    await deleteImage(quarantinePublicId, 'private').catch(error =>
+      console.error('Failed to delete quarantined image:', error)
+    );
+  }
+  return log;
+}
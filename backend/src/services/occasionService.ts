@@ -0,0 +1,104 @@
+// Events the outfit can be judged for, as they are described to the model
+const OCCASION_EVENTS = {
+  wedding_guest: 'attending a wedding as a guest',
+  job_interview: 'a job interview',
+  office: 'a regular day at the office',
+  business_meeting: 'a business meeting with clients or senior colleagues',
+  date_night: 'a date night',
+  party: 'a party',
+  funeral: 'a funeral or memorial service',
+  graduation: 'a graduation ceremony',
+  religious_service: 'a religious service',
+  brunch: 'a weekend brunch',
+  casual_outing: 'running errands or a casual day out',
+  travel: 'a day of travel',
+  festival: 'an outdoor music festival',
+  beach: 'a day at the beach or by the pool',
+  gym: 'a workout at the gym',
+};
+
+// Dress codes as printed on invitations or in office policies
+const DRESS_CODES = {
+  white_tie: 'the white tie dress code',
+  black_tie: 'the black tie dress code',
+  cocktail: 'the cocktail attire dress code',
+  business_formal: 'the business formal dress code',
+  business_casual: 'the business casual dress code',
+  smart_casual: 'the smart casual dress code',
+  casual: 'a casual dress code',
+};
+
+const OCCASION_DESCRIPTIONS: Record<string, string> = { ...OCCASION_EVENTS, ...DRESS_CODES };
+
+export type Occasion = keyof typeof OCCASION_EVENTS | keyof typeof DRESS_CODES;
+
+export const OCCASIONS = Object.keys(OCCASION_DESCRIPTIONS) as Occasion[];
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+const CLIMATE_DESCRIPTIONS = {
+  tropical: 'hot and humid',
+  hot_dry: 'hot and dry',
+  temperate: 'mild',
+  cold: 'cold',
+  rainy: 'wet and rainy',
+};
+
+export type Climate = keyof typeof CLIMATE_DESCRIPTIONS;
+
+export const CLIMATES = Object.keys(CLIMATE_DESCRIPTIONS) as Climate[];
+
+// What the wearer asked to be judged against; any part may be left open
+export interface AnalysisTarget {
+  occasion: Occasion | null;
+  season: Season | null;
+  climate: Climate | null;
+}
+
+export function isOccasion(value: unknown): value is Occasion {
+  return typeof value === 'string' && OCCASIONS.includes(value as Occasion);
+}
+
+export function isSeason(value: unknown): value is Season {
+  return typeof value === 'string' && SEASONS.includes(value as Season);
+}
+
+export function isClimate(value: unknown): value is Climate {
+  return typeof value === 'string' && CLIMATES.includes(value as Climate);
+}
+
+/**
+ * Target from request or stored values; unknown values are ignored. Null when nothing is set.
+ */
+export function toAnalysisTarget(occasion: unknown, season: unknown, climate: unknown): AnalysisTarget | null {
+  const target: AnalysisTarget = {
+    occasion: isOccasion(occasion) ? occasion : null,
+    season: isSeason(season) ? season : null,
+    climate: isClimate(climate) ? climate : null,
+  };
+  return target.occasion || target.season || target.climate ? target : null;
+}
+
+/**
+ * Instructions for the analysis request that make the scores answer "does this work for the target?"
+ */
+export function describeTarget(target: AnalysisTarget): string {
+  const conditions = [
+    target.season && `in ${target.season}`,
+    target.climate && `in ${CLIMATE_DESCRIPTIONS[target.climate]} weather`,
+  ].filter(Boolean).join(', ');
+
+  if (target.occasion) {
+    const occasion = OCCASION_DESCRIPTIONS[target.occasion];
+    return `The wearer wants to know whether this outfit works for ${occasion}${conditions ? ` ${conditions}` : ''}. `
+      + 'Judge it against that target: occasionSuitability and occasionScore must rate the fit for this occasion specifically, '
+      + 'the other scores and the overall score should reflect how well the outfit serves it, '
+      + 'and name any breach of its conventions in technicalFlaws and improvementSuggestions.';
+  }
+
+  return `The wearer will wear this outfit ${conditions}. `
+    + 'Judge weather-appropriateness of fabrics, layers and coverage as part of fabricScore and occasionScore, '
+    + 'and suggest adjustments for these conditions.';
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { classifyHarmony, extractPalette } from './paletteService';
+
+const chromatic = (...hexes: string[]) => hexes.map(hex => ({ hex, neutral: false }));
+
+describe('classifyHarmony', () => {
+  it('is neutral without chromatic swatches', () => {
+    assert.equal(classifyHarmony([]), 'neutral');
+    assert.equal(classifyHarmony([{ hex: '#f5f0e6', neutral: true }, { hex: '#222222', neutral: true }]), 'neutral');
+  });
+
+  it('ignores neutral swatches', () => {
+    assert.equal(classifyHarmony([...chromatic('#1f2a44'), { hex: '#ffffff', neutral: true }]), 'monochromatic');
+  });
+
+  it('tells schemes apart by the hues on the color wheel', () => {
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#cc0000')), 'monochromatic');
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#ff8000')), 'analogous');
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#00ffff')), 'complementary');
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#00ff00', '#0000ff')), 'triadic');
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#00ff80', '#0080ff')), 'split_complementary');
+    assert.equal(classifyHarmony(chromatic('#ff0000', '#ffff00', '#00ff00', '#0000ff')), 'mixed');
+  });
+
+  it('treats hues on either side of red as neighbours', () => {
+    assert.equal(classifyHarmony(chromatic('#ff0010', '#ff1000')), 'monochromatic');
+  });
+});
+
+describe('extractPalette', () => {
+  // A navy square on a white backdrop
+  const photo = () => sharp({ create: { width: 40, height: 40, channels: 3, background: '#ffffff' } })
+    .composite([{
+      input: { create: { width: 24, height: 24, channels: 3, background: '#1f2a44' } },
+      top: 8,
+      left: 8,
+    }])
+    .png()
+    .toBuffer();
+
+  it('measures the outfit colors without the background', async () => {
+    const palette = await extractPalette(await photo());
+
+    assert.equal(palette.backgroundExcluded, true);
+    assert.deepEqual(palette.swatches, [{ hex: '#1f2a44', share: 1, neutral: false }]);
+    assert.equal(palette.harmony, 'monochromatic');
+  });
+
+  it('returns the same palette for the same photo', async () => {
+    const image = await photo();
+    assert.deepEqual(await extractPalette(image), await extractPalette(image));
+  });
+});
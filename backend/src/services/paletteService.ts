@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { config } from '../config/config';
+import { createSeededRandom } from '../lib/seededRandom';
+
+// monochromatic: shades of one hue | analogous: neighbouring hues | complementary: two opposite hues |
+// split_complementary: one hue and the two either side of its opposite | triadic: three evenly spaced hues |
+// neutral: only blacks, whites, greys and beiges | mixed: none of these
+export type PaletteHarmony =
+  | 'monochromatic'
+  | 'analogous'
+  | 'complementary'
+  | 'split_complementary'
+  | 'triadic'
+  | 'neutral'
+  | 'mixed';
+
+export const PALETTE_HARMONIES: PaletteHarmony[] = [
+  'monochromatic',
+  'analogous',
+  'complementary',
+  'split_complementary',
+  'triadic',
+  'neutral',
+  'mixed',
+];
+
+export interface PaletteSwatch {
+  // #rrggbb
+  hex: string;
+  // Share of the measured pixels, 0-1
+  share: number;
+  // Black, white, grey or a muted beige: does not count towards the harmony
+  neutral: boolean;
+}
+
+// Stored on the review and given to the AI as grounding
+export interface ColorPalette {
+  swatches: PaletteSwatch[];
+  harmony: PaletteHarmony;
+  // False when the background could not be told apart from the outfit and every pixel was measured
+  backgroundExcluded: boolean;
+}
+
+interface Pixel {
+  rgb: [number, number, number];
+  lab: [number, number, number];
+}
+
+// Longest side the image is reduced to before clustering
+const SAMPLE_MAX_SIDE = 96;
+
+// Share of each side treated as the frame the background is estimated from
+const BORDER_RATIO = 0.08;
+
+// Colors covering at least this share of the frame count as background
+const BACKGROUND_MIN_BORDER_SHARE = 0.25;
+
+// Pixels closer than this (CIE76 delta E) to a background color are not measured
+const BACKGROUND_DELTA_E = 12;
+
+// Background exclusion is abandoned when it would leave less than this share of the image
+const MIN_FOREGROUND_SHARE = 0.25;
+
+// Clusters closer than this are reported as one swatch
+const MERGE_DELTA_E = 10;
+
+// Lab chroma below which a color is neutral
+const NEUTRAL_MAX_CHROMA = 12;
+
+const KMEANS_ITERATIONS = 12;
+
+/**
+ * Dominant colors of an outfit photo, measured from its pixels: k-means in Lab
+ * space after removing the colors that fill the image border. Deterministic, so
+ * the same photo always yields the same palette.
+ */
+export async function extractPalette(image: Buffer): Promise<ColorPalette> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(SAMPLE_MAX_SIDE, SAMPLE_MAX_SIDE, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const pixels: Pixel[] = [];
+  const border: Pixel[] = [];
+  const borderX = Math.max(1, Math.round(width * BORDER_RATIO));
+  const borderY = Math.max(1, Math.round(height * BORDER_RATIO));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * channels;
+      const rgb: Pixel['rgb'] = [data[offset], data[offset + 1], data[offset + 2]];
+      const pixel = { rgb, lab: rgbToLab(rgb) };
+      pixels.push(pixel);
+      if (x < borderX || x >= width - borderX || y < borderY || y >= height - borderY) {
+        border.push(pixel);
+      }
+    }
+  }
+
+  // Seeded from the image so the palette is reproducible
+  const random = createSeededRandom(crypto.createHash('sha256').update(image).digest().readUInt32BE(0));
+
+  // The frame is mostly background in an outfit photo; its main colors are left out
+  const backgroundColors = kMeans(border, 3, random)
+    .filter(cluster => cluster.members.length >= border.length * BACKGROUND_MIN_BORDER_SHARE)
+    .map(cluster => cluster.center);
+  const foreground = pixels.filter(pixel =>
+    backgroundColors.every(color => deltaE(pixel.lab, color) >= BACKGROUND_DELTA_E)
+  );
+  const backgroundExcluded = backgroundColors.length > 0 && foreground.length >= pixels.length * MIN_FOREGROUND_SHARE;
+  const measured = backgroundExcluded ? foreground : pixels;
+
+  const clusters = mergeClusters(kMeans(measured, config.palette.maxColors + 1, random))
+    .filter(cluster => cluster.members.length >= measured.length * config.palette.minShare)
+    .sort((a, b) => b.members.length - a.members.length)
+    .slice(0, config.palette.maxColors);
+  const total = clusters.reduce((sum, cluster) => sum + cluster.members.length, 0);
+
+  const swatches = clusters.map(cluster => {
+    const rgb = averageRgb(cluster.members);
+    return {
+      hex: toHex(rgb),
+      share: Math.round((cluster.members.length / total) * 100) / 100,
+      neutral: chroma(cluster.center) < NEUTRAL_MAX_CHROMA,
+    };
+  });
+
+  return { swatches, harmony: classifyHarmony(swatches), backgroundExcluded };
+}
+
+/**
+ * extractPalette for an upload, or null when PALETTE_ENABLED is off or the image
+ * cannot be decoded. The palette only grounds the analysis, so it never blocks one.
+ */
+export async function measurePalette(image: Buffer): Promise<ColorPalette | null> {
+  if (!config.palette.enabled) {
+    return null;
+  }
+  try {
+    return await extractPalette(image);
+  } catch (error) {
+    console.warn('⚠️ Could not extract color palette:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Classify the color scheme from the hues of the chromatic swatches on the color wheel
+ */
+export function classifyHarmony(swatches: Pick<PaletteSwatch, 'hex' | 'neutral'>[]): PaletteHarmony {
+  const hues = swatches.filter(swatch => !swatch.neutral).map(swatch => hueOf(swatch.hex));
+  if (hues.length === 0) {
+    return 'neutral';
+  }
+
+  const span = hueSpan(hues);
+  if (span <= 25) return 'monochromatic';
+  if (span <= 75) return 'analogous';
+
+  const groups = groupHues(hues);
+  if (groups.length === 2 && hueDistance(groups[0], groups[1]) >= 150) {
+    return 'complementary';
+  }
+  if (groups.length === 3) {
+    const distances = [
+      hueDistance(groups[0], groups[1]),
+      hueDistance(groups[1], groups[2]),
+      hueDistance(groups[0], groups[2]),
+    ];
+    if (distances.every(distance => Math.abs(distance - 120) <= 30)) {
+      return 'triadic';
+    }
+    // Two neighbouring hues, both roughly opposite the third
+    const [closest, ...others] = [...distances].sort((a, b) => a - b);
+    if (closest <= 75 && others.every(distance => distance >= 120)) {
+      return 'split_complementary';
+    }
+  }
+  return 'mixed';
+}
+
+/**
+ * One line for the analysis prompt, e.g. "#1f2a44 (45%), #f5f0e6 (30%, neutral); palette type: monochromatic"
+ */
+export function describePalette(palette: ColorPalette): string {
+  const swatches = palette.swatches
+    .map(swatch => `${swatch.hex} (${Math.round(swatch.share * 100)}%${swatch.neutral ? ', neutral' : ''})`)
+    .join(', ');
+  return `${swatches}; palette type: ${palette.harmony.replace('_', ' ')}`;
+}
+
+interface Cluster {
+  center: Pixel['lab'];
+  members: Pixel[];
+}
+
+// k-means++ seeding, then Lloyd iterations
+function kMeans(pixels: Pixel[], k: number, random: () => number): Cluster[] {
+  if (pixels.length === 0) {
+    return [];
+  }
+
+  const centers: Pixel['lab'][] = [pixels[Math.floor(random() * pixels.length)].lab];
+  while (centers.length < Math.min(k, pixels.length)) {
+    const distances = pixels.map(pixel => Math.min(...centers.map(center => deltaE(pixel.lab, center))) ** 2);
+    const total = distances.reduce((sum, distance) => sum + distance, 0);
+    if (total === 0) break;
+    let target = random() * total;
+    const index = distances.findIndex(distance => (target -= distance) <= 0);
+    centers.push(pixels[index === -1 ? pixels.length - 1 : index].lab);
+  }
+
+  let clusters: Cluster[] = [];
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    clusters = centers.map(center => ({ center, members: [] as Pixel[] }));
+    for (const pixel of pixels) {
+      let nearest = clusters[0];
+      for (const cluster of clusters) {
+        if (deltaE(pixel.lab, cluster.center) < deltaE(pixel.lab, nearest.center)) {
+          nearest = cluster;
+        }
+      }
+      nearest.members.push(pixel);
+    }
+
+    let moved = false;
+    clusters.forEach((cluster, index) => {
+      if (cluster.members.length === 0) return;
+      const center = averageLab(cluster.members);
+      if (deltaE(center, centers[index]) > 0.5) moved = true;
+      centers[index] = center;
+      cluster.center = center;
+    });
+    if (!moved) break;
+  }
+
+  return clusters.filter(cluster => cluster.members.length > 0);
+}
+
+// Near-identical clusters (one color split in two) become one swatch
+function mergeClusters(clusters: Cluster[]): Cluster[] {
+  const merged: Cluster[] = [];
+  for (const cluster of [...clusters].sort((a, b) => b.members.length - a.members.length)) {
+    const match = merged.find(existing => deltaE(existing.center, cluster.center) < MERGE_DELTA_E);
+    if (match) {
+      match.members.push(...cluster.members);
+      match.center = averageLab(match.members);
+    } else {
+      merged.push({ center: cluster.center, members: [...cluster.members] });
+    }
+  }
+  return merged;
+}
+
+function averageLab(pixels: Pixel[]): Pixel['lab'] {
+  const sum = pixels.reduce((acc, { lab }) => [acc[0] + lab[0], acc[1] + lab[1], acc[2] + lab[2]], [0, 0, 0]);
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+}
+
+function averageRgb(pixels: Pixel[]): Pixel['rgb'] {
+  const sum = pixels.reduce((acc, { rgb }) => [acc[0] + rgb[0], acc[1] + rgb[1], acc[2] + rgb[2]], [0, 0, 0]);
+  return [Math.round(sum[0] / pixels.length), Math.round(sum[1] / pixels.length), Math.round(sum[2] / pixels.length)];
+}
+
+function toHex(rgb: Pixel['rgb']): string {
+  return `#${rgb.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// CIE76: Euclidean distance in Lab
+function deltaE(a: Pixel['lab'], b: Pixel['lab']): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function chroma(lab: Pixel['lab']): number {
+  return Math.sqrt(lab[1] ** 2 + lab[2] ** 2);
+}
+
+// sRGB (D65) to CIE Lab
+function rgbToLab([r, g, b]: Pixel['rgb']): Pixel['lab'] {
+  const linear = [r, g, b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047;
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722;
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+// HSL hue in degrees: the artist's color wheel that harmony rules are defined on
+function hueOf(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+  const hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (hue * 60 + 360) % 360;
+}
+
+function hueDistance(a: number, b: number): number {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+}
+
+// Smallest arc of the color wheel that contains every hue
+function hueSpan(hues: number[]): number {
+  const sorted = [...hues].sort((a, b) => a - b);
+  const largestGap = Math.max(...sorted.map((hue, index) =>
+    index === 0 ? sorted[0] + 360 - sorted[sorted.length - 1] : hue - sorted[index - 1]
+  ));
+  return 360 - largestGap;
+}
+
+// Mean hue of each run of hues less than 30 degrees apart
+function groupHues(hues: number[]): number[] {
+  const sorted = [...hues].sort((a, b) => a - b);
+  const groups: number[][] = [];
+  for (const hue of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && hue - last[last.length - 1] < 30) {
+      last.push(hue);
+    } else {
+      groups.push([hue]);
+    }
+  }
+  // The wheel wraps: a group near 360 continues the one near 0
+  if (groups.length > 1 && groups[0][0] + 360 - groups[groups.length - 1].slice(-1)[0] < 30) {
+    groups[0].push(...groups.pop()!.map(hue => hue - 360));
+  }
+  return groups.map(group => (group.reduce((sum, hue) => sum + hue, 0) / group.length + 360) % 360);
+}
@@ -0,0 +1,91 @@
+// Who the reviewer is, as described to the model
+const PERSONA_DESCRIPTIONS = {
+  gentle_coach: 'a warm personal style coach who builds the wearer\'s confidence and frames every change as a next step',
+  editorial_critic: 'a fashion magazine critic who places the look in current trends and design history and writes with editorial flair',
+  practical_friend: 'a stylish friend who keeps it casual and practical, favoring easy fixes with clothes the wearer probably already owns',
+  image_consultant: 'a professional image consultant who focuses on the impression the outfit makes at work and in social settings',
+};
+
+export type Persona = keyof typeof PERSONA_DESCRIPTIONS;
+
+export const PERSONAS = Object.keys(PERSONA_DESCRIPTIONS) as Persona[];
+
+// How hard flaws are put, softest first
+const TONE_DESCRIPTIONS = {
+  gentle: 'Lead with what works, word every flaw softly as an opportunity, and never use harsh or belittling language.',
+  balanced: 'Give strengths and flaws equal weight, and state flaws plainly but kindly.',
+  direct: 'Name flaws directly without cushioning them, but keep every criticism constructive.',
+  brutal: 'Be brutally honest and do not soften any flaw, but stay constructive and never insult the wearer.',
+};
+
+export type Tone = keyof typeof TONE_DESCRIPTIONS;
+
+export const TONES = Object.keys(TONE_DESCRIPTIONS) as Tone[];
+
+// Persona and tone of a review; either part may be left to the published prompt
+export interface ReviewerVoice {
+  persona: Persona | null;
+  tone: Tone | null;
+}
+
+export function isPersona(value: unknown): value is Persona {
+  return typeof value === 'string' && PERSONAS.includes(value as Persona);
+}
+
+export function isTone(value: unknown): value is Tone {
+  return typeof value === 'string' && TONES.includes(value as Tone);
+}
+
+/**
+ * Voice for a review: each part from the request wins over the user's saved setting.
+ * Null when neither sets anything, so the published prompt's own voice applies.
+ */
+export function resolveReviewerVoice(
+  requested: { persona?: unknown; tone?: unknown },
+  saved: { persona?: string | null; tone?: string | null } | null | undefined
+): ReviewerVoice | null {
+  const voice: ReviewerVoice = {
+    persona: isPersona(requested.persona) ? requested.persona : isPersona(saved?.persona) ? saved.persona : null,
+    tone: isTone(requested.tone) ? requested.tone : isTone(saved?.tone) ? saved.tone : null,
+  };
+  return voice.persona || voice.tone ? voice : null;
+}
+
+/**
+ * Voice from stored review values; unknown values are ignored
+ */
+export function toReviewerVoice(persona: unknown, tone: unknown): ReviewerVoice | null {
+  return resolveReviewerVoice({ persona, tone }, null);
+}
+
+/**
+ * Instructions that change how an analysis is worded but not how it is scored.
+ * Null without a voice so the published prompts stay exactly as they are.
+ */
+export function describeVoice(voice: ReviewerVoice | null | undefined): string | null {
+  if (!voice) {
+    return null;
+  }
+
+  const instructions = [
+    voice.persona && `Write as ${PERSONA_DESCRIPTIONS[voice.persona]}, instead of the consultant described at the start.`,
+    voice.tone && `${TONE_DESCRIPTIONS[voice.tone]} This replaces any tone described at the start.`,
+  ].filter(Boolean).join(' ');
+
+  return `## VOICE\n\n${instructions}\n\n`
+    + 'The voice changes only how the text is worded, never the scores: apply the rules and scoring guidelines above exactly as written, '
+    + 'so the same outfit gets the same scores in any voice.';
+}
+
+/**
+ * Instruction for follow-up answers to keep the voice the review was written in
+ */
+export function describeReplyVoice(voice: ReviewerVoice | null | undefined): string | null {
+  if (!voice) {
+    return null;
+  }
+  return [
+    voice.persona && `- Answer as ${PERSONA_DESCRIPTIONS[voice.persona]}`,
+    voice.tone && `- ${TONE_DESCRIPTIONS[voice.tone]}`,
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,213 @@
+import path from 'path';
+import sharp from 'sharp';
+import * as tf from '@tensorflow/tfjs';
+import type * as FaceApi from '@vladmandic/face-api';
+import { config } from '../config/config';
+
+// The wasm build runs TensorFlow without native binaries; it shares the @tensorflow/tfjs instance imported above
+const faceapi: typeof FaceApi = require('@vladmandic/face-api/dist/face-api.node-wasm.js');
+
+// off: image is sent as uploaded | blur: faces are blurred | crop: everything above the lowest face is cut off
+export type PrivacyMode = 'off' | 'blur' | 'crop';
+
+export const PRIVACY_MODES: PrivacyMode[] = ['off', 'blur', 'crop'];
+
+export type RedactionMode = Exclude<PrivacyMode, 'off'>;
+
+interface FaceBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionResult {
+  buffer: Buffer;
+  mimeType: string;
+  // Mode actually applied: crop falls back to blur when it would leave too little of the outfit
+  mode: RedactionMode;
+  faces: number;
+}
+
+// Face detection failed; the upload must not go ahead unredacted
+export class PrivacyRedactionError extends Error {
+  constructor(cause: unknown) {
+    super(`Face redaction failed: ${cause instanceof Error ? cause.message : cause}`);
+    this.name = 'PrivacyRedactionError';
+  }
+}
+
+// Longest side the detector sees; boxes are scaled back to the full image
+const DETECTION_MAX_SIDE = 1024;
+
+// Crop mode keeps at least this share of the image height, otherwise faces are blurred instead
+const CROP_MIN_HEIGHT_RATIO = 0.5;
+
+let detectorReady: Promise<void> | null = null;
+let ageEstimatorReady: Promise<void> | null = null;
+
+const MODEL_DIR = path.join(path.dirname(require.resolve('@vladmandic/face-api/package.json')), 'model');
+
+function loadDetector(): Promise<void> {
+  if (!detectorReady) {
+    detectorReady = (async () => {
+      await tf.setBackend('wasm');
+      await tf.ready();
+      await faceapi.nets.ssdMobilenetv1.loadFromDisk(MODEL_DIR);
+      console.log('🙈 Face detector loaded');
+    })().catch(error => {
+      // Let the next request try again
+      detectorReady = null;
+      throw error;
+    });
+  }
+  return detectorReady;
+}
+
+function loadAgeEstimator(): Promise<void> {
+  if (!ageEstimatorReady) {
+    ageEstimatorReady = (async () => {
+      await loadDetector();
+      await faceapi.nets.ageGenderNet.loadFromDisk(MODEL_DIR);
+      console.log('🎂 Face age estimator loaded');
+    })().catch(error => {
+      ageEstimatorReady = null;
+      throw error;
+    });
+  }
+  return ageEstimatorReady;
+}
+
+export function isPrivacyMode(value: unknown): value is PrivacyMode {
+  return typeof value === 'string' && PRIVACY_MODES.includes(value as PrivacyMode);
+}
+
+/**
+ * Mode for an upload: the per-request flag wins, then the user's saved setting, then PRIVACY_DEFAULT_MODE
+ */
+export function resolvePrivacyMode(requested: unknown, saved: string | null | undefined): PrivacyMode {
+  if (isPrivacyMode(requested)) return requested;
+  if (isPrivacyMode(saved)) return saved;
+  return isPrivacyMode(config.privacy.defaultMode) ? config.privacy.defaultMode : 'off';
+}
+
+/**
+ * Blur or crop out every face before the image leaves the server. The result is
+ * re-encoded as JPEG without metadata, so EXIF location data is dropped as well.
+ */
+export async function redactFaces(image: Buffer, mode: RedactionMode): Promise<RedactionResult> {
+  // Decoded once, upright (EXIF orientation applied), as raw RGB pixels
+  const { data, info } = await sharp(image).rotate().removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const raw = { raw: { width, height, channels: 3 as const } };
+
+  let faces: FaceBox[];
+  try {
+    faces = await detectFaces(data, width, height);
+  } catch (error) {
+    throw new PrivacyRedactionError(error);
+  }
+  // Detection is not pixel-exact: pad each box so hairlines and chins are covered too
+  const padded = faces.map(face => padBox(face, config.privacy.facePadding, width, height));
+
+  if (mode === 'crop' && padded.length > 0) {
+    const cropTop = Math.max(...padded.map(face => face.top + face.height));
+    if (height - cropTop >= height * CROP_MIN_HEIGHT_RATIO) {
+      const buffer = await sharp(data, raw)
+        .extract({ left: 0, top: cropTop, width, height: height - cropTop })
+        .jpeg({ quality: 90 })
+        .toBuffer();
+      return { buffer, mimeType: 'image/jpeg', mode: 'crop', faces: faces.length };
+    }
+  }
+
+  const patches = await Promise.all(padded.map(async face => ({
+    input: await sharp(data, raw)
+      .extract(face)
+      .blur(Math.max(8, Math.max(face.width, face.height) / 6))
+      .png()
+      .toBuffer(),
+    left: face.left,
+    top: face.top,
+  })));
+
+  const buffer = await sharp(data, raw)
+    .composite(patches)
+    .jpeg({ quality: 90 })
+    .toBuffer();
+  return { buffer, mimeType: 'image/jpeg', mode: 'blur', faces: faces.length };
+}
+
+/**
+ * Apparent age in years of every face in an image, for the moderation age check.
+ * Estimates are rough (several years either way), so callers score them with a margin.
+ */
+export async function estimateFaceAges(image: Buffer): Promise<number[]> {
+  await loadAgeEstimator();
+
+  const { data, info } = await sharp(image)
+    .rotate()
+    .removeAlpha()
+    .resize(DETECTION_MAX_SIDE, DETECTION_MAX_SIDE, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+  try {
+    const faces = await faceapi
+      .detectAllFaces(tensor as unknown as FaceApi.TNetInput, detectorOptions())
+      .withAgeAndGender();
+    return faces.map(({ age }) => age);
+  } finally {
+    tensor.dispose();
+  }
+}
+
+function detectorOptions() {
+  return new faceapi.SsdMobilenetv1Options({ minConfidence: config.privacy.minFaceConfidence });
+}
+
+// Faces in raw RGB pixels, in their coordinates
+async function detectFaces(pixels: Buffer, width: number, height: number): Promise<FaceBox[]> {
+  await loadDetector();
+
+  const { data, info } = await sharp(pixels, { raw: { width, height, channels: 3 } })
+    .resize(DETECTION_MAX_SIDE, DETECTION_MAX_SIDE, { fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const scale = width / info.width;
+
+  const tensor = tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+  try {
+    const detections = await faceapi.detectAllFaces(tensor as unknown as FaceApi.TNetInput, detectorOptions());
+
+    return detections.map(({ box }) => clampBox({
+      left: box.x * scale,
+      top: box.y * scale,
+      width: box.width * scale,
+      height: box.height * scale,
+    }, width, height));
+  } finally {
+    tensor.dispose();
+  }
+}
+
+function clampBox(box: FaceBox, width: number, height: number): FaceBox {
+  const left = Math.max(0, Math.floor(box.left));
+  const top = Math.max(0, Math.floor(box.top));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.ceil(box.width))),
+    height: Math.max(1, Math.min(height - top, Math.ceil(box.height))),
+  };
+}
+
+function padBox(box: FaceBox, padding: number, width: number, height: number): FaceBox {
+  return clampBox({
+    left: box.left - box.width * padding,
+    top: box.top - box.height * padding,
+    width: box.width * (1 + 2 * padding),
+    height: box.height * (1 + 2 * padding),
+  }, width, height);
+}
@@ -0,0 +1,81 @@
+import { prisma } from '../lib/prisma';
+import { COMPARISON_DIMENSIONS } from './comparisonService';
+import { OUTFIT_ANALYSIS_VARIANTS } from './prompts';
+
+// Only real model output is compared; fallback, no-outfit and failed reviews have no comparable scores
+const SCORED_STATUSES = ['ok'];
+
+/**
+ * Per prompt version between from and to: review outcomes, average scores and
+ * how often users accepted or rated the feedback
+ */
+export async function getPromptVariantReport(from: Date, to: Date) {
+  const period = { createdAt: { gte: from, lt: to }, promptVersion: { not: null } };
+  const scored = { ...period, analysisStatus: { in: SCORED_STATUSES } };
+
+  const [statusCounts, scores, acceptedCounts] = await Promise.all([
+    prisma.review.groupBy({
+      by: ['promptVersion', 'analysisStatus'],
+      where: period,
+      _count: { _all: true },
+    }),
+    prisma.review.groupBy({
+      by: ['promptVersion'],
+      where: scored,
+      _count: { _all: true, accepted: true, feedbackRating: true },
+      _avg: {
+        overallScore: true,
+        styleCategoryScore: true,
+        fitScore: true,
+        colorHarmonyScore: true,
+        occasionScore: true,
+        proportionScore: true,
+        fabricScore: true,
+        sophisticationScore: true,
+        feedbackRating: true,
+      },
+    }),
+    prisma.review.groupBy({
+      by: ['promptVersion'],
+      where: { ...scored, accepted: true },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const versions = [...new Set(statusCounts.map(row => row.promptVersion!))].sort();
+  const round = (value: number | null) => value === null ? null : Math.round(value * 100) / 100;
+
+  return {
+    from,
+    to,
+    assignment: OUTFIT_ANALYSIS_VARIANTS,
+    variants: versions.map(promptVersion => {
+      const statuses = Object.fromEntries(
+        statusCounts
+          .filter(row => row.promptVersion === promptVersion)
+          .map(row => [row.analysisStatus, row._count._all])
+      );
+      const score = scores.find(row => row.promptVersion === promptVersion);
+      const accepted = acceptedCounts.find(row => row.promptVersion === promptVersion)?._count._all ?? 0;
+      const acceptResponses = score?._count.accepted ?? 0;
+
+      return {
+        promptVersion,
+        reviews: Object.values(statuses).reduce((sum, count) => sum + count, 0),
+        statuses,
+        scoredReviews: score?._count._all ?? 0,
+        averageScores: Object.fromEntries(
+          COMPARISON_DIMENSIONS.map(({ dimension, field }) => [dimension, round(score?._avg[field] ?? null)])
+        ),
+        accepted: {
+          responses: acceptResponses,
+          rate: acceptResponses > 0 ? round(accepted / acceptResponses) : null,
+        },
+        feedbackRating: {
+          responses: score?._count.feedbackRating ?? 0,
+          average: round(score?._avg.feedbackRating ?? null),
+        },
+      };
+    }),
+  };
+}
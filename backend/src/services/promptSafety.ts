@@ -0,0 +1,124 @@
+import type { OutfitAnalysis } from './aiService';
+
+// Longest description accepted from clients (characters)
+export const DESCRIPTION_MAX_LENGTH = 500;
+
+// instruction_like_description: the description reads like instructions to the model |
+// description_echo: output repeats the description verbatim | uniform_max_scores: every score at the top of the scale
+export type AnalysisFlag = 'instruction_like_description' | 'description_echo' | 'uniform_max_scores';
+
+export const ANALYSIS_FLAGS: AnalysisFlag[] = ['instruction_like_description', 'description_echo', 'uniform_max_scores'];
+
+// Phrasings that address the model rather than describe the outfit or occasion
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|prompts?|rules?|above|previous|everything)\b/i,
+  /\b(system|developer)\s*(prompt|message|instructions?)\b/i,
+  /\byou\s+(are|must|will|should)\s+(now|only|always)\b/i,
+  /\b(act|pretend|behave)\s+as\b/i,
+  /\bnew\s+(instructions?|rules?|task)\b/i,
+  /\b(give|rate|score|set|mark)\b.{0,30}\b(100|10\s*\/\s*10|perfect|maximum|max|highest|full marks)\b/i,
+  /\b(respond|reply|answer|output|return)\b.{0,30}\b(only|json)\b/i,
+  /[{}]|"\w+Score"\s*:/,
+  /<\/?\s*(system|assistant|user|user_description)\s*>/i,
+];
+
+// Scores every component has to reach for the result to look dictated rather than judged
+const UNIFORM_MAX_SCORE = 95;
+
+// Shortest run of consecutive description words that counts as an echo
+const ECHO_MIN_WORDS = 6;
+
+const COMPONENT_SCORE_FIELDS = [
+  'styleCategoryScore',
+  'fitScore',
+  'colorHarmonyScore',
+  'occasionScore',
+  'proportionScore',
+  'fabricScore',
+  'sophisticationScore',
+] as const;
+
+/**
+ * Drop control and zero-width characters and the delimiter tags that fence untrusted
+ * text in a prompt. Shared by every kind of user text that reaches the model.
+ */
+export function stripPromptMarkup(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '')
+    .replace(/<\/?\s*user_description\s*>/gi, '');
+}
+
+/**
+ * Normalize a description before it reaches a prompt: strip hidden characters and
+ * delimiter tags, collapse whitespace and enforce the length limit
+ */
+export function sanitizeDescription(description: string | null | undefined): string {
+  return stripPromptMarkup(description || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, DESCRIPTION_MAX_LENGTH);
+}
+
+/**
+ * Whether the description contains phrasing aimed at the model instead of describing the wearer's intent
+ */
+export function isInstructionLike(description: string | null | undefined): boolean {
+  const text = sanitizeDescription(description);
+  return text.length > 0 && INSTRUCTION_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Flags for an analysis that may have been steered by its description. Flagged
+ * reviews are kept and returned as usual; the flags are for moderation and metrics.
+ */
+export function flagSuspiciousAnalysis(analysis: OutfitAnalysis, description: string | null | undefined): AnalysisFlag[] {
+  const flags: AnalysisFlag[] = [];
+
+  if (isInstructionLike(description)) {
+    flags.push('instruction_like_description');
+  }
+  if (echoesDescription(analysis, description)) {
+    flags.push('description_echo');
+  }
+  if (analysis.styleCategory.toLowerCase() !== 'no outfit'
+    && COMPONENT_SCORE_FIELDS.every(field => analysis[field] >= UNIFORM_MAX_SCORE)) {
+    flags.push('uniform_max_scores');
+  }
+
+  return flags;
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim().split(' ').filter(Boolean);
+}
+
+// Any ECHO_MIN_WORDS-word run of the description appearing in the analysis text
+function echoesDescription(analysis: OutfitAnalysis, description: string | null | undefined): boolean {
+  const words = toWords(sanitizeDescription(description));
+  if (words.length < ECHO_MIN_WORDS) {
+    return false;
+  }
+
+  const output = ` ${toWords([
+    analysis.styleCategory,
+    analysis.fit,
+    analysis.colorHarmony,
+    analysis.occasionSuitability,
+    analysis.proportionBalance,
+    analysis.fabricSynergy,
+    analysis.stylingSophistication,
+    ...analysis.highlights,
+    ...analysis.improvementSuggestions,
+    ...analysis.expertInsights,
+    ...analysis.technicalFlaws,
+    // Cached analyses from before the garment breakdown have no garments
+    ...(analysis.garments ?? []).map(garment => garment.fitNotes ?? ''),
+  ].join(' ')).join(' ')} `;
+
+  for (let start = 0; start + ECHO_MIN_WORDS <= words.length; start++) {
+    if (output.includes(` ${words.slice(start, start + ECHO_MIN_WORDS).join(' ')} `)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { config } from '../../config/config';
+import { PromptTemplate, PromptVariant } from './types';
+import { outfitAnalysisV1 } from './outfitAnalysis.v1';
+import { outfitAnalysisV2 } from './outfitAnalysis.v2';
+
+export * from './types';
+
+// Every published version. Never remove one that stored reviews may reference.
+const PROMPT_TEMPLATES: PromptTemplate[] = [outfitAnalysisV1, outfitAnalysisV2];
+
+export const DEFAULT_OUTFIT_ANALYSIS_PROMPT_VERSION = outfitAnalysisV2.version;
+
+export function getPromptTemplate(version: string): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}". Expected one of: ${PROMPT_TEMPLATES.map(t => t.version).join(', ')}`);
+  }
+  return template;
+}
+
+/**
+ * Fill {{variable}} placeholders; every placeholder must have a value
+ */
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt ${template.version} is missing variable "${name}"`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * Parse "outfit-analysis@1=90,outfit-analysis@2=10" into weighted variants.
+ * A version without a weight gets weight 1.
+ */
+export function parsePromptVariants(spec: string): PromptVariant[] {
+  const variants = spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [version, weight = '1'] = entry.split('=').map(part => part.trim());
+      getPromptTemplate(version);
+      const parsedWeight = Number(weight);
+      if (!Number.isInteger(parsedWeight) || parsedWeight < 0) {
+        throw new Error(`Invalid weight "${weight}" for prompt variant ${version}`);
+      }
+      return { version, weight: parsedWeight };
+    });
+
+  if (variants.reduce((sum, variant) => sum + variant.weight, 0) === 0) {
+    throw new Error(`Prompt experiment "${spec}" has no variant with a positive weight`);
+  }
+  return variants;
+}
+
+// Validated at startup so a typo in PROMPT_VARIANTS_OUTFIT_ANALYSIS fails fast
+export const OUTFIT_ANALYSIS_VARIANTS = parsePromptVariants(
+  config.prompts.outfitAnalysisVariants || DEFAULT_OUTFIT_ANALYSIS_PROMPT_VERSION
+);
+
+/**
+ * Deterministically bucket an owner into a variant: the same owner always gets
+ * the same version until the variants or the experiment salt change.
+ * Requests without an owner get the first (control) variant.
+ */
+export function assignPromptVersion(
+  ownerKey: string | null | undefined,
+  variants: PromptVariant[] = OUTFIT_ANALYSIS_VARIANTS
+): string {
+  if (!ownerKey) {
+    return variants[0].version;
+  }
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let bucket = crypto
+    .createHash('sha256')
+    .update(`${config.prompts.experimentSalt}:${ownerKey}`)
+    .digest()
+    .readUInt32BE(0) % totalWeight;
+
+  for (const variant of variants) {
+    if (bucket < variant.weight) {
+      return variant.version;
+    }
+    bucket -= variant.weight;
+  }
+  return variants[0].version;
+}
@@ -0,0 +1,16 @@
+// Shared types for versioned prompt templates
+
+export interface PromptTemplate {
+  // Prompt family, e.g. outfit-analysis
+  name: string;
+  // Recorded on each review as promptVersion, e.g. outfit-analysis@1
+  version: string;
+  // Text with {{variable}} placeholders
+  template: string;
+}
+
+export interface PromptVariant {
+  version: string;
+  // Relative share of owners assigned to this version
+  weight: number;
+}
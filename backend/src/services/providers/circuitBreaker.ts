@@ -0,0 +1,102 @@
+import { config } from '../../config/config';
+
+// closed: requests flow | open: provider is skipped until the cooldown ends |
+// half_open: cooldown over, one trial request decides whether to close or reopen
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError: string | null;
+  trialInFlight: boolean;
+}
+
+// Per process: each backend instance learns about provider outages on its own
+const circuits = new Map<string, Circuit>();
+
+function getCircuit(key: string): Circuit {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, openedAt: null, lastError: null, trialInFlight: false };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether a request may be sent to the provider now. Once the cooldown of an
+ * open circuit has passed, exactly one trial request is let through.
+ */
+export function acquireCircuit(key: string): boolean {
+  const circuit = getCircuit(key);
+
+  if (circuit.state === 'closed') {
+    return true;
+  }
+
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt! >= config.ai.fallback.breakerCooldownMs) {
+    circuit.state = 'half_open';
+  }
+
+  if (circuit.state === 'half_open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  return false;
+}
+
+export function recordCircuitSuccess(key: string) {
+  const circuit = getCircuit(key);
+  if (circuit.state !== 'closed') {
+    console.log(`✅ AI provider ${key} recovered, closing its circuit`);
+  }
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+export function recordCircuitFailure(key: string, message: string) {
+  const circuit = getCircuit(key);
+  circuit.consecutiveFailures += 1;
+  // Shown on the public health endpoint, so provider response bodies are cut short
+  circuit.lastError = message.slice(0, 200);
+  circuit.trialInFlight = false;
+
+  const shouldOpen = circuit.state === 'half_open'
+    || (circuit.state === 'closed' && circuit.consecutiveFailures >= config.ai.fallback.breakerFailureThreshold);
+  if (shouldOpen) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+    console.warn(`🔌 Circuit opened for AI provider ${key} after ${circuit.consecutiveFailures} failures, skipping it for ${config.ai.fallback.breakerCooldownMs}ms`);
+  }
+}
+
+/**
+ * Breaker state of a provider, for the health endpoint
+ */
+export function getCircuitStatus(key: string): CircuitBreakerStatus {
+  const circuit = getCircuit(key);
+  const cooledDown = circuit.state === 'open' && Date.now() - circuit.openedAt! >= config.ai.fallback.breakerCooldownMs;
+
+  return {
+    key,
+    // An open circuit past its cooldown will let the next request through
+    state: cooledDown ? 'half_open' : circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+    retryAt: circuit.openedAt ? new Date(circuit.openedAt + config.ai.fallback.breakerCooldownMs).toISOString() : null,
+    lastError: circuit.lastError,
+  };
+}
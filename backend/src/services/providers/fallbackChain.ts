@@ -0,0 +1,124 @@
+import { config } from '../../config/config';
+import { acquireCircuit, recordCircuitFailure, recordCircuitSuccess } from './circuitBreaker';
+import { AIProvider, AIProviderError, CompletionRequest, CompletionResult } from './types';
+
+export interface ChainLink {
+  provider: AIProvider;
+  // Answers from this link are marked as fallback output
+  fallback: boolean;
+}
+
+/**
+ * Circuit breaker key of a provider
+ */
+export function getProviderKey(provider: Pick<AIProvider, 'name' | 'model'>): string {
+  return `${provider.name}/${provider.model}`;
+}
+
+// Worth retrying and counted against the breaker: rate limits, server errors, timeouts and network failures
+function isTransientError(error: unknown): boolean {
+  if (error instanceof AIProviderError) {
+    return error.statusCode === undefined || error.statusCode === 429 || error.statusCode >= 500;
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+// Bad credentials make every request fail, so they count against the breaker but are not retried
+function isProviderFault(error: unknown): boolean {
+  return isTransientError(error)
+    || (error instanceof AIProviderError && (error.statusCode === 401 || error.statusCode === 403));
+}
+
+// Full jitter: anywhere between 0 and the exponential delay, so clients do not retry in lockstep
+function getRetryDelayMs(attempt: number): number {
+  const { retryBaseDelayMs, retryMaxDelayMs } = config.ai.fallback;
+  return Math.round(Math.random() * Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Provider that tries each link in order. Each link retries transient errors
+ * with jittered backoff; links whose circuit is open are skipped. A streamed
+ * request that already delivered content is not retried or moved to another
+ * link, since the caller has seen part of the answer.
+ */
+export function createFallbackChainProvider(links: ChainLink[]): AIProvider {
+  if (links.length === 0) {
+    throw new Error('A fallback chain needs at least one provider');
+  }
+
+  const run = async (
+    request: CompletionRequest,
+    onDelta?: (text: string) => void
+  ): Promise<CompletionResult> => {
+    const failures: string[] = [];
+    let lastError: unknown;
+    let delivered = false;
+    const forward = onDelta && ((text: string) => {
+      delivered = true;
+      onDelta(text);
+    });
+
+    for (const { provider, fallback } of links) {
+      const key = getProviderKey(provider);
+
+      for (let attempt = 0; attempt <= config.ai.fallback.maxRetries; attempt++) {
+        if (!acquireCircuit(key)) {
+          failures.push(`${key}: circuit open`);
+          break;
+        }
+
+        try {
+          const result = forward && provider.stream
+            ? await provider.stream(request, forward)
+            : await provider.complete(request);
+          recordCircuitSuccess(key);
+          if (fallback) {
+            console.warn(`⚠️ Answered by fallback AI provider ${key}`);
+          }
+          return { ...result, provider: provider.name, fallback };
+        } catch (error) {
+          lastError = error;
+          if (isProviderFault(error)) {
+            recordCircuitFailure(key, errorMessage(error));
+          } else {
+            // The provider answered; the request itself was rejected
+            recordCircuitSuccess(key);
+          }
+
+          if (delivered) {
+            throw error;
+          }
+
+          const retry = isTransientError(error) && attempt < config.ai.fallback.maxRetries;
+          console.warn(`⚠️ AI provider ${key} failed${retry ? `, retrying (${attempt + 1}/${config.ai.fallback.maxRetries})` : ''}:`, errorMessage(error));
+          if (!retry) {
+            failures.push(`${key}: ${errorMessage(error)}`);
+            break;
+          }
+          await new Promise(resolve => setTimeout(resolve, getRetryDelayMs(attempt)));
+        }
+      }
+    }
+
+    if (links.length === 1 && lastError) {
+      throw lastError;
+    }
+    throw new AIProviderError(
+      `All AI providers failed: ${failures.join('; ')}`,
+      links[0].provider.name,
+      lastError instanceof AIProviderError ? lastError.statusCode : 503
+    );
+  };
+
+  return {
+    name: links[0].provider.name,
+    model: links[0].provider.model,
+    complete: request => run(request),
+    stream: (request, onDelta) => run(request, onDelta),
+  };
+}
@@ -0,0 +1,160 @@
+import { config } from '../../config/config';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createFallbackChainProvider, getProviderKey, ChainLink } from './fallbackChain';
+import { getCircuitStatus, CircuitBreakerStatus } from './circuitBreaker';
+import { AIProvider } from './types';
+
+export * from './types';
+export { createMockProvider, isMockScenario, MOCK_SCENARIOS, MockScenario } from './mockProvider';
+export { createFallbackChainProvider } from './fallbackChain';
+
+export type AIProviderName = 'openrouter' | 'openai' | 'local' | 'mock';
+
+export const AI_PROVIDER_NAMES: AIProviderName[] = ['openrouter', 'openai', 'local', 'mock'];
+
+export interface ProviderTarget {
+  provider: AIProviderName;
+  // Defaults to the provider's configured model
+  model?: string;
+}
+
+export interface AIProviderHealth {
+  // ok: primary available | degraded: fallbacks or the mock provider answer | unavailable: every circuit is open
+  status: 'ok' | 'degraded' | 'unavailable';
+  chain: (ProviderTarget & { configured: boolean; breaker: CircuitBreakerStatus | null })[];
+}
+
+/**
+ * Parse "provider" or "provider:model" (the model may itself contain slashes and colons)
+ */
+export function parseProviderTarget(target: string): ProviderTarget {
+  const separator = target.indexOf(':');
+  const provider = separator === -1 ? target : target.slice(0, separator);
+  const model = separator === -1 ? undefined : target.slice(separator + 1);
+
+  if (!AI_PROVIDER_NAMES.includes(provider as AIProviderName)) {
+    throw new Error(`Unknown AI provider "${provider}". Expected one of: ${AI_PROVIDER_NAMES.join(', ')}`);
+  }
+  return { provider: provider as AIProviderName, model: model || undefined };
+}
+
+/**
+ * Parse a comma-separated provider list such as AI_PROVIDER_CHAIN
+ */
+export function parseProviderChain(spec: string): ProviderTarget[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(parseProviderTarget);
+}
+
+// Validated at startup so a typo in AI_PROVIDER_CHAIN or AI_PROVIDER fails fast
+const PROVIDER_CHAIN = parseProviderChain(config.ai.fallback.chain || config.ai.provider);
+
+/**
+ * First entry of the chain: answers from any other provider are fallback output
+ */
+export function getPrimaryProviderTarget(): ProviderTarget {
+  return PROVIDER_CHAIN[0];
+}
+
+/**
+ * Build a provider by name from config.ai, or null when it is missing credentials.
+ * model overrides the provider's configured model.
+ */
+export function createProvider(name: AIProviderName, model?: string): AIProvider | null {
+  switch (name) {
+    case 'openrouter':
+      if (!config.ai.openrouterApiKey) return null;
+      return createOpenAICompatibleProvider({
+        name,
+        url: config.ai.openrouterUrl,
+        model: model || config.ai.model,
+        apiKey: config.ai.openrouterApiKey,
+        timeoutMs: config.ai.openrouterTimeoutMs,
+        headers: {
+          'HTTP-Referer': config.frontend.url,
+          'X-Title': 'Fashion Agent - Outfit Analysis',
+        },
+      });
+
+    case 'openai':
+      if (!config.ai.openaiApiKey) return null;
+      return createOpenAICompatibleProvider({
+        name,
+        url: config.ai.openaiUrl,
+        model: model || config.ai.openaiModel,
+        apiKey: config.ai.openaiApiKey,
+        timeoutMs: config.ai.openaiTimeoutMs,
+      });
+
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        url: config.ai.localUrl,
+        model: model || config.ai.localModel,
+        apiKey: config.ai.localApiKey,
+        supportsJsonMode: config.ai.localJsonMode,
+        timeoutMs: config.ai.localTimeoutMs,
+      });
+
+    case 'mock':
+      return createMockProvider();
+  }
+}
+
+/**
+ * The configured fallback chain (AI_PROVIDER_CHAIN, or AI_PROVIDER alone) wrapped with
+ * retries and circuit breakers. Links missing credentials are skipped; when none is
+ * configured the mock provider answers, marked as fallback output.
+ */
+export function getAIProvider(chain: ProviderTarget[] = PROVIDER_CHAIN): AIProvider {
+  const links: ChainLink[] = [];
+
+  chain.forEach((target, index) => {
+    const provider = createProvider(target.provider, target.model);
+    if (provider) {
+      links.push({ provider, fallback: index > 0 });
+    } else {
+      console.warn(`⚠️ AI provider "${target.provider}" is not configured, skipping it`);
+    }
+  });
+
+  if (links.length === 0) {
+    console.warn('⚠️ No configured AI provider, using mock analysis');
+    links.push({ provider: createMockProvider(), fallback: chain[0]?.provider !== 'mock' });
+  }
+
+  return createFallbackChainProvider(links);
+}
+
+/**
+ * Circuit breaker state of every provider in the chain, for the health endpoint
+ */
+export function getAIProviderHealth(chain: ProviderTarget[] = PROVIDER_CHAIN): AIProviderHealth {
+  const links = chain.map(target => {
+    const provider = createProvider(target.provider, target.model);
+    return {
+      provider: target.provider,
+      model: provider?.model ?? target.model,
+      configured: provider !== null,
+      breaker: provider ? getCircuitStatus(getProviderKey(provider)) : null,
+    };
+  });
+
+  const configured = links.filter(link => link.configured);
+  const usable = configured.filter(link => link.breaker!.state !== 'open');
+  const [primary] = links;
+
+  let status: AIProviderHealth['status'] = 'ok';
+  if (configured.length > 0 && usable.length === 0) {
+    status = 'unavailable';
+  } else if (!primary.configured || primary.breaker!.state === 'open') {
+    // Fallbacks (or, with nothing configured, the mock provider) are answering
+    status = 'degraded';
+  }
+
+  return { status, chain: links };
+}
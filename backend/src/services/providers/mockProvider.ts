@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import { config } from '../../config/config';
+import { createSeededRandom } from '../../lib/seededRandom';
+import { AIProvider, AIProviderError, CompletionRequest, CompletionResult, CompletionUsage } from './types';
+
+export type MockScenario = 'ok' | 'timeout' | 'malformed_json' | 'no_outfit' | 'rate_limited';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['ok', 'timeout', 'malformed_json', 'no_outfit', 'rate_limited'];
+
+export interface MockProviderOptions {
+  scenario?: MockScenario;
+  latencyMs?: number;
+  // Mark answers as fallback output, for a mock standing in for an unconfigured provider
+  fallback?: boolean;
+}
+
+const STYLES = ['casual', 'formal', 'traditional', 'sporty', 'bohemian', 'minimalist', 'streetwear'];
+const FITS = ['perfect', 'loose', 'tight', 'good', 'needs adjustment'];
+const HARMONIES = ['excellent', 'good', 'neutral', 'clashing', 'monochromatic'];
+const OCCASIONS = ['office', 'party', 'date', 'casual outing', 'formal event', 'workout', 'shopping'];
+const PROPORTIONS = ['balanced', 'top-heavy', 'elongated', 'boxy', 'well-defined waist'];
+const FABRICS = ['compatible', 'textured contrast', 'uniform weight', 'mismatched seasons'];
+const SOPHISTICATION = ['basic', 'moderate', 'considered', 'editorial'];
+
+const HIGHLIGHTS = [
+  'Great color coordination',
+  'Well-fitted garments',
+  'Appropriate for the occasion',
+  'Nice attention to detail',
+  'Good balance of textures',
+  'Flattering silhouette',
+  'Confident styling choice'
+];
+
+const SUGGESTIONS = [
+  'Consider adding a statement accessory',
+  'Try a different shoe style for more impact',
+  'Layer with a jacket or cardigan',
+  'Experiment with different color combinations',
+  'Pay attention to fit around the shoulders',
+  'Add a belt to define your waist',
+  'Consider the occasion when choosing patterns'
+];
+
+const INSIGHTS = [
+  'Good understanding of basic styling principles',
+  'Shows potential for style development',
+  'Value contrast between top and bottom creates a clear focal point',
+  'Repeating one accent color ties the look together',
+  'Matte and sheen fabrics are balanced well'
+];
+
+const FLAWS = [
+  'Minor adjustments needed for optimal fit',
+  'Could benefit from more adventurous styling choices',
+  'Trouser break sits slightly too long',
+  'Shoulder seam extends past the natural shoulder line',
+  'Accessories compete for attention'
+];
+
+const IMPROVEMENTS = [
+  'Cleaner fit through the shoulders',
+  'More cohesive color palette',
+  'Better proportion between top and bottom',
+  'Accessories now support rather than compete with the outfit',
+  'Fabric choices suit the season better'
+];
+
+const REGRESSIONS = [
+  'Less contrast than the previous look',
+  'Trouser length is less precise',
+  'Styling feels safer and less personal',
+  'Footwear is a weaker match for the outfit'
+];
+
+// Follow-up answers; the last user message is echoed into the first sentence
+const CHAT_REPLIES = [
+  'A sleek leather loafer or a minimal white sneaker would keep the line clean without competing with the top half.',
+  'Look for the same silhouette in a cotton-blend version: high-street basics lines usually carry a close match at a fraction of the price.',
+  'Swap the belt for one that matches your shoes and the whole look will read as more intentional.',
+  'Roll the sleeves twice and tuck the front of the shirt to define the waist - it fixes the proportion issue for free.',
+  'Keep the palette but add one textured piece, such as a knit or suede layer, to give the outfit more depth.'
+];
+
+// One piece per body region, each with where it usually sits in a full-length photo
+const GARMENT_SLOTS = [
+  { types: ['shirt', 'knit sweater', 't-shirt', 'blouse'], box: { x: 0.28, y: 0.18, width: 0.44, height: 0.3 } },
+  { types: ['tailored trousers', 'jeans', 'pleated skirt', 'chinos'], box: { x: 0.3, y: 0.46, width: 0.4, height: 0.38 } },
+  { types: ['loafers', 'sneakers', 'ankle boots', 'heels'], box: { x: 0.32, y: 0.86, width: 0.36, height: 0.1 } },
+  { types: ['blazer', 'trench coat', 'denim jacket', 'cardigan'], box: { x: 0.22, y: 0.15, width: 0.56, height: 0.42 } },
+];
+
+const GARMENT_COLORS = ['#1f2a44', '#f5f0e6', '#2e2e2e', '#8b5a2b', '#c8b89a', '#5b7553', '#a23b3b', '#ffffff'];
+const PATTERNS = ['solid', 'pinstripe', 'check', 'herringbone', 'ribbed'];
+const GARMENT_FABRICS = ['cotton', 'wool', 'denim', 'linen', 'leather', 'cashmere blend'];
+const FIT_NOTES = [
+  'Sits cleanly at the shoulders',
+  'Slightly long for the wearer',
+  'Relaxed cut that still follows the body',
+  'Pulls a little across the front',
+  'Length is well judged',
+];
+
+const NO_OUTFIT_ANALYSIS = {
+  styleCategory: 'no outfit',
+  styleCategoryScore: 0,
+  fit: 'no clothing present',
+  fitScore: 0,
+  colorHarmony: 'not applicable',
+  colorHarmonyScore: 0,
+  occasionSuitability: 'not applicable',
+  occasionScore: 0,
+  proportionBalance: 'not applicable',
+  proportionScore: 0,
+  fabricSynergy: 'not applicable',
+  fabricScore: 0,
+  stylingSophistication: 'not applicable',
+  sophisticationScore: 0,
+  overallScore: 0,
+  highlights: [],
+  improvementSuggestions: ['Please upload an image with clothing to analyze'],
+  expertInsights: ['No clothing visible for fashion analysis'],
+  technicalFlaws: ['No outfit present'],
+  garments: [],
+};
+
+// The same seed always yields the same analysis
+function createRandom(seed: string): () => number {
+  return createSeededRandom(crypto.createHash('sha256').update(seed).digest().readUInt32LE(0));
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function pickSome(random: () => number, items: string[], min: number, max: number): string[] {
+  const count = min + Math.floor(random() * (max - min + 1));
+  const pool = [...items];
+  const picked: string[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// Without an explicit seed, derive one from the prompt text and image references
+function seedFromMessages(request: CompletionRequest): string {
+  return request.messages
+    .map(message => typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text' ? part.text : part.image_url.url).join('\n'))
+    .join('\n');
+}
+
+function getMockAnalysis(seed: string) {
+  const random = createRandom(seed);
+  const score = () => 55 + Math.floor(random() * 38); // 55-92
+
+  const styleCategoryScore = score();
+  const fitScore = score();
+  const colorHarmonyScore = score();
+  const occasionScore = score();
+  const proportionScore = score();
+  const fabricScore = score();
+  const sophisticationScore = score();
+  const overallScore = Math.round((styleCategoryScore + fitScore + colorHarmonyScore + occasionScore + proportionScore + fabricScore + sophisticationScore) / 7);
+
+  return {
+    styleCategory: pick(random, STYLES),
+    styleCategoryScore,
+    fit: pick(random, FITS),
+    fitScore,
+    colorHarmony: pick(random, HARMONIES),
+    colorHarmonyScore,
+    occasionSuitability: pick(random, OCCASIONS),
+    occasionScore,
+    proportionBalance: pick(random, PROPORTIONS),
+    proportionScore,
+    fabricSynergy: pick(random, FABRICS),
+    fabricScore,
+    stylingSophistication: pick(random, SOPHISTICATION),
+    sophisticationScore,
+    overallScore,
+    highlights: pickSome(random, HIGHLIGHTS, 1, 3),
+    improvementSuggestions: pickSome(random, SUGGESTIONS, 1, 3),
+    expertInsights: pickSome(random, INSIGHTS, 2, 3),
+    technicalFlaws: pickSome(random, FLAWS, 2, 3),
+    garments: getMockGarments(random, score),
+  };
+}
+
+// Top, bottom and shoes, sometimes a layer, with boxes jittered around their usual position
+function getMockGarments(random: () => number, score: () => number) {
+  const slots = random() < 0.5 ? GARMENT_SLOTS : GARMENT_SLOTS.slice(0, 3);
+  const jitter = (value: number) => Math.round(Math.min(1, Math.max(0, value + (random() - 0.5) * 0.04)) * 1000) / 1000;
+
+  return slots.map(slot => ({
+    type: pick(random, slot.types),
+    colors: pickSome(random, GARMENT_COLORS, 1, 2),
+    pattern: pick(random, PATTERNS),
+    fabric: pick(random, GARMENT_FABRICS),
+    fitNotes: pick(random, FIT_NOTES),
+    score: score(),
+    boundingBox: {
+      x: jitter(slot.box.x),
+      y: jitter(slot.box.y),
+      width: slot.box.width,
+      height: slot.box.height,
+    },
+  }));
+}
+
+function getMockChatReply(seed: string, question: string) {
+  const random = createRandom(seed);
+  return `On "${question.slice(0, 80)}": ${pick(random, CHAT_REPLIES)}`;
+}
+
+function getMockComparison(seed: string) {
+  const random = createRandom(seed);
+  const improved = pickSome(random, IMPROVEMENTS, 1, 2);
+  const regressed = pickSome(random, REGRESSIONS, 0, 1);
+
+  return {
+    improved,
+    regressed,
+    narrative: `Compared with your earlier outfits, the biggest change is: ${improved[0].toLowerCase()}. ${regressed.length > 0 ? `Watch out for one step back: ${regressed[0].toLowerCase()}.` : 'Nothing has slipped since last time.'}`,
+  };
+}
+
+// Rough token counts (4 characters per token, flat cost per image) so usage accounting works offline
+function estimateUsage(request: CompletionRequest, content: string): CompletionUsage {
+  let promptTokens = 0;
+  for (const message of request.messages) {
+    const parts = typeof message.content === 'string' ? [{ type: 'text' as const, text: message.content }] : message.content;
+    for (const part of parts) {
+      promptTokens += part.type === 'text' ? Math.ceil(part.text.length / 4) : 765;
+    }
+  }
+  const completionTokens = Math.ceil(content.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function isMockScenario(value: unknown): value is MockScenario {
+  return typeof value === 'string' && MOCK_SCENARIOS.includes(value as MockScenario);
+}
+
+/**
+ * Offline provider that answers outfit-analysis, comparison and follow-up chat prompts without calling a model.
+ * Output is derived from request.seed (image digest + description), so identical
+ * uploads always produce identical analyses.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): AIProvider {
+  const scenario = options.scenario ?? (isMockScenario(config.ai.mock.scenario) ? config.ai.mock.scenario : 'ok');
+  const latencyMs = options.latencyMs ?? config.ai.mock.latencyMs;
+
+  const respond = (request: CompletionRequest): CompletionResult => ({
+    ...answer(request),
+    ...(options.fallback && { fallback: true }),
+  });
+
+  const answer = (request: CompletionRequest): CompletionResult => {
+    switch (scenario) {
+      case 'timeout':
+        throw new AIProviderError('mock API error: request timed out', 'mock', 504);
+
+      case 'rate_limited':
+        throw new AIProviderError('mock API error: 429 - Rate limit exceeded', 'mock', 429);
+
+      case 'malformed_json': {
+        // Chat replies are plain text, not JSON
+        if (request.task === 'review_chat') break;
+        const content = '{"styleCategory": "casual", "styleCategoryScore": 7';
+        return { content, model: 'mock-analysis', usage: estimateUsage(request, content) };
+      }
+
+      case 'no_outfit': {
+        // Comparisons and follow-up chats only run on analyzed outfits, so answer them normally
+        if (request.task === 'comparison' || request.task === 'review_chat') break;
+        const content = JSON.stringify(NO_OUTFIT_ANALYSIS);
+        return { content, model: 'mock-analysis', usage: estimateUsage(request, content) };
+      }
+    }
+
+    const seed = request.seed ?? seedFromMessages(request);
+    if (request.task === 'review_chat') {
+      const question = request.messages[request.messages.length - 1];
+      const content = getMockChatReply(seed, typeof question.content === 'string' ? question.content : '');
+      return { content, model: 'mock-analysis', usage: estimateUsage(request, content) };
+    }
+    const content = JSON.stringify(request.task === 'comparison' ? getMockComparison(seed) : getMockAnalysis(seed));
+    return { content, model: 'mock-analysis', usage: estimateUsage(request, content) };
+  };
+
+  return {
+    name: 'mock',
+    model: 'mock-analysis',
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      // Simulate AI processing delay
+      if (latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+      }
+
+      return respond(request);
+    },
+
+    async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+      let result: CompletionResult;
+      try {
+        result = respond(request);
+      } catch (error) {
+        // Failures arrive after the full delay, as they do from complete()
+        if (latencyMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, latencyMs));
+        }
+        throw error;
+      }
+
+      // Spread the simulated latency across small chunks, like a real token stream
+      const chunks = result.content.match(/[\s\S]{1,24}/g) ?? [];
+      const chunkDelayMs = chunks.length > 0 ? latencyMs / chunks.length : 0;
+      for (const chunk of chunks) {
+        if (chunkDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, chunkDelayMs));
+        }
+        onDelta(chunk);
+      }
+
+      return result;
+    },
+  };
+}
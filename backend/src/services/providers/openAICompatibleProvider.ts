@@ -0,0 +1,178 @@
+import { AIProvider, AIProviderError, CompletionRequest, CompletionResult } from './types';
+
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: {
+    delta?: {
+      content?: string | null;
+    };
+  }[];
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  url: string;
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  // Some local servers (older Ollama/vLLM builds) reject response_format
+  supportsJsonMode?: boolean;
+  // Abort requests (including streamed bodies) that take longer than this
+  timeoutMs?: number;
+}
+
+function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat-completions protocol
+ * (OpenRouter, OpenAI, Ollama, vLLM, LM Studio, ...)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): AIProvider {
+  const { name, url, model, apiKey, headers = {}, supportsJsonMode = true, timeoutMs } = options;
+
+  const send = async (request: CompletionRequest, stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+        ...headers,
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? 1000,
+        temperature: request.temperature ?? 0.3,
+        ...(request.jsonResponse && supportsJsonMode && {
+          response_format: { type: 'json_object' },
+        }),
+        ...(stream && {
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AIProviderError(`${name} API error: ${response.status} - ${errorText}`, name, response.status);
+    }
+
+    return response;
+  };
+
+  // Runs the request under the configured deadline and reports a timeout as a provider error
+  const withTimeout = async <T>(run: (signal?: AbortSignal) => Promise<T>): Promise<T> => {
+    try {
+      return await run(timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined);
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        throw new AIProviderError(`${name} API error: request timed out after ${timeoutMs}ms`, name, 504);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name,
+    model,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      return withTimeout(async signal => {
+        const response = await send(request, false, signal);
+        const data = await response.json() as ChatCompletionResponse;
+
+        if (!data.choices || data.choices.length === 0) {
+          throw new AIProviderError('No response from AI model', name);
+        }
+
+        return {
+          content: data.choices[0].message.content,
+          model: data.model || model,
+          usage: data.usage && {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          },
+        };
+      });
+    },
+
+    async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult> {
+      return withTimeout(async signal => {
+        const response = await send(request, true, signal);
+        if (!response.body) {
+          throw new AIProviderError('No response body from AI model', name);
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let content = '';
+        let responseModel = model;
+        let usage: ChatCompletionResponse['usage'] | null | undefined;
+
+        // Server-sent events: one "data: {chunk}" line per delta, terminated by "data: [DONE]"
+        for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+          buffer += decoder.decode(bytes, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:')) continue;
+
+            const payload = data.slice('data:'.length).trim();
+            if (payload === '[DONE]') continue;
+
+            const chunk = JSON.parse(payload) as ChatCompletionChunk;
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (chunk.model) responseModel = chunk.model;
+            if (chunk.usage) usage = chunk.usage;
+            if (delta) {
+              content += delta;
+              onDelta(delta);
+            }
+          }
+        }
+
+        if (!content) {
+          throw new AIProviderError('No response from AI model', name);
+        }
+
+        return {
+          content,
+          model: responseModel,
+          usage: usage ? {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens,
+          } : undefined,
+        };
+      });
+    },
+  };
+}
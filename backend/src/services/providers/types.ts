@@ -0,0 +1,59 @@
+// Shared types for AI chat-completion providers
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+// Which prompt a request belongs to; offline providers use it to shape their canned output
+export type CompletionTask = 'outfit_analysis' | 'outfit_repersonalize' | 'comparison' | 'review_chat';
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  task?: CompletionTask;
+  maxTokens?: number;
+  temperature?: number;
+  jsonResponse?: boolean;
+  // Stable identifier of the request inputs; offline providers derive output from it
+  seed?: string;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: CompletionUsage;
+  // Provider that answered, when it differs from the one called (fallback chains)
+  provider?: string;
+  // True when a fallback answered instead of the primary provider
+  fallback?: boolean;
+}
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Same as complete(), but reports content deltas as they arrive
+  stream?(request: CompletionRequest, onDelta: (text: string) => void): Promise<CompletionResult>;
+}
+
+export class AIProviderError extends Error {
+  statusCode?: number;
+  provider: string;
+
+  constructor(message: string, provider: string, statusCode?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.statusCode = statusCode;
+  }
+}
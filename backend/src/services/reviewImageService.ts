@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import type { ReviewImage } from '@prisma/client';
+
+// What a photo of the outfit shows; also the multipart field name it is uploaded under
+export type ImageRole = 'front' | 'back' | 'side' | 'shoes' | 'detail';
+
+// Upload order within a review: the first photo sent becomes the main one
+export const IMAGE_ROLES: ImageRole[] = ['front', 'side', 'back', 'shoes', 'detail'];
+
+// Photos of one role allowed per review; detail shots may repeat
+export const MAX_IMAGES_PER_ROLE: Record<ImageRole, number> = {
+  front: 1,
+  side: 2,
+  back: 1,
+  shoes: 1,
+  detail: 3,
+};
+
+// How each photo is introduced to the model
+const ROLE_DESCRIPTIONS: Record<ImageRole, string> = {
+  front: 'front view',
+  back: 'back view',
+  side: 'side view',
+  shoes: 'close-up of the shoes',
+  detail: 'close-up detail',
+};
+
+// One photo of a review as it is sent to the model
+export interface ReviewView {
+  role: ImageRole;
+  url: string;
+}
+
+// Image fields for review lists and responses
+export const REVIEW_IMAGES_SELECT = {
+  orderBy: { position: 'asc' as const },
+  select: {
+    role: true,
+    imageUrl: true,
+  },
+};
+
+export function isImageRole(value: unknown): value is ImageRole {
+  return typeof value === 'string' && IMAGE_ROLES.includes(value as ImageRole);
+}
+
+/**
+ * Photos to send to the model, main photo first. Null for single-photo reviews,
+ * which are analyzed exactly as before multi-angle reviews.
+ */
+export function toReviewViews(images: Pick<ReviewImage, 'role' | 'imageUrl' | 'position'>[]): ReviewView[] | null {
+  if (images.length < 2) {
+    return null;
+  }
+  return [...images]
+    .sort((a, b) => a.position - b.position)
+    .map(image => ({ role: isImageRole(image.role) ? image.role : 'detail', url: image.imageUrl }));
+}
+
+/**
+ * Cache and seed key for a set of photos: the single photo's own digest, or a digest
+ * of every photo's role and digest in upload order
+ */
+export function combineImageDigests(digests: { role: ImageRole; digest: string }[]): string {
+  if (digests.length === 1) {
+    return digests[0].digest;
+  }
+  const joined = digests.map(({ role, digest }) => `${role}:${digest}`).join('\n');
+  return crypto.createHash('sha256').update(joined).digest('hex');
+}
+
+/**
+ * Label placed before each photo in the analysis request
+ */
+export function describeView(view: ReviewView, index: number): string {
+  return `Photo ${index + 1}: ${ROLE_DESCRIPTIONS[view.role]}`;
+}
+
+/**
+ * Instructions for the analysis request when the outfit is shown from several angles
+ */
+export function describeViews(views: ReviewView[]): string {
+  const roles = [...new Set(views.map(view => ROLE_DESCRIPTIONS[view.role]))];
+  return `The ${views.length} photos all show the same outfit on the same person (${roles.join(', ')}). `
+    + 'Give one analysis of the whole outfit: use the side and back views for fit, drape and proportion, '
+    + 'and the close-ups for fabric, construction, shoes and accessories. '
+    + 'Garment bounding boxes refer to photo 1.';
+}
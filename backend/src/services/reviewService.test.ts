@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deleteOwnedReview, ReviewDeletionStore } from './reviewService';
+
+describe('deleteOwnedReview', () => {
+  // A store holding one review of user-1 in the given state (or none), recording deletions
+  function storeWith(review: { analysisStatus: string } | null) {
+    const deleted: string[] = [];
+    const purged: [string | null, string | null][] = [];
+    const store: ReviewDeletionStore = {
+      findReview: async where => review && where.userId === 'user-1'
+        ? { id: 'review-1', userId: 'user-1', guestDeviceId: null, imagePublicId: null, imageDigest: 'digest-1', images: [], ...review }
+        : null,
+      purgeCachedAnalyses: async (ownerKey, imageDigest) => { purged.push([ownerKey, imageDigest]); },
+      deleteReview: async reviewId => { deleted.push(reviewId); },
+    };
+    return { store, deleted, purged };
+  }
+
+  it('keeps a review that is still being analyzed', async () => {
+    const { store, deleted, purged } = storeWith({ analysisStatus: 'processing' });
+
+    assert.equal(await deleteOwnedReview({ id: 'review-1', userId: 'user-1' }, store), 'analysis_in_progress');
+    assert.deepEqual(deleted, []);
+    assert.deepEqual(purged, []);
+  });
+
+  it('deletes a finished review and its cached analysis', async () => {
+    const { store, deleted, purged } = storeWith({ analysisStatus: 'ok' });
+
+    assert.equal(await deleteOwnedReview({ id: 'review-1', userId: 'user-1' }, store), 'deleted');
+    assert.deepEqual(deleted, ['review-1']);
+    assert.deepEqual(purged, [['user:user-1', 'digest-1']]);
+  });
+
+  it('finds nothing to delete in reviews of other users', async () => {
+    const { store, deleted } = storeWith({ analysisStatus: 'ok' });
+
+    assert.equal(await deleteOwnedReview({ id: 'review-1', userId: 'user-2' }, store), 'not_found');
+    assert.deepEqual(deleted, []);
+  });
+});
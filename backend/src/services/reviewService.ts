@@ -0,0 +1,292 @@
+import { Prisma, Review, ReviewGarment } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { deleteImage } from '../lib/cloudinary';
+import { incrementGuestReviewUsage } from '../middleware/unifiedAuth';
+import { getAnalysisOwnerKey, AnalysisFailedError, Garment } from './aiService';
+import { purgeCachedAnalyses, CachedAnalysisOutcome } from './analysisCache';
+import { EnsembleDetails } from './ensembleService';
+import { ColorPalette } from './paletteService';
+import { AnalysisFlag } from './promptSafety';
+
+// Authenticated users keep this many reviews; older ones are deleted with their images
+export const REVIEW_HISTORY_LIMIT = 10;
+
+// Analysis has not finished yet for reviews in these states
+export const IN_FLIGHT_ANALYSIS_STATUSES = ['pending', 'processing'];
+
+// Include this when loading a review for toOutfitAnalysisResponse
+export const REVIEW_GARMENTS_INCLUDE = {
+  garments: { orderBy: { position: 'asc' as const } },
+};
+
+export type ReviewWithGarments = Review & { garments: ReviewGarment[] };
+
+// Garment fields for review lists, in the shape toOutfitAnalysisResponse returns them
+export const REVIEW_GARMENTS_SELECT = {
+  orderBy: { position: 'asc' as const },
+  select: {
+    type: true,
+    colors: true,
+    pattern: true,
+    fabric: true,
+    fitNotes: true,
+    score: true,
+    boundingBox: true,
+  },
+};
+
+/**
+ * Review columns written from a finished analysis
+ */
+export function toReviewAnalysisData(outcome: CachedAnalysisOutcome) {
+  const { analysis } = outcome;
+
+  return {
+    styleCategory: analysis.styleCategory,
+    styleCategoryScore: analysis.styleCategoryScore,
+    fit: analysis.fit,
+    fitScore: analysis.fitScore,
+    colorHarmony: analysis.colorHarmony,
+    colorHarmonyScore: analysis.colorHarmonyScore,
+    occasionSuitability: analysis.occasionSuitability,
+    occasionScore: analysis.occasionScore,
+    proportionBalance: analysis.proportionBalance,
+    proportionScore: analysis.proportionScore,
+    fabricSynergy: analysis.fabricSynergy,
+    fabricScore: analysis.fabricScore,
+    stylingSophistication: analysis.stylingSophistication,
+    sophisticationScore: analysis.sophisticationScore,
+    overallScore: analysis.overallScore,
+    highlights: analysis.highlights,
+    improvementSuggestions: analysis.improvementSuggestions,
+    expertInsights: analysis.expertInsights,
+    technicalFlaws: analysis.technicalFlaws,
+    analysisStatus: outcome.status,
+    analysisProvider: outcome.provider,
+    analysisModel: outcome.model,
+    promptVersion: outcome.promptVersion,
+    promptHash: outcome.promptHash,
+    analysisCacheStatus: outcome.cacheStatus,
+    analysisFlags: outcome.flags,
+    ensembleDetails: analysis.ensemble
+      ? analysis.ensemble as unknown as Prisma.InputJsonObject
+      : Prisma.DbNull,
+    // Cache entries from before the garment breakdown have no garments
+    garments: {
+      create: (analysis.garments ?? []).map((garment, position) => ({
+        position,
+        type: garment.type,
+        colors: garment.colors,
+        pattern: garment.pattern,
+        fabric: garment.fabric,
+        fitNotes: garment.fitNotes,
+        score: garment.score,
+        boundingBox: garment.boundingBox
+          ? garment.boundingBox as unknown as Prisma.InputJsonObject
+          : Prisma.DbNull,
+      })),
+    },
+  };
+}
+
+/**
+ * Review columns written when analysis failed for good
+ */
+export function toFailedReviewData(error: unknown) {
+  return {
+    analysisStatus: 'failed',
+    analysisFlags: [],
+    ...(error instanceof AnalysisFailedError && {
+      analysisProvider: error.provider,
+      analysisModel: error.model,
+      promptVersion: error.promptVersion,
+    }),
+  };
+}
+
+/**
+ * The outfitAnalysis object returned to clients
+ */
+export function toOutfitAnalysisResponse(review: ReviewWithGarments) {
+  return {
+    styleCategory: review.styleCategory,
+    styleCategoryScore: review.styleCategoryScore,
+    fit: review.fit,
+    fitScore: review.fitScore,
+    colorHarmony: review.colorHarmony,
+    colorHarmonyScore: review.colorHarmonyScore,
+    occasionSuitability: review.occasionSuitability,
+    occasionScore: review.occasionScore,
+    proportionBalance: review.proportionBalance,
+    proportionScore: review.proportionScore,
+    fabricSynergy: review.fabricSynergy,
+    fabricScore: review.fabricScore,
+    stylingSophistication: review.stylingSophistication,
+    sophisticationScore: review.sophisticationScore,
+    overallScore: review.overallScore,
+    highlights: review.highlights,
+    improvementSuggestions: review.improvementSuggestions,
+    expertInsights: review.expertInsights,
+    technicalFlaws: review.technicalFlaws,
+    garments: review.garments.map(toGarmentResponse),
+    colorPalette: review.colorPalette as unknown as ColorPalette | null,
+    ...toEnsembleReport(review.ensembleDetails as unknown as EnsembleDetails | null),
+  };
+}
+
+function toGarmentResponse(garment: ReviewGarment): Garment {
+  return {
+    type: garment.type,
+    colors: garment.colors,
+    pattern: garment.pattern,
+    fabric: garment.fabric,
+    fitNotes: garment.fitNotes,
+    score: garment.score,
+    boundingBox: garment.boundingBox as unknown as Garment['boundingBox'],
+  };
+}
+
+// Confidence is null for analyses made by a single call
+function toEnsembleReport(details: EnsembleDetails | null) {
+  return {
+    confidence: details?.confidence ?? null,
+    disagreements: details?.disagreements ?? [],
+    ensemble: details ? { members: details.members, failedMembers: details.failedMembers } : null,
+  };
+}
+
+/**
+ * Most recent reviews flagged by promptSafety between from and to, optionally only those with one flag
+ */
+export async function findFlaggedReviews(from: Date, to: Date, flag: AnalysisFlag | undefined, limit: number) {
+  return prisma.review.findMany({
+    where: {
+      createdAt: { gte: from, lt: to },
+      analysisFlags: flag ? { has: flag } : { isEmpty: false },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      userId: true,
+      guestDeviceId: true,
+      description: true,
+      analysisFlags: true,
+      analysisStatus: true,
+      analysisProvider: true,
+      analysisModel: true,
+      promptVersion: true,
+      promptHash: true,
+      overallScore: true,
+      imageUrl: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Commit usage for a successfully analyzed review: guests spend one of their
+ * free reviews, authenticated users have their oldest reviews pruned
+ */
+export async function commitReviewUsage(review: Pick<Review, 'userId' | 'guestDeviceId' | 'isGuest'>) {
+  if (review.userId) {
+    await pruneOldReviews(review.userId);
+  } else if (review.isGuest && review.guestDeviceId) {
+    await incrementGuestReviewUsage(review.guestDeviceId);
+  }
+}
+
+async function pruneOldReviews(userId: string) {
+  const userReviewsCount = await prisma.review.count({
+    where: { userId }
+  });
+
+  if (userReviewsCount <= REVIEW_HISTORY_LIMIT) {
+    return;
+  }
+
+  const oldReviews = await prisma.review.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    take: userReviewsCount - REVIEW_HISTORY_LIMIT,
+    include: { images: { select: { imagePublicId: true } } },
+  });
+
+  // Delete old images from Cloudinary and the cached analyses of the photos
+  for (const oldReview of oldReviews) {
+    await deleteReviewImages(oldReview);
+    await purgeCachedAnalyses(getAnalysisOwnerKey(oldReview), oldReview.imageDigest);
+  }
+
+  // Delete old review records
+  await prisma.review.deleteMany({
+    where: {
+      id: { in: oldReviews.map(r => r.id) }
+    }
+  });
+}
+
+export type ReviewDeletionResult = 'deleted' | 'not_found' | 'analysis_in_progress';
+
+type DeletableReview = Pick<Review, 'id' | 'userId' | 'guestDeviceId' | 'analysisStatus' | 'imagePublicId' | 'imageDigest'> & {
+  images: { imagePublicId: string | null }[];
+};
+
+// Database access of deleteOwnedReview, replaced in tests
+export interface ReviewDeletionStore {
+  findReview: (where: Prisma.ReviewWhereInput) => Promise<DeletableReview | null>;
+  purgeCachedAnalyses: (ownerKey: string | null, imageDigest: string | null) => Promise<void>;
+  deleteReview: (reviewId: string) => Promise<unknown>;
+}
+
+const reviewDeletionStore: ReviewDeletionStore = {
+  findReview: where => prisma.review.findFirst({
+    where,
+    include: { images: { select: { imagePublicId: true } } },
+  }),
+  purgeCachedAnalyses,
+  deleteReview: reviewId => prisma.review.delete({ where: { id: reviewId } }),
+};
+
+/**
+ * Delete the review matching where with its photos, garments, follow-up messages and
+ * cached analysis. Reviews still being analyzed are kept: the worker would otherwise
+ * write its result to a deleted review.
+ */
+export async function deleteOwnedReview(
+  where: Prisma.ReviewWhereInput,
+  store: ReviewDeletionStore = reviewDeletionStore
+): Promise<ReviewDeletionResult> {
+  const review = await store.findReview(where);
+  if (!review) {
+    return 'not_found';
+  }
+  if (IN_FLIGHT_ANALYSIS_STATUSES.includes(review.analysisStatus)) {
+    return 'analysis_in_progress';
+  }
+
+  await deleteReviewImages(review);
+  // Re-uploads would otherwise still get the analysis of the deleted photo
+  await store.purgeCachedAnalyses(getAnalysisOwnerKey(review), review.imageDigest);
+  await store.deleteReview(review.id);
+  return 'deleted';
+}
+
+/**
+ * Delete a review's photos from Cloudinary. Failures are logged, not thrown, so the
+ * review record can still be deleted.
+ */
+async function deleteReviewImages(
+  review: Pick<Review, 'imagePublicId'> & { images: { imagePublicId: string | null }[] }
+) {
+  // The main photo is also the first of a multi-angle review's images
+  const publicIds = new Set([review.imagePublicId, ...review.images.map(image => image.imagePublicId)]);
+  for (const publicId of publicIds) {
+    if (!publicId) continue;
+    try {
+      await deleteImage(publicId);
+    } catch (error) {
+      console.error('Failed to delete review image:', error);
+    }
+  }
+}
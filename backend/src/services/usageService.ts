@@ -0,0 +1,199 @@
+import type { Prisma, Review } from '@prisma/client';
+import { config } from '../config/config';
+import { prisma } from '../lib/prisma';
+import { AIProvider, CompletionRequest, CompletionResult, CompletionTask, CompletionUsage } from './providers';
+
+export type UsageTask = CompletionTask | `${CompletionTask}_repair`;
+
+// One provider call, collected while an analysis or comparison runs and persisted afterwards
+export interface AiCall {
+  task: UsageTask;
+  provider: string;
+  model: string;
+  usage?: CompletionUsage;
+  latencyMs: number;
+  succeeded: boolean;
+}
+
+export interface ExceededBudget {
+  scope: 'user' | 'guest' | 'total';
+  capUsd: number;
+  resetsAt: Date;
+}
+
+/**
+ * Run a completion (streamed when onDelta is given and supported) and append
+ * its usage and latency to calls, whether or not it succeeds
+ */
+export async function meteredCompletion(
+  provider: AIProvider,
+  request: CompletionRequest,
+  task: UsageTask,
+  calls: AiCall[] | undefined,
+  onDelta?: (text: string) => void
+): Promise<CompletionResult> {
+  const startedAt = Date.now();
+  try {
+    const result = onDelta && provider.stream
+      ? await provider.stream(request, onDelta)
+      : await provider.complete(request);
+    calls?.push({
+      task,
+      provider: result.provider ?? provider.name,
+      model: result.model,
+      usage: result.usage,
+      latencyMs: Date.now() - startedAt,
+      succeeded: true,
+    });
+    return result;
+  } catch (error) {
+    calls?.push({
+      task,
+      provider: provider.name,
+      model: provider.model,
+      latencyMs: Date.now() - startedAt,
+      succeeded: false,
+    });
+    throw error;
+  }
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no configured price or usage is unknown.
+ * Prices match by longest prefix so dated ids (gpt-4.1-nano-2025-04-14) use their base price.
+ */
+export function estimateCostUsd(model: string, usage?: CompletionUsage): number | null {
+  if (!usage) return null;
+
+  const priceKey = Object.keys(config.usage.pricing)
+    .filter(key => model === key || model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!priceKey) return null;
+
+  const price = config.usage.pricing[priceKey];
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
+
+/**
+ * Persist the calls made for a review. Errors are logged, never thrown: accounting must not fail a review.
+ */
+export async function recordAiUsage(calls: AiCall[], review: Pick<Review, 'id' | 'userId' | 'guestDeviceId'>) {
+  if (calls.length === 0) return;
+
+  try {
+    await prisma.aiUsage.createMany({
+      data: calls.map(call => ({
+        reviewId: review.id,
+        userId: review.userId,
+        guestDeviceId: review.guestDeviceId,
+        task: call.task,
+        provider: call.provider,
+        model: call.model,
+        promptTokens: call.usage?.promptTokens ?? null,
+        completionTokens: call.usage?.completionTokens ?? null,
+        totalTokens: call.usage?.totalTokens ?? null,
+        latencyMs: call.latencyMs,
+        costUsd: estimateCostUsd(call.model, call.usage),
+        succeeded: call.succeeded,
+      })),
+    });
+  } catch (error) {
+    console.error('❌ Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * First budget cap (user or guest device, then total) already reached this month
+ */
+export async function findExceededBudget(owner: { userId?: string; guestDeviceId?: string }): Promise<ExceededBudget | null> {
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const caps: { scope: ExceededBudget['scope']; capUsd: number; where: Prisma.AiUsageWhereInput | null }[] = [
+    { scope: 'user', capUsd: config.usage.userMonthlyBudgetUsd, where: owner.userId ? { userId: owner.userId } : null },
+    { scope: 'guest', capUsd: config.usage.guestMonthlyBudgetUsd, where: owner.guestDeviceId ? { guestDeviceId: owner.guestDeviceId } : null },
+    { scope: 'total', capUsd: config.usage.totalMonthlyBudgetUsd, where: {} },
+  ];
+
+  for (const { scope, capUsd, where } of caps) {
+    if (capUsd <= 0 || !where) continue;
+
+    const spent = await prisma.aiUsage.aggregate({
+      where: { ...where, createdAt: { gte: monthStart } },
+      _sum: { costUsd: true },
+    });
+    if ((spent._sum.costUsd ?? 0) >= capUsd) {
+      return { scope, capUsd, resetsAt };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Calls, tokens and estimated cost between from and to: in total, per user,
+ * per guest device (top `limit` by cost) and per day
+ */
+export async function getUsageReport(from: Date, to: Date, limit: number) {
+  const where = { createdAt: { gte: from, lt: to } };
+  const sums = { promptTokens: true, completionTokens: true, costUsd: true } as const;
+
+  const [totals, byUser, byGuestDevice, byDay] = await Promise.all([
+    prisma.aiUsage.aggregate({ where, _sum: sums, _count: { _all: true } }),
+    prisma.aiUsage.groupBy({
+      by: ['userId'],
+      where: { ...where, userId: { not: null } },
+      _sum: sums,
+      _count: { _all: true },
+      orderBy: { _sum: { costUsd: 'desc' } },
+      take: limit,
+    }),
+    prisma.aiUsage.groupBy({
+      by: ['guestDeviceId'],
+      where: { ...where, guestDeviceId: { not: null } },
+      _sum: sums,
+      _count: { _all: true },
+      orderBy: { _sum: { costUsd: 'desc' } },
+      take: limit,
+    }),
+    prisma.$queryRaw<{ day: Date; calls: number; promptTokens: number; completionTokens: number; costUsd: number | null }[]>`
+      SELECT date_trunc('day', "createdAt") AS "day",
+             COUNT(*)::int AS "calls",
+             COALESCE(SUM("promptTokens"), 0)::int AS "promptTokens",
+             COALESCE(SUM("completionTokens"), 0)::int AS "completionTokens",
+             SUM("costUsd") AS "costUsd"
+      FROM "ai_usage"
+      WHERE "createdAt" >= ${from} AND "createdAt" < ${to}
+      GROUP BY 1
+      ORDER BY 1
+    `,
+  ]);
+
+  const summarize = (row: { _count: { _all: number }; _sum: { promptTokens: number | null; completionTokens: number | null; costUsd: number | null } }) => ({
+    calls: row._count._all,
+    promptTokens: row._sum.promptTokens ?? 0,
+    completionTokens: row._sum.completionTokens ?? 0,
+    costUsd: row._sum.costUsd ?? 0,
+  });
+
+  return {
+    from,
+    to,
+    totals: summarize(totals),
+    byUser: byUser.map(row => ({ userId: row.userId, ...summarize(row) })),
+    byGuestDevice: byGuestDevice.map(row => ({ guestDeviceId: row.guestDeviceId, ...summarize(row) })),
+    byDay: byDay.map(row => ({
+      day: row.day.toISOString().slice(0, 10),
+      calls: row.calls,
+      promptTokens: row.promptTokens,
+      completionTokens: row.completionTokens,
+      costUsd: row.costUsd ?? 0,
+    })),
+    budgets: {
+      userMonthlyUsd: config.usage.userMonthlyBudgetUsd || null,
+      guestMonthlyUsd: config.usage.guestMonthlyBudgetUsd || null,
+      totalMonthlyUsd: config.usage.totalMonthlyBudgetUsd || null,
+    },
+  };
+}
@@ -2,6 +2,7 @@ import { Tabs } from 'expo-router';
 import React from 'react';
 import { Platform, View } from 'react-native';
 import { Home, User, Clock } from 'lucide-react-native';
+import { useTranslation } from '../../hooks/useLocale';
 
 const TabIcon = ({ name, focused, color }: { name: string; focused: boolean; color: string }) => {
   const iconSize = 22;
@@ -19,6 +20,8 @@ const TabIcon = ({ name, focused, color }: { name: string; focused: boolean; col
 };
 
 export default function TabLayout() {
+  const { t } = useTranslation();
+
   return (
     <Tabs
       screenOptions={{
@@ -60,24 +63,24 @@ export default function TabLayout() {
       <Tabs.Screen
         name="dashboard"
         options={{
-          title: 'Home',
-          headerTitle: 'Drip',
+          title: t('nav.home'),
+          headerTitle: t('nav.homeHeader'),
           tabBarIcon: ({ focused, color }) => <TabIcon name="dashboard" focused={focused} color={color} />,
         }}
       />
       <Tabs.Screen
         name="history"
         options={{
-          title: 'History',
-          headerTitle: 'My Reviews',
+          title: t('nav.history'),
+          headerTitle: t('nav.historyHeader'),
           tabBarIcon: ({ focused, color }) => <TabIcon name="history" focused={focused} color={color} />,
         }}
       />
       <Tabs.Screen
         name="profile"
         options={{
-          title: 'Profile',
-          headerTitle: 'Account',
+          title: t('nav.profile'),
+          headerTitle: t('nav.profileHeader'),
           tabBarIcon: ({ focused, color }) => <TabIcon name="profile" focused={focused} color={color} />,
         }}
       />
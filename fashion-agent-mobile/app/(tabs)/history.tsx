@@ -10,9 +10,13 @@ import {
   Dimensions,
   Platform,
 } from 'react-native';
-import { fashionAPI } from '../../services/api';
+import { fashionAPI, Occasion, OCCASIONS, ScoreCalibration } from '../../services/api';
 import { useAuth } from '../../hooks/useAuth';
+import { useTranslation } from '../../hooks/useLocale';
+import type { MessageKey } from '../../locales';
 import Toast from 'react-native-toast-message';
+import { ComparisonModal, ComparisonDetails } from '../../components/core/ComparisonModal';
+import { CalibrationBadge } from '../../components/core/CalibrationBadge';
 
 const { width } = Dimensions.get('window');
 
@@ -28,19 +32,35 @@ interface AnalysisHistory {
   improvementSuggestions: string[];
   createdAt: string;
   accepted?: boolean;
+  analysisStatus?: 'pending' | 'processing' | 'ok' | 'degraded_fallback' | 'no_outfit' | 'failed';
+  comparisonDetails?: ComparisonDetails | null;
+  occasion?: Occasion | null;
+  calibration?: ScoreCalibration | null;
 }
 
+const ANALYSIS_STATUS_LABELS: Record<string, MessageKey> = {
+  pending: 'status.pending',
+  processing: 'status.processing',
+  degraded_fallback: 'status.degraded',
+  no_outfit: 'status.noOutfit',
+  failed: 'status.failed',
+};
+
 export default function HistoryScreen() {
   const { user, isAuthenticated } = useAuth();
+  const { locale, t } = useTranslation();
   const [analysisHistory, setAnalysisHistory] = useState<AnalysisHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [comparisonReview, setComparisonReview] = useState<AnalysisHistory | null>(null);
+  const [occasionFilter, setOccasionFilter] = useState<Occasion | null>(null);
   
   const maxReviews = isAuthenticated ? 5 : 3;
 
   useEffect(() => {
     loadAnalysisHistory();
-  }, [isAuthenticated]);
+  }, [isAuthenticated, occasionFilter]);
 
   const loadAnalysisHistory = async () => {
     try {
@@ -48,7 +68,7 @@ export default function HistoryScreen() {
       
       // Only load history if user is authenticated
       if (isAuthenticated) {
-        const response = await fashionAPI.getAnalysisHistory();
+        const response = await fashionAPI.getAnalysisHistory(occasionFilter ?? undefined);
         setAnalysisHistory(response.data);
         console.log('✅ Analysis history loaded successfully');
       } else {
@@ -63,8 +83,8 @@ export default function HistoryScreen() {
       if (error.response?.status !== 401) {
         Toast.show({
           type: 'error',
-          text1: 'Failed to Load History',
-          text2: 'Please check your connection and try again',
+          text1: t('history.loadFailed'),
+          text2: t('history.checkConnection'),
         });
       }
       
@@ -81,9 +101,40 @@ export default function HistoryScreen() {
     loadAnalysisHistory();
   };
 
+  const isComparable = (analysis: AnalysisHistory) =>
+    !['pending', 'processing', 'failed', 'no_outfit'].includes(analysis.analysisStatus ?? 'ok');
+
+  // History is newest first, so the previous look is the next comparable entry
+  const getPreviousAnalysis = (analysis: AnalysisHistory) => {
+    const index = analysisHistory.findIndex(item => item.id === analysis.id);
+    return analysisHistory.slice(index + 1).find(isComparable);
+  };
+
+  const handleCompare = async (analysis: AnalysisHistory) => {
+    const previous = getPreviousAnalysis(analysis);
+    if (!previous) return;
+
+    try {
+      setComparingId(analysis.id);
+      const response = await fashionAPI.compareReviews(analysis.id, [previous.id]);
+      const updated = { ...analysis, comparisonDetails: response.data.comparison.details };
+      setAnalysisHistory(history => history.map(item => (item.id === analysis.id ? updated : item)));
+      setComparisonReview(updated);
+    } catch (error: any) {
+      console.error('❌ Comparison failed:', error);
+      Toast.show({
+        type: 'error',
+        text1: t('history.compareFailed'),
+        text2: error.response?.data?.error || t('history.compareRetry'),
+      });
+    } finally {
+      setComparingId(null);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(locale, {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -112,33 +163,54 @@ export default function HistoryScreen() {
     >
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Style History</Text>
+        <Text style={styles.headerTitle}>{t('history.title')}</Text>
         <Text style={styles.headerSubtext}>
           {isAuthenticated 
-            ? `Your fashion journey - showing last ${maxReviews} reviews`
-            : `Guest access - showing last ${maxReviews} reviews`
+            ? t('history.subtitleMember', { count: maxReviews })
+            : t('history.subtitleGuest', { count: maxReviews })
           }
         </Text>
         {!isAuthenticated && (
           <View style={styles.upgradeHint}>
             <Text style={styles.upgradeHintText}>
-              Sign up to see up to 5 reviews and unlock premium features!
+              {t('history.upgradeHint')}
             </Text>
           </View>
         )}
       </View>
 
+      {/* Occasion Filter */}
+      {isAuthenticated && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChips}>
+          {[null, ...OCCASIONS].map((occasion) => (
+            <TouchableOpacity
+              key={occasion ?? 'all'}
+              style={[styles.filterChip, occasionFilter === occasion && styles.filterChipSelected]}
+              onPress={() => setOccasionFilter(occasion)}
+            >
+              <Text style={[styles.filterChipText, occasionFilter === occasion && styles.filterChipTextSelected]}>
+                {occasion ? t(`occasion.${occasion}`) : t('history.allOccasions')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Analysis History */}
       {loading ? (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading your style history...</Text>
+          <Text style={styles.loadingText}>{t('history.loading')}</Text>
         </View>
       ) : analysisHistory.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyEmoji}>📸</Text>
-          <Text style={styles.emptyText}>No analysis history yet</Text>
+          <Text style={styles.emptyText}>
+            {occasionFilter ? t('history.noOccasionLooks', { occasion: t(`occasion.${occasionFilter}`) }) : t('history.empty')}
+          </Text>
           <Text style={styles.emptySubtext}>
-            Upload your first outfit photo to start building your style profile!
+            {occasionFilter
+              ? t('history.pickOccasion')
+              : t('history.emptyHint')}
           </Text>
         </View>
       ) : (
@@ -157,21 +229,28 @@ export default function HistoryScreen() {
 
                 {/* Tile Content */}
                 <View style={styles.tileContent}>
-                  <Text style={styles.tileCategory}>{analysis.styleCategory || 'Style Review'}</Text>
+                  <Text style={styles.tileCategory}>{analysis.styleCategory || t('history.styleReview')}</Text>
                   <Text style={styles.tileDate}>{formatDate(analysis.createdAt)}</Text>
+                  {analysis.occasion && (
+                    <Text style={styles.tileOccasion}>{t(`occasion.${analysis.occasion}`)}</Text>
+                  )}
+                  {analysis.analysisStatus && ANALYSIS_STATUS_LABELS[analysis.analysisStatus] && (
+                    <Text style={styles.tileStatus}>⚠️ {t(ANALYSIS_STATUS_LABELS[analysis.analysisStatus])}</Text>
+                  )}
+                  <CalibrationBadge calibration={analysis.calibration} />
                   
                   {/* Mini Score Bars */}
                   <View style={styles.miniScoreContainer}>
                     <View style={styles.miniScoreItem}>
-                      <Text style={styles.miniScoreLabel}>Fit</Text>
+                      <Text style={styles.miniScoreLabel}>{t('score.fit')}</Text>
                       <Text style={styles.miniScoreValue}>{analysis.fit}/10</Text>
                     </View>
                     <View style={styles.miniScoreItem}>
-                      <Text style={styles.miniScoreLabel}>Color</Text>
+                      <Text style={styles.miniScoreLabel}>{t('score.color')}</Text>
                       <Text style={styles.miniScoreValue}>{analysis.colorHarmony}/10</Text>
                     </View>
                     <View style={styles.miniScoreItem}>
-                      <Text style={styles.miniScoreLabel}>Occasion</Text>
+                      <Text style={styles.miniScoreLabel}>{t('score.occasion')}</Text>
                       <Text style={styles.miniScoreValue}>{analysis.occasionSuitability}/10</Text>
                     </View>
                   </View>
@@ -182,12 +261,37 @@ export default function HistoryScreen() {
                       ✨ {analysis.highlights[0]}
                     </Text>
                   )}
+
+                  {/* Before/after comparison with the previous look */}
+                  {analysis.comparisonDetails ? (
+                    <TouchableOpacity style={styles.compareButton} onPress={() => setComparisonReview(analysis)}>
+                      <Text style={styles.compareButtonText}>{t('history.viewComparison')}</Text>
+                    </TouchableOpacity>
+                  ) : isComparable(analysis) && getPreviousAnalysis(analysis) && (
+                    <TouchableOpacity
+                      style={styles.compareButton}
+                      onPress={() => handleCompare(analysis)}
+                      disabled={comparingId !== null}
+                    >
+                      <Text style={styles.compareButtonText}>
+                        {comparingId === analysis.id ? t('history.comparing') : t('history.compare')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
                 </View>
               </View>
             );
           })}
         </View>
       )}
+
+      <ComparisonModal
+        isVisible={comparisonReview !== null}
+        onClose={() => setComparisonReview(null)}
+        details={comparisonReview?.comparisonDetails ?? null}
+        currentImageUrl={comparisonReview?.imageUrl}
+        previousImageUrl={analysisHistory.find(item => item.id === comparisonReview?.comparisonDetails?.previousReviewIds[0])?.imageUrl}
+      />
     </ScrollView>
   );
 }
@@ -229,6 +333,32 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  filterChips: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  filterChipSelected: {
+    borderColor: '#1F2937',
+    backgroundColor: '#1F2937',
+  },
+  filterChipText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  filterChipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   loadingContainer: {
     padding: 40,
     alignItems: 'center',
@@ -316,6 +446,34 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     fontFamily: Platform.OS === 'ios' ? 'System' : 'Roboto',
   },
+  tileOccasion: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFD700',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  compareButton: {
+    marginTop: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#8B5CF6',
+    alignItems: 'center',
+  },
+  compareButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#C4B5FD',
+    fontFamily: Platform.OS === 'ios' ? 'System' : 'Roboto',
+  },
+  tileStatus: {
+    fontSize: 11,
+    color: '#F59E0B',
+    fontWeight: '600',
+    marginBottom: 12,
+    fontFamily: Platform.OS === 'ios' ? 'System' : 'Roboto',
+  },
   miniScoreContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import {
   View,
   Text,
@@ -11,19 +11,53 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { User, Star, Crown, Sparkles, LogIn } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
 import { useAuth } from '../../hooks/useAuth';
+import { useTranslation } from '../../hooks/useLocale';
+import { authAPI } from '../../services/api';
+import { LOCALES, LOCALE_LABELS, Locale, isLocale } from '../../locales';
 
 export default function ProfileScreen() {
   const { user, logout, isAuthenticated } = useAuth();
+  const { chosenLocale, setLocale, t } = useTranslation();
+
+  // A language saved on the account (e.g. picked on the web) carries over to the app
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    authAPI.getProfile()
+      .then((response) => {
+        const saved = response.data.profile?.locale;
+        if (isLocale(saved) && saved !== chosenLocale) {
+          setLocale(saved);
+        }
+      })
+      .catch((error) => console.error('Failed to load profile language:', error));
+  }, [isAuthenticated]);
+
+  // Guests only change the app; signed-in users also get analyses in this language on every device
+  const handleLocaleChange = async (locale: Locale | null) => {
+    await setLocale(locale);
+    if (!isAuthenticated) return;
+    try {
+      await authAPI.updateProfile({ locale });
+    } catch (error: any) {
+      console.error('Failed to save language:', error);
+      Toast.show({
+        type: 'error',
+        text1: t('profile.languageFailed'),
+        text2: error.response?.data?.error,
+      });
+    }
+  };
 
   const handleLogout = () => {
     Alert.alert(
-      'Logout',
-      'Are you sure you want to log out?',
+      t('profile.logout'),
+      t('profile.logoutConfirm'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Logout', 
+          text: t('profile.logout'), 
           style: 'destructive',
           onPress: async () => {
             try {
@@ -40,12 +74,32 @@ export default function ProfileScreen() {
   const handleLogin = () => {
     // Navigate to login screen - placeholder for now
     Alert.alert(
-      'Login',
-      'Login functionality coming soon!',
-      [{ text: 'OK', style: 'default' }]
+      t('profile.login'),
+      t('profile.loginSoon'),
+      [{ text: t('common.ok'), style: 'default' }]
     );
   };
 
+  const languageSection = (
+    <View style={styles.languageSection}>
+      <Text style={styles.languageTitle}>{t('profile.language')}</Text>
+      <View style={styles.languageOptions}>
+        {([null, ...LOCALES] as (Locale | null)[]).map((locale) => (
+          <TouchableOpacity
+            key={locale ?? 'device'}
+            style={[styles.languageOption, chosenLocale === locale && styles.languageOptionSelected]}
+            onPress={() => handleLocaleChange(locale)}
+          >
+            <Text style={[styles.languageOptionText, chosenLocale === locale && styles.languageOptionTextSelected]}>
+              {locale ? LOCALE_LABELS[locale] : t('profile.languageDevice')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={styles.languageHint}>{t('profile.languageHint')}</Text>
+    </View>
+  );
+
   if (!isAuthenticated) {
     return (
       <SafeAreaView style={styles.container}>
@@ -59,22 +113,22 @@ export default function ProfileScreen() {
               <View style={styles.guestIconContainer}>
                 <User size={48} color="#6B7280" />
               </View>
-              <Text style={styles.guestTitle}>Welcome to Drip</Text>
-              <Text style={styles.guestSubtitle}>Sign up to unlock premium features</Text>
+              <Text style={styles.guestTitle}>{t('profile.welcome')}</Text>
+              <Text style={styles.guestSubtitle}>{t('profile.guestSubtitle')}</Text>
             </View>
 
             {/* Benefits Section */}
             <View style={styles.benefitsSection}>
-              <Text style={styles.benefitsTitle}>🌟 Premium Benefits</Text>
+              <Text style={styles.benefitsTitle}>{t('profile.benefits')}</Text>
               
               <View style={styles.benefitCard}>
                 <View style={styles.benefitIcon}>
                   <Star size={24} color="#F59E0B" />
                 </View>
                 <View style={styles.benefitContent}>
-                  <Text style={styles.benefitTitle}>5 Style Reviews</Text>
+                  <Text style={styles.benefitTitle}>{t('profile.benefitReviews')}</Text>
                   <Text style={styles.benefitDescription}>
-                    Get up to 5 outfit reviews instead of 3 guest reviews
+                    {t('profile.benefitReviewsDesc')}
                   </Text>
                 </View>
               </View>
@@ -84,9 +138,9 @@ export default function ProfileScreen() {
                   <Crown size={24} color="#8B5CF6" />
                 </View>
                 <View style={styles.benefitContent}>
-                  <Text style={styles.benefitTitle}>Style History</Text>
+                  <Text style={styles.benefitTitle}>{t('profile.benefitHistory')}</Text>
                   <Text style={styles.benefitDescription}>
-                    Keep track of your fashion evolution and progress
+                    {t('profile.benefitHistoryDesc')}
                   </Text>
                 </View>
               </View>
@@ -96,9 +150,9 @@ export default function ProfileScreen() {
                   <Sparkles size={24} color="#10B981" />
                 </View>
                 <View style={styles.benefitContent}>
-                  <Text style={styles.benefitTitle}>Personalized Tips</Text>
+                  <Text style={styles.benefitTitle}>{t('profile.benefitTips')}</Text>
                   <Text style={styles.benefitDescription}>
-                    Get AI recommendations tailored to your style preferences
+                    {t('profile.benefitTipsDesc')}
                   </Text>
                 </View>
               </View>
@@ -108,11 +162,14 @@ export default function ProfileScreen() {
             <View style={styles.actionSection}>
               <TouchableOpacity style={styles.loginButton} onPress={handleLogin}>
                 <LogIn size={20} color="white" />
-                <Text style={styles.loginButtonText}>Sign Up / Log In</Text>
+                <Text style={styles.loginButtonText}>{t('profile.signUp')}</Text>
               </TouchableOpacity>
               
-              <Text style={styles.freeText}>Continue as guest with 3 free reviews</Text>
+              <Text style={styles.freeText}>{t('profile.continueGuest')}</Text>
             </View>
+
+            {/* Language */}
+            {languageSection}
           </ScrollView>
         </LinearGradient>
       </SafeAreaView>
@@ -134,49 +191,52 @@ export default function ProfileScreen() {
               </Text>
             </View>
             
-            <Text style={styles.name}>{user?.name || 'Fashion Enthusiast'}</Text>
+            <Text style={styles.name}>{user?.name || t('profile.defaultName')}</Text>
             <Text style={styles.email}>{user?.email || 'user@example.com'}</Text>
             
             <View style={styles.premiumBadge}>
               <Crown size={16} color="#F59E0B" />
-              <Text style={styles.premiumText}>Premium Member</Text>
+              <Text style={styles.premiumText}>{t('profile.premiumMember')}</Text>
             </View>
           </View>
 
           {/* Menu Section */}
           <View style={styles.menuSection}>
             <TouchableOpacity style={styles.menuItem}>
-              <Text style={styles.menuText}>⚙️ Settings</Text>
-              <Text style={styles.comingSoon}>Coming Soon</Text>
+              <Text style={styles.menuText}>{t('profile.settings')}</Text>
+              <Text style={styles.comingSoon}>{t('profile.comingSoon')}</Text>
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.menuItem}>
-              <Text style={styles.menuText}>🔔 Notifications</Text>
-              <Text style={styles.comingSoon}>Coming Soon</Text>
+              <Text style={styles.menuText}>{t('profile.notifications')}</Text>
+              <Text style={styles.comingSoon}>{t('profile.comingSoon')}</Text>
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.menuItem}>
-              <Text style={styles.menuText}>🎨 Preferences</Text>
-              <Text style={styles.comingSoon}>Coming Soon</Text>
+              <Text style={styles.menuText}>{t('profile.preferences')}</Text>
+              <Text style={styles.comingSoon}>{t('profile.comingSoon')}</Text>
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.menuItem}>
-              <Text style={styles.menuText}>❓ Help & Support</Text>
-              <Text style={styles.comingSoon}>Coming Soon</Text>
+              <Text style={styles.menuText}>{t('profile.help')}</Text>
+              <Text style={styles.comingSoon}>{t('profile.comingSoon')}</Text>
             </TouchableOpacity>
             
             <TouchableOpacity 
               style={[styles.menuItem, styles.logoutItem]} 
               onPress={handleLogout}
             >
-              <Text style={[styles.menuText, styles.logoutText]}>🚪 Logout</Text>
+              <Text style={[styles.menuText, styles.logoutText]}>{t('profile.logoutMenu')}</Text>
             </TouchableOpacity>
           </View>
 
+          {/* Language */}
+          {languageSection}
+
           {/* Version Section */}
           <View style={styles.versionSection}>
             <Text style={styles.versionText}>Drip v1.0.0</Text>
-            <Text style={styles.securityText}>🔒 Your data is protected</Text>
+            <Text style={styles.securityText}>{t('profile.dataProtected')}</Text>
           </View>
         </ScrollView>
       </LinearGradient>
@@ -392,6 +452,54 @@ const styles = StyleSheet.create({
   logoutText: {
     color: '#EF4444',
   },
+  languageSection: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginTop: 20,
+    marginBottom: 20,
+    padding: 20,
+    borderRadius: 20,
+    shadowColor: '#1F2937',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  languageTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  languageOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  languageOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  languageOptionSelected: {
+    backgroundColor: '#1F2937',
+    borderColor: '#1F2937',
+  },
+  languageOptionText: {
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  languageOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  languageHint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 12,
+    lineHeight: 18,
+  },
   versionSection: {
     padding: 20,
     alignItems: 'center',
@@ -7,6 +7,11 @@ import {
   Alert,
 } from 'react-native';
 import { SecureImageUpload } from '../../components/upload/SecureImageUpload';
+import { GarmentBreakdown } from '../../components/core/GarmentBreakdown';
+import { PaletteSwatches } from '../../components/core/PaletteSwatches';
+import { ReviewChat } from '../../components/core/ReviewChat';
+import { CalibrationBadge } from '../../components/core/CalibrationBadge';
+import { Garment, ColorPalette, ScoreCalibration } from '../../services/api';
 import { useRouter } from 'expo-router';
 import Toast from 'react-native-toast-message';
 
@@ -32,7 +37,11 @@ interface AnalysisResult {
     improvementSuggestions: string[];
     expertInsights?: string[];
     technicalFlaws?: string[];
+    garments?: Garment[];
+    colorPalette?: ColorPalette | null;
   };
+  calibration?: ScoreCalibration | null;
+  imageUri?: string;
 }
 
 export default function UploadScreen() {
@@ -136,12 +145,23 @@ export default function UploadScreen() {
                        overallScore >= 4 ? 'Room for Improvement' :
                        'Let\'s Elevate Your Style'}
                     </Text>
+                    <CalibrationBadge calibration={currentAnalysis.calibration} />
                   </View>
                 </>
               );
             })()}
           </View>
 
+          {/* Garment Breakdown */}
+          {currentAnalysis.outfitAnalysis.garments && currentAnalysis.outfitAnalysis.garments.length > 0 && (
+            <GarmentBreakdown garments={currentAnalysis.outfitAnalysis.garments} imageUri={currentAnalysis.imageUri} />
+          )}
+
+          {/* Measured Palette */}
+          {currentAnalysis.outfitAnalysis.colorPalette && (
+            <PaletteSwatches palette={currentAnalysis.outfitAnalysis.colorPalette} />
+          )}
+
           {/* Score Breakdown */}
           <View style={styles.scoreBreakdownContainer}>
             <Text style={styles.scoreBreakdownTitle}>Score Breakdown</Text>
@@ -239,6 +259,9 @@ export default function UploadScreen() {
             </View>
           )}
 
+          {/* Follow-up Conversation */}
+          {currentAnalysis.outfitAnalysis.overallScore > 0 && <ReviewChat reviewId={currentAnalysis.reviewId} />}
+
           {/* Analysis Date */}
           <View style={styles.timestampContainer}>
             <Text style={styles.timestampText}>
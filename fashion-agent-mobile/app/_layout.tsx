@@ -2,6 +2,7 @@ import { Stack } from 'expo-router';
 import { useEffect } from 'react';
 import Toast from 'react-native-toast-message';
 import { AuthProvider } from '../hooks/useAuth';
+import { LocaleProvider } from '../hooks/useLocale';
 import { StatusBar } from 'expo-status-bar';
 import { Platform, View, Text } from 'react-native';
 
@@ -78,56 +79,58 @@ export default function RootLayout() {
   }, []);
 
   return (
-    <AuthProvider>
-      <StatusBar style="auto" />
+    <LocaleProvider>
+      <AuthProvider>
+        <StatusBar style="auto" />
       
-      <Stack 
-        screenOptions={{
-          headerShown: false,
-          // Security: Disable screenshots in sensitive areas
-          ...(Platform.OS === 'android' && {
-            // For Android, you might want to prevent screenshots
-            // This would require additional native configuration
-          }),
-        }}
-      >
-        <Stack.Screen 
-          name="index" 
-          options={{ 
+        <Stack 
+          screenOptions={{
             headerShown: false,
-            gestureEnabled: false, // Disable swipe back on login screen
-          }} 
-        />
+            // Security: Disable screenshots in sensitive areas
+            ...(Platform.OS === 'android' && {
+              // For Android, you might want to prevent screenshots
+              // This would require additional native configuration
+            }),
+          }}
+        >
+          <Stack.Screen 
+            name="index" 
+            options={{ 
+              headerShown: false,
+              gestureEnabled: false, // Disable swipe back on login screen
+            }} 
+          />
         
-        <Stack.Screen 
-          name="auth/login" 
-          options={{ 
-            headerShown: false,
-            gestureEnabled: false,
-          }} 
-        />
+          <Stack.Screen 
+            name="auth/login" 
+            options={{ 
+              headerShown: false,
+              gestureEnabled: false,
+            }} 
+          />
         
-        <Stack.Screen 
-          name="auth/register" 
-          options={{ 
-            headerShown: false,
-            gestureEnabled: false,
-          }} 
-        />
+          <Stack.Screen 
+            name="auth/register" 
+            options={{ 
+              headerShown: false,
+              gestureEnabled: false,
+            }} 
+          />
         
-        <Stack.Screen 
-          name="(tabs)" 
-          options={{ 
-            headerShown: false,
-          }} 
-        />
-      </Stack>
+          <Stack.Screen 
+            name="(tabs)" 
+            options={{ 
+              headerShown: false,
+            }} 
+          />
+        </Stack>
       
-      <Toast 
-        config={toastConfig}
-        position="top"
-        topOffset={60}
-      />
-    </AuthProvider>
+        <Toast 
+          config={toastConfig}
+          position="top"
+          topOffset={60}
+        />
+      </AuthProvider>
+    </LocaleProvider>
   );
 }
@@ -0,0 +1,57 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Minus, TrendingDown, TrendingUp, Trophy } from 'lucide-react-native';
+import type { ScoreCalibration } from '../../services/api';
+import { useTranslation } from '../../hooks/useLocale';
+
+interface CalibrationBadgeProps {
+  calibration?: ScoreCalibration | null;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Delta on the 10-point scale the scores are shown in
+const formatDelta = (delta: number) => {
+  const points = (delta / 10).toFixed(1);
+  return delta > 0 ? `+${points}` : points;
+};
+
+// How a score compares with the wearer's usual; nothing until there is enough history
+export function CalibrationBadge({ calibration, style }: CalibrationBadgeProps) {
+  const { t } = useTranslation();
+
+  if (!calibration) {
+    return null;
+  }
+
+  const { trend, delta } = calibration;
+  const color = trend === 'below_usual' ? '#F59E0B' : trend === 'usual' ? '#B0B0B0' : '#10B981';
+  const Icon = trend === 'personal_best' ? Trophy : trend === 'above_usual' ? TrendingUp : trend === 'below_usual' ? TrendingDown : Minus;
+  const label = trend === 'personal_best'
+    ? t('calibration.personalBest', { delta: formatDelta(delta) })
+    : trend === 'usual' ? t('calibration.aboutUsual') : t('calibration.vsUsual', { delta: formatDelta(delta) });
+
+  return (
+    <View style={[styles.badge, { borderColor: color }, style]}>
+      <Icon size={14} color={color} />
+      <Text style={[styles.label, { color }]}>{label}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,240 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Image,
+  Dimensions,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useTranslation } from '../../hooks/useLocale';
+
+const { width } = Dimensions.get('window');
+
+export interface DimensionDelta {
+  dimension: string;
+  label: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface ComparisonDetails {
+  previousReviewIds: string[];
+  dimensions: DimensionDelta[];
+  improved: string[];
+  regressed: string[];
+  narrative: string;
+  provider: string;
+  model: string;
+  generatedAt: string;
+}
+
+interface ComparisonModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  details: ComparisonDetails | null;
+  currentImageUrl?: string;
+  previousImageUrl?: string;
+}
+
+// Scores are stored on a 100-point scale, the app shows them out of 10
+const toTenPoint = (score: number) => Math.round(score) / 10;
+
+export function ComparisonModal({ isVisible, onClose, details, currentImageUrl, previousImageUrl }: ComparisonModalProps) {
+  const { t } = useTranslation();
+
+  const getDeltaColor = (delta: number | null) => {
+    if (delta === null || delta === 0) return '#6B7280';
+    return delta > 0 ? '#10B981' : '#EF4444';
+  };
+
+  const formatDelta = (delta: number | null) => {
+    if (delta === null) return t('comparison.notAvailable');
+    return `${delta > 0 ? '+' : ''}${toTenPoint(delta)}`;
+  };
+
+  return (
+    <Modal
+      visible={isVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modalContainer}>
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('comparison.title')}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+
+          {details && (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {/* Images */}
+              <View style={styles.imagesRow}>
+                <View style={styles.imageColumn}>
+                  <Text style={styles.imageLabel}>{t('comparison.before')}</Text>
+                  {previousImageUrl ? (
+                    <Image source={{ uri: previousImageUrl }} style={styles.image} />
+                  ) : (
+                    <View style={styles.image} />
+                  )}
+                </View>
+                <View style={styles.imageColumn}>
+                  <Text style={styles.imageLabel}>{t('comparison.now')}</Text>
+                  {currentImageUrl ? (
+                    <Image source={{ uri: currentImageUrl }} style={styles.image} />
+                  ) : (
+                    <View style={styles.image} />
+                  )}
+                </View>
+              </View>
+
+              {/* Per-dimension deltas */}
+              <View style={styles.deltaTable}>
+                {details.dimensions.map((dimension) => (
+                  <View key={dimension.dimension} style={styles.deltaRow}>
+                    <Text style={styles.deltaLabel}>{dimension.label}</Text>
+                    <Text style={styles.deltaScores}>
+                      {dimension.previous !== null ? toTenPoint(dimension.previous) : '-'} → {dimension.current !== null ? toTenPoint(dimension.current) : '-'}
+                    </Text>
+                    <Text style={[styles.deltaValue, { color: getDeltaColor(dimension.delta) }]}>
+                      {formatDelta(dimension.delta)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              {details.improved.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: '#047857' }]}>{t('comparison.improved')}</Text>
+                  {details.improved.map((item, index) => (
+                    <Text key={index} style={styles.listItem}>✅ {item}</Text>
+                  ))}
+                </View>
+              )}
+
+              {details.regressed.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: '#C2410C' }]}>{t('comparison.regressed')}</Text>
+                  {details.regressed.map((item, index) => (
+                    <Text key={index} style={styles.listItem}>⚠️ {item}</Text>
+                  ))}
+                </View>
+              )}
+
+              <Text style={styles.narrative}>{details.narrative}</Text>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    backgroundColor: 'white',
+    borderRadius: 20,
+    padding: 24,
+    width: Math.min(width - 40, 400),
+    maxWidth: '100%',
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  imagesRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  imageColumn: {
+    width: '48%',
+  },
+  imageLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  image: {
+    width: '100%',
+    height: 140,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  deltaTable: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  deltaLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  deltaScores: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginRight: 12,
+  },
+  deltaValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 40,
+    textAlign: 'right',
+  },
+  section: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  listItem: {
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  narrative: {
+    fontSize: 14,
+    color: '#6D28D9',
+    lineHeight: 20,
+  },
+});
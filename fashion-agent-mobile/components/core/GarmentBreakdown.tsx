@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { Shirt } from 'lucide-react-native';
+import type { Garment } from '../../services/api';
+import { useTranslation } from '../../hooks/useLocale';
+
+interface GarmentBreakdownProps {
+  garments: Garment[];
+  imageUri?: string | null;
+}
+
+// Photo with a tappable box per garment, and the selected garment's details below
+export function GarmentBreakdown({ garments, imageUri }: GarmentBreakdownProps) {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState(0);
+  // Boxes are fractions of the image, so the frame must have the image's own aspect ratio
+  const [aspectRatio, setAspectRatio] = useState(3 / 4);
+  const garment = garments[selected];
+
+  if (!garment) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <Shirt size={20} color="#FFD700" />
+        <Text style={styles.title}>{t('garments.title')}</Text>
+      </View>
+
+      {imageUri && (
+        <View style={[styles.imageFrame, { aspectRatio }]}>
+          <Image
+            source={{ uri: imageUri }}
+            style={styles.image}
+            onLoad={({ nativeEvent }) => {
+              const { width, height } = nativeEvent.source;
+              if (width > 0 && height > 0) setAspectRatio(width / height);
+            }}
+          />
+          {garments.map((item, index) => item.boundingBox && (
+            <TouchableOpacity
+              key={index}
+              accessibilityLabel={item.type}
+              onPress={() => setSelected(index)}
+              style={[
+                styles.box,
+                index === selected && styles.boxSelected,
+                {
+                  left: `${item.boundingBox.x * 100}%`,
+                  top: `${item.boundingBox.y * 100}%`,
+                  width: `${item.boundingBox.width * 100}%`,
+                  height: `${item.boundingBox.height * 100}%`,
+                },
+              ]}
+            >
+              <Text style={styles.boxLabel} numberOfLines={1}>{item.type}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Garments without a box are only reachable from here */}
+      <View style={styles.chips}>
+        {garments.map((item, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[styles.chip, index === selected && styles.chipSelected]}
+            onPress={() => setSelected(index)}
+          >
+            <Text style={[styles.chipText, index === selected && styles.chipTextSelected]}>{item.type}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.details}>
+        <View style={styles.detailsHeader}>
+          <Text style={styles.garmentType}>{garment.type}</Text>
+          {garment.score !== null && (
+            <Text style={styles.garmentScore}>{Math.round(garment.score / 10)}/10</Text>
+          )}
+        </View>
+
+        {garment.colors.length > 0 && (
+          <View style={styles.swatches}>
+            {garment.colors.map(color => (
+              <View key={color} style={styles.swatchItem}>
+                <View style={[styles.swatch, { backgroundColor: color }]} />
+                <Text style={styles.swatchText}>{color}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {(garment.pattern || garment.fabric) && (
+          <Text style={styles.garmentMeta}>
+            {[garment.pattern, garment.fabric].filter(Boolean).join(' · ')}
+          </Text>
+        )}
+
+        {garment.fitNotes && (
+          <Text style={styles.fitNotes}>{garment.fitNotes}</Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+    gap: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  imageFrame: {
+    width: '100%',
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: '#2D2D2D',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.7)',
+    borderRadius: 8,
+  },
+  boxSelected: {
+    borderColor: '#FFD700',
+    backgroundColor: 'rgba(255, 215, 0, 0.2)',
+  },
+  boxLabel: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    color: '#FFFFFF',
+    fontSize: 11,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderBottomRightRadius: 6,
+    textTransform: 'capitalize',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.4)',
+    backgroundColor: '#2D2D2D',
+  },
+  chipSelected: {
+    backgroundColor: '#FFD700',
+    borderColor: '#FFD700',
+  },
+  chipText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#111827',
+    fontWeight: '600',
+  },
+  details: {
+    backgroundColor: '#2D2D2D',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  detailsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  garmentType: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    textTransform: 'capitalize',
+  },
+  garmentScore: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFD700',
+  },
+  swatches: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  swatchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  swatch: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  swatchText: {
+    fontSize: 12,
+    color: '#B0B0B0',
+  },
+  garmentMeta: {
+    fontSize: 13,
+    color: '#B0B0B0',
+    textTransform: 'capitalize',
+  },
+  fitNotes: {
+    fontSize: 14,
+    color: '#E5E7EB',
+    lineHeight: 20,
+  },
+});
@@ -17,7 +17,12 @@ import { DripLogo } from '../ui/DripLogo';
 import Toast from 'react-native-toast-message';
 import { SecureImageUpload } from '../upload/SecureImageUpload';
 import { FeedbackModal } from './FeedbackModal';
-import { guestAPI } from '../../services/api';
+import { guestAPI, Garment, ColorPalette, ScoreCalibration } from '../../services/api';
+import { GarmentBreakdown } from './GarmentBreakdown';
+import { PaletteSwatches } from './PaletteSwatches';
+import { ReviewChat } from './ReviewChat';
+import { CalibrationBadge } from './CalibrationBadge';
+import { useTranslation } from '../../hooks/useLocale';
 import * as SecureStore from 'expo-secure-store';
 
 const { width } = Dimensions.get('window');
@@ -48,15 +53,20 @@ interface OutfitAnalysis {
   improvementSuggestions: string[];
   expertInsights?: string[];
   technicalFlaws?: string[];
+  garments?: Garment[];
+  colorPalette?: ColorPalette | null;
 }
 
 interface ReviewResult {
   reviewId: string;
   outfitAnalysis: OutfitAnalysis;
+  calibration?: ScoreCalibration | null;
   guestUsage?: GuestUsage;
+  imageUri?: string;
 }
 
 export function GuestOutfitReview() {
+  const { t } = useTranslation();
   const [result, setResult] = useState<ReviewResult | null>(null);
   const [guestUsage, setGuestUsage] = useState<GuestUsage>({ used: 0, limit: 3, remaining: 3 });
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
@@ -168,15 +178,15 @@ export function GuestOutfitReview() {
                 <View style={[styles.sparkleContainer, { backgroundColor: '#DC2626' }]}>
                   <AlertTriangle size={32} color="white" />
                 </View>
-                <Text style={styles.headerTitle}>No Outfit Detected</Text>
-                <Text style={styles.headerSubtitle}>We couldn't find substantial clothing to analyze in this image</Text>
+                <Text style={styles.headerTitle}>{t('analysis.noOutfitTitle')}</Text>
+                <Text style={styles.headerSubtitle}>{t('analysis.noOutfitSubtitle')}</Text>
                 
                 {guestUsage && (
                   <View style={styles.usageIndicator}>
-                    <Text style={styles.usageText}>Guest Reviews: </Text>
+                    <Text style={styles.usageText}>{t('analysis.guestReviews')}</Text>
                     <Text style={styles.usageCount}>{guestUsage.used}/{guestUsage.limit}</Text>
                     {guestUsage.remaining <= 1 && (
-                      <Text style={styles.usageRemaining}>({guestUsage.remaining} remaining)</Text>
+                      <Text style={styles.usageRemaining}>{t('analysis.remaining', { count: guestUsage.remaining })}</Text>
                     )}
                   </View>
                 )}
@@ -186,19 +196,19 @@ export function GuestOutfitReview() {
               <View style={[styles.card, { backgroundColor: '#FFF7ED', borderWidth: 1, borderColor: '#FDBA74' }]}>
                 <View style={styles.cardHeader}>
                   <AlertTriangle size={24} color="#F59E0B" />
-                  <Text style={[styles.cardTitle, { color: '#92400E' }]}>Fashion Analysis Not Possible</Text>
+                  <Text style={[styles.cardTitle, { color: '#92400E' }]}>{t('analysis.notPossible')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   <Text style={[styles.listText, { color: '#B45309' }]}>
-                    Our AI fashion expert needs to see actual clothing to provide analysis. This image appears to show:
+                    {t('analysis.notPossibleIntro')}
                   </Text>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#F59E0B' }]} />
-                    <Text style={[styles.listText, { color: '#B45309' }]}>No substantial clothing or garments visible</Text>
+                    <Text style={[styles.listText, { color: '#B45309' }]}>{t('analysis.noClothing')}</Text>
                   </View>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#F59E0B' }]} />
-                    <Text style={[styles.listText, { color: '#B45309' }]}>Insufficient outfit elements for fashion evaluation</Text>
+                    <Text style={[styles.listText, { color: '#B45309' }]}>{t('analysis.insufficient')}</Text>
                   </View>
                 </View>
               </View>
@@ -207,24 +217,24 @@ export function GuestOutfitReview() {
               <View style={[styles.card, { backgroundColor: '#EFF6FF', borderWidth: 1, borderColor: '#DBEAFE' }]}>
                 <View style={styles.cardHeader}>
                   <Lightbulb size={24} color="#2563EB" />
-                  <Text style={[styles.cardTitle, { color: '#1E40AF' }]}>For Best Results</Text>
+                  <Text style={[styles.cardTitle, { color: '#1E40AF' }]}>{t('analysis.bestResults')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#2563EB' }]} />
-                    <Text style={[styles.listText, { color: '#1E40AF' }]}>Upload a photo showing a complete outfit with clothing</Text>
+                    <Text style={[styles.listText, { color: '#1E40AF' }]}>{t('analysis.tipCompleteOutfit')}</Text>
                   </View>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#2563EB' }]} />
-                    <Text style={[styles.listText, { color: '#1E40AF' }]}>Include tops, bottoms, and accessories when possible</Text>
+                    <Text style={[styles.listText, { color: '#1E40AF' }]}>{t('analysis.tipPieces')}</Text>
                   </View>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#2563EB' }]} />
-                    <Text style={[styles.listText, { color: '#1E40AF' }]}>Make sure the full outfit is clearly visible</Text>
+                    <Text style={[styles.listText, { color: '#1E40AF' }]}>{t('analysis.tipVisible')}</Text>
                   </View>
                   <View style={styles.listItem}>
                     <View style={[styles.bullet, { backgroundColor: '#2563EB' }]} />
-                    <Text style={[styles.listText, { color: '#1E40AF' }]}>Use good lighting and a clear background</Text>
+                    <Text style={[styles.listText, { color: '#1E40AF' }]}>{t('analysis.tipLighting')}</Text>
                   </View>
                 </View>
               </View>
@@ -233,22 +243,22 @@ export function GuestOutfitReview() {
               <View style={styles.actionsContainer}>
                 <TouchableOpacity style={styles.primaryButton} onPress={startOver}>
                   <RefreshCw size={20} color="white" />
-                  <Text style={styles.primaryButtonText}>Upload New Outfit Photo</Text>
+                  <Text style={styles.primaryButtonText}>{t('analysis.uploadNew')}</Text>
                 </TouchableOpacity>
 
                 {guestUsage.remaining <= 1 && (
                   <View style={styles.upgradeCard}>
                     <Text style={styles.upgradeTitle}>
-                      {guestUsage.remaining === 0 ? 'All Reviews Used!' : 'Last Free Review!'}
+                      {guestUsage.remaining === 0 ? t('analysis.allUsed') : t('analysis.lastFree')}
                     </Text>
                     <Text style={styles.upgradeText}>
                       {guestUsage.remaining === 0 
-                        ? 'Sign up for unlimited outfit reviews and advanced features!'
-                        : 'You have 1 review left. Sign up for unlimited access!'
+                        ? t('analysis.allUsedBody')
+                        : t('analysis.lastFreeBody')
                       }
                     </Text>
                     <TouchableOpacity style={styles.upgradeButton}>
-                      <Text style={styles.upgradeButtonText}>Create Free Account</Text>
+                      <Text style={styles.upgradeButtonText}>{t('analysis.createAccount')}</Text>
                     </TouchableOpacity>
                   </View>
                 )}
@@ -275,15 +285,15 @@ export function GuestOutfitReview() {
               <View style={styles.sparkleContainer}>
                 <Sparkles size={32} color="#4F46E5" />
               </View>
-              <Text style={styles.headerTitle}>Analysis Complete!</Text>
-              <Text style={styles.headerSubtitle}>Here's your fashion breakdown</Text>
+              <Text style={styles.headerTitle}>{t('analysis.complete')}</Text>
+              <Text style={styles.headerSubtitle}>{t('analysis.completeSubtitle')}</Text>
               
               {guestUsage && (
                 <View style={styles.usageIndicator}>
-                  <Text style={styles.usageText}>Guest Reviews: </Text>
+                  <Text style={styles.usageText}>{t('analysis.guestReviews')}</Text>
                   <Text style={styles.usageCount}>{guestUsage.used}/{guestUsage.limit}</Text>
                   {guestUsage.remaining <= 1 && (
-                    <Text style={styles.usageRemaining}>({guestUsage.remaining} remaining)</Text>
+                    <Text style={styles.usageRemaining}>{t('analysis.remaining', { count: guestUsage.remaining })}</Text>
                   )}
                 </View>
               )}
@@ -294,20 +304,29 @@ export function GuestOutfitReview() {
               <View style={styles.scoreCircle}>
                 <Text style={styles.scoreGrade}>{getScoreGrade(outfitAnalysis.overallScore)}</Text>
               </View>
-              <Text style={styles.overallScoreTitle}>Overall Score</Text>
+              <Text style={styles.overallScoreTitle}>{t('analysis.overallScore')}</Text>
               <Text style={styles.overallScoreValue}>{convertScore(outfitAnalysis.overallScore)}/10</Text>
-              <Text style={styles.overallScoreSubtext}>Your outfit analysis breakdown</Text>
+              <Text style={styles.overallScoreSubtext}>{t('analysis.overallScoreSubtext')}</Text>
+              <CalibrationBadge calibration={result.calibration} style={styles.calibration} />
             </View>
 
+            {/* Garment Breakdown */}
+            {outfitAnalysis.garments && outfitAnalysis.garments.length > 0 && (
+              <GarmentBreakdown garments={outfitAnalysis.garments} imageUri={result.imageUri} />
+            )}
+
+            {/* Measured Palette */}
+            {outfitAnalysis.colorPalette && <PaletteSwatches palette={outfitAnalysis.colorPalette} />}
+
             {/* Core Assessment Tiles */}
             <View style={styles.tilesContainer}>
-              <Text style={styles.sectionTitle}>Core Assessments</Text>
+              <Text style={styles.sectionTitle}>{t('analysis.coreAssessments')}</Text>
               <View style={styles.tilesRow}>
                 <View style={styles.tile}>
                   <View style={styles.tileIconContainer}>
                     <Shirt size={24} color="white" />
                   </View>
-                  <Text style={styles.tileLabel}>Style Category</Text>
+                  <Text style={styles.tileLabel}>{t('dimension.styleCategory')}</Text>
                   <Text style={styles.tileValue}>{outfitAnalysis.styleCategory}</Text>
                   <View style={styles.tileScoreContainer}>
                     <Text style={styles.tileScore}>{convertScore(outfitAnalysis.styleCategoryScore)}/10</Text>
@@ -318,7 +337,7 @@ export function GuestOutfitReview() {
                   <View style={styles.tileIconContainer}>
                     <Target size={24} color="white" />
                   </View>
-                  <Text style={styles.tileLabel}>Technical Fit</Text>
+                  <Text style={styles.tileLabel}>{t('dimension.fit')}</Text>
                   <Text style={styles.tileValue}>{outfitAnalysis.fit}</Text>
                   <View style={styles.tileScoreContainer}>
                     <Text style={styles.tileScore}>{convertScore(outfitAnalysis.fitScore)}/10</Text>
@@ -331,7 +350,7 @@ export function GuestOutfitReview() {
                   <View style={styles.tileIconContainer}>
                     <Palette size={24} color="white" />
                   </View>
-                  <Text style={styles.tileLabel}>Color Theory</Text>
+                  <Text style={styles.tileLabel}>{t('dimension.colorHarmony')}</Text>
                   <Text style={styles.tileValue}>{outfitAnalysis.colorHarmony}</Text>
                   <View style={styles.tileScoreContainer}>
                     <Text style={styles.tileScore}>{convertScore(outfitAnalysis.colorHarmonyScore)}/10</Text>
@@ -342,7 +361,7 @@ export function GuestOutfitReview() {
                   <View style={styles.tileIconContainer}>
                     <Star size={24} color="white" />
                   </View>
-                  <Text style={styles.tileLabel}>Occasion</Text>
+                  <Text style={styles.tileLabel}>{t('dimension.occasion')}</Text>
                   <Text style={styles.tileValue}>{outfitAnalysis.occasionSuitability}</Text>
                   <View style={styles.tileScoreContainer}>
                     <Text style={styles.tileScore}>{convertScore(outfitAnalysis.occasionScore)}/10</Text>
@@ -353,12 +372,12 @@ export function GuestOutfitReview() {
 
             {/* Expert Analysis Tiles */}
             <View style={styles.tilesContainer}>
-              <Text style={styles.sectionTitle}>Expert Analysis</Text>
+              <Text style={styles.sectionTitle}>{t('analysis.expertAnalysis')}</Text>
               <View style={styles.expertTile}>
                 <View style={styles.tileIconContainer}>
                   <Scissors size={24} color="white" />
                 </View>
-                <Text style={styles.tileLabel}>Proportion & Visual Weight</Text>
+                <Text style={styles.tileLabel}>{t('dimension.proportion')}</Text>
                 <Text style={styles.tileValue}>{outfitAnalysis.proportionBalance}</Text>
                 <View style={styles.tileScoreContainer}>
                   <Text style={styles.tileScore}>{convertScore(outfitAnalysis.proportionScore)}/10</Text>
@@ -369,7 +388,7 @@ export function GuestOutfitReview() {
                 <View style={styles.tileIconContainer}>
                   <Layers size={24} color="white" />
                 </View>
-                <Text style={styles.tileLabel}>Fabric Synergy & Merit</Text>
+                <Text style={styles.tileLabel}>{t('dimension.fabric')}</Text>
                 <Text style={styles.tileValue}>{outfitAnalysis.fabricSynergy}</Text>
                 <View style={styles.tileScoreContainer}>
                   <Text style={styles.tileScore}>{convertScore(outfitAnalysis.fabricScore)}/10</Text>
@@ -380,7 +399,7 @@ export function GuestOutfitReview() {
                 <View style={styles.tileIconContainer}>
                   <Eye size={24} color="white" />
                 </View>
-                <Text style={styles.tileLabel}>Styling Sophistication</Text>
+                <Text style={styles.tileLabel}>{t('dimension.sophistication')}</Text>
                 <Text style={styles.tileValue}>{outfitAnalysis.stylingSophistication}</Text>
                 <View style={styles.tileScoreContainer}>
                   <Text style={styles.tileScore}>{convertScore(outfitAnalysis.sophisticationScore)}/10</Text>
@@ -393,7 +412,7 @@ export function GuestOutfitReview() {
               <View style={styles.card}>
                 <View style={styles.cardHeader}>
                   <TrendingUp size={24} color="#10B981" />
-                  <Text style={styles.cardTitle}>What's Working</Text>
+                  <Text style={styles.cardTitle}>{t('analysis.workingWell')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   {outfitAnalysis.highlights.map((highlight, index) => (
@@ -411,7 +430,7 @@ export function GuestOutfitReview() {
               <View style={[styles.card, { backgroundColor: '#F3E8FF', borderWidth: 1, borderColor: '#D8B4FE' }]}>
                 <View style={styles.cardHeader}>
                   <Lightbulb size={24} color="#7C3AED" />
-                  <Text style={[styles.cardTitle, { color: '#5B21B6' }]}>Expert Insights</Text>
+                  <Text style={[styles.cardTitle, { color: '#5B21B6' }]}>{t('analysis.expertInsights')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   {outfitAnalysis.expertInsights.map((insight, index) => (
@@ -429,7 +448,7 @@ export function GuestOutfitReview() {
               <View style={[styles.card, { backgroundColor: '#FFF7ED', borderWidth: 1, borderColor: '#FDBA74' }]}>
                 <View style={styles.cardHeader}>
                   <AlertTriangle size={24} color="#F59E0B" />
-                  <Text style={[styles.cardTitle, { color: '#92400E' }]}>Technical Analysis & Areas for Improvement</Text>
+                  <Text style={[styles.cardTitle, { color: '#92400E' }]}>{t('analysis.technicalFlaws')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   {outfitAnalysis.technicalFlaws.map((flaw, index) => (
@@ -447,7 +466,7 @@ export function GuestOutfitReview() {
               <View style={[styles.card, { backgroundColor: '#EFF6FF', borderWidth: 1, borderColor: '#DBEAFE' }]}>
                 <View style={styles.cardHeader}>
                   <Sparkles size={24} color="#2563EB" />
-                  <Text style={[styles.cardTitle, { color: '#1E40AF' }]}>Professional Recommendations</Text>
+                  <Text style={[styles.cardTitle, { color: '#1E40AF' }]}>{t('analysis.recommendations')}</Text>
                 </View>
                 <View style={styles.cardContent}>
                   {outfitAnalysis.improvementSuggestions.map((suggestion, index) => (
@@ -460,20 +479,23 @@ export function GuestOutfitReview() {
               </View>
             )}
 
+            {/* Follow-up Conversation */}
+            <ReviewChat reviewId={result.reviewId} />
+
             {/* Feedback Section */}
             {!feedbackGiven && (
               <View style={styles.card}>
                 <View style={styles.feedbackContent}>
                   <MessageCircle size={32} color="#4F46E5" />
-                  <Text style={styles.feedbackTitle}>How was your experience?</Text>
+                  <Text style={styles.feedbackTitle}>{t('analysis.feedbackQuestion')}</Text>
                   <Text style={styles.feedbackSubtext}>
-                    Your feedback helps us improve our AI fashion expert
+                    {t('analysis.feedbackHelps')}
                   </Text>
                   <TouchableOpacity
                     style={styles.feedbackButton}
                     onPress={() => setShowFeedbackModal(true)}
                   >
-                    <Text style={styles.feedbackButtonText}>Give Feedback</Text>
+                    <Text style={styles.feedbackButtonText}>{t('analysis.giveFeedback')}</Text>
                   </TouchableOpacity>
                 </View>
               </View>
@@ -484,9 +506,9 @@ export function GuestOutfitReview() {
                 <View style={styles.thankYouIcon}>
                   <Star size={24} color="#10B981" />
                 </View>
-                <Text style={styles.thankYouTitle}>Thank you!</Text>
+                <Text style={styles.thankYouTitle}>{t('analysis.thanks')}</Text>
                 <Text style={styles.thankYouText}>
-                  Your feedback helps us improve our fashion analysis
+                  {t('analysis.thanksBody')}
                 </Text>
               </View>
             )}
@@ -495,22 +517,22 @@ export function GuestOutfitReview() {
             <View style={styles.actionsContainer}>
               <TouchableOpacity style={styles.primaryButton} onPress={startOver}>
                 <RefreshCw size={20} color="white" />
-                <Text style={styles.primaryButtonText}>Analyze Another Outfit</Text>
+                <Text style={styles.primaryButtonText}>{t('analysis.analyzeAnother')}</Text>
               </TouchableOpacity>
 
               {guestUsage.remaining <= 1 && (
                 <View style={styles.upgradeCard}>
                   <Text style={styles.upgradeTitle}>
-                    {guestUsage.remaining === 0 ? 'All Reviews Used!' : 'Last Free Review!'}
+                    {guestUsage.remaining === 0 ? t('analysis.allUsed') : t('analysis.lastFree')}
                   </Text>
                   <Text style={styles.upgradeText}>
                     {guestUsage.remaining === 0 
-                      ? 'Sign up for unlimited outfit reviews and advanced features!'
-                      : 'You have 1 review left. Sign up for unlimited access!'
+                      ? t('analysis.allUsedBody')
+                      : t('analysis.lastFreeBody')
                     }
                   </Text>
                   <TouchableOpacity style={styles.upgradeButton}>
-                    <Text style={styles.upgradeButtonText}>Create Free Account</Text>
+                    <Text style={styles.upgradeButtonText}>{t('analysis.createAccount')}</Text>
                   </TouchableOpacity>
                 </View>
               )}
@@ -551,12 +573,12 @@ export function GuestOutfitReview() {
                 accentColor="#E6B800"
               />
             </View>
-            <Text style={styles.headerMainTitle}>👑 Fashion Agent</Text>
-            <Text style={styles.headerMainSubtitle}>✨ Premium AI Style Expert ✨</Text>
+            <Text style={styles.headerMainTitle}>{t('home.title')}</Text>
+            <Text style={styles.headerMainSubtitle}>{t('home.subtitle')}</Text>
             
             {/* Guest Usage Indicator */}
             <View style={styles.usageIndicatorMain}>
-              <Text style={styles.usageMainLabel}>Free Reviews:</Text>
+              <Text style={styles.usageMainLabel}>{t('home.freeReviews')}</Text>
               <View style={styles.usageDots}>
                 {[...Array(3)].map((_, i) => (
                   <View
@@ -568,7 +590,7 @@ export function GuestOutfitReview() {
                   />
                 ))}
               </View>
-              <Text style={styles.usageMainCount}>{guestUsage.remaining} left</Text>
+              <Text style={styles.usageMainCount}>{t('home.left', { count: guestUsage.remaining })}</Text>
             </View>
           </View>
 
@@ -579,23 +601,23 @@ export function GuestOutfitReview() {
 
           {/* Tips Section */}
           <View style={styles.card}>
-            <Text style={styles.tipsTitle}>📸 Tips for Best Results</Text>
+            <Text style={styles.tipsTitle}>{t('home.tipsTitle')}</Text>
             <View style={styles.tipsGrid}>
               <View style={styles.tipItem}>
                 <View style={styles.tipBullet} />
-                <Text style={styles.tipText}>Full-body photo in good lighting</Text>
+                <Text style={styles.tipText}>{t('home.tipFullBody')}</Text>
               </View>
               <View style={styles.tipItem}>
                 <View style={styles.tipBullet} />
-                <Text style={styles.tipText}>Plain background works best</Text>
+                <Text style={styles.tipText}>{t('home.tipBackground')}</Text>
               </View>
               <View style={styles.tipItem}>
                 <View style={styles.tipBullet} />
-                <Text style={styles.tipText}>Show your complete outfit clearly</Text>
+                <Text style={styles.tipText}>{t('home.tipOutfit')}</Text>
               </View>
               <View style={styles.tipItem}>
                 <View style={styles.tipBullet} />
-                <Text style={styles.tipText}>Avoid heavy filters or editing</Text>
+                <Text style={styles.tipText}>{t('home.tipFilters')}</Text>
               </View>
             </View>
           </View>
@@ -789,6 +811,10 @@ const styles = StyleSheet.create({
     color: '#D1D5DB',
     textAlign: 'center',
   },
+  calibration: {
+    alignSelf: 'center',
+    marginTop: 12,
+  },
   tilesContainer: {
     paddingHorizontal: 20,
     marginBottom: 24,
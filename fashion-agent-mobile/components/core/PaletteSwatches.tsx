@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Palette } from 'lucide-react-native';
+import type { ColorPalette } from '../../services/api';
+import { useTranslation } from '../../hooks/useLocale';
+
+interface PaletteSwatchesProps {
+  palette: ColorPalette;
+}
+
+// Colors measured from the photo: a bar sized by share, then one chip per color
+export function PaletteSwatches({ palette }: PaletteSwatchesProps) {
+  const { t } = useTranslation();
+
+  if (palette.swatches.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <Palette size={20} color="#FFD700" />
+        <Text style={styles.title}>{t('palette.title')}</Text>
+        <Text style={styles.harmony}>{t(`harmony.${palette.harmony}`)}</Text>
+      </View>
+
+      <View style={styles.bar}>
+        {palette.swatches.map((swatch) => (
+          <View key={swatch.hex} style={{ flex: swatch.share, backgroundColor: swatch.hex }} />
+        ))}
+      </View>
+
+      <View style={styles.chips}>
+        {palette.swatches.map((swatch) => (
+          <View key={swatch.hex} style={styles.chip}>
+            <View style={[styles.chipColor, { backgroundColor: swatch.hex }]} />
+            <Text style={styles.chipText}>
+              {swatch.hex} · {Math.round(swatch.share * 100)}%
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+    gap: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  harmony: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#B0B0B0',
+    textTransform: 'capitalize',
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 32,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#2D2D2D',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: '#2D2D2D',
+  },
+  chipColor: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+});
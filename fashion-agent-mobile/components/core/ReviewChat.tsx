@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { MessageCircle, Send } from 'lucide-react-native';
+import Toast from 'react-native-toast-message';
+import { fashionAPI, ReviewMessage } from '../../services/api';
+import { useTranslation } from '../../hooks/useLocale';
+import type { MessageKey } from '../../locales';
+
+interface ReviewChatProps {
+  reviewId: string;
+}
+
+const SUGGESTED_QUESTIONS: MessageKey[] = ['chat.suggestShoes', 'chat.suggestFormal', 'chat.suggestChange'];
+
+const MESSAGE_MAX_LENGTH = 1000;
+
+// Follow-up questions about a review, answered with its analysis and photo in mind
+export function ReviewChat({ reviewId }: ReviewChatProps) {
+  const { t } = useTranslation();
+  const [messages, setMessages] = useState<ReviewMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fashionAPI.getMessages(reviewId)
+      .then((response) => setMessages(response.data.messages))
+      .catch((error) => console.error('Failed to load conversation:', error));
+  }, [reviewId]);
+
+  const send = async (content: string) => {
+    const question = content.trim();
+    if (!question || sending) return;
+
+    try {
+      setSending(true);
+      const response = await fashionAPI.sendMessage(reviewId, question);
+      setMessages((current) => [...current, response.data.question, response.data.reply]);
+      setDraft('');
+    } catch (error: any) {
+      console.error('Chat error:', error);
+      // Limits come back as 429 with their own message; the API layer already shows a generic toast for them
+      if (error.response?.data?.code === 'MESSAGE_LIMIT_REACHED' || error.response?.data?.code === 'THREAD_LIMIT_REACHED') {
+        Toast.show({ type: 'info', text1: t('chat.limitReached'), text2: error.response.data.error });
+      } else if (error.response?.status !== 429) {
+        Toast.show({ type: 'error', text1: t('chat.noAnswer'), text2: error.response?.data?.error || t('chat.tryAgain') });
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <MessageCircle size={20} color="#FFD700" />
+        <Text style={styles.title}>{t('chat.title')}</Text>
+      </View>
+
+      {messages.length === 0 && !sending ? (
+        <View style={styles.suggestions}>
+          {SUGGESTED_QUESTIONS.map((key) => (
+            <TouchableOpacity key={key} style={styles.suggestion} onPress={() => send(t(key))}>
+              <Text style={styles.suggestionText}>{t(key)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.thread}>
+          {messages.map((message) => (
+            <View
+              key={message.id}
+              style={[styles.bubble, message.role === 'user' ? styles.userBubble : styles.assistantBubble]}
+            >
+              <Text style={message.role === 'user' ? styles.userText : styles.assistantText}>{message.content}</Text>
+            </View>
+          ))}
+          {sending && (
+            <View style={[styles.bubble, styles.assistantBubble, styles.thinking]}>
+              <ActivityIndicator size="small" color="#FFD700" />
+              <Text style={styles.assistantText}>{t('chat.thinking')}</Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder={t('chat.placeholder')}
+          placeholderTextColor="#B0B0B0"
+          maxLength={MESSAGE_MAX_LENGTH}
+          editable={!sending}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || sending) && styles.sendButtonDisabled]}
+          onPress={() => send(draft)}
+          disabled={!draft.trim() || sending}
+          accessibilityLabel={t('chat.send')}
+        >
+          <Send size={18} color="#2D2D2D" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+    gap: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  suggestion: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#FFD700',
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: '#2D2D2D',
+  },
+  thread: {
+    gap: 8,
+  },
+  bubble: {
+    maxWidth: '85%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#FFD700',
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#2D2D2D',
+  },
+  thinking: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  userText: {
+    fontSize: 14,
+    color: '#2D2D2D',
+  },
+  assistantText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+    lineHeight: 20,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    minHeight: 44,
+    maxHeight: 120,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#2D2D2D',
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#FFD700',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
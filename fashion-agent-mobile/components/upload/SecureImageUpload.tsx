@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -11,13 +11,37 @@ import {
   Platform,
   TextInput,
   Linking,
+  ScrollView,
 } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
-import { Camera, Upload, X, Settings } from 'lucide-react-native';
+import { Camera, Upload, X, Settings, Plus } from 'lucide-react-native';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Crypto from 'expo-crypto';
 import Toast from 'react-native-toast-message';
-import { guestAPI } from '../../services/api';
+import {
+  fashionAPI,
+  streamAnalysisEvents,
+  AnalysisStage,
+  AnalysisTarget,
+  ReviewerVoice,
+  Garment,
+  ColorPalette,
+  ScoreCalibration,
+  PrivacyMode,
+  ImageRole,
+  OCCASIONS,
+  SEASONS,
+  CLIMATES,
+  PERSONAS,
+  TONES,
+} from '../../services/api';
+import { useTranslation } from '../../hooks/useLocale';
+import type { MessageKey } from '../../locales';
+
+type ExtraViewRole = Exclude<ImageRole, 'front'>;
+
+// Optional angles offered next to the main photo
+const EXTRA_VIEW_ROLES: ExtraViewRole[] = ['side', 'back', 'shoes', 'detail'];
 
 const { width } = Dimensions.get('window');
 
@@ -41,6 +65,8 @@ interface OutfitAnalysis {
   improvementSuggestions: string[];
   expertInsights?: string[];
   technicalFlaws?: string[];
+  garments?: Garment[];
+  colorPalette?: ColorPalette | null;
 }
 
 interface GuestUsage {
@@ -51,10 +77,27 @@ interface GuestUsage {
 
 interface ReviewResult {
   reviewId: string;
+  analysisStatus?: string;
+  cache?: { status: string | null; hit: boolean };
   outfitAnalysis: OutfitAnalysis;
+  calibration?: ScoreCalibration | null;
   guestUsage?: GuestUsage;
+  // Photo that was analyzed (the redacted copy in privacy mode), for garment overlays
+  imageUri?: string;
 }
 
+const STAGE_LABELS: Record<AnalysisStage, MessageKey> = {
+  uploaded: 'stage.uploaded',
+  image_preprocessed: 'stage.preparing',
+  queued: 'stage.queued',
+  model_started: 'stage.reviewing',
+  partial: 'stage.reviewing',
+  repair_started: 'stage.repairing',
+  retry_scheduled: 'stage.retrying',
+  persisted: 'stage.saving',
+  failed: 'stage.failed',
+};
+
 interface SecureImageUploadProps {
   onAnalysisComplete?: (result: ReviewResult) => void;
   onUploadProgress?: (progress: number) => void;
@@ -64,11 +107,55 @@ export function SecureImageUpload({
   onAnalysisComplete, 
   onUploadProgress 
 }: SecureImageUploadProps) {
+  const { t } = useTranslation();
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [description, setDescription] = useState('');
+  const [extraViews, setExtraViews] = useState<Partial<Record<ExtraViewRole, string>>>({});
+  const [target, setTarget] = useState<AnalysisTarget>({});
+  const [voice, setVoice] = useState<ReviewerVoice>({});
   const [analyzing, setAnalyzing] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [imageInfo, setImageInfo] = useState<any>(null);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | null>(null);
+  const [partialFields, setPartialFields] = useState<Partial<OutfitAnalysis>>({});
+  // null: not chosen here, the server applies the profile setting
+  const [privacyMode, setPrivacyMode] = useState<PrivacyMode | null>(null);
+  const [redactedPreview, setRedactedPreview] = useState<{ image: string; facesRedacted: number; privacyMode: PrivacyMode } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  // Show exactly what will be stored when faces are blurred or cropped out
+  useEffect(() => {
+    setRedactedPreview(null);
+    if (!selectedImage || !privacyMode || privacyMode === 'off') {
+      return;
+    }
+
+    let cancelled = false;
+    setPreviewing(true);
+    fashionAPI.privacyPreview(selectedImage, privacyMode)
+      .then(response => {
+        if (!cancelled) setRedactedPreview(response.data);
+      })
+      .catch(error => {
+        console.error('Privacy preview error:', error);
+        if (!cancelled) {
+          Toast.show({
+            type: 'error',
+            text1: t('upload.previewFailedTitle'),
+            text2: error.response?.data?.error || t('upload.previewFailed'),
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedImage, privacyMode]);
+
+  const awaitingPreview = privacyMode !== null && privacyMode !== 'off' && !redactedPreview;
 
   // Security: Validate image before processing
   const validateImage = async (uri: string): Promise<boolean> => {
@@ -76,13 +163,13 @@ export function SecureImageUpload({
       // Check file size (max 10MB)
       const fileInfo = await FileSystem.getInfoAsync(uri);
       if (!fileInfo.exists) {
-        Alert.alert('Error', 'Image file not found');
+        Alert.alert(t('common.error'), t('upload.fileNotFound'));
         return false;
       }
 
       const maxSize = 10 * 1024 * 1024; // 10MB
       if (fileInfo.size > maxSize) {
-        Alert.alert('Error', 'Image file is too large. Please choose a smaller image (max 10MB).');
+        Alert.alert(t('common.error'), t('upload.fileTooLarge'));
         return false;
       }
 
@@ -91,7 +178,7 @@ export function SecureImageUpload({
       const fileExtension = uri.toLowerCase().split('.').pop();
       
       if (!fileExtension || !allowedExtensions.includes(`.${fileExtension}`)) {
-        Alert.alert('Error', 'Please select a valid image file (JPG, PNG, GIF, WEBP).');
+        Alert.alert(t('common.error'), t('upload.invalidType'));
         return false;
       }
 
@@ -103,7 +190,7 @@ export function SecureImageUpload({
       return true;
     } catch (error) {
       console.error('Image validation error:', error);
-      Alert.alert('Error', 'Failed to validate image file.');
+      Alert.alert(t('common.error'), t('upload.validateFailed'));
       return false;
     }
   };
@@ -124,12 +211,12 @@ export function SecureImageUpload({
 
       if (status !== 'granted') {
         Alert.alert(
-          '📸 Camera Permission Required',
-          'Fashion Agent needs camera access to capture outfit photos for analysis. Please enable camera permissions in your device settings.',
+          t('upload.cameraPermissionTitle'),
+          t('upload.cameraPermission'),
           [
-            { text: 'Cancel', style: 'cancel' },
+            { text: t('common.cancel'), style: 'cancel' },
             {
-              text: 'Open Settings',
+              text: t('upload.openSettings'),
               onPress: openSettings,
               style: 'default'
             },
@@ -141,7 +228,7 @@ export function SecureImageUpload({
       return true;
     } catch (error) {
       console.error('Camera permission error:', error);
-      Alert.alert('Error', 'Failed to request camera permissions.');
+      Alert.alert(t('common.error'), t('upload.cameraPermissionFailed'));
       return false;
     }
   };
@@ -153,12 +240,12 @@ export function SecureImageUpload({
 
       if (status !== 'granted') {
         Alert.alert(
-          '📱 Photo Library Permission Required',
-          'Fashion Agent needs access to your photo library to analyze your outfit photos. Please enable photo library permissions in your device settings.',
+          t('upload.libraryPermissionTitle'),
+          t('upload.libraryPermission'),
           [
-            { text: 'Cancel', style: 'cancel' },
+            { text: t('common.cancel'), style: 'cancel' },
             {
-              text: 'Open Settings',
+              text: t('upload.openSettings'),
               onPress: openSettings,
               style: 'default'
             },
@@ -170,7 +257,7 @@ export function SecureImageUpload({
       return true;
     } catch (error) {
       console.error('Media library permission error:', error);
-      Alert.alert('Error', 'Failed to request photo library permissions.');
+      Alert.alert(t('common.error'), t('upload.libraryPermissionFailed'));
       return false;
     }
   };
@@ -199,15 +286,36 @@ export function SecureImageUpload({
           
           Toast.show({
             type: 'success',
-            text1: 'Image Selected',
-            text2: 'Ready for outfit analysis',
+            text1: t('upload.imageSelected'),
+            text2: t('upload.ready'),
             visibilityTime: 2000,
           });
         }
       }
     } catch (error) {
       console.error('Image picker error:', error);
-      Alert.alert('Error', 'Failed to select image from library.');
+      Alert.alert(t('common.error'), t('upload.selectFailed'));
+    }
+  };
+
+  // Extra angles come from the library; they go through the same validation as the main photo
+  const pickExtraView = async (role: ExtraViewRole) => {
+    try {
+      const hasPermission = await requestMediaLibraryPermissions();
+      if (!hasPermission) return;
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+        exif: false, // Remove EXIF data for privacy
+      });
+
+      if (!result.canceled && result.assets[0] && await validateImage(result.assets[0].uri)) {
+        setExtraViews(views => ({ ...views, [role]: result.assets[0].uri }));
+      }
+    } catch (error) {
+      console.error('Image picker error:', error);
+      Alert.alert(t('common.error'), t('upload.selectFailed'));
     }
   };
 
@@ -234,22 +342,22 @@ export function SecureImageUpload({
           
           Toast.show({
             type: 'success',
-            text1: 'Photo Captured',
-            text2: 'Ready for outfit analysis',
+            text1: t('upload.photoCaptured'),
+            text2: t('upload.ready'),
             visibilityTime: 2000,
           });
         }
       }
     } catch (error) {
       console.error('Camera capture error:', error);
-      Alert.alert('Error', 'Failed to capture photo.');
+      Alert.alert(t('common.error'), t('upload.captureFailed'));
     }
   };
 
   // Secure outfit analysis with progress tracking
   const analyzeOutfit = async () => {
     if (!selectedImage) {
-      Alert.alert('Error', 'Please select or capture an image first.');
+      Alert.alert(t('common.error'), t('upload.selectFirst'));
       return;
     }
 
@@ -265,43 +373,83 @@ export function SecureImageUpload({
         onUploadProgress?.(progress);
       };
 
-      // Call guest API with progress tracking
-      const response = await guestAPI.uploadImage(
+      // Queue the analysis, then follow it over the progress stream
+      const response = await fashionAPI.queueAnalysis(
         selectedImage, 
         description.trim() || undefined, 
-        progressCallback
+        progressCallback,
+        privacyMode ?? undefined,
+        target,
+        EXTRA_VIEW_ROLES.flatMap(role => {
+          const uri = extraViews[role];
+          return uri ? [{ role, uri }] : [];
+        }),
+        voice
       );
-      
-      if (response.data) {
-        const analysisResult: ReviewResult = response.data;
-        
-        console.log('✅ Analysis completed successfully');
-        
-        // Check for "no outfit" case
-        if (analysisResult.outfitAnalysis.styleCategory === 'no outfit' || analysisResult.outfitAnalysis.overallScore === 0) {
-          Toast.show({
-            type: 'error',
-            text1: 'No Outfit Detected',
-            text2: 'Please upload an image with clothing to analyze',
-            visibilityTime: 4000,
-          });
-        } else {
-          // Convert to 10-point scale for display
-          const convertedScore = Math.round(analysisResult.outfitAnalysis.overallScore / 10);
-          Toast.show({
-            type: 'success',
-            text1: 'Analysis Complete!',
-            text2: `Your outfit scored ${convertedScore}/10`,
-            visibilityTime: 3000,
-          });
+      const { reviewId, guestUsage } = response.data;
+      setUploadProgress(0);
+
+      let analysisResult: ReviewResult | null = null;
+      let failed = false;
+
+      try {
+        await streamAnalysisEvents(reviewId, (event) => {
+          setAnalysisStage(event.stage);
+          if (event.stage === 'partial') {
+            setPartialFields(fields => ({ ...fields, ...event.data?.fields }));
+          } else if (event.stage === 'retry_scheduled') {
+            setPartialFields({});
+          } else if (event.stage === 'persisted') {
+            analysisResult = { reviewId, guestUsage, ...event.data } as ReviewResult;
+          } else if (event.stage === 'failed') {
+            failed = true;
+          }
+        }).done;
+      } catch (streamError) {
+        console.warn('⚠️ Progress stream unavailable, polling instead:', streamError);
+      }
+
+      // Fall back to long-polling if the stream ended without a final event
+      if (!analysisResult && !failed) {
+        let status = (await fashionAPI.getAnalysisStatus(reviewId, 20)).data;
+        for (let attempt = 0; !status.done && attempt < 15; attempt++) {
+          status = (await fashionAPI.getAnalysisStatus(reviewId, 20)).data;
         }
+        if (status.done && status.analysisStatus !== 'failed') {
+          analysisResult = status;
+        }
+      }
 
-        // Call completion callback
-        onAnalysisComplete?.(analysisResult);
-        
-        // Clear the form
-        clearForm();
+      if (!analysisResult) {
+        throw new Error(t('upload.notAnalyzed'));
+      }
+
+      console.log('✅ Analysis completed successfully');
+      
+      // Check for "no outfit" case
+      if (analysisResult.outfitAnalysis.styleCategory === 'no outfit' || analysisResult.outfitAnalysis.overallScore === 0) {
+        Toast.show({
+          type: 'error',
+          text1: t('upload.noOutfitTitle'),
+          text2: t('upload.noOutfitBody'),
+          visibilityTime: 4000,
+        });
+      } else {
+        // Convert to 10-point scale for display
+        const convertedScore = Math.round(analysisResult.outfitAnalysis.overallScore / 10);
+        Toast.show({
+          type: 'success',
+          text1: analysisResult.cache?.hit ? t('upload.cacheHit') : t('upload.complete'),
+          text2: t('upload.scored', { score: convertedScore }),
+          visibilityTime: 3000,
+        });
       }
+
+      // Call completion callback
+      onAnalysisComplete?.({ ...analysisResult, imageUri: redactedPreview?.image ?? selectedImage });
+      
+      // Clear the form
+      clearForm();
     } catch (error: any) {
       console.error('❌ Analysis failed:', error);
       
@@ -310,31 +458,62 @@ export function SecureImageUpload({
       if (errorData?.code === 'LIMIT_REACHED') {
         Toast.show({
           type: 'error',
-          text1: 'Review Limit Reached',
+          text1: t('upload.limitReached'),
           text2: errorData.message,
         });
-        Alert.alert('Review Limit Reached', errorData.message);
+        Alert.alert(t('upload.limitReached'), errorData.message);
+      } else if (errorData?.code === 'CONTENT_REJECTED' || errorData?.code === 'CONTENT_QUARANTINED') {
+        const moderationId = errorData.moderationId;
+        // imageRole names the refused photo when several angles were sent
+        const refused = errorData.imageRole && errorData.imageRole !== 'front'
+          ? t('upload.refusedPhoto', { role: t(`imageRole.${errorData.imageRole as ImageRole}`) })
+          : '';
+        Alert.alert(t('upload.notAccepted'), `${refused}${errorData.error}`, [
+          { text: t('common.ok'), style: 'cancel' },
+          {
+            text: t('upload.appeal'),
+            onPress: () => {
+              fashionAPI.appealModeration(moderationId)
+                .then(() => Toast.show({
+                  type: 'success',
+                  text1: t('upload.appealSent'),
+                  text2: t('upload.appealSentBody'),
+                }))
+                .catch(() => Toast.show({
+                  type: 'error',
+                  text1: t('upload.appealFailed'),
+                  text2: t('upload.appealFailedBody'),
+                }));
+            },
+          },
+        ]);
       } else {
         const errorMessage = errorData?.error || 
                             error.message || 
-                            'Analysis failed. Please try again.';
+                            t('upload.failed');
         
         Toast.show({
           type: 'error',
-          text1: 'Analysis Failed',
+          text1: t('upload.failedTitle'),
           text2: errorMessage,
         });
       }
     } finally {
       setAnalyzing(false);
       setUploadProgress(0);
+      setAnalysisStage(null);
+      setPartialFields({});
     }
   };
 
   // Clear form
   const clearForm = () => {
     setSelectedImage(null);
+    setRedactedPreview(null);
     setDescription('');
+    setTarget({});
+    setVoice({});
+    setExtraViews({});
     setImageInfo(null);
     setUploadProgress(0);
   };
@@ -342,6 +521,8 @@ export function SecureImageUpload({
   // Clear selected image
   const clearImage = () => {
     setSelectedImage(null);
+    setExtraViews({});
+    setRedactedPreview(null);
     setImageInfo(null);
     setUploadProgress(0);
   };
@@ -352,8 +533,8 @@ export function SecureImageUpload({
         {/* Upload Area */}
         <View style={styles.uploadArea}>
           <Camera size={48} color="#FFD700" />
-          <Text style={styles.uploadTitle}>👑 Upload Your Outfit</Text>
-          <Text style={styles.uploadSubtext}>✨ Choose or capture your style ✨</Text>
+          <Text style={styles.uploadTitle}>{t('upload.title')}</Text>
+          <Text style={styles.uploadSubtext}>{t('upload.subtitle')}</Text>
         </View>
 
         {/* Action Buttons */}
@@ -364,7 +545,7 @@ export function SecureImageUpload({
             disabled={analyzing}
           >
             <Upload size={20} color="white" />
-            <Text style={styles.buttonText}>Choose Photo</Text>
+            <Text style={styles.buttonText}>{t('upload.choosePhoto')}</Text>
           </TouchableOpacity>
           
           <TouchableOpacity 
@@ -373,7 +554,7 @@ export function SecureImageUpload({
             disabled={analyzing}
           >
             <Camera size={20} color="white" />
-            <Text style={styles.buttonText}>Take Photo</Text>
+            <Text style={styles.buttonText}>{t('upload.takePhoto')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -384,7 +565,21 @@ export function SecureImageUpload({
     <View style={styles.container}>
       {/* Image Preview */}
       <View style={styles.imagePreview}>
-        <Image source={{ uri: selectedImage }} style={styles.image} />
+        <Image source={{ uri: redactedPreview?.image ?? selectedImage }} style={styles.image} />
+        {previewing && (
+          <View style={styles.previewOverlay}>
+            <ActivityIndicator size="small" color="#FFD700" />
+          </View>
+        )}
+        {redactedPreview && (
+          <Text style={styles.redactionBadge}>
+            {redactedPreview.facesRedacted === 0
+              ? t('upload.noFaces')
+              : redactedPreview.privacyMode === 'crop'
+                ? t(redactedPreview.facesRedacted === 1 ? 'upload.faceCropped' : 'upload.facesCropped', { count: redactedPreview.facesRedacted })
+                : t(redactedPreview.facesRedacted === 1 ? 'upload.faceBlurred' : 'upload.facesBlurred', { count: redactedPreview.facesRedacted })}
+          </Text>
+        )}
         <TouchableOpacity 
           style={styles.clearButton} 
           onPress={clearImage}
@@ -393,20 +588,123 @@ export function SecureImageUpload({
         </TouchableOpacity>
       </View>
 
+      {/* Extra Angles: side and back views help fit and proportion, close-ups help fabric and shoes */}
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('upload.moreAngles')}</Text>
+        <View style={styles.viewSlots}>
+          {EXTRA_VIEW_ROLES.map((role) => {
+            const uri = extraViews[role];
+            return (
+              <View key={role} style={styles.viewSlot}>
+                {uri ? (
+                  <View style={styles.viewSlotImageContainer}>
+                    <Image source={{ uri }} style={styles.viewSlotImage} />
+                    <TouchableOpacity
+                      style={styles.viewSlotClear}
+                      onPress={() => setExtraViews(views => ({ ...views, [role]: undefined }))}
+                      disabled={analyzing}
+                    >
+                      <X size={12} color="white" />
+                    </TouchableOpacity>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={styles.viewSlotEmpty} onPress={() => pickExtraView(role)} disabled={analyzing}>
+                    <Plus size={20} color="#FFD700" />
+                  </TouchableOpacity>
+                )}
+                <Text style={styles.viewSlotLabel}>{t(`imageRole.${role}`)}</Text>
+              </View>
+            );
+          })}
+        </View>
+      </View>
+
       {/* Description Input */}
       <View style={styles.inputContainer}>
-        <Text style={styles.inputLabel}>Tell us about this outfit (optional)</Text>
+        <Text style={styles.inputLabel}>{t('upload.description')}</Text>
         <TextInput
           style={styles.textInput}
           value={description}
           onChangeText={setDescription}
-          placeholder="Special occasion, style goals, or anything else you'd like our AI to consider..."
+          placeholder={t('upload.descriptionPlaceholder')}
           multiline
           numberOfLines={4}
+          maxLength={500}
           textAlignVertical="top"
         />
       </View>
 
+      {/* Occasion Target: tap a selected chip again to clear it */}
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('upload.target')}</Text>
+        {([
+          ['occasion', OCCASIONS],
+          ['season', SEASONS],
+          ['climate', CLIMATES],
+        ] as const).map(([field, values]) => (
+          <ScrollView key={field} horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.targetChips}>
+            {values.map((value) => {
+              const selected = target[field] === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.targetChip, selected && styles.privacyOptionSelected]}
+                  onPress={() => setTarget({ ...target, [field]: selected ? undefined : value })}
+                  disabled={analyzing}
+                >
+                  <Text style={[styles.privacyOptionText, selected && styles.privacyOptionTextSelected]}>{t(`${field}.${value}` as MessageKey)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        ))}
+      </View>
+
+      {/* Reviewer Voice: unset parts use the profile setting */}
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('upload.voice')}</Text>
+        {([
+          ['persona', PERSONAS],
+          ['tone', TONES],
+        ] as const).map(([field, values]) => (
+          <ScrollView key={field} horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.targetChips}>
+            {values.map((value) => {
+              const selected = voice[field] === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.targetChip, selected && styles.privacyOptionSelected]}
+                  onPress={() => setVoice({ ...voice, [field]: selected ? undefined : value })}
+                  disabled={analyzing}
+                >
+                  <Text style={[styles.privacyOptionText, selected && styles.privacyOptionTextSelected]}>{t(`${field}.${value}` as MessageKey)}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        ))}
+        <Text style={styles.voiceHint}>{t('upload.voiceHint')}</Text>
+      </View>
+
+      {/* Privacy Mode */}
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('upload.privacyMode')}</Text>
+        <View style={styles.privacyOptions}>
+          {([['off', 'upload.privacyOff'], ['blur', 'upload.privacyBlur'], ['crop', 'upload.privacyCrop']] as const).map(([mode, label]) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.privacyOption, privacyMode === mode && styles.privacyOptionSelected]}
+              onPress={() => setPrivacyMode(mode)}
+              disabled={analyzing}
+            >
+              <Text style={[styles.privacyOptionText, privacyMode === mode && styles.privacyOptionTextSelected]}>
+                {t(label)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       {/* Upload Progress */}
       {analyzing && uploadProgress > 0 && (
         <View style={styles.progressContainer}>
@@ -418,26 +716,45 @@ export function SecureImageUpload({
               ]} 
             />
           </View>
-          <Text style={styles.progressText}>Analyzing your style... {uploadProgress}%</Text>
+          <Text style={styles.progressText}>{t('upload.uploadingPercent', { progress: uploadProgress })}</Text>
+        </View>
+      )}
+
+      {/* Live Analysis Progress */}
+      {analyzing && analysisStage && (
+        <View style={styles.progressContainer}>
+          <Text style={styles.progressText}>{t(STAGE_LABELS[analysisStage])}</Text>
+          {partialFields.styleCategory && (
+            <Text style={styles.partialText}>{t('upload.partialStyle', { style: partialFields.styleCategory })}</Text>
+          )}
+          {typeof partialFields.fitScore === 'number' && (
+            <Text style={styles.partialText}>{t('upload.partialFit', { score: Math.round(partialFields.fitScore / 10) })}</Text>
+          )}
+          {typeof partialFields.colorHarmonyScore === 'number' && (
+            <Text style={styles.partialText}>{t('upload.partialColor', { score: Math.round(partialFields.colorHarmonyScore / 10) })}</Text>
+          )}
+          {partialFields.highlights && partialFields.highlights.length > 0 && (
+            <Text style={styles.partialText}>✨ {partialFields.highlights[0]}</Text>
+          )}
         </View>
       )}
 
       {/* Analyze Button */}
       <TouchableOpacity
-        style={[styles.analyzeButton, analyzing && styles.disabledButton]}
+        style={[styles.analyzeButton, (analyzing || awaitingPreview) && styles.disabledButton]}
         onPress={analyzeOutfit}
-        disabled={analyzing}
+        disabled={analyzing || awaitingPreview}
       >
         {analyzing ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color="white" />
             <Text style={styles.loadingText}>
-              {uploadProgress > 0 ? 'Uploading...' : 'Analyzing...'}
+              {uploadProgress > 0 ? t('upload.uploading') : t('upload.analyzing')}
             </Text>
           </View>
         ) : (
           <>
-            <Text style={styles.analyzeButtonText}>Get My Style Analysis</Text>
+            <Text style={styles.analyzeButtonText}>{t('upload.submit')}</Text>
           </>
         )}
       </TouchableOpacity>
@@ -540,6 +857,112 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     minHeight: 100,
   },
+  previewOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  redactionBadge: {
+    position: 'absolute',
+    bottom: 8,
+    left: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    color: '#FFD700',
+    fontSize: 12,
+  },
+  privacyOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  privacyOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.3)',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    alignItems: 'center',
+  },
+  privacyOptionSelected: {
+    borderColor: '#FFD700',
+    backgroundColor: 'rgba(255, 215, 0, 0.2)',
+  },
+  privacyOptionText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+  },
+  privacyOptionTextSelected: {
+    color: '#FFD700',
+    fontWeight: '600',
+  },
+  targetChips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  targetChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.3)',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  voiceHint: {
+    fontSize: 12,
+    color: '#B0B0B0',
+    marginTop: 4,
+  },
+  viewSlots: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  viewSlot: {
+    flex: 1,
+    gap: 4,
+    alignItems: 'center',
+  },
+  viewSlotImageContainer: {
+    width: '100%',
+    height: 72,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  viewSlotImage: {
+    width: '100%',
+    height: '100%',
+    resizeMode: 'cover',
+  },
+  viewSlotClear: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  viewSlotEmpty: {
+    width: '100%',
+    height: 72,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255, 215, 0, 0.5)',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  viewSlotLabel: {
+    fontSize: 12,
+    color: '#B0B0B0',
+  },
   progressContainer: {
     gap: 8,
   },
@@ -559,6 +982,11 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontSize: 14,
   },
+  partialText: {
+    textAlign: 'center',
+    color: '#374151',
+    fontSize: 13,
+  },
   analyzeButton: {
     backgroundColor: '#FFD700',
     paddingVertical: 16,
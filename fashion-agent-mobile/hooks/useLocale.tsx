@@ -0,0 +1,73 @@
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import * as SecureStore from 'expo-secure-store';
+import { setRequestLocale } from '../services/api';
+import { DEFAULT_LOCALE, Locale, MessageKey, detectDeviceLocale, isLocale, translate } from '../locales';
+
+const LOCALE_KEY = 'locale';
+
+// Locale context type
+interface LocaleContextType {
+  locale: Locale;
+  // Language picked in the app, null when it follows the phone
+  chosenLocale: Locale | null;
+  setLocale: (locale: Locale | null) => Promise<void>;
+  t: (key: MessageKey, values?: Record<string, string | number>) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType | null>(null);
+
+// Locale provider component
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [chosenLocale, setChosenLocale] = useState<Locale | null>(null);
+
+  const applyLocale = (chosen: Locale | null) => {
+    const next = chosen ?? detectDeviceLocale();
+    setChosenLocale(chosen);
+    setLocaleState(next);
+    setRequestLocale(next);
+  };
+
+  // A language picked in the app wins over the phone's
+  useEffect(() => {
+    SecureStore.getItemAsync(LOCALE_KEY)
+      .then((saved) => applyLocale(isLocale(saved) ? saved : null))
+      .catch((error) => {
+        console.error('Failed to load language:', error);
+        applyLocale(null);
+      });
+  }, []);
+
+  const setLocale = async (next: Locale | null) => {
+    applyLocale(next);
+    try {
+      if (next) {
+        await SecureStore.setItemAsync(LOCALE_KEY, next);
+      } else {
+        await SecureStore.deleteItemAsync(LOCALE_KEY);
+      }
+    } catch (error) {
+      console.error('Failed to store language:', error);
+    }
+  };
+
+  const t = useCallback(
+    (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, chosenLocale, setLocale, t }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+// Custom hook to use locale context
+export const useTranslation = () => {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useTranslation must be used within a LocaleProvider');
+  }
+  return context;
+};
@@ -0,0 +1,280 @@
+import type { MessageKey } from './en';
+
+export const de: Record<MessageKey, string> = {
+  'common.error': 'Fehler',
+  'common.cancel': 'Abbrechen',
+  'common.ok': 'OK',
+
+  'nav.home': 'Start',
+  'nav.homeHeader': 'Drip',
+  'nav.history': 'Verlauf',
+  'nav.historyHeader': 'Meine Analysen',
+  'nav.profile': 'Profil',
+  'nav.profileHeader': 'Konto',
+
+  'occasion.wedding_guest': 'Hochzeitsgast',
+  'occasion.job_interview': 'Vorstellungsgespräch',
+  'occasion.office': 'Büro',
+  'occasion.business_meeting': 'Geschäftstermin',
+  'occasion.date_night': 'Date',
+  'occasion.party': 'Party',
+  'occasion.funeral': 'Beerdigung',
+  'occasion.graduation': 'Abschlussfeier',
+  'occasion.religious_service': 'Gottesdienst',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Lockerer Ausflug',
+  'occasion.travel': 'Reise',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Strand',
+  'occasion.gym': 'Fitnessstudio',
+  'occasion.white_tie': 'White Tie',
+  'occasion.black_tie': 'Black Tie',
+  'occasion.cocktail': 'Cocktail',
+  'occasion.business_formal': 'Business formell',
+  'occasion.business_casual': 'Business Casual',
+  'occasion.smart_casual': 'Smart Casual',
+  'occasion.casual': 'Leger',
+
+  'season.spring': 'Frühling',
+  'season.summer': 'Sommer',
+  'season.autumn': 'Herbst',
+  'season.winter': 'Winter',
+
+  'climate.tropical': 'Heiß und feucht',
+  'climate.hot_dry': 'Heiß und trocken',
+  'climate.temperate': 'Mild',
+  'climate.cold': 'Kalt',
+  'climate.rainy': 'Regnerisch',
+  'persona.gentle_coach': 'Einfühlsamer Coach',
+  'persona.editorial_critic': 'Modekritiker',
+  'persona.practical_friend': 'Praktischer Freund',
+  'persona.image_consultant': 'Imageberater',
+  'tone.gentle': 'Sanft',
+  'tone.balanced': 'Ausgewogen',
+  'tone.direct': 'Direkt',
+  'tone.brutal': 'Schonungslos ehrlich',
+
+  'imageRole.front': 'Vorne',
+  'imageRole.side': 'Seite',
+  'imageRole.back': 'Hinten',
+  'imageRole.shoes': 'Schuhe',
+  'imageRole.detail': 'Detail',
+
+  'harmony.monochromatic': 'Monochrom',
+  'harmony.analogous': 'Analog',
+  'harmony.complementary': 'Komplementär',
+  'harmony.split_complementary': 'Geteilt komplementär',
+  'harmony.triadic': 'Triadisch',
+  'harmony.neutral': 'Neutral',
+  'harmony.mixed': 'Gemischt',
+
+  'dimension.styleCategory': 'Stilkategorie',
+  'dimension.fit': 'Passform',
+  'dimension.colorHarmony': 'Farblehre',
+  'dimension.occasion': 'Anlass',
+  'dimension.proportion': 'Proportionen & visuelles Gewicht',
+  'dimension.fabric': 'Stoffkombination & Qualität',
+  'dimension.sophistication': 'Styling-Raffinesse',
+
+  'score.style': 'Stil',
+  'score.fit': 'Passform',
+  'score.color': 'Farbe',
+  'score.occasion': 'Anlass',
+
+  'status.pending': 'Analyse in der Warteschlange',
+  'status.processing': 'Wird analysiert...',
+  'status.degraded': 'Ersatzanalyse',
+  'status.noOutfit': 'Kein Outfit erkannt',
+  'status.failed': 'Analyse fehlgeschlagen',
+
+  'calibration.personalBest': 'Persönlicher Rekord · {delta} gegenüber sonst',
+  'calibration.vsUsual': '{delta} gegenüber sonst',
+  'calibration.aboutUsual': 'Wie üblich',
+
+  'stage.uploaded': 'Foto hochgeladen',
+  'stage.preparing': 'Bild wird vorbereitet...',
+  'stage.queued': 'Warte auf unsere Mode-KI...',
+  'stage.reviewing': 'Die Mode-KI prüft deinen Look...',
+  'stage.repairing': 'Analyse wird überprüft...',
+  'stage.retrying': 'Die Mode-KI ist ausgelastet - gleich neuer Versuch...',
+  'stage.saving': 'Deine Analyse wird gespeichert...',
+  'stage.failed': 'Analyse fehlgeschlagen',
+
+  'upload.title': '👑 Lade dein Outfit hoch',
+  'upload.subtitle': '✨ Wähle oder fotografiere deinen Style ✨',
+  'upload.choosePhoto': 'Foto auswählen',
+  'upload.takePhoto': 'Foto aufnehmen',
+  'upload.noFaces': 'Keine Gesichter gefunden',
+  'upload.faceBlurred': '1 Gesicht verpixelt',
+  'upload.facesBlurred': '{count} Gesichter verpixelt',
+  'upload.faceCropped': '1 Gesicht abgeschnitten',
+  'upload.facesCropped': '{count} Gesichter abgeschnitten',
+  'upload.moreAngles': 'Weitere Ansichten (optional)',
+  'upload.description': 'Erzähl uns von diesem Outfit (optional)',
+  'upload.descriptionPlaceholder': 'Besonderer Anlass, Stilziele oder alles, was unsere KI berücksichtigen soll...',
+  'upload.target': 'Wo trägst du es? (optional)',
+  'upload.voice': 'Stimme der Analyse (optional)',
+  'upload.voiceHint': 'Wähle, wer deine Analyse schreibt und wie offen. Nur die Formulierung ändert sich, die Bewertungen bleiben gleich.',
+  'upload.privacyMode': 'Privatsphäre-Modus',
+  'upload.privacyOff': 'Aus',
+  'upload.privacyBlur': 'Gesicht verpixeln',
+  'upload.privacyCrop': 'Gesicht abschneiden',
+  'upload.uploadingPercent': 'Dein Foto wird hochgeladen... {progress}%',
+  'upload.partialStyle': 'Stil: {style}',
+  'upload.partialFit': 'Passform: {score}/10',
+  'upload.partialColor': 'Farbe: {score}/10',
+  'upload.uploading': 'Wird hochgeladen...',
+  'upload.analyzing': 'Wird analysiert...',
+  'upload.submit': 'Meine Stilanalyse starten',
+  'upload.previewFailedTitle': 'Privatsphäre-Vorschau fehlgeschlagen',
+  'upload.previewFailed': 'Gesichter konnten nicht unkenntlich gemacht werden. Versuch es erneut oder schalte den Privatsphäre-Modus aus.',
+  'upload.fileNotFound': 'Bilddatei nicht gefunden',
+  'upload.fileTooLarge': 'Die Bilddatei ist zu groß. Bitte wähle ein kleineres Bild (max. 10 MB).',
+  'upload.invalidType': 'Bitte wähle eine gültige Bilddatei (JPG, PNG, GIF, WEBP).',
+  'upload.validateFailed': 'Die Bilddatei konnte nicht geprüft werden.',
+  'upload.cameraPermissionTitle': '📸 Kamerazugriff erforderlich',
+  'upload.cameraPermission': 'Fashion Agent braucht Zugriff auf die Kamera, um Outfits zu fotografieren. Bitte erlaube den Kamerazugriff in den Geräteeinstellungen.',
+  'upload.cameraPermissionFailed': 'Kamerazugriff konnte nicht angefragt werden.',
+  'upload.libraryPermissionTitle': '📱 Zugriff auf Fotos erforderlich',
+  'upload.libraryPermission': 'Fashion Agent braucht Zugriff auf deine Fotos, um deine Outfit-Fotos zu analysieren. Bitte erlaube den Zugriff in den Geräteeinstellungen.',
+  'upload.libraryPermissionFailed': 'Zugriff auf Fotos konnte nicht angefragt werden.',
+  'upload.openSettings': 'Einstellungen öffnen',
+  'upload.imageSelected': 'Bild ausgewählt',
+  'upload.photoCaptured': 'Foto aufgenommen',
+  'upload.ready': 'Bereit für die Outfit-Analyse',
+  'upload.selectFailed': 'Bild konnte nicht aus der Mediathek gewählt werden.',
+  'upload.captureFailed': 'Foto konnte nicht aufgenommen werden.',
+  'upload.selectFirst': 'Bitte wähle zuerst ein Bild aus oder nimm eines auf.',
+  'upload.notAnalyzed': 'Unsere Mode-KI konnte dieses Foto nicht analysieren. Bitte versuch es erneut.',
+  'upload.noOutfitTitle': 'Kein Outfit erkannt',
+  'upload.noOutfitBody': 'Bitte lade ein Bild mit Kleidung zur Analyse hoch',
+  'upload.cacheHit': 'Diesen Look kennen wir schon!',
+  'upload.complete': 'Analyse abgeschlossen!',
+  'upload.scored': 'Dein Outfit erhielt {score}/10',
+  'upload.limitReached': 'Analyse-Limit erreicht',
+  'upload.notAccepted': 'Foto nicht akzeptiert',
+  'upload.refusedPhoto': 'Foto ({role}): ',
+  'upload.appeal': 'Einspruch',
+  'upload.appealSent': 'Einspruch gesendet',
+  'upload.appealSentBody': 'Wir prüfen dieses Foto erneut.',
+  'upload.appealFailed': 'Einspruch fehlgeschlagen',
+  'upload.appealFailedBody': 'Bitte versuch es später erneut.',
+  'upload.failedTitle': 'Analyse fehlgeschlagen',
+  'upload.failed': 'Analyse fehlgeschlagen. Bitte versuch es erneut.',
+
+  'home.title': '👑 Fashion Agent',
+  'home.subtitle': '✨ Premium-KI-Stilexperte ✨',
+  'home.freeReviews': 'Kostenlose Analysen:',
+  'home.left': 'noch {count}',
+  'home.tipsTitle': '📸 Tipps für beste Ergebnisse',
+  'home.tipFullBody': 'Ganzkörperfoto bei gutem Licht',
+  'home.tipBackground': 'Ein schlichter Hintergrund ist am besten',
+  'home.tipOutfit': 'Zeig dein komplettes Outfit deutlich',
+  'home.tipFilters': 'Vermeide starke Filter oder Bearbeitung',
+
+  'analysis.noOutfitTitle': 'Kein Outfit erkannt',
+  'analysis.noOutfitSubtitle': 'Auf diesem Bild haben wir nicht genug Kleidung für eine Analyse gefunden',
+  'analysis.guestReviews': 'Gast-Analysen: ',
+  'analysis.remaining': '(noch {count})',
+  'analysis.notPossible': 'Modeanalyse nicht möglich',
+  'analysis.notPossibleIntro': 'Unsere KI-Modeexpertin muss echte Kleidung sehen, um sie zu analysieren. Dieses Bild scheint Folgendes zu zeigen:',
+  'analysis.noClothing': 'Keine nennenswerte Kleidung sichtbar',
+  'analysis.insufficient': 'Zu wenige Outfit-Elemente für eine Bewertung',
+  'analysis.bestResults': 'Für die besten Ergebnisse',
+  'analysis.tipCompleteOutfit': 'Lade ein Foto mit einem kompletten Outfit hoch',
+  'analysis.tipPieces': 'Zeige nach Möglichkeit Oberteil, Unterteil und Accessoires',
+  'analysis.tipVisible': 'Achte darauf, dass das ganze Outfit gut zu sehen ist',
+  'analysis.tipLighting': 'Sorge für gutes Licht und einen ruhigen Hintergrund',
+  'analysis.uploadNew': 'Neues Outfit-Foto hochladen',
+  'analysis.allUsed': 'Alle Analysen aufgebraucht!',
+  'analysis.lastFree': 'Letzte kostenlose Analyse!',
+  'analysis.allUsedBody': 'Registriere dich für unbegrenzte Outfit-Analysen und erweiterte Funktionen!',
+  'analysis.lastFreeBody': 'Du hast noch 1 Analyse. Registriere dich für unbegrenzten Zugang!',
+  'analysis.createAccount': 'Kostenloses Konto erstellen',
+  'analysis.complete': 'Analyse abgeschlossen!',
+  'analysis.completeSubtitle': 'Hier ist deine Stil-Auswertung',
+  'analysis.overallScore': 'Gesamtwertung',
+  'analysis.overallScoreSubtext': 'Die Auswertung deines Outfits',
+  'analysis.coreAssessments': 'Kernbewertungen',
+  'analysis.expertAnalysis': 'Expertenanalyse',
+  'analysis.workingWell': 'Was funktioniert',
+  'analysis.expertInsights': 'Experteneinblicke',
+  'analysis.technicalFlaws': 'Technische Analyse & Verbesserungspotenzial',
+  'analysis.recommendations': 'Professionelle Empfehlungen',
+  'analysis.feedbackQuestion': 'Wie war deine Erfahrung?',
+  'analysis.feedbackHelps': 'Dein Feedback hilft uns, unseren KI-Modeexperten zu verbessern',
+  'analysis.giveFeedback': 'Feedback geben',
+  'analysis.thanks': 'Danke!',
+  'analysis.thanksBody': 'Dein Feedback hilft uns, unsere Modeanalyse zu verbessern',
+  'analysis.analyzeAnother': 'Weiteres Outfit analysieren',
+
+  'garments.title': 'Teil für Teil',
+
+  'palette.title': 'Gemessene Palette',
+
+  'comparison.title': 'Vorher & Nachher',
+  'comparison.before': 'Vorher',
+  'comparison.now': 'Jetzt',
+  'comparison.notAvailable': 'k. A.',
+  'comparison.improved': 'Verbessert',
+  'comparison.regressed': 'Verschlechtert',
+
+  'chat.title': 'Frag zu diesem Outfit',
+  'chat.suggestShoes': 'Welche Schuhe würden dazu passen?',
+  'chat.suggestFormal': 'Wie kann ich das formeller gestalten?',
+  'chat.suggestChange': 'Welche Änderung würde es am meisten verbessern?',
+  'chat.thinking': 'Denkt nach...',
+  'chat.placeholder': 'Stell eine Nachfrage...',
+  'chat.send': 'Senden',
+  'chat.limitReached': 'Fragenlimit erreicht',
+  'chat.noAnswer': 'Keine Antwort',
+  'chat.tryAgain': 'Bitte versuch es erneut',
+
+  'history.title': 'Stilverlauf',
+  'history.subtitleMember': 'Deine Modereise - die letzten {count} Analysen',
+  'history.subtitleGuest': 'Gastzugang - die letzten {count} Analysen',
+  'history.upgradeHint': 'Registriere dich, um bis zu 5 Analysen zu sehen und Premium-Funktionen freizuschalten!',
+  'history.allOccasions': 'Alle Anlässe',
+  'history.loading': 'Dein Stilverlauf wird geladen...',
+  'history.noOccasionLooks': 'Noch keine Looks für „{occasion}“',
+  'history.pickOccasion': 'Wähle diesen Anlass beim Hochladen eines Outfits, um es hier zu sehen.',
+  'history.empty': 'Noch kein Analyseverlauf',
+  'history.emptyHint': 'Lade dein erstes Outfit-Foto hoch, um dein Stilprofil aufzubauen!',
+  'history.styleReview': 'Stilanalyse',
+  'history.viewComparison': 'Vergleich ansehen',
+  'history.comparing': 'Wird verglichen...',
+  'history.compare': 'Mit dem vorherigen vergleichen',
+  'history.loadFailed': 'Verlauf konnte nicht geladen werden',
+  'history.checkConnection': 'Bitte prüfe deine Verbindung und versuch es erneut',
+  'history.compareFailed': 'Vergleich fehlgeschlagen',
+  'history.compareRetry': 'Bitte versuch es gleich noch einmal',
+
+  'profile.logout': 'Abmelden',
+  'profile.logoutConfirm': 'Möchtest du dich wirklich abmelden?',
+  'profile.login': 'Anmelden',
+  'profile.loginSoon': 'Die Anmeldung kommt bald!',
+  'profile.welcome': 'Willkommen bei Drip',
+  'profile.guestSubtitle': 'Registriere dich, um Premium-Funktionen freizuschalten',
+  'profile.benefits': '🌟 Premium-Vorteile',
+  'profile.benefitReviews': '5 Stilanalysen',
+  'profile.benefitReviewsDesc': 'Bis zu 5 Outfit-Analysen statt 3 als Gast',
+  'profile.benefitHistory': 'Stilverlauf',
+  'profile.benefitHistoryDesc': 'Verfolge deine modische Entwicklung und deine Fortschritte',
+  'profile.benefitTips': 'Persönliche Tipps',
+  'profile.benefitTipsDesc': 'KI-Empfehlungen, zugeschnitten auf deine Stilvorlieben',
+  'profile.signUp': 'Registrieren / Anmelden',
+  'profile.continueGuest': 'Als Gast mit 3 kostenlosen Analysen fortfahren',
+  'profile.defaultName': 'Modefan',
+  'profile.premiumMember': 'Premium-Mitglied',
+  'profile.settings': '⚙️ Einstellungen',
+  'profile.notifications': '🔔 Benachrichtigungen',
+  'profile.preferences': '🎨 Vorlieben',
+  'profile.help': '❓ Hilfe & Support',
+  'profile.comingSoon': 'Demnächst',
+  'profile.logoutMenu': '🚪 Abmelden',
+  'profile.dataProtected': '🔒 Deine Daten sind geschützt',
+  'profile.language': 'Sprache',
+  'profile.languageDevice': 'Wie mein Telefon',
+  'profile.languageHint': 'Analysen, Antworten und Meldungen werden in dieser Sprache verfasst.',
+  'profile.languageFailed': 'Deine Sprache konnte nicht gespeichert werden',
+};
@@ -0,0 +1,281 @@
+// Source catalog: every other language translates these keys. {name} placeholders are filled in by t()
+export const en = {
+  'common.error': 'Error',
+  'common.cancel': 'Cancel',
+  'common.ok': 'OK',
+
+  'nav.home': 'Home',
+  'nav.homeHeader': 'Drip',
+  'nav.history': 'History',
+  'nav.historyHeader': 'My Reviews',
+  'nav.profile': 'Profile',
+  'nav.profileHeader': 'Account',
+
+  'occasion.wedding_guest': 'Wedding guest',
+  'occasion.job_interview': 'Job interview',
+  'occasion.office': 'Office',
+  'occasion.business_meeting': 'Business meeting',
+  'occasion.date_night': 'Date night',
+  'occasion.party': 'Party',
+  'occasion.funeral': 'Funeral',
+  'occasion.graduation': 'Graduation',
+  'occasion.religious_service': 'Religious service',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Casual day out',
+  'occasion.travel': 'Travel',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Beach',
+  'occasion.gym': 'Gym',
+  'occasion.white_tie': 'White tie',
+  'occasion.black_tie': 'Black tie',
+  'occasion.cocktail': 'Cocktail attire',
+  'occasion.business_formal': 'Business formal',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Smart casual',
+  'occasion.casual': 'Casual',
+
+  'season.spring': 'Spring',
+  'season.summer': 'Summer',
+  'season.autumn': 'Autumn',
+  'season.winter': 'Winter',
+
+  'climate.tropical': 'Hot & humid',
+  'climate.hot_dry': 'Hot & dry',
+  'climate.temperate': 'Mild',
+  'climate.cold': 'Cold',
+  'climate.rainy': 'Rainy',
+  'persona.gentle_coach': 'Gentle coach',
+  'persona.editorial_critic': 'Editorial critic',
+  'persona.practical_friend': 'Practical friend',
+  'persona.image_consultant': 'Image consultant',
+  'tone.gentle': 'Gentle',
+  'tone.balanced': 'Balanced',
+  'tone.direct': 'Direct',
+  'tone.brutal': 'Brutally honest',
+
+  'imageRole.front': 'Front',
+  'imageRole.side': 'Side',
+  'imageRole.back': 'Back',
+  'imageRole.shoes': 'Shoes',
+  'imageRole.detail': 'Detail',
+
+  'harmony.monochromatic': 'Monochromatic',
+  'harmony.analogous': 'Analogous',
+  'harmony.complementary': 'Complementary',
+  'harmony.split_complementary': 'Split complementary',
+  'harmony.triadic': 'Triadic',
+  'harmony.neutral': 'Neutral',
+  'harmony.mixed': 'Mixed',
+
+  'dimension.styleCategory': 'Style Category',
+  'dimension.fit': 'Technical Fit',
+  'dimension.colorHarmony': 'Color Theory',
+  'dimension.occasion': 'Occasion',
+  'dimension.proportion': 'Proportion & Visual Weight',
+  'dimension.fabric': 'Fabric Synergy & Merit',
+  'dimension.sophistication': 'Styling Sophistication',
+
+  'score.style': 'Style',
+  'score.fit': 'Fit',
+  'score.color': 'Color',
+  'score.occasion': 'Occasion',
+
+  'status.pending': 'Analysis queued',
+  'status.processing': 'Analyzing...',
+  'status.degraded': 'Fallback analysis',
+  'status.noOutfit': 'No outfit detected',
+  'status.failed': 'Analysis failed',
+
+  'calibration.personalBest': 'Personal best · {delta} vs your usual',
+  'calibration.vsUsual': '{delta} vs your usual',
+  'calibration.aboutUsual': 'About your usual',
+
+  'stage.uploaded': 'Photo uploaded',
+  'stage.preparing': 'Preparing image...',
+  'stage.queued': 'Waiting for our fashion AI...',
+  'stage.reviewing': 'Fashion AI is reviewing your look...',
+  'stage.repairing': 'Double-checking the analysis...',
+  'stage.retrying': 'Fashion AI is busy - retrying shortly...',
+  'stage.saving': 'Saving your analysis...',
+  'stage.failed': 'Analysis failed',
+
+  'upload.title': '👑 Upload Your Outfit',
+  'upload.subtitle': '✨ Choose or capture your style ✨',
+  'upload.choosePhoto': 'Choose Photo',
+  'upload.takePhoto': 'Take Photo',
+  'upload.noFaces': 'No faces found',
+  'upload.faceBlurred': '1 face blurred',
+  'upload.facesBlurred': '{count} faces blurred',
+  'upload.faceCropped': '1 face cropped out',
+  'upload.facesCropped': '{count} faces cropped out',
+  'upload.moreAngles': 'More angles (optional)',
+  'upload.description': 'Tell us about this outfit (optional)',
+  'upload.descriptionPlaceholder': "Special occasion, style goals, or anything else you'd like our AI to consider...",
+  'upload.target': 'Where are you wearing it? (optional)',
+  'upload.voice': 'Reviewer voice (optional)',
+  'upload.voiceHint': 'Choose who writes your analysis and how bluntly. Only the wording changes; the scores stay the same.',
+  'upload.privacyMode': 'Privacy mode',
+  'upload.privacyOff': 'Off',
+  'upload.privacyBlur': 'Blur face',
+  'upload.privacyCrop': 'Crop face',
+  'upload.uploadingPercent': 'Uploading your photo... {progress}%',
+  'upload.partialStyle': 'Style: {style}',
+  'upload.partialFit': 'Fit: {score}/10',
+  'upload.partialColor': 'Color: {score}/10',
+  'upload.uploading': 'Uploading...',
+  'upload.analyzing': 'Analyzing...',
+  'upload.submit': 'Get My Style Analysis',
+  'upload.previewFailedTitle': 'Privacy Preview Failed',
+  'upload.previewFailed': 'Could not redact faces. Try again or turn privacy mode off.',
+  'upload.fileNotFound': 'Image file not found',
+  'upload.fileTooLarge': 'Image file is too large. Please choose a smaller image (max 10MB).',
+  'upload.invalidType': 'Please select a valid image file (JPG, PNG, GIF, WEBP).',
+  'upload.validateFailed': 'Failed to validate image file.',
+  'upload.cameraPermissionTitle': '📸 Camera Permission Required',
+  'upload.cameraPermission': 'Fashion Agent needs camera access to capture outfit photos for analysis. Please enable camera permissions in your device settings.',
+  'upload.cameraPermissionFailed': 'Failed to request camera permissions.',
+  'upload.libraryPermissionTitle': '📱 Photo Library Permission Required',
+  'upload.libraryPermission': 'Fashion Agent needs access to your photo library to analyze your outfit photos. Please enable photo library permissions in your device settings.',
+  'upload.libraryPermissionFailed': 'Failed to request photo library permissions.',
+  'upload.openSettings': 'Open Settings',
+  'upload.imageSelected': 'Image Selected',
+  'upload.photoCaptured': 'Photo Captured',
+  'upload.ready': 'Ready for outfit analysis',
+  'upload.selectFailed': 'Failed to select image from library.',
+  'upload.captureFailed': 'Failed to capture photo.',
+  'upload.selectFirst': 'Please select or capture an image first.',
+  'upload.notAnalyzed': 'Our fashion AI could not analyze this photo. Please try again.',
+  'upload.noOutfitTitle': 'No Outfit Detected',
+  'upload.noOutfitBody': 'Please upload an image with clothing to analyze',
+  'upload.cacheHit': 'Seen This Look Before!',
+  'upload.complete': 'Analysis Complete!',
+  'upload.scored': 'Your outfit scored {score}/10',
+  'upload.limitReached': 'Review Limit Reached',
+  'upload.notAccepted': 'Photo Not Accepted',
+  'upload.refusedPhoto': '{role} photo: ',
+  'upload.appeal': 'Appeal',
+  'upload.appealSent': 'Appeal Sent',
+  'upload.appealSentBody': 'We will review this photo again.',
+  'upload.appealFailed': 'Appeal Failed',
+  'upload.appealFailedBody': 'Please try again later.',
+  'upload.failedTitle': 'Analysis Failed',
+  'upload.failed': 'Analysis failed. Please try again.',
+
+  'home.title': '👑 Fashion Agent',
+  'home.subtitle': '✨ Premium AI Style Expert ✨',
+  'home.freeReviews': 'Free Reviews:',
+  'home.left': '{count} left',
+  'home.tipsTitle': '📸 Tips for Best Results',
+  'home.tipFullBody': 'Full-body photo in good lighting',
+  'home.tipBackground': 'Plain background works best',
+  'home.tipOutfit': 'Show your complete outfit clearly',
+  'home.tipFilters': 'Avoid heavy filters or editing',
+
+  'analysis.noOutfitTitle': 'No Outfit Detected',
+  'analysis.noOutfitSubtitle': "We couldn't find substantial clothing to analyze in this image",
+  'analysis.guestReviews': 'Guest Reviews: ',
+  'analysis.remaining': '({count} remaining)',
+  'analysis.notPossible': 'Fashion Analysis Not Possible',
+  'analysis.notPossibleIntro': 'Our AI fashion expert needs to see actual clothing to provide analysis. This image appears to show:',
+  'analysis.noClothing': 'No substantial clothing or garments visible',
+  'analysis.insufficient': 'Insufficient outfit elements for fashion evaluation',
+  'analysis.bestResults': 'For Best Results',
+  'analysis.tipCompleteOutfit': 'Upload a photo showing a complete outfit with clothing',
+  'analysis.tipPieces': 'Include tops, bottoms, and accessories when possible',
+  'analysis.tipVisible': 'Make sure the full outfit is clearly visible',
+  'analysis.tipLighting': 'Use good lighting and a clear background',
+  'analysis.uploadNew': 'Upload New Outfit Photo',
+  'analysis.allUsed': 'All Reviews Used!',
+  'analysis.lastFree': 'Last Free Review!',
+  'analysis.allUsedBody': 'Sign up for unlimited outfit reviews and advanced features!',
+  'analysis.lastFreeBody': 'You have 1 review left. Sign up for unlimited access!',
+  'analysis.createAccount': 'Create Free Account',
+  'analysis.complete': 'Analysis Complete!',
+  'analysis.completeSubtitle': "Here's your fashion breakdown",
+  'analysis.overallScore': 'Overall Score',
+  'analysis.overallScoreSubtext': 'Your outfit analysis breakdown',
+  'analysis.coreAssessments': 'Core Assessments',
+  'analysis.expertAnalysis': 'Expert Analysis',
+  'analysis.workingWell': "What's Working",
+  'analysis.expertInsights': 'Expert Insights',
+  'analysis.technicalFlaws': 'Technical Analysis & Areas for Improvement',
+  'analysis.recommendations': 'Professional Recommendations',
+  'analysis.feedbackQuestion': 'How was your experience?',
+  'analysis.feedbackHelps': 'Your feedback helps us improve our AI fashion expert',
+  'analysis.giveFeedback': 'Give Feedback',
+  'analysis.thanks': 'Thank you!',
+  'analysis.thanksBody': 'Your feedback helps us improve our fashion analysis',
+  'analysis.analyzeAnother': 'Analyze Another Outfit',
+
+  'garments.title': 'Piece by Piece',
+
+  'palette.title': 'Measured Palette',
+
+  'comparison.title': 'Before & After',
+  'comparison.before': 'Before',
+  'comparison.now': 'Now',
+  'comparison.notAvailable': 'n/a',
+  'comparison.improved': 'Improved',
+  'comparison.regressed': 'Regressed',
+
+  'chat.title': 'Ask About This Outfit',
+  'chat.suggestShoes': 'What shoes would work with this?',
+  'chat.suggestFormal': 'How can I make this more formal?',
+  'chat.suggestChange': 'What is one change that would improve it most?',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Ask a follow-up question...',
+  'chat.send': 'Send',
+  'chat.limitReached': 'Question limit reached',
+  'chat.noAnswer': 'No answer',
+  'chat.tryAgain': 'Please try again',
+
+  'history.title': 'Style History',
+  'history.subtitleMember': 'Your fashion journey - showing last {count} reviews',
+  'history.subtitleGuest': 'Guest access - showing last {count} reviews',
+  'history.upgradeHint': 'Sign up to see up to 5 reviews and unlock premium features!',
+  'history.allOccasions': 'All occasions',
+  'history.loading': 'Loading your style history...',
+  'history.noOccasionLooks': 'No “{occasion}” looks yet',
+  'history.pickOccasion': 'Pick this occasion when you upload an outfit to see it here.',
+  'history.empty': 'No analysis history yet',
+  'history.emptyHint': 'Upload your first outfit photo to start building your style profile!',
+  'history.styleReview': 'Style Review',
+  'history.viewComparison': 'View comparison',
+  'history.comparing': 'Comparing...',
+  'history.compare': 'Compare with previous',
+  'history.loadFailed': 'Failed to Load History',
+  'history.checkConnection': 'Please check your connection and try again',
+  'history.compareFailed': 'Comparison Failed',
+  'history.compareRetry': 'Please try again in a moment',
+
+  'profile.logout': 'Logout',
+  'profile.logoutConfirm': 'Are you sure you want to log out?',
+  'profile.login': 'Login',
+  'profile.loginSoon': 'Login functionality coming soon!',
+  'profile.welcome': 'Welcome to Drip',
+  'profile.guestSubtitle': 'Sign up to unlock premium features',
+  'profile.benefits': '🌟 Premium Benefits',
+  'profile.benefitReviews': '5 Style Reviews',
+  'profile.benefitReviewsDesc': 'Get up to 5 outfit reviews instead of 3 guest reviews',
+  'profile.benefitHistory': 'Style History',
+  'profile.benefitHistoryDesc': 'Keep track of your fashion evolution and progress',
+  'profile.benefitTips': 'Personalized Tips',
+  'profile.benefitTipsDesc': 'Get AI recommendations tailored to your style preferences',
+  'profile.signUp': 'Sign Up / Log In',
+  'profile.continueGuest': 'Continue as guest with 3 free reviews',
+  'profile.defaultName': 'Fashion Enthusiast',
+  'profile.premiumMember': 'Premium Member',
+  'profile.settings': '⚙️ Settings',
+  'profile.notifications': '🔔 Notifications',
+  'profile.preferences': '🎨 Preferences',
+  'profile.help': '❓ Help & Support',
+  'profile.comingSoon': 'Coming Soon',
+  'profile.logoutMenu': '🚪 Logout',
+  'profile.dataProtected': '🔒 Your data is protected',
+  'profile.language': 'Language',
+  'profile.languageDevice': 'Same as my phone',
+  'profile.languageHint': 'Analyses, follow-up answers and messages are written in this language.',
+  'profile.languageFailed': 'Could not save your language',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,280 @@
+import type { MessageKey } from './en';
+
+export const es: Record<MessageKey, string> = {
+  'common.error': 'Error',
+  'common.cancel': 'Cancelar',
+  'common.ok': 'OK',
+
+  'nav.home': 'Inicio',
+  'nav.homeHeader': 'Drip',
+  'nav.history': 'Historial',
+  'nav.historyHeader': 'Mis reseñas',
+  'nav.profile': 'Perfil',
+  'nav.profileHeader': 'Cuenta',
+
+  'occasion.wedding_guest': 'Invitado de boda',
+  'occasion.job_interview': 'Entrevista de trabajo',
+  'occasion.office': 'Oficina',
+  'occasion.business_meeting': 'Reunión de negocios',
+  'occasion.date_night': 'Cita',
+  'occasion.party': 'Fiesta',
+  'occasion.funeral': 'Funeral',
+  'occasion.graduation': 'Graduación',
+  'occasion.religious_service': 'Ceremonia religiosa',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Salida informal',
+  'occasion.travel': 'Viaje',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Playa',
+  'occasion.gym': 'Gimnasio',
+  'occasion.white_tie': 'Etiqueta rigurosa',
+  'occasion.black_tie': 'Etiqueta',
+  'occasion.cocktail': 'Cóctel',
+  'occasion.business_formal': 'Formal de negocios',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Smart casual',
+  'occasion.casual': 'Informal',
+
+  'season.spring': 'Primavera',
+  'season.summer': 'Verano',
+  'season.autumn': 'Otoño',
+  'season.winter': 'Invierno',
+
+  'climate.tropical': 'Cálido y húmedo',
+  'climate.hot_dry': 'Cálido y seco',
+  'climate.temperate': 'Templado',
+  'climate.cold': 'Frío',
+  'climate.rainy': 'Lluvioso',
+  'persona.gentle_coach': 'Coach amable',
+  'persona.editorial_critic': 'Crítico editorial',
+  'persona.practical_friend': 'Amigo práctico',
+  'persona.image_consultant': 'Consultor de imagen',
+  'tone.gentle': 'Suave',
+  'tone.balanced': 'Equilibrado',
+  'tone.direct': 'Directo',
+  'tone.brutal': 'Brutalmente honesto',
+
+  'imageRole.front': 'Frente',
+  'imageRole.side': 'Lado',
+  'imageRole.back': 'Espalda',
+  'imageRole.shoes': 'Zapatos',
+  'imageRole.detail': 'Detalle',
+
+  'harmony.monochromatic': 'Monocromática',
+  'harmony.analogous': 'Análoga',
+  'harmony.complementary': 'Complementaria',
+  'harmony.split_complementary': 'Complementaria dividida',
+  'harmony.triadic': 'Triádica',
+  'harmony.neutral': 'Neutra',
+  'harmony.mixed': 'Mixta',
+
+  'dimension.styleCategory': 'Categoría de estilo',
+  'dimension.fit': 'Ajuste técnico',
+  'dimension.colorHarmony': 'Teoría del color',
+  'dimension.occasion': 'Ocasión',
+  'dimension.proportion': 'Proporción y peso visual',
+  'dimension.fabric': 'Sinergia y calidad de tejidos',
+  'dimension.sophistication': 'Sofisticación del estilismo',
+
+  'score.style': 'Estilo',
+  'score.fit': 'Ajuste',
+  'score.color': 'Color',
+  'score.occasion': 'Ocasión',
+
+  'status.pending': 'Análisis en cola',
+  'status.processing': 'Analizando...',
+  'status.degraded': 'Análisis de respaldo',
+  'status.noOutfit': 'No se detectó ningún atuendo',
+  'status.failed': 'Análisis fallido',
+
+  'calibration.personalBest': 'Récord personal · {delta} frente a lo habitual',
+  'calibration.vsUsual': '{delta} frente a lo habitual',
+  'calibration.aboutUsual': 'En tu línea habitual',
+
+  'stage.uploaded': 'Foto subida',
+  'stage.preparing': 'Preparando la imagen...',
+  'stage.queued': 'Esperando a nuestra IA de moda...',
+  'stage.reviewing': 'La IA de moda está revisando tu look...',
+  'stage.repairing': 'Revisando el análisis...',
+  'stage.retrying': 'La IA de moda está ocupada - reintentando en breve...',
+  'stage.saving': 'Guardando tu análisis...',
+  'stage.failed': 'El análisis ha fallado',
+
+  'upload.title': '👑 Sube tu atuendo',
+  'upload.subtitle': '✨ Elige o captura tu estilo ✨',
+  'upload.choosePhoto': 'Elegir foto',
+  'upload.takePhoto': 'Hacer foto',
+  'upload.noFaces': 'No se encontraron caras',
+  'upload.faceBlurred': '1 rostro difuminado',
+  'upload.facesBlurred': '{count} rostros difuminados',
+  'upload.faceCropped': '1 rostro recortado',
+  'upload.facesCropped': '{count} rostros recortados',
+  'upload.moreAngles': 'Más ángulos (opcional)',
+  'upload.description': 'Cuéntanos sobre este atuendo (opcional)',
+  'upload.descriptionPlaceholder': 'Ocasión especial, objetivos de estilo o cualquier cosa que quieras que nuestra IA tenga en cuenta...',
+  'upload.target': '¿Dónde lo vas a llevar? (opcional)',
+  'upload.voice': 'Voz del análisis (opcional)',
+  'upload.voiceHint': 'Elige quién escribe tu análisis y con cuánta franqueza. Solo cambia la redacción; las puntuaciones son las mismas.',
+  'upload.privacyMode': 'Modo privacidad',
+  'upload.privacyOff': 'Desactivado',
+  'upload.privacyBlur': 'Difuminar rostro',
+  'upload.privacyCrop': 'Recortar rostro',
+  'upload.uploadingPercent': 'Subiendo tu foto... {progress}%',
+  'upload.partialStyle': 'Estilo: {style}',
+  'upload.partialFit': 'Ajuste: {score}/10',
+  'upload.partialColor': 'Color: {score}/10',
+  'upload.uploading': 'Subiendo...',
+  'upload.analyzing': 'Analizando...',
+  'upload.submit': 'Obtener mi análisis de estilo',
+  'upload.previewFailedTitle': 'Falló la vista previa de privacidad',
+  'upload.previewFailed': 'No se pudieron ocultar las caras. Inténtalo de nuevo o desactiva el modo privacidad.',
+  'upload.fileNotFound': 'No se encontró el archivo de imagen',
+  'upload.fileTooLarge': 'La imagen es demasiado grande. Elige una imagen más pequeña (máx. 10MB).',
+  'upload.invalidType': 'Selecciona un archivo de imagen válido (JPG, PNG, GIF, WEBP).',
+  'upload.validateFailed': 'No se pudo validar el archivo de imagen.',
+  'upload.cameraPermissionTitle': '📸 Se necesita permiso de cámara',
+  'upload.cameraPermission': 'Fashion Agent necesita acceso a la cámara para hacer fotos de tus atuendos. Activa el permiso de cámara en los ajustes del dispositivo.',
+  'upload.cameraPermissionFailed': 'No se pudo solicitar el permiso de cámara.',
+  'upload.libraryPermissionTitle': '📱 Se necesita permiso de fotos',
+  'upload.libraryPermission': 'Fashion Agent necesita acceso a tu fototeca para analizar las fotos de tus atuendos. Activa el permiso de fotos en los ajustes del dispositivo.',
+  'upload.libraryPermissionFailed': 'No se pudo solicitar el permiso de fotos.',
+  'upload.openSettings': 'Abrir ajustes',
+  'upload.imageSelected': 'Imagen seleccionada',
+  'upload.photoCaptured': 'Foto hecha',
+  'upload.ready': 'Lista para el análisis del atuendo',
+  'upload.selectFailed': 'No se pudo seleccionar la imagen de la fototeca.',
+  'upload.captureFailed': 'No se pudo hacer la foto.',
+  'upload.selectFirst': 'Primero selecciona o haz una foto.',
+  'upload.notAnalyzed': 'Nuestra IA de moda no pudo analizar esta foto. Inténtalo de nuevo.',
+  'upload.noOutfitTitle': 'No se detectó ningún atuendo',
+  'upload.noOutfitBody': 'Sube una imagen con ropa para analizarla',
+  'upload.cacheHit': '¡Ya habíamos visto este look!',
+  'upload.complete': '¡Análisis completado!',
+  'upload.scored': 'Tu atuendo obtuvo {score}/10',
+  'upload.limitReached': 'Límite de reseñas alcanzado',
+  'upload.notAccepted': 'Foto no aceptada',
+  'upload.refusedPhoto': 'Foto ({role}): ',
+  'upload.appeal': 'Apelar',
+  'upload.appealSent': 'Apelación enviada',
+  'upload.appealSentBody': 'Revisaremos esta foto de nuevo.',
+  'upload.appealFailed': 'Falló la apelación',
+  'upload.appealFailedBody': 'Inténtalo de nuevo más tarde.',
+  'upload.failedTitle': 'El análisis ha fallado',
+  'upload.failed': 'El análisis ha fallado. Inténtalo de nuevo.',
+
+  'home.title': '👑 Fashion Agent',
+  'home.subtitle': '✨ Experto en estilo con IA premium ✨',
+  'home.freeReviews': 'Reseñas gratis:',
+  'home.left': 'quedan {count}',
+  'home.tipsTitle': '📸 Consejos para mejores resultados',
+  'home.tipFullBody': 'Foto de cuerpo entero con buena luz',
+  'home.tipBackground': 'Un fondo liso funciona mejor',
+  'home.tipOutfit': 'Muestra tu atuendo completo con claridad',
+  'home.tipFilters': 'Evita filtros o retoques fuertes',
+
+  'analysis.noOutfitTitle': 'No se detectó ningún atuendo',
+  'analysis.noOutfitSubtitle': 'No encontramos suficiente ropa para analizar en esta imagen',
+  'analysis.guestReviews': 'Reseñas de invitado: ',
+  'analysis.remaining': '(quedan {count})',
+  'analysis.notPossible': 'No es posible analizar la moda',
+  'analysis.notPossibleIntro': 'Nuestra experta en moda con IA necesita ver ropa real para hacer un análisis. Esta imagen parece mostrar:',
+  'analysis.noClothing': 'No se ve ropa ni prendas suficientes',
+  'analysis.insufficient': 'Elementos insuficientes para una evaluación de moda',
+  'analysis.bestResults': 'Para obtener mejores resultados',
+  'analysis.tipCompleteOutfit': 'Sube una foto que muestre un atuendo completo',
+  'analysis.tipPieces': 'Incluye partes de arriba, de abajo y accesorios cuando sea posible',
+  'analysis.tipVisible': 'Asegúrate de que el atuendo completo se vea con claridad',
+  'analysis.tipLighting': 'Usa buena luz y un fondo despejado',
+  'analysis.uploadNew': 'Subir una nueva foto',
+  'analysis.allUsed': '¡Has usado todas las reseñas!',
+  'analysis.lastFree': '¡Última reseña gratis!',
+  'analysis.allUsedBody': '¡Regístrate para tener reseñas ilimitadas y funciones avanzadas!',
+  'analysis.lastFreeBody': 'Te queda 1 reseña. ¡Regístrate para tener acceso ilimitado!',
+  'analysis.createAccount': 'Crear cuenta gratis',
+  'analysis.complete': '¡Análisis completado!',
+  'analysis.completeSubtitle': 'Este es el desglose de tu estilo',
+  'analysis.overallScore': 'Puntuación global',
+  'analysis.overallScoreSubtext': 'El desglose del análisis de tu atuendo',
+  'analysis.coreAssessments': 'Evaluaciones principales',
+  'analysis.expertAnalysis': 'Análisis experto',
+  'analysis.workingWell': 'Lo que funciona',
+  'analysis.expertInsights': 'Claves del experto',
+  'analysis.technicalFlaws': 'Análisis técnico y aspectos a mejorar',
+  'analysis.recommendations': 'Recomendaciones profesionales',
+  'analysis.feedbackQuestion': '¿Qué tal tu experiencia?',
+  'analysis.feedbackHelps': 'Tu opinión nos ayuda a mejorar a nuestro experto de moda con IA',
+  'analysis.giveFeedback': 'Dar opinión',
+  'analysis.thanks': '¡Gracias!',
+  'analysis.thanksBody': 'Tu opinión nos ayuda a mejorar nuestro análisis de moda',
+  'analysis.analyzeAnother': 'Analizar otro atuendo',
+
+  'garments.title': 'Prenda a prenda',
+
+  'palette.title': 'Paleta medida',
+
+  'comparison.title': 'Antes y después',
+  'comparison.before': 'Antes',
+  'comparison.now': 'Ahora',
+  'comparison.notAvailable': 'n/d',
+  'comparison.improved': 'Ha mejorado',
+  'comparison.regressed': 'Ha empeorado',
+
+  'chat.title': 'Pregunta sobre este atuendo',
+  'chat.suggestShoes': '¿Qué zapatos irían bien con esto?',
+  'chat.suggestFormal': '¿Cómo puedo hacerlo más formal?',
+  'chat.suggestChange': '¿Qué cambio lo mejoraría más?',
+  'chat.thinking': 'Pensando...',
+  'chat.placeholder': 'Haz otra pregunta...',
+  'chat.send': 'Enviar',
+  'chat.limitReached': 'Límite de preguntas alcanzado',
+  'chat.noAnswer': 'Sin respuesta',
+  'chat.tryAgain': 'Inténtalo de nuevo',
+
+  'history.title': 'Historial de estilo',
+  'history.subtitleMember': 'Tu trayectoria de moda - mostrando las últimas {count} reseñas',
+  'history.subtitleGuest': 'Acceso de invitado - mostrando las últimas {count} reseñas',
+  'history.upgradeHint': '¡Regístrate para ver hasta 5 reseñas y desbloquear funciones premium!',
+  'history.allOccasions': 'Todas las ocasiones',
+  'history.loading': 'Cargando tu historial de estilo...',
+  'history.noOccasionLooks': 'Aún no hay looks para «{occasion}»',
+  'history.pickOccasion': 'Elige esta ocasión al subir un atuendo para verlo aquí.',
+  'history.empty': 'Aún no hay historial de análisis',
+  'history.emptyHint': '¡Sube la foto de tu primer atuendo para empezar a construir tu perfil de estilo!',
+  'history.styleReview': 'Reseña de estilo',
+  'history.viewComparison': 'Ver comparación',
+  'history.comparing': 'Comparando...',
+  'history.compare': 'Comparar con el anterior',
+  'history.loadFailed': 'No se pudo cargar el historial',
+  'history.checkConnection': 'Comprueba tu conexión e inténtalo de nuevo',
+  'history.compareFailed': 'Falló la comparación',
+  'history.compareRetry': 'Inténtalo de nuevo en un momento',
+
+  'profile.logout': 'Cerrar sesión',
+  'profile.logoutConfirm': '¿Seguro que quieres cerrar sesión?',
+  'profile.login': 'Iniciar sesión',
+  'profile.loginSoon': '¡El inicio de sesión llegará pronto!',
+  'profile.welcome': 'Bienvenido a Drip',
+  'profile.guestSubtitle': 'Regístrate para desbloquear funciones premium',
+  'profile.benefits': '🌟 Ventajas premium',
+  'profile.benefitReviews': '5 reseñas de estilo',
+  'profile.benefitReviewsDesc': 'Obtén hasta 5 reseñas de atuendos en lugar de 3 como invitado',
+  'profile.benefitHistory': 'Historial de estilo',
+  'profile.benefitHistoryDesc': 'Sigue tu evolución y progreso en moda',
+  'profile.benefitTips': 'Consejos personalizados',
+  'profile.benefitTipsDesc': 'Recibe recomendaciones de IA adaptadas a tus preferencias de estilo',
+  'profile.signUp': 'Registrarse / Iniciar sesión',
+  'profile.continueGuest': 'Sigue como invitado con 3 reseñas gratis',
+  'profile.defaultName': 'Amante de la moda',
+  'profile.premiumMember': 'Miembro premium',
+  'profile.settings': '⚙️ Ajustes',
+  'profile.notifications': '🔔 Notificaciones',
+  'profile.preferences': '🎨 Preferencias',
+  'profile.help': '❓ Ayuda y soporte',
+  'profile.comingSoon': 'Próximamente',
+  'profile.logoutMenu': '🚪 Cerrar sesión',
+  'profile.dataProtected': '🔒 Tus datos están protegidos',
+  'profile.language': 'Idioma',
+  'profile.languageDevice': 'El de mi teléfono',
+  'profile.languageHint': 'Los análisis, las respuestas y los mensajes se escriben en este idioma.',
+  'profile.languageFailed': 'No se pudo guardar tu idioma',
+};
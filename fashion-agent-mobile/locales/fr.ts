@@ -0,0 +1,280 @@
+import type { MessageKey } from './en';
+
+export const fr: Record<MessageKey, string> = {
+  'common.error': 'Erreur',
+  'common.cancel': 'Annuler',
+  'common.ok': 'OK',
+
+  'nav.home': 'Accueil',
+  'nav.homeHeader': 'Drip',
+  'nav.history': 'Historique',
+  'nav.historyHeader': 'Mes analyses',
+  'nav.profile': 'Profil',
+  'nav.profileHeader': 'Compte',
+
+  'occasion.wedding_guest': 'Invité à un mariage',
+  'occasion.job_interview': "Entretien d'embauche",
+  'occasion.office': 'Bureau',
+  'occasion.business_meeting': "Rendez-vous d'affaires",
+  'occasion.date_night': 'Rendez-vous galant',
+  'occasion.party': 'Soirée',
+  'occasion.funeral': 'Funérailles',
+  'occasion.graduation': 'Remise de diplôme',
+  'occasion.religious_service': 'Cérémonie religieuse',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Sortie décontractée',
+  'occasion.travel': 'Voyage',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Plage',
+  'occasion.gym': 'Salle de sport',
+  'occasion.white_tie': 'Grande tenue',
+  'occasion.black_tie': 'Tenue de soirée',
+  'occasion.cocktail': 'Tenue cocktail',
+  'occasion.business_formal': 'Tenue de ville',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Chic décontracté',
+  'occasion.casual': 'Décontracté',
+
+  'season.spring': 'Printemps',
+  'season.summer': 'Été',
+  'season.autumn': 'Automne',
+  'season.winter': 'Hiver',
+
+  'climate.tropical': 'Chaud et humide',
+  'climate.hot_dry': 'Chaud et sec',
+  'climate.temperate': 'Doux',
+  'climate.cold': 'Froid',
+  'climate.rainy': 'Pluvieux',
+  'persona.gentle_coach': 'Coach bienveillant',
+  'persona.editorial_critic': 'Critique de mode',
+  'persona.practical_friend': 'Ami pratique',
+  'persona.image_consultant': 'Consultant en image',
+  'tone.gentle': 'Doux',
+  'tone.balanced': 'Équilibré',
+  'tone.direct': 'Direct',
+  'tone.brutal': 'Franchise brutale',
+
+  'imageRole.front': 'Face',
+  'imageRole.side': 'Profil',
+  'imageRole.back': 'Dos',
+  'imageRole.shoes': 'Chaussures',
+  'imageRole.detail': 'Détail',
+
+  'harmony.monochromatic': 'Monochrome',
+  'harmony.analogous': 'Analogue',
+  'harmony.complementary': 'Complémentaire',
+  'harmony.split_complementary': 'Complémentaire adjacente',
+  'harmony.triadic': 'Triadique',
+  'harmony.neutral': 'Neutre',
+  'harmony.mixed': 'Mixte',
+
+  'dimension.styleCategory': 'Catégorie de style',
+  'dimension.fit': 'Coupe',
+  'dimension.colorHarmony': 'Théorie des couleurs',
+  'dimension.occasion': 'Occasion',
+  'dimension.proportion': 'Proportions et poids visuel',
+  'dimension.fabric': 'Harmonie et qualité des matières',
+  'dimension.sophistication': 'Raffinement du stylisme',
+
+  'score.style': 'Style',
+  'score.fit': 'Coupe',
+  'score.color': 'Couleur',
+  'score.occasion': 'Occasion',
+
+  'status.pending': 'Analyse en attente',
+  'status.processing': 'Analyse en cours...',
+  'status.degraded': 'Analyse de secours',
+  'status.noOutfit': 'Aucune tenue détectée',
+  'status.failed': "Échec de l'analyse",
+
+  'calibration.personalBest': 'Record personnel · {delta} par rapport à d’habitude',
+  'calibration.vsUsual': '{delta} par rapport à d’habitude',
+  'calibration.aboutUsual': 'Dans votre moyenne',
+
+  'stage.uploaded': 'Photo importée',
+  'stage.preparing': "Préparation de l'image...",
+  'stage.queued': 'En attente de notre IA mode...',
+  'stage.reviewing': "L'IA mode examine votre look...",
+  'stage.repairing': "Vérification de l'analyse...",
+  'stage.retrying': "L'IA mode est occupée - nouvel essai sous peu...",
+  'stage.saving': 'Enregistrement de votre analyse...',
+  'stage.failed': "L'analyse a échoué",
+
+  'upload.title': '👑 Importez votre tenue',
+  'upload.subtitle': '✨ Choisissez ou capturez votre style ✨',
+  'upload.choosePhoto': 'Choisir une photo',
+  'upload.takePhoto': 'Prendre une photo',
+  'upload.noFaces': 'Aucun visage trouvé',
+  'upload.faceBlurred': '1 visage flouté',
+  'upload.facesBlurred': '{count} visages floutés',
+  'upload.faceCropped': '1 visage recadré',
+  'upload.facesCropped': '{count} visages recadrés',
+  'upload.moreAngles': 'Autres angles (facultatif)',
+  'upload.description': 'Parlez-nous de cette tenue (facultatif)',
+  'upload.descriptionPlaceholder': 'Occasion spéciale, objectifs de style ou tout ce que notre IA devrait prendre en compte...',
+  'upload.target': 'Où allez-vous la porter ? (facultatif)',
+  'upload.voice': "Voix de l'analyse (facultatif)",
+  'upload.voiceHint': 'Choisissez qui rédige votre analyse et avec quelle franchise. Seule la formulation change ; les scores restent les mêmes.',
+  'upload.privacyMode': 'Mode confidentialité',
+  'upload.privacyOff': 'Désactivé',
+  'upload.privacyBlur': 'Flouter le visage',
+  'upload.privacyCrop': 'Recadrer le visage',
+  'upload.uploadingPercent': 'Import de votre photo... {progress}%',
+  'upload.partialStyle': 'Style : {style}',
+  'upload.partialFit': 'Coupe : {score}/10',
+  'upload.partialColor': 'Couleur : {score}/10',
+  'upload.uploading': 'Import...',
+  'upload.analyzing': 'Analyse...',
+  'upload.submit': 'Obtenir mon analyse de style',
+  'upload.previewFailedTitle': "Échec de l'aperçu confidentialité",
+  'upload.previewFailed': 'Impossible de masquer les visages. Réessayez ou désactivez le mode confidentialité.',
+  'upload.fileNotFound': 'Fichier image introuvable',
+  'upload.fileTooLarge': "L'image est trop volumineuse. Choisissez une image plus petite (10 Mo max).",
+  'upload.invalidType': 'Sélectionnez un fichier image valide (JPG, PNG, GIF, WEBP).',
+  'upload.validateFailed': 'Impossible de valider le fichier image.',
+  'upload.cameraPermissionTitle': "📸 Autorisation de l'appareil photo requise",
+  'upload.cameraPermission': "Fashion Agent a besoin de l'appareil photo pour photographier vos tenues. Activez l'autorisation dans les réglages de l'appareil.",
+  'upload.cameraPermissionFailed': "Impossible de demander l'autorisation de l'appareil photo.",
+  'upload.libraryPermissionTitle': '📱 Autorisation de la photothèque requise',
+  'upload.libraryPermission': "Fashion Agent a besoin d'accéder à votre photothèque pour analyser vos photos de tenues. Activez l'autorisation dans les réglages de l'appareil.",
+  'upload.libraryPermissionFailed': "Impossible de demander l'autorisation de la photothèque.",
+  'upload.openSettings': 'Ouvrir les réglages',
+  'upload.imageSelected': 'Image sélectionnée',
+  'upload.photoCaptured': 'Photo prise',
+  'upload.ready': "Prête pour l'analyse de la tenue",
+  'upload.selectFailed': "Impossible de sélectionner l'image dans la photothèque.",
+  'upload.captureFailed': 'Impossible de prendre la photo.',
+  'upload.selectFirst': "Sélectionnez ou prenez d'abord une photo.",
+  'upload.notAnalyzed': "Notre IA mode n'a pas pu analyser cette photo. Veuillez réessayer.",
+  'upload.noOutfitTitle': 'Aucune tenue détectée',
+  'upload.noOutfitBody': 'Importez une image avec des vêtements à analyser',
+  'upload.cacheHit': 'Nous avons déjà vu ce look !',
+  'upload.complete': 'Analyse terminée !',
+  'upload.scored': 'Votre tenue a obtenu {score}/10',
+  'upload.limitReached': "Limite d'analyses atteinte",
+  'upload.notAccepted': 'Photo refusée',
+  'upload.refusedPhoto': 'Photo ({role}) : ',
+  'upload.appeal': 'Faire appel',
+  'upload.appealSent': 'Appel envoyé',
+  'upload.appealSentBody': 'Nous réexaminerons cette photo.',
+  'upload.appealFailed': "Échec de l'appel",
+  'upload.appealFailedBody': 'Veuillez réessayer plus tard.',
+  'upload.failedTitle': "L'analyse a échoué",
+  'upload.failed': "L'analyse a échoué. Veuillez réessayer.",
+
+  'home.title': '👑 Fashion Agent',
+  'home.subtitle': '✨ Expert de style IA premium ✨',
+  'home.freeReviews': 'Analyses gratuites :',
+  'home.left': '{count} restantes',
+  'home.tipsTitle': '📸 Conseils pour de meilleurs résultats',
+  'home.tipFullBody': 'Photo en pied avec un bon éclairage',
+  'home.tipBackground': 'Un fond uni fonctionne le mieux',
+  'home.tipOutfit': 'Montrez clairement toute votre tenue',
+  'home.tipFilters': 'Évitez les filtres et retouches prononcés',
+
+  'analysis.noOutfitTitle': 'Aucune tenue détectée',
+  'analysis.noOutfitSubtitle': "Nous n'avons pas trouvé suffisamment de vêtements à analyser sur cette image",
+  'analysis.guestReviews': 'Analyses invité : ',
+  'analysis.remaining': '({count} restantes)',
+  'analysis.notPossible': 'Analyse de mode impossible',
+  'analysis.notPossibleIntro': 'Notre experte mode IA doit voir de vrais vêtements pour faire une analyse. Cette image semble montrer :',
+  'analysis.noClothing': 'Aucun vêtement significatif visible',
+  'analysis.insufficient': "Pas assez d'éléments de tenue pour une évaluation",
+  'analysis.bestResults': 'Pour de meilleurs résultats',
+  'analysis.tipCompleteOutfit': 'Importez une photo montrant une tenue complète',
+  'analysis.tipPieces': 'Incluez hauts, bas et accessoires si possible',
+  'analysis.tipVisible': 'Assurez-vous que toute la tenue est bien visible',
+  'analysis.tipLighting': 'Utilisez un bon éclairage et un fond dégagé',
+  'analysis.uploadNew': 'Importer une nouvelle photo',
+  'analysis.allUsed': 'Toutes les analyses utilisées !',
+  'analysis.lastFree': 'Dernière analyse gratuite !',
+  'analysis.allUsedBody': 'Inscrivez-vous pour des analyses illimitées et des fonctions avancées !',
+  'analysis.lastFreeBody': 'Il vous reste 1 analyse. Inscrivez-vous pour un accès illimité !',
+  'analysis.createAccount': 'Créer un compte gratuit',
+  'analysis.complete': 'Analyse terminée !',
+  'analysis.completeSubtitle': 'Voici le détail de votre style',
+  'analysis.overallScore': 'Note globale',
+  'analysis.overallScoreSubtext': "Le détail de l'analyse de votre tenue",
+  'analysis.coreAssessments': 'Évaluations principales',
+  'analysis.expertAnalysis': "Analyse d'expert",
+  'analysis.workingWell': 'Ce qui fonctionne',
+  'analysis.expertInsights': "Regard d'expert",
+  'analysis.technicalFlaws': 'Analyse technique et points à améliorer',
+  'analysis.recommendations': 'Recommandations professionnelles',
+  'analysis.feedbackQuestion': "Comment s'est passée votre expérience ?",
+  'analysis.feedbackHelps': 'Votre avis nous aide à améliorer notre expert mode IA',
+  'analysis.giveFeedback': 'Donner mon avis',
+  'analysis.thanks': 'Merci !',
+  'analysis.thanksBody': 'Votre avis nous aide à améliorer notre analyse de mode',
+  'analysis.analyzeAnother': 'Analyser une autre tenue',
+
+  'garments.title': 'Pièce par pièce',
+
+  'palette.title': 'Palette mesurée',
+
+  'comparison.title': 'Avant / après',
+  'comparison.before': 'Avant',
+  'comparison.now': 'Maintenant',
+  'comparison.notAvailable': 'n/d',
+  'comparison.improved': 'En progrès',
+  'comparison.regressed': 'En recul',
+
+  'chat.title': 'Posez une question sur cette tenue',
+  'chat.suggestShoes': 'Quelles chaussures iraient avec ?',
+  'chat.suggestFormal': 'Comment la rendre plus habillée ?',
+  'chat.suggestChange': "Quel changement l'améliorerait le plus ?",
+  'chat.thinking': 'Réflexion...',
+  'chat.placeholder': 'Posez une autre question...',
+  'chat.send': 'Envoyer',
+  'chat.limitReached': 'Limite de questions atteinte',
+  'chat.noAnswer': 'Pas de réponse',
+  'chat.tryAgain': 'Veuillez réessayer',
+
+  'history.title': 'Historique de style',
+  'history.subtitleMember': 'Votre parcours mode - {count} dernières analyses',
+  'history.subtitleGuest': 'Accès invité - {count} dernières analyses',
+  'history.upgradeHint': "Inscrivez-vous pour voir jusqu'à 5 analyses et débloquer les fonctions premium !",
+  'history.allOccasions': 'Toutes les occasions',
+  'history.loading': 'Chargement de votre historique de style...',
+  'history.noOccasionLooks': 'Pas encore de looks « {occasion} »',
+  'history.pickOccasion': "Choisissez cette occasion lors de l'import d'une tenue pour la voir ici.",
+  'history.empty': "Pas encore d'historique d'analyses",
+  'history.emptyHint': 'Importez la photo de votre première tenue pour commencer votre profil de style !',
+  'history.styleReview': 'Analyse de style',
+  'history.viewComparison': 'Voir la comparaison',
+  'history.comparing': 'Comparaison...',
+  'history.compare': 'Comparer avec la précédente',
+  'history.loadFailed': "Impossible de charger l'historique",
+  'history.checkConnection': 'Vérifiez votre connexion et réessayez',
+  'history.compareFailed': 'Échec de la comparaison',
+  'history.compareRetry': 'Veuillez réessayer dans un instant',
+
+  'profile.logout': 'Déconnexion',
+  'profile.logoutConfirm': 'Voulez-vous vraiment vous déconnecter ?',
+  'profile.login': 'Connexion',
+  'profile.loginSoon': 'La connexion arrive bientôt !',
+  'profile.welcome': 'Bienvenue sur Drip',
+  'profile.guestSubtitle': 'Inscrivez-vous pour débloquer les fonctions premium',
+  'profile.benefits': '🌟 Avantages premium',
+  'profile.benefitReviews': '5 analyses de style',
+  'profile.benefitReviewsDesc': "Jusqu'à 5 analyses de tenues au lieu de 3 en invité",
+  'profile.benefitHistory': 'Historique de style',
+  'profile.benefitHistoryDesc': "Suivez l'évolution et les progrès de votre style",
+  'profile.benefitTips': 'Conseils personnalisés',
+  'profile.benefitTipsDesc': 'Des recommandations IA adaptées à vos préférences de style',
+  'profile.signUp': 'Inscription / Connexion',
+  'profile.continueGuest': 'Continuer en invité avec 3 analyses gratuites',
+  'profile.defaultName': 'Passionné de mode',
+  'profile.premiumMember': 'Membre premium',
+  'profile.settings': '⚙️ Réglages',
+  'profile.notifications': '🔔 Notifications',
+  'profile.preferences': '🎨 Préférences',
+  'profile.help': '❓ Aide et assistance',
+  'profile.comingSoon': 'Bientôt disponible',
+  'profile.logoutMenu': '🚪 Déconnexion',
+  'profile.dataProtected': '🔒 Vos données sont protégées',
+  'profile.language': 'Langue',
+  'profile.languageDevice': 'Celle de mon téléphone',
+  'profile.languageHint': 'Les analyses, les réponses et les messages sont rédigés dans cette langue.',
+  'profile.languageFailed': "Impossible d'enregistrer votre langue",
+};
@@ -3,6 +3,7 @@ import { Platform } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
 import * as Crypto from 'expo-crypto';
 import Toast from 'react-native-toast-message';
+import type { Locale } from '../locales';
 
 // Environment-based API URL configuration
 const getApiUrl = () => {
@@ -38,6 +39,13 @@ const api = axios.create({
   },
 });
 
+// Language analyses and API messages come back in; kept in sync by the locale provider
+let requestLocale: Locale | null = null;
+
+export const setRequestLocale = (locale: Locale) => {
+  requestLocale = locale;
+};
+
 // Security utility functions
 export const SecurityUtils = {
   // Generate request signature for sensitive operations
@@ -243,6 +251,9 @@ api.interceptors.request.use(
       // Add device info for analytics and security
       config.headers['X-Platform'] = Platform.OS;
       config.headers['X-App-Version'] = '1.0.0';
+      if (requestLocale) {
+        config.headers['Accept-Language'] = requestLocale;
+      }
 
       // Log requests in development
       if (__DEV__) {
@@ -412,11 +423,278 @@ export const fashionAPI = {
     });
   },
 
-  getAnalysisHistory: () => api.get('/reviews'),
+  // Queue the analysis instead of waiting for it; follow it with streamAnalysisEvents or getAnalysisStatus
+  // privacy: blur or crop out faces before the photo is stored or analyzed (defaults to the profile setting)
+  // target: occasion, season and climate the outfit is scored against
+  // extraViews: more angles of the same outfit, analyzed together with the main photo
+  // voice: persona and tone the analysis is written in (defaults to the profile setting)
+  queueAnalysis: (
+    imageUri: string,
+    description?: string,
+    onProgress?: (progress: number) => void,
+    privacy?: PrivacyMode,
+    target?: AnalysisTarget,
+    extraViews?: { role: Exclude<ImageRole, 'front'>; uri: string }[],
+    voice?: ReviewerVoice
+  ) => {
+    const formData = new FormData();
+    formData.append('image', {
+      uri: imageUri,
+      type: 'image/jpeg',
+      name: 'outfit.jpg',
+    } as any);
+    extraViews?.forEach(({ role, uri }) => {
+      formData.append(role, {
+        uri,
+        type: 'image/jpeg',
+        name: `${role}.jpg`,
+      } as any);
+    });
+
+    if (description) {
+      formData.append('description', description);
+    }
+    Object.entries({ ...target, ...voice }).forEach(([field, value]) => {
+      if (value) formData.append(field, value);
+    });
+
+    return api.post('/reviews', formData, {
+      params: { async: 'true', ...(privacy && { privacy }) },
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      onUploadProgress: (progressEvent) => {
+        if (onProgress && progressEvent.total) {
+          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total);
+          onProgress(progress);
+        }
+      },
+    });
+  },
+
+  // Redacted copy of a photo as a data URI, so the user sees what will be stored; nothing is saved
+  privacyPreview: (imageUri: string, privacy?: PrivacyMode) => {
+    const formData = new FormData();
+    formData.append('image', {
+      uri: imageUri,
+      type: 'image/jpeg',
+      name: 'outfit.jpg',
+    } as any);
+
+    return api.post<{ privacyMode: PrivacyMode; facesRedacted: number; image: string }>(
+      '/reviews/privacy-preview',
+      formData,
+      {
+        params: privacy ? { privacy } : undefined,
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      }
+    );
+  },
+
+  // wait: seconds the server may hold the request open until the analysis finishes (max 25)
+  getAnalysisStatus: (id: string, wait = 0) =>
+    api.get(`/reviews/${id}/status`, { params: wait > 0 ? { wait } : undefined }),
+
+  // occasion narrows the history to reviews scored against it
+  getAnalysisHistory: (occasion?: Occasion) => api.get('/reviews', { params: occasion ? { occasion } : undefined }),
   
   getAnalysis: (id: string) => api.get(`/reviews/${id}`),
+
+  compareReviews: (id: string, previousReviewIds: string[]) =>
+    api.post(`/reviews/${id}/compare`, { previousReviewIds }),
   
   deleteAnalysis: (id: string) => api.delete(`/reviews/${id}`),
+
+  // Follow-up conversation about a review, oldest message first
+  getMessages: (id: string) => api.get<{ messages: ReviewMessage[] }>(`/reviews/${id}/messages`),
+
+  // The question and the answer come back together once the answer is stored
+  sendMessage: (id: string, content: string) =>
+    api.post<{ question: ReviewMessage; reply: ReviewMessage }>(`/reviews/${id}/messages`, { content }),
+
+  // Appeal an upload refused by content moderation (moderationId from the 422 response)
+  appealModeration: (moderationId: string, message?: string) =>
+    api.post(`/reviews/moderation/${moderationId}/appeal`, { message }),
+};
+
+// off: photo is sent as taken | blur: faces are blurred | crop: everything above the lowest face is cut off
+export type PrivacyMode = 'off' | 'blur' | 'crop';
+
+export interface Garment {
+  type: string;
+  // Dominant colors as #rrggbb, most prominent first
+  colors: string[];
+  pattern: string | null;
+  fabric: string | null;
+  fitNotes: string | null;
+  score: number | null;
+  // Fractions (0-1) of the image width and height, from the top left
+  boundingBox: { x: number; y: number; width: number; height: number } | null;
+}
+
+export type Occasion =
+  | 'wedding_guest' | 'job_interview' | 'office' | 'business_meeting' | 'date_night' | 'party' | 'funeral'
+  | 'graduation' | 'religious_service' | 'brunch' | 'casual_outing' | 'travel' | 'festival' | 'beach' | 'gym'
+  | 'white_tie' | 'black_tie' | 'cocktail' | 'business_formal' | 'business_casual' | 'smart_casual' | 'casual';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type Climate = 'tropical' | 'hot_dry' | 'temperate' | 'cold' | 'rainy';
+
+// Offered in this order; labels come from the occasion.*, season.* and climate.* messages
+export const OCCASIONS: Occasion[] = [
+  'wedding_guest', 'job_interview', 'office', 'business_meeting', 'date_night', 'party', 'funeral',
+  'graduation', 'religious_service', 'brunch', 'casual_outing', 'travel', 'festival', 'beach', 'gym',
+  'white_tie', 'black_tie', 'cocktail', 'business_formal', 'business_casual', 'smart_casual', 'casual',
+];
+
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export const CLIMATES: Climate[] = ['tropical', 'hot_dry', 'temperate', 'cold', 'rainy'];
+
+// What the outfit is scored against; every part is optional
+export interface AnalysisTarget {
+  occasion?: Occasion;
+  season?: Season;
+  climate?: Climate;
+}
+
+// Who the analysis is written as and how bluntly; labels come from the persona.* and tone.* messages
+export type Persona = 'gentle_coach' | 'editorial_critic' | 'practical_friend' | 'image_consultant';
+
+export type Tone = 'gentle' | 'balanced' | 'direct' | 'brutal';
+
+export const PERSONAS: Persona[] = ['gentle_coach', 'editorial_critic', 'practical_friend', 'image_consultant'];
+
+// Softest first
+export const TONES: Tone[] = ['gentle', 'balanced', 'direct', 'brutal'];
+
+// Changes only the wording, never the scores; unset parts fall back to the profile
+export interface ReviewerVoice {
+  persona?: Persona;
+  tone?: Tone;
+}
+
+// What a photo of a multi-angle review shows; also the upload field it is sent under
+export type ImageRole = 'front' | 'side' | 'back' | 'shoes' | 'detail';
+
+export interface ReviewImage {
+  role: ImageRole;
+  imageUrl: string;
+}
+
+// Dominant colors measured from the photo by the backend
+export interface ColorPalette {
+  // Largest share first; share is 0-1, neutral swatches (black, white, grey, beige) do not count towards the harmony
+  swatches: { hex: string; share: number; neutral: boolean }[];
+  harmony: 'monochromatic' | 'analogous' | 'complementary' | 'split_complementary' | 'triadic' | 'neutral' | 'mixed';
+  // False when the whole photo was measured because the background could not be separated
+  backgroundExcluded: boolean;
+}
+
+// Overall score relative to the wearer's usual one; null until they have a few scored reviews
+export interface ScoreCalibration {
+  baseline: number;
+  // overallScore minus baseline, on the 0-100 scale
+  delta: number;
+  trend: 'personal_best' | 'above_usual' | 'usual' | 'below_usual';
+  reviewsConsidered: number;
+}
+
+// One turn of the follow-up conversation about a review
+export interface ReviewMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+export type AnalysisStage =
+  | 'uploaded'
+  | 'image_preprocessed'
+  | 'queued'
+  | 'model_started'
+  | 'partial'
+  | 'repair_started'
+  | 'retry_scheduled'
+  | 'persisted'
+  | 'failed';
+
+export interface AnalysisProgressEvent {
+  reviewId: string;
+  stage: AnalysisStage;
+  at: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Follow an async analysis over Server-Sent Events. React Native has no EventSource or
+ * streaming fetch, so this reads the stream through XMLHttpRequest's partial responseText.
+ * Resolves when the server closes the stream; call cancel() to stop early.
+ */
+export const streamAnalysisEvents = (
+  reviewId: string,
+  onEvent: (event: AnalysisProgressEvent) => void
+): { done: Promise<void>; cancel: () => void } => {
+  const xhr = new XMLHttpRequest();
+
+  const done = (async () => {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (requestLocale) {
+      headers['Accept-Language'] = requestLocale;
+    }
+    const token = await SecurityUtils.getStoredToken();
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    } else {
+      const deviceInfo = await GuestUtils.getGuestDeviceInfo();
+      headers['X-Device-ID'] = deviceInfo.deviceId;
+      headers['X-Device-Fingerprint'] = deviceInfo.fingerprint;
+      headers['X-Device-Platform'] = deviceInfo.platform;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let processed = 0;
+
+      const flush = () => {
+        const text = xhr.responseText || '';
+        let boundary = text.indexOf('\n\n', processed);
+        while (boundary !== -1) {
+          const message = text.slice(processed, boundary);
+          processed = boundary + 2;
+
+          const data = message
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice('data:'.length).trim())
+            .join('');
+          if (data) {
+            onEvent(JSON.parse(data));
+          }
+          boundary = text.indexOf('\n\n', processed);
+        }
+      };
+
+      xhr.open('GET', `${API_BASE_URL}/reviews/${reviewId}/events`);
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.onprogress = flush;
+      xhr.onload = () => {
+        flush();
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Event stream failed with status ${xhr.status}`));
+        }
+      };
+      xhr.onerror = () => reject(new Error('Event stream connection failed'));
+      xhr.onabort = () => resolve();
+      xhr.send();
+    });
+  })();
+
+  return { done, cancel: () => xhr.abort() };
 };
 
 export const guestAPI = {
@@ -460,9 +738,9 @@ export const guestAPI = {
   submitFeedback: (reviewId: string, feedbackData: {
     feedbackRating?: number;
     userFeedback?: string;
-    accepted?: boolean;
+    accepted: boolean;
   }) => {
-    return api.post(`/guest/reviews/${reviewId}/feedback`, feedbackData);
+    return api.post(`/reviews/${reviewId}/accept`, feedbackData);
   },
 };
 
@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider } from '@/context/AuthContext'
+import { LocaleProvider } from '@/context/LocaleContext'
 
 const inter = Inter({
   subsets: ['latin'],
@@ -44,38 +45,40 @@ export default function RootLayout({
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
       </head>
       <body className={`${inter.className} antialiased`}>
-        <AuthProvider>
-          <div className="mobile-container">
-            {children}
-            <Toaster
-              position="top-center"
-              toastOptions={{
-                duration: 5000,
-                style: {
-                  background: 'linear-gradient(135deg, #1a1a1a 0%, #4a4a4a 100%)',
-                  color: '#ffffff',
-                  border: '1px solid rgba(255, 255, 255, 0.1)',
-                  borderRadius: '16px',
-                  backdropFilter: 'blur(20px)',
-                  fontSize: '14px',
-                  fontWeight: '500',
-                  padding: '16px 20px',
-                  boxShadow: '0 20px 40px rgba(0, 0, 0, 0.3)',
-                },
-                success: {
+        <LocaleProvider>
+          <AuthProvider>
+            <div className="mobile-container">
+              {children}
+              <Toaster
+                position="top-center"
+                toastOptions={{
+                  duration: 5000,
                   style: {
-                    background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+                    background: 'linear-gradient(135deg, #1a1a1a 0%, #4a4a4a 100%)',
+                    color: '#ffffff',
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    borderRadius: '16px',
+                    backdropFilter: 'blur(20px)',
+                    fontSize: '14px',
+                    fontWeight: '500',
+                    padding: '16px 20px',
+                    boxShadow: '0 20px 40px rgba(0, 0, 0, 0.3)',
                   },
-                },
-                error: {
-                  style: {
-                    background: 'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)',
+                  success: {
+                    style: {
+                      background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+                    },
+                  },
+                  error: {
+                    style: {
+                      background: 'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)',
+                    },
                   },
-                },
-              }}
-            />
-          </div>
-        </AuthProvider>
+                }}
+              />
+            </div>
+          </AuthProvider>
+        </LocaleProvider>
       </body>
     </html>
   )
@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { X, Star, MessageSquare } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { reviewsApi } from '@/lib/api'
 
 interface FeedbackModalProps {
   reviewId: string
@@ -27,23 +28,11 @@ export function FeedbackModal({ reviewId, isOpen, onClose, onSuccess }: Feedback
 
     setSubmitting(true)
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/guest/reviews/${reviewId}/feedback`, {
-        method: 'POST',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          feedbackRating: rating,
-          userFeedback: feedback.trim() || null,
-          accepted: rating >= 4, // 4-5 stars considered positive
-        }),
+      await reviewsApi.accept(reviewId, rating >= 4, { // 4-5 stars considered positive
+        feedbackRating: rating,
+        userFeedback: feedback.trim() || null,
       })
 
-      if (!response.ok) {
-        throw new Error('Failed to submit feedback')
-      }
-
       toast.success('Thank you for your feedback!')
       onSuccess()
       onClose()
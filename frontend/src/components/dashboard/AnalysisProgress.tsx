@@ -0,0 +1,85 @@
+'use client'
+
+import { CheckCircle, Circle, Loader2 } from 'lucide-react'
+import { AnalysisStage } from '@/lib/api'
+import { useTranslation } from '@/context/LocaleContext'
+import type { MessageKey } from '@/locales'
+
+interface AnalysisProgressProps {
+  stage: AnalysisStage | null
+  partialFields: Record<string, any>
+  retrying?: boolean
+}
+
+const STEPS: { label: MessageKey; stages: AnalysisStage[] }[] = [
+  { label: 'progress.uploaded', stages: ['uploaded'] },
+  { label: 'progress.prepared', stages: ['image_preprocessed', 'queued'] },
+  { label: 'progress.reviewing', stages: ['model_started', 'partial', 'repair_started', 'retry_scheduled'] },
+  { label: 'progress.saving', stages: ['persisted'] },
+]
+
+const PARTIAL_SCORES: { field: string; label: MessageKey }[] = [
+  { field: 'styleCategoryScore', label: 'score.style' },
+  { field: 'fitScore', label: 'score.fit' },
+  { field: 'colorHarmonyScore', label: 'score.color' },
+  { field: 'occasionScore', label: 'score.occasion' },
+  { field: 'proportionScore', label: 'score.proportion' },
+  { field: 'fabricScore', label: 'score.fabric' },
+  { field: 'sophisticationScore', label: 'score.sophistication' },
+]
+
+// Live view of an async analysis: completed steps plus fields as the model writes them
+export function AnalysisProgress({ stage, partialFields, retrying }: AnalysisProgressProps) {
+  const { t } = useTranslation()
+  const currentStep = stage ? STEPS.findIndex(step => step.stages.includes(stage)) : -1
+
+  return (
+    <div className="card-glass space-y-4 animate-luxury-fade">
+      <ul className="space-y-3">
+        {STEPS.map((step, index) => {
+          const complete = index < currentStep
+          const active = index === currentStep
+          return (
+            <li key={step.label} className="flex items-center space-x-3">
+              {complete ? (
+                <CheckCircle className="w-5 h-5 text-emerald-500" />
+              ) : active ? (
+                <Loader2 className="w-5 h-5 text-gold-500 animate-spin" />
+              ) : (
+                <Circle className="w-5 h-5 text-luxury-300" />
+              )}
+              <span className={`font-medium ${complete || active ? 'text-luxury-900' : 'text-luxury-400'}`}>
+                {t(step.label)}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+
+      {retrying && (
+        <p className="text-sm text-yellow-700">{t('progress.retrying')}</p>
+      )}
+
+      {Object.keys(partialFields).length > 0 && (
+        <div className="border-t border-luxury-200 pt-4 space-y-3">
+          {partialFields.styleCategory && (
+            <p className="text-luxury-900">
+              <span className="text-luxury-600">{t('progress.style')} </span>
+              <span className="font-semibold capitalize">{partialFields.styleCategory}</span>
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {PARTIAL_SCORES.filter(({ field }) => typeof partialFields[field] === 'number').map(({ field, label }) => (
+              <span key={field} className="px-3 py-1 rounded-xl bg-white/50 text-sm font-medium text-luxury-900">
+                {t(label)} {Math.round(partialFields[field] / 10)}/10
+              </span>
+            ))}
+          </div>
+          {partialFields.highlights?.[0] && (
+            <p className="text-sm text-luxury-700">✨ {partialFields.highlights[0]}</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
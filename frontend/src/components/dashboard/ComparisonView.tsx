@@ -0,0 +1,127 @@
+'use client'
+
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { useTranslation } from '@/context/LocaleContext'
+
+export interface DimensionDelta {
+  dimension: string
+  label: string
+  previous: number | null
+  current: number | null
+  delta: number | null
+}
+
+export interface ComparisonDetails {
+  previousReviewIds: string[]
+  dimensions: DimensionDelta[]
+  improved: string[]
+  regressed: string[]
+  narrative: string
+  provider: string
+  model: string
+  generatedAt: string
+}
+
+interface ComparisonViewProps {
+  details: ComparisonDetails
+  currentImageUrl: string
+  previousImageUrl?: string
+}
+
+// Convert 100-point scale to 10-point scale, keeping one decimal for small deltas
+const toTenPoint = (score: number) => Math.round(score) / 10
+
+export function ComparisonView({ details, currentImageUrl, previousImageUrl }: ComparisonViewProps) {
+  const { t } = useTranslation()
+
+  const getDeltaColor = (delta: number | null) => {
+    if (delta === null || delta === 0) return 'text-gray-500'
+    return delta > 0 ? 'text-green-600' : 'text-red-600'
+  }
+
+  const getDeltaIcon = (delta: number | null) => {
+    if (delta === null || delta === 0) return <Minus className="w-4 h-4" />
+    return delta > 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />
+  }
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 space-y-4">
+      <h3 className="font-medium text-purple-800">{t('comparison.title')}</h3>
+
+      {/* Images */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">
+            {details.previousReviewIds.length > 1
+              ? t('comparison.beforeLooks', { count: details.previousReviewIds.length })
+              : t('comparison.before')}
+          </div>
+          <div className="rounded-lg overflow-hidden bg-gray-100 h-40">
+            {previousImageUrl && (
+              <img src={previousImageUrl} alt={t('comparison.previousAlt')} className="w-full h-full object-cover" />
+            )}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs font-medium text-gray-500 mb-1">{t('comparison.now')}</div>
+          <div className="rounded-lg overflow-hidden bg-gray-100 h-40">
+            <img src={currentImageUrl} alt={t('comparison.currentAlt')} className="w-full h-full object-cover" />
+          </div>
+        </div>
+      </div>
+
+      {/* Per-dimension deltas */}
+      <div className="bg-white rounded-lg divide-y divide-gray-100">
+        {details.dimensions.map((dimension) => (
+          <div key={dimension.dimension} className="flex items-center justify-between px-3 py-2 text-sm">
+            <span className="text-gray-700">{dimension.label}</span>
+            <div className="flex items-center space-x-3">
+              <span className="text-gray-500">
+                {dimension.previous !== null ? toTenPoint(dimension.previous) : '-'}
+                {' → '}
+                {dimension.current !== null ? toTenPoint(dimension.current) : '-'}
+              </span>
+              <span className={`flex items-center font-medium ${getDeltaColor(dimension.delta)}`}>
+                {getDeltaIcon(dimension.delta)}
+                <span className="ml-1">
+                  {dimension.delta === null ? t('comparison.notAvailable') : `${dimension.delta > 0 ? '+' : ''}${toTenPoint(dimension.delta)}`}
+                </span>
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* What changed */}
+      {details.improved.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-green-800 mb-2">{t('comparison.improved')}</h4>
+          <ul className="space-y-2">
+            {details.improved.map((item, index) => (
+              <li key={index} className="flex items-start text-sm text-green-700">
+                <div className="w-1.5 h-1.5 rounded-full bg-green-500 mt-2 mr-3 flex-shrink-0"></div>
+                {item}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details.regressed.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-orange-800 mb-2">{t('comparison.regressed')}</h4>
+          <ul className="space-y-2">
+            {details.regressed.map((item, index) => (
+              <li key={index} className="flex items-start text-sm text-orange-700">
+                <div className="w-1.5 h-1.5 rounded-full bg-orange-500 mt-2 mr-3 flex-shrink-0"></div>
+                {item}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-sm text-purple-700">{details.narrative}</p>
+    </div>
+  )
+}
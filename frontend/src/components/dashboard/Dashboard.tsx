@@ -6,29 +6,31 @@ import { UploadSection } from './UploadSection'
 import { ReviewHistory } from './ReviewHistory'
 import { ProfileSection } from './ProfileSection'
 import { useAuth } from '@/context/AuthContext'
+import { useTranslation } from '@/context/LocaleContext'
 
 type ActiveTab = 'upload' | 'history' | 'profile'
 
 export function Dashboard() {
   const [activeTab, setActiveTab] = useState<ActiveTab>('upload')
   const { user, logout } = useAuth()
+  const { t } = useTranslation()
 
   const tabs = [
     {
       id: 'upload' as ActiveTab,
-      label: 'Analyze',
+      label: t('nav.analyze'),
       icon: Camera,
       gradient: 'from-rose-500 to-pink-600'
     },
     {
       id: 'history' as ActiveTab,
-      label: 'History',
+      label: t('nav.history'),
       icon: History,
       gradient: 'from-purple-500 to-indigo-600'
     },
     {
       id: 'profile' as ActiveTab,
-      label: 'Profile',
+      label: t('nav.profile'),
       icon: User,
       gradient: 'from-emerald-500 to-teal-600'
     },
@@ -66,7 +68,7 @@ export function Dashboard() {
             </div>
             <div>
               <h1 className="text-2xl font-bold text-gradient-luxury">Fashion Agent</h1>
-              <p className="text-luxury-600 text-sm font-medium">Premium Style Analysis</p>
+              <p className="text-luxury-600 text-sm font-medium">{t('app.tagline')}</p>
             </div>
           </div>
           <button
@@ -82,7 +84,7 @@ export function Dashboard() {
           <div className="flex items-center space-x-2">
             <Star className="w-4 h-4 text-gold-500" />
             <p className="text-luxury-700 font-medium">
-              Welcome back, <span className="text-gradient-gold">{user?.email?.split('@')[0]}</span>
+              {t('app.welcomeBack')} <span className="text-gradient-gold">{user?.email?.split('@')[0]}</span>
             </p>
           </div>
         </div>
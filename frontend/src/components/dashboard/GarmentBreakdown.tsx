@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { Shirt } from 'lucide-react'
+import type { Garment } from '@/lib/api'
+import { useTranslation } from '@/context/LocaleContext'
+
+interface GarmentBreakdownProps {
+  garments: Garment[]
+  imageUrl?: string | null
+}
+
+// Photo with a tappable box per garment, and the selected garment's details below
+export function GarmentBreakdown({ garments, imageUrl }: GarmentBreakdownProps) {
+  const { t } = useTranslation()
+  const [selected, setSelected] = useState(0)
+  const garment = garments[selected]
+
+  if (!garment) {
+    return null
+  }
+
+  return (
+    <div className="card-luxury">
+      <div className="flex items-center mb-4">
+        <Shirt className="w-5 h-5 text-gold-600 mr-2" />
+        <h3 className="text-lg font-semibold text-luxury-900">{t('garments.title')}</h3>
+      </div>
+
+      {imageUrl && (
+        // The wrapper hugs the image so box percentages line up with it
+        <div className="flex justify-center mb-4">
+          <div className="relative inline-block rounded-2xl overflow-hidden">
+            <img
+              src={imageUrl}
+              alt={t('analysis.analyzedAlt')}
+              className="block max-h-[28rem] w-auto"
+            />
+            {garments.map((item, index) => item.boundingBox && (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setSelected(index)}
+                aria-label={item.type}
+                className={`absolute border-2 rounded-lg transition-colors ${
+                  index === selected
+                    ? 'border-gold-400 bg-gold-400/20'
+                    : 'border-white/70 bg-white/0 hover:bg-white/10'
+                }`}
+                style={{
+                  left: `${item.boundingBox.x * 100}%`,
+                  top: `${item.boundingBox.y * 100}%`,
+                  width: `${item.boundingBox.width * 100}%`,
+                  height: `${item.boundingBox.height * 100}%`,
+                }}
+              >
+                <span className="absolute -top-px left-0 bg-black/60 text-white text-xs px-2 py-0.5 rounded-br-lg capitalize">
+                  {item.type}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Garments without a box are only reachable from here */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {garments.map((item, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setSelected(index)}
+            className={`px-3 py-1 rounded-full text-sm font-medium capitalize border transition-colors ${
+              index === selected
+                ? 'bg-gold-500 text-white border-gold-500'
+                : 'bg-white/50 text-luxury-700 border-luxury-200 hover:bg-white'
+            }`}
+          >
+            {item.type}
+          </button>
+        ))}
+      </div>
+
+      <div className="card-glass p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-lg font-semibold text-luxury-900 capitalize">{garment.type}</span>
+          {garment.score !== null && (
+            <span className="text-2xl font-bold text-gradient-gold">{Math.round(garment.score / 10)}/10</span>
+          )}
+        </div>
+
+        {garment.colors.length > 0 && (
+          <div className="flex items-center space-x-2">
+            {garment.colors.map(color => (
+              <span key={color} className="flex items-center text-xs text-luxury-600">
+                <span
+                  className="w-5 h-5 rounded-full border border-luxury-200 mr-1"
+                  style={{ backgroundColor: color }}
+                />
+                {color}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          {garment.pattern && (
+            <span className="px-2 py-1 rounded bg-white/50 text-luxury-700 capitalize">{garment.pattern}</span>
+          )}
+          {garment.fabric && (
+            <span className="px-2 py-1 rounded bg-white/50 text-luxury-700 capitalize">{garment.fabric}</span>
+          )}
+        </div>
+
+        {garment.fitNotes && (
+          <p className="text-sm text-luxury-700">{garment.fitNotes}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -17,12 +17,21 @@ import {
   AlertTriangle,
   Eye
 } from 'lucide-react'
-import { reviewsApi } from '@/lib/api'
+import { reviewsApi, Garment, ColorPalette, ScoreCalibration } from '@/lib/api'
 import toast from 'react-hot-toast'
+import { AnalysisStatus } from '@/components/ui/AnalysisStatusBadge'
+import { CalibrationBadge } from '@/components/ui/CalibrationBadge'
+import { GarmentBreakdown } from './GarmentBreakdown'
+import { ReviewChat } from './ReviewChat'
+import { useTranslation } from '@/context/LocaleContext'
 
 interface OutfitAnalysisProps {
   result: {
     reviewId: string
+    analysisStatus?: AnalysisStatus
+    analysisProvider?: string | null
+    analysisModel?: string | null
+    calibration?: ScoreCalibration | null
     outfitAnalysis: {
       styleCategory: string
       styleCategoryScore: number
@@ -43,6 +52,10 @@ interface OutfitAnalysisProps {
       improvementSuggestions: string[]
       expertInsights: string[]
       technicalFlaws: string[]
+      garments?: Garment[]
+      colorPalette?: ColorPalette | null
+      confidence?: Record<string, number> | null
+      disagreements?: { dimension: string; min: number; max: number; spread: number }[]
     }
   }
   imageUrl?: string | null
@@ -50,6 +63,7 @@ interface OutfitAnalysisProps {
 }
 
 export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysisProps) {
+  const { t } = useTranslation()
   const [feedbackGiven, setFeedbackGiven] = useState(false)
   const [loading, setLoading] = useState(false)
 
@@ -60,10 +74,10 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
       setLoading(true)
       await reviewsApi.accept(result.reviewId, accepted)
       setFeedbackGiven(true)
-      toast.success(accepted ? 'Thanks for the positive feedback!' : 'Thanks for your feedback!')
+      toast.success(accepted ? t('analysis.thanksPositive') : t('analysis.thanks'))
     } catch (error) {
       console.error('Feedback error:', error)
-      toast.error('Failed to submit feedback')
+      toast.error(t('analysis.feedbackFailed'))
     } finally {
       setLoading(false)
     }
@@ -96,7 +110,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
   }
 
   // Check for "no outfit" case
-  if (outfitAnalysis.styleCategory === 'no outfit' || outfitAnalysis.overallScore === 0) {
+  if (result.analysisStatus === 'no_outfit' || outfitAnalysis.styleCategory === 'no outfit' || outfitAnalysis.overallScore === 0) {
     return (
       <div className="space-y-6 animate-slide-up">
         {/* Header */}
@@ -106,8 +120,8 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
               <AlertTriangle className="w-8 h-8 text-red-600" />
             </div>
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Outfit Detected</h2>
-          <p className="text-gray-600">We couldn't find substantial clothing to analyze in this image</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('analysis.noOutfitTitle')}</h2>
+          <p className="text-gray-600">{t('analysis.noOutfitSubtitle')}</p>
         </div>
 
         {/* Image Preview */}
@@ -115,7 +129,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
           <div className="rounded-xl overflow-hidden bg-gray-100 shadow-lg">
             <img 
               src={imageUrl} 
-              alt="Uploaded image" 
+              alt={t('analysis.uploadedAlt')} 
               className="w-full h-56 object-cover"
             />
           </div>
@@ -125,20 +139,20 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
           <div className="flex items-center mb-4">
             <AlertTriangle className="w-6 h-6 text-orange-600 mr-3" />
-            <h3 className="font-semibold text-orange-800">Fashion Analysis Not Possible</h3>
+            <h3 className="font-semibold text-orange-800">{t('analysis.notPossible')}</h3>
           </div>
           <div className="space-y-4">
             <p className="text-orange-700">
-              Our AI fashion expert needs to see actual clothing to provide analysis. This image appears to show:
+              {t('analysis.notPossibleIntro')}
             </p>
             <ul className="text-orange-700 space-y-2">
               <li className="flex items-start">
                 <div className="w-1.5 h-1.5 rounded-full bg-orange-500 mt-2 mr-3 flex-shrink-0"></div>
-                No substantial clothing or garments visible
+                {t('analysis.noClothing')}
               </li>
               <li className="flex items-start">
                 <div className="w-1.5 h-1.5 rounded-full bg-orange-500 mt-2 mr-3 flex-shrink-0"></div>
-                Insufficient outfit elements for fashion evaluation
+                {t('analysis.insufficient')}
               </li>
             </ul>
           </div>
@@ -148,24 +162,24 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
           <div className="flex items-center mb-4">
             <Lightbulb className="w-6 h-6 text-blue-600 mr-3" />
-            <h3 className="font-semibold text-blue-800">For Best Results</h3>
+            <h3 className="font-semibold text-blue-800">{t('analysis.bestResults')}</h3>
           </div>
           <ul className="text-blue-700 space-y-2">
             <li className="flex items-start">
               <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-2 mr-3 flex-shrink-0"></div>
-              Upload a photo showing a complete outfit with clothing
+              {t('analysis.tipCompleteOutfit')}
             </li>
             <li className="flex items-start">
               <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-2 mr-3 flex-shrink-0"></div>
-              Include tops, bottoms, and accessories when possible
+              {t('analysis.tipPieces')}
             </li>
             <li className="flex items-start">
               <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-2 mr-3 flex-shrink-0"></div>
-              Make sure the full outfit is clearly visible
+              {t('analysis.tipVisible')}
             </li>
             <li className="flex items-start">
               <div className="w-1.5 h-1.5 rounded-full bg-blue-500 mt-2 mr-3 flex-shrink-0"></div>
-              Use good lighting and a clear background
+              {t('analysis.tipLighting')}
             </li>
           </ul>
         </div>
@@ -177,7 +191,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
             className="w-full btn-primary flex items-center justify-center"
           >
             <RefreshCw className="w-4 h-4 mr-2" />
-            Upload New Outfit Photo
+            {t('analysis.uploadNew')}
           </button>
         </div>
       </div>
@@ -198,10 +212,42 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
             </div>
           </div>
         </div>
-        <h2 className="text-4xl font-bold text-gradient-luxury mb-4">Analysis Complete!</h2>
-        <p className="text-xl text-luxury-600 font-medium">Premium fashion insights with expert-level precision</p>
+        <h2 className="text-4xl font-bold text-gradient-luxury mb-4">{t('analysis.complete')}</h2>
+        <p className="text-xl text-luxury-600 font-medium">{t('analysis.completeSubtitle')}</p>
       </div>
 
+      {/* Degraded Analysis Notice */}
+      {result.analysisStatus === 'degraded_fallback' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start">
+            <AlertTriangle className="w-5 h-5 text-yellow-700 mr-3 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-yellow-800">{t('status.degraded')}</h3>
+              <p className="text-sm text-yellow-700 mt-1">
+                {t('analysis.fallbackBody', { provider: result.analysisProvider ? ` (${result.analysisProvider})` : '' })}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Ensemble Disagreement Notice */}
+      {outfitAnalysis.disagreements && outfitAnalysis.disagreements.length > 0 && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="flex items-start">
+            <Eye className="w-5 h-5 text-blue-700 mr-3 mt-0.5 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-blue-800">{t('analysis.splitTitle')}</h3>
+              <p className="text-sm text-blue-700 mt-1">
+                {t('analysis.splitBody', {
+                  dimensions: outfitAnalysis.disagreements.map(({ dimension }) => dimension).join(', '),
+                })}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Premium Overall Score */}
       <div className="card-luxury text-center relative overflow-hidden">
         <div className="absolute inset-0 gradient-gold-luxury opacity-10"></div>
@@ -209,7 +255,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
           <div className="text-6xl font-bold text-gradient-gold mb-3">
             {convertScore(outfitAnalysis.overallScore)}/10
           </div>
-          <div className="text-luxury-600 text-lg font-semibold">Overall Fashion Score</div>
+          <div className="text-luxury-600 text-lg font-semibold">{t('analysis.overallScore')}</div>
           <div className="mt-4 flex justify-center">
             {[...Array(5)].map((_, i) => (
               <Star
@@ -222,21 +268,28 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
               />
             ))}
           </div>
+          {result.calibration && (
+            <div className="mt-4 flex justify-center">
+              <CalibrationBadge calibration={result.calibration} />
+            </div>
+          )}
         </div>
       </div>
 
-      {/* Premium Image Preview */}
-      {imageUrl && (
+      {/* Garment Breakdown, or the plain photo for analyses without garments */}
+      {outfitAnalysis.garments && outfitAnalysis.garments.length > 0 ? (
+        <GarmentBreakdown garments={outfitAnalysis.garments} imageUrl={imageUrl} />
+      ) : imageUrl && (
         <div className="card-luxury overflow-hidden">
           <div className="relative rounded-2xl overflow-hidden">
             <img
               src={imageUrl}
-              alt="Analyzed outfit"
+              alt={t('analysis.analyzedAlt')}
               className="w-full h-64 object-cover"
             />
             <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent"></div>
             <div className="absolute bottom-4 left-4 bg-white/20 backdrop-blur-sm text-white px-3 py-2 rounded-xl">
-              <span className="text-sm font-medium">Analyzed Outfit</span>
+              <span className="text-sm font-medium">{t('analysis.analyzedOutfit')}</span>
             </div>
           </div>
         </div>
@@ -244,7 +297,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
 
       {/* Premium Core Assessments */}
       <div className="animate-luxury-slide">
-        <h3 className="text-2xl font-bold text-gradient-luxury mb-6">Core Assessments</h3>
+        <h3 className="text-2xl font-bold text-gradient-luxury mb-6">{t('analysis.coreAssessments')}</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="card-glass relative overflow-hidden group hover:scale-105 transition-all duration-300">
             <div className="absolute inset-0 gradient-rose-luxury opacity-10 group-hover:opacity-20 transition-opacity duration-300"></div>
@@ -254,7 +307,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
                   <div className="w-10 h-10 rounded-xl bg-rose-500 flex items-center justify-center">
                     <Shirt className="w-5 h-5 text-white" />
                   </div>
-                  <span className="text-lg font-semibold text-luxury-900">Style Category</span>
+                  <span className="text-lg font-semibold text-luxury-900">{t('dimension.styleCategory')}</span>
                 </div>
                 <div className="text-3xl font-bold text-gradient-rose">
                   {convertScore(outfitAnalysis.styleCategoryScore)}/10
@@ -276,7 +329,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
                   <div className="w-10 h-10 rounded-xl bg-emerald-500 flex items-center justify-center">
                     <Target className="w-5 h-5 text-white" />
                   </div>
-                  <span className="text-lg font-semibold text-luxury-900">Technical Fit</span>
+                  <span className="text-lg font-semibold text-luxury-900">{t('dimension.fit')}</span>
                 </div>
                 <div className="text-3xl font-bold text-gradient-luxury">
                   {convertScore(outfitAnalysis.fitScore)}/10
@@ -298,7 +351,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
                   <div className="w-10 h-10 rounded-xl bg-purple-500 flex items-center justify-center">
                     <Palette className="w-5 h-5 text-white" />
                   </div>
-                  <span className="text-lg font-semibold text-luxury-900">Color Theory</span>
+                  <span className="text-lg font-semibold text-luxury-900">{t('dimension.colorHarmony')}</span>
                 </div>
                 <div className="text-3xl font-bold text-gradient-gold">
                   {convertScore(outfitAnalysis.colorHarmonyScore)}/10
@@ -309,6 +362,27 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
                   {outfitAnalysis.colorHarmony}
                 </span>
               </div>
+              {outfitAnalysis.colorPalette && outfitAnalysis.colorPalette.swatches.length > 0 && (
+                <div className="mt-4">
+                  <div className="flex h-8 rounded-lg overflow-hidden border border-white/60">
+                    {outfitAnalysis.colorPalette.swatches.map((swatch) => (
+                      <div
+                        key={swatch.hex}
+                        style={{ backgroundColor: swatch.hex, flexGrow: swatch.share }}
+                        title={`${swatch.hex} · ${Math.round(swatch.share * 100)}%`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-xs text-luxury-700">
+                    <span className="font-semibold">
+                      {t('analysis.measuredPalette', { harmony: t(`harmony.${outfitAnalysis.colorPalette.harmony}`) })}
+                    </span>
+                    <span className="font-mono">
+                      {outfitAnalysis.colorPalette.swatches.map((swatch) => swatch.hex).join(' ')}
+                    </span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -320,7 +394,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
                   <div className="w-10 h-10 rounded-xl bg-indigo-500 flex items-center justify-center">
                     <Star className="w-5 h-5 text-white" />
                   </div>
-                  <span className="text-lg font-semibold text-luxury-900">Occasion</span>
+                  <span className="text-lg font-semibold text-luxury-900">{t('dimension.occasion')}</span>
                 </div>
                 <div className="text-3xl font-bold text-gradient-rose">
                   {convertScore(outfitAnalysis.occasionScore)}/10
@@ -338,13 +412,13 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
 
       {/* Expert-Level Parameters */}
       <div>
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Expert Analysis</h3>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('analysis.expertAnalysis')}</h3>
         <div className="grid grid-cols-1 gap-4">
           <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(outfitAnalysis.proportionScore)}`}>
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center">
                 <Scissors className="w-5 h-5 text-gray-600 mr-2" />
-                <span className="text-sm font-medium text-gray-600">Proportion & Visual Weight</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.proportion')}</span>
               </div>
               <div className="text-xl font-bold">{convertScore(outfitAnalysis.proportionScore)}/10</div>
             </div>
@@ -357,7 +431,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center">
                 <Layers className="w-5 h-5 text-gray-600 mr-2" />
-                <span className="text-sm font-medium text-gray-600">Fabric Synergy & Merit</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.fabric')}</span>
               </div>
               <div className="text-xl font-bold">{convertScore(outfitAnalysis.fabricScore)}/10</div>
             </div>
@@ -370,7 +444,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center">
                 <Eye className="w-5 h-5 text-gray-600 mr-2" />
-                <span className="text-sm font-medium text-gray-600">Styling Sophistication</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.sophistication')}</span>
               </div>
               <div className="text-xl font-bold">{convertScore(outfitAnalysis.sophisticationScore)}/10</div>
             </div>
@@ -386,7 +460,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-green-50 border border-green-200 rounded-lg p-4">
           <div className="flex items-center mb-3">
             <TrendingUp className="w-5 h-5 text-green-700 mr-2" />
-            <h3 className="font-semibold text-green-800">What's Working Well</h3>
+            <h3 className="font-semibold text-green-800">{t('analysis.workingWell')}</h3>
           </div>
           <ul className="space-y-2">
             {outfitAnalysis.highlights.map((highlight, index) => (
@@ -404,7 +478,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
           <div className="flex items-center mb-3">
             <Lightbulb className="w-5 h-5 text-purple-700 mr-2" />
-            <h3 className="font-semibold text-purple-800">Expert Insights</h3>
+            <h3 className="font-semibold text-purple-800">{t('analysis.expertInsights')}</h3>
           </div>
           <ul className="space-y-2">
             {outfitAnalysis.expertInsights.map((insight, index) => (
@@ -422,7 +496,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
           <div className="flex items-center mb-3">
             <AlertTriangle className="w-5 h-5 text-orange-700 mr-2" />
-            <h3 className="font-semibold text-orange-800">Technical Analysis & Areas for Improvement</h3>
+            <h3 className="font-semibold text-orange-800">{t('analysis.technicalFlaws')}</h3>
           </div>
           <ul className="space-y-2">
             {outfitAnalysis.technicalFlaws.map((flaw, index) => (
@@ -440,7 +514,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-center mb-3">
             <Sparkles className="w-5 h-5 text-blue-700 mr-2" />
-            <h3 className="font-semibold text-blue-800">Professional Recommendations</h3>
+            <h3 className="font-semibold text-blue-800">{t('analysis.recommendations')}</h3>
           </div>
           <ul className="space-y-2">
             {outfitAnalysis.improvementSuggestions.map((suggestion, index) => (
@@ -453,10 +527,13 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
         </div>
       )}
 
+      {/* Follow-up conversation */}
+      <ReviewChat reviewId={result.reviewId} />
+
       {/* Feedback Section */}
       {!feedbackGiven && (
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-          <h3 className="font-medium text-gray-800 mb-3 text-center">How was this expert analysis?</h3>
+          <h3 className="font-medium text-gray-800 mb-3 text-center">{t('analysis.feedbackQuestion')}</h3>
           <div className="flex space-x-3">
             <button
               onClick={() => handleFeedback(true)}
@@ -464,7 +541,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
               className="flex-1 btn-outline border-gray-400 text-gray-700 hover:bg-gray-100 flex items-center justify-center"
             >
               <ThumbsUp className="w-4 h-4 mr-2" />
-              Very insightful!
+              {t('analysis.veryInsightful')}
             </button>
             <button
               onClick={() => handleFeedback(false)}
@@ -472,7 +549,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
               className="flex-1 btn-outline border-gray-400 text-gray-700 hover:bg-gray-100 flex items-center justify-center"
             >
               <ThumbsDown className="w-4 h-4 mr-2" />
-              Could be better
+              {t('analysis.couldBeBetter')}
             </button>
           </div>
         </div>
@@ -480,8 +557,8 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
 
       {feedbackGiven && (
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-center">
-          <p className="text-gray-800 font-medium">Thanks for your feedback!</p>
-          <p className="text-gray-600 text-sm mt-1">This helps us refine our expert fashion AI</p>
+          <p className="text-gray-800 font-medium">{t('analysis.thanks')}</p>
+          <p className="text-gray-600 text-sm mt-1">{t('analysis.feedbackHelps')}</p>
         </div>
       )}
 
@@ -492,7 +569,7 @@ export function OutfitAnalysis({ result, imageUrl, onStartOver }: OutfitAnalysis
           className="w-full btn-primary flex items-center justify-center"
         >
           <RefreshCw className="w-4 h-4 mr-2" />
-          Analyze Another Outfit
+          {t('analysis.analyzeAnother')}
         </button>
       </div>
     </div>
@@ -3,8 +3,10 @@
 import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { User, Save, LogOut } from 'lucide-react'
-import { profileApi } from '@/lib/api'
+import { profileApi, PERSONAS, TONES } from '@/lib/api'
 import { useAuth } from '@/context/AuthContext'
+import { useTranslation } from '@/context/LocaleContext'
+import { LOCALES, LOCALE_LABELS, isLocale } from '@/locales'
 import toast from 'react-hot-toast'
 
 interface ProfileForm {
@@ -14,10 +16,20 @@ interface ProfileForm {
   hairType: string
   height: string
   weight: string
+  privacyMode: string
+  locale: string
+  persona: string
+  tone: string
 }
 
+const SKIN_TONES = ['fair', 'light', 'medium', 'tan', 'olive', 'dark', 'deep'] as const
+const BUILDS = ['petite', 'slim', 'athletic', 'curvy', 'plus-size'] as const
+const FACE_STRUCTURES = ['oval', 'round', 'square', 'heart', 'diamond', 'oblong'] as const
+const HAIR_TYPES = ['straight', 'wavy', 'curly', 'coily', 'bald'] as const
+
 export function ProfileSection() {
   const { user, logout } = useAuth()
+  const { t, setLocale } = useTranslation()
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   
@@ -29,6 +41,10 @@ export function ProfileSection() {
       hairType: '',
       height: '',
       weight: '',
+      privacyMode: '',
+      locale: '',
+      persona: '',
+      tone: '',
     }
   })
 
@@ -49,7 +65,14 @@ export function ProfileSection() {
           hairType: response.profile.hairType || '',
           height: response.profile.height?.toString() || '',
           weight: response.profile.weight?.toString() || '',
+          privacyMode: response.profile.privacyMode || '',
+          locale: response.profile.locale || '',
+          persona: response.profile.persona || '',
+          tone: response.profile.tone || '',
         })
+        if (isLocale(response.profile.locale)) {
+          setLocale(response.profile.locale)
+        }
       }
     } catch (error) {
       console.error('Failed to load profile:', error)
@@ -65,11 +88,16 @@ export function ProfileSection() {
         ...data,
         height: data.height ? parseFloat(data.height) : undefined,
         weight: data.weight ? parseFloat(data.weight) : undefined,
+        privacyMode: data.privacyMode || null,
+        locale: data.locale || null,
+        persona: data.persona || null,
+        tone: data.tone || null,
       })
-      toast.success('Profile updated successfully!')
+      setLocale(isLocale(data.locale) ? data.locale : null)
+      toast.success(t('profile.updated'))
     } catch (error) {
       console.error('Profile update error:', error)
-      toast.error('Failed to update profile')
+      toast.error(t('profile.updateFailed'))
     } finally {
       setSaving(false)
     }
@@ -84,14 +112,14 @@ export function ProfileSection() {
             <User className="w-8 h-8 text-white" />
           </div>
         </div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Your Profile</h2>
-        <p className="text-gray-600">Help our AI provide personalized fashion advice</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('profile.title')}</h2>
+        <p className="text-gray-600">{t('profile.subtitle')}</p>
       </div>
 
       {/* User Info */}
       <div className="bg-gray-50 rounded-lg p-4">
         <div className="text-center">
-          <p className="text-gray-600 text-sm">Signed in as</p>
+          <p className="text-gray-600 text-sm">{t('profile.signedInAs')}</p>
           <p className="font-medium text-gray-900">{user?.email}</p>
         </div>
       </div>
@@ -102,75 +130,64 @@ export function ProfileSection() {
           {/* Skin Tone */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Skin Tone
+              {t('profile.skinTone')}
             </label>
             <select
               {...form.register('skinTone')}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
             >
-              <option value="">Select your skin tone</option>
-              <option value="fair">Fair</option>
-              <option value="light">Light</option>
-              <option value="medium">Medium</option>
-              <option value="tan">Tan</option>
-              <option value="olive">Olive</option>
-              <option value="dark">Dark</option>
-              <option value="deep">Deep</option>
+              <option value="">{t('profile.skinTonePlaceholder')}</option>
+              {SKIN_TONES.map((value) => (
+                <option key={value} value={value}>{t(`profile.skinTone.${value}`)}</option>
+              ))}
             </select>
           </div>
 
           {/* Build */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Body Build
+              {t('profile.build')}
             </label>
             <select
               {...form.register('build')}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
             >
-              <option value="">Select your build</option>
-              <option value="petite">Petite</option>
-              <option value="slim">Slim</option>
-              <option value="athletic">Athletic</option>
-              <option value="curvy">Curvy</option>
-              <option value="plus-size">Plus Size</option>
+              <option value="">{t('profile.buildPlaceholder')}</option>
+              {BUILDS.map((value) => (
+                <option key={value} value={value}>{t(`profile.build.${value}`)}</option>
+              ))}
             </select>
           </div>
 
           {/* Face Structure */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Face Structure
+              {t('profile.faceStructure')}
             </label>
             <select
               {...form.register('faceStructure')}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
             >
-              <option value="">Select your face shape</option>
-              <option value="oval">Oval</option>
-              <option value="round">Round</option>
-              <option value="square">Square</option>
-              <option value="heart">Heart</option>
-              <option value="diamond">Diamond</option>
-              <option value="oblong">Oblong</option>
+              <option value="">{t('profile.faceStructurePlaceholder')}</option>
+              {FACE_STRUCTURES.map((value) => (
+                <option key={value} value={value}>{t(`profile.faceStructure.${value}`)}</option>
+              ))}
             </select>
           </div>
 
           {/* Hair Type */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Hair Type
+              {t('profile.hairType')}
             </label>
             <select
               {...form.register('hairType')}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
             >
-              <option value="">Select your hair type</option>
-              <option value="straight">Straight</option>
-              <option value="wavy">Wavy</option>
-              <option value="curly">Curly</option>
-              <option value="coily">Coily</option>
-              <option value="bald">Bald</option>
+              <option value="">{t('profile.hairTypePlaceholder')}</option>
+              {HAIR_TYPES.map((value) => (
+                <option key={value} value={value}>{t(`profile.hairType.${value}`)}</option>
+              ))}
             </select>
           </div>
 
@@ -178,7 +195,7 @@ export function ProfileSection() {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Height (cm)
+                {t('profile.height')}
               </label>
               <input
                 type="number"
@@ -189,7 +206,7 @@ export function ProfileSection() {
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Weight (kg)
+                {t('profile.weight')}
               </label>
               <input
                 type="number"
@@ -201,6 +218,74 @@ export function ProfileSection() {
           </div>
         </div>
 
+        {/* Privacy Mode */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('profile.privacyMode')}
+          </label>
+          <select
+            {...form.register('privacyMode')}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
+          >
+            <option value="">{t('profile.privacyDefault')}</option>
+            <option value="off">{t('profile.privacyOff')}</option>
+            <option value="blur">{t('profile.privacyBlur')}</option>
+            <option value="crop">{t('profile.privacyCrop')}</option>
+          </select>
+          <p className="text-xs text-gray-500 mt-2">
+            {t('profile.privacyHint')}
+          </p>
+        </div>
+
+        {/* Language */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('profile.language')}
+          </label>
+          <select
+            {...form.register('locale')}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
+          >
+            <option value="">{t('profile.languageAuto')}</option>
+            {LOCALES.map((locale) => (
+              <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-2">
+            {t('profile.languageHint')}
+          </p>
+        </div>
+
+        {/* Reviewer Voice */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t('profile.voice')}
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <select
+              {...form.register('persona')}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
+            >
+              <option value="">{t('profile.personaDefault')}</option>
+              {PERSONAS.map((persona) => (
+                <option key={persona} value={persona}>{t(`persona.${persona}`)}</option>
+              ))}
+            </select>
+            <select
+              {...form.register('tone')}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-500 focus:border-transparent text-gray-900"
+            >
+              <option value="">{t('profile.toneDefault')}</option>
+              {TONES.map((tone) => (
+                <option key={tone} value={tone}>{t(`tone.${tone}`)}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {t('profile.voiceHint')}
+          </p>
+        </div>
+
         {/* Save Button */}
         <button
           type="submit"
@@ -210,12 +295,12 @@ export function ProfileSection() {
           {saving ? (
             <div className="flex items-center justify-center">
               <div className="spinner mr-2"></div>
-              Saving...
+              {t('profile.saving')}
             </div>
           ) : (
             <div className="flex items-center justify-center">
               <Save className="w-4 h-4 mr-2" />
-              Save Profile
+              {t('profile.save')}
             </div>
           )}
         </button>
@@ -223,10 +308,9 @@ export function ProfileSection() {
 
       {/* Privacy Notice */}
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-        <h3 className="font-medium text-gray-800 mb-2">Privacy & Data</h3>
+        <h3 className="font-medium text-gray-800 mb-2">{t('profile.privacyTitle')}</h3>
         <p className="text-sm text-gray-700">
-          Your profile information is used solely to provide personalized fashion advice. 
-          We don't share your personal data with third parties.
+          {t('profile.privacyBody')}
         </p>
       </div>
 
@@ -236,7 +320,7 @@ export function ProfileSection() {
         className="w-full btn-secondary flex items-center justify-center text-gray-700 hover:bg-gray-100"
       >
         <LogOut className="w-4 h-4 mr-2" />
-        Sign Out
+        {t('profile.signOut')}
       </button>
     </div>
   )
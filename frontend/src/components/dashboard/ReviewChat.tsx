@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { MessageCircle, Send, Loader2 } from 'lucide-react'
+import { reviewsApi, ReviewMessage } from '@/lib/api'
+import toast from 'react-hot-toast'
+import { useTranslation } from '@/context/LocaleContext'
+import type { MessageKey } from '@/locales'
+
+interface ReviewChatProps {
+  reviewId: string
+}
+
+const SUGGESTED_QUESTIONS: MessageKey[] = ['chat.suggestShoes', 'chat.suggestFormal', 'chat.suggestChange']
+
+const MESSAGE_MAX_LENGTH = 1000
+
+export function ReviewChat({ reviewId }: ReviewChatProps) {
+  const { t } = useTranslation()
+  const [messages, setMessages] = useState<ReviewMessage[]>([])
+  const [draft, setDraft] = useState('')
+  const [sending, setSending] = useState(false)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    reviewsApi.getMessages(reviewId)
+      .then((data) => setMessages(data.messages))
+      .catch((error) => console.error('Failed to load conversation:', error))
+  }, [reviewId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [messages, sending])
+
+  const handleSend = async (content: string) => {
+    const question = content.trim()
+    if (!question || sending) return
+
+    try {
+      setSending(true)
+      const { question: stored, reply } = await reviewsApi.sendMessage(reviewId, question)
+      setMessages((current) => [...current, stored, reply])
+      setDraft('')
+    } catch (error: any) {
+      console.error('Chat error:', error)
+      toast.error(error.message || t('chat.failed'))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center mb-3">
+        <MessageCircle className="w-5 h-5 text-gray-700 mr-2" />
+        <h3 className="font-semibold text-gray-800">{t('chat.title')}</h3>
+      </div>
+
+      {messages.length === 0 && !sending ? (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUGGESTED_QUESTIONS.map((key) => (
+            <button
+              key={key}
+              onClick={() => handleSend(t(key))}
+              className="text-xs px-3 py-1.5 rounded-full border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              {t(key)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-3 mb-3">
+          {messages.map((message) => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-line ${
+                  message.role === 'user' ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {message.content}
+              </div>
+            </div>
+          ))}
+          {sending && (
+            <div className="flex justify-start">
+              <div className="px-3 py-2 rounded-lg bg-gray-100 text-gray-500 text-sm flex items-center">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {t('chat.thinking')}
+              </div>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault()
+          handleSend(draft)
+        }}
+        className="flex space-x-2"
+      >
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={t('chat.placeholder')}
+          maxLength={MESSAGE_MAX_LENGTH}
+          disabled={sending}
+          className="input-luxury flex-1"
+        />
+        <button
+          type="submit"
+          disabled={sending || !draft.trim()}
+          className="btn-primary px-4 flex items-center justify-center disabled:opacity-50"
+          aria-label={t('chat.send')}
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,9 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Calendar, Star, Sparkles, Eye, Clock, ChevronRight } from 'lucide-react'
-import { reviewsApi } from '@/lib/api'
+import { Calendar, Star, Sparkles, Eye, Clock, ChevronRight, GitCompare } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { reviewsApi, Occasion, OCCASIONS, ScoreCalibration } from '@/lib/api'
 import { Loading } from '@/components/ui/Loading'
+import { AnalysisStatus, AnalysisStatusBadge } from '@/components/ui/AnalysisStatusBadge'
+import { CalibrationBadge } from '@/components/ui/CalibrationBadge'
+import { ComparisonDetails, ComparisonView } from './ComparisonView'
+import { useTranslation } from '@/context/LocaleContext'
 
 interface Review {
   id: string
@@ -29,23 +34,32 @@ interface Review {
   expertInsights?: string[]
   technicalFlaws?: string[]
   comparisonInsight?: string
+  comparisonDetails?: ComparisonDetails | null
   accepted?: boolean
+  analysisStatus?: AnalysisStatus
+  analysisProvider?: string | null
+  analysisModel?: string | null
+  occasion?: Occasion | null
+  calibration?: ScoreCalibration | null
   createdAt: string
 }
 
 export function ReviewHistory() {
+  const { locale, t } = useTranslation()
   const [reviews, setReviews] = useState<Review[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedReview, setSelectedReview] = useState<Review | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [occasionFilter, setOccasionFilter] = useState<Occasion | ''>('')
 
   useEffect(() => {
     loadReviews()
-  }, [])
+  }, [occasionFilter])
 
   const loadReviews = async () => {
     try {
       setLoading(true)
-      const data = await reviewsApi.getAll()
+      const data = await reviewsApi.getAll(occasionFilter || undefined)
       setReviews(data)
     } catch (error) {
       console.error('Failed to load reviews:', error)
@@ -54,8 +68,38 @@ export function ReviewHistory() {
     }
   }
 
+  // Reviews come newest first, so the previous look is the next comparable one in the list
+  const isInFlight = (review: Review) =>
+    review.analysisStatus === 'pending' || review.analysisStatus === 'processing'
+
+  const isComparable = (review: Review) =>
+    review.analysisStatus !== 'failed' && review.analysisStatus !== 'no_outfit' && !isInFlight(review)
+
+  const getPreviousReview = (review: Review) => {
+    const index = reviews.findIndex(r => r.id === review.id)
+    return reviews.slice(index + 1).find(isComparable)
+  }
+
+  const handleCompare = async (review: Review) => {
+    const previous = getPreviousReview(review)
+    if (!previous) return
+
+    try {
+      setComparing(true)
+      const { comparison } = await reviewsApi.compare(review.id, [previous.id])
+      const updated = { ...review, comparisonInsight: comparison.insight, comparisonDetails: comparison.details }
+      setReviews(reviews.map(r => (r.id === review.id ? updated : r)))
+      setSelectedReview(updated)
+    } catch (error: any) {
+      console.error('Comparison failed:', error)
+      toast.error(error.message || t('history.compareFailed'))
+    } finally {
+      setComparing(false)
+    }
+  }
+
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+    return new Date(dateString).toLocaleDateString(locale, {
       month: 'short',
       day: 'numeric',
       year: 'numeric'
@@ -114,10 +158,10 @@ export function ReviewHistory() {
             onClick={() => setSelectedReview(null)}
             className="text-gray-600 hover:text-gray-900"
           >
-            ← Back
+            {t('history.back')}
           </button>
           <div>
-            <h2 className="text-xl font-bold text-gray-900">Review Details</h2>
+            <h2 className="text-xl font-bold text-gray-900">{t('history.details')}</h2>
             <p className="text-gray-600 text-sm">{formatDate(selectedReview.createdAt)}</p>
           </div>
         </div>
@@ -126,24 +170,53 @@ export function ReviewHistory() {
         <div className="rounded-xl overflow-hidden bg-gray-100">
           <img 
             src={selectedReview.imageUrl} 
-            alt="Outfit" 
+            alt={t('history.outfitAlt')} 
             className="w-full h-64 object-cover"
           />
         </div>
 
+        {/* Failed and unfinished analyses have no scores to show */}
+        {isInFlight(selectedReview) ? (
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <h3 className="font-medium text-gray-800 mb-2">{t('history.inProgress')}</h3>
+            <p className="text-sm text-gray-700">
+              {t('history.inProgressBody')}
+            </p>
+          </div>
+        ) : selectedReview.analysisStatus === 'failed' ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <h3 className="font-medium text-red-800 mb-2">{t('status.failed')}</h3>
+            <p className="text-sm text-red-700">
+              {t('history.failedBody')}
+            </p>
+          </div>
+        ) : (
+        <>
+        {selectedReview.analysisStatus === 'degraded_fallback' && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <h3 className="font-medium text-yellow-800 mb-2">{t('status.degraded')}</h3>
+            <p className="text-sm text-yellow-700">
+              {t('history.fallbackBody', { provider: selectedReview.analysisProvider ? ` (${selectedReview.analysisProvider})` : '' })}
+            </p>
+          </div>
+        )}
+
         {/* Overall Score */}
         <div className="bg-gradient-to-r from-gray-900 to-gray-700 rounded-xl p-6 text-center text-white">
           <div className="text-4xl font-bold mb-2">{convertScore(selectedReview.overallScore)}/10</div>
-          <div className="text-gray-300">Overall Fashion Score</div>
+          <div className="text-gray-300">{t('analysis.overallScore')}</div>
+          {selectedReview.calibration && (
+            <CalibrationBadge calibration={selectedReview.calibration} className="mt-3" />
+          )}
         </div>
 
         {/* Core Analysis */}
         <div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Core Assessments</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('analysis.coreAssessments')}</h3>
           <div className="grid grid-cols-2 gap-4">
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.styleCategoryScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Style Category</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.styleCategory')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.styleCategoryScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.styleCategory)}`}>
@@ -153,7 +226,7 @@ export function ReviewHistory() {
             
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.fitScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Technical Fit</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.fit')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.fitScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.fit)}`}>
@@ -163,7 +236,7 @@ export function ReviewHistory() {
             
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.colorHarmonyScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Color Theory</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.colorHarmony')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.colorHarmonyScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.colorHarmony)}`}>
@@ -173,7 +246,7 @@ export function ReviewHistory() {
             
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.occasionScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Occasion</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.occasion')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.occasionScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.occasionSuitability)}`}>
@@ -185,11 +258,11 @@ export function ReviewHistory() {
 
         {/* Expert Analysis */}
         <div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">Expert Analysis</h3>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('analysis.expertAnalysis')}</h3>
           <div className="grid grid-cols-1 gap-4">
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.proportionScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Proportion & Visual Weight</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.proportion')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.proportionScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.proportionBalance)}`}>
@@ -199,7 +272,7 @@ export function ReviewHistory() {
             
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.fabricScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Fabric Synergy & Merit</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.fabric')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.fabricScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.fabricSynergy)}`}>
@@ -209,7 +282,7 @@ export function ReviewHistory() {
             
             <div className={`bg-white border-2 rounded-lg p-4 ${getScoreColor(selectedReview.sophisticationScore)}`}>
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-gray-600">Styling Sophistication</span>
+                <span className="text-sm font-medium text-gray-600">{t('dimension.sophistication')}</span>
                 <div className="text-lg font-bold">{convertScore(selectedReview.sophisticationScore)}/10</div>
               </div>
               <div className={`font-medium capitalize ${getScoreLabel(selectedReview.stylingSophistication)}`}>
@@ -222,7 +295,7 @@ export function ReviewHistory() {
         {/* Highlights */}
         {selectedReview.highlights.length > 0 && (
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-            <h3 className="font-medium text-green-800 mb-3">Highlights</h3>
+            <h3 className="font-medium text-green-800 mb-3">{t('history.highlights')}</h3>
             <ul className="space-y-2">
               {selectedReview.highlights.map((highlight, index) => (
                 <li key={index} className="flex items-start text-sm text-green-700">
@@ -237,7 +310,7 @@ export function ReviewHistory() {
         {/* Expert Insights */}
         {selectedReview.expertInsights && selectedReview.expertInsights.length > 0 && (
           <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-            <h3 className="font-medium text-purple-800 mb-3">Expert Insights</h3>
+            <h3 className="font-medium text-purple-800 mb-3">{t('analysis.expertInsights')}</h3>
             <ul className="space-y-2">
               {selectedReview.expertInsights.map((insight, index) => (
                 <li key={index} className="flex items-start text-sm text-purple-700">
@@ -252,7 +325,7 @@ export function ReviewHistory() {
         {/* Technical Flaws */}
         {selectedReview.technicalFlaws && selectedReview.technicalFlaws.length > 0 && (
           <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
-            <h3 className="font-medium text-orange-800 mb-3">Technical Analysis & Areas for Improvement</h3>
+            <h3 className="font-medium text-orange-800 mb-3">{t('analysis.technicalFlaws')}</h3>
             <ul className="space-y-2">
               {selectedReview.technicalFlaws.map((flaw, index) => (
                 <li key={index} className="flex items-start text-sm text-orange-700">
@@ -267,7 +340,7 @@ export function ReviewHistory() {
         {/* Professional Recommendations */}
         {selectedReview.improvementSuggestions.length > 0 && (
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-            <h3 className="font-medium text-blue-800 mb-3">Professional Recommendations</h3>
+            <h3 className="font-medium text-blue-800 mb-3">{t('analysis.recommendations')}</h3>
             <ul className="space-y-2">
               {selectedReview.improvementSuggestions.map((suggestion, index) => (
                 <li key={index} className="flex items-start text-sm text-blue-700">
@@ -279,13 +352,34 @@ export function ReviewHistory() {
           </div>
         )}
 
-        {/* Comparison Insight */}
-        {selectedReview.comparisonInsight && (
+        {/* Comparison */}
+        {selectedReview.comparisonDetails ? (
+          <ComparisonView
+            details={selectedReview.comparisonDetails}
+            currentImageUrl={selectedReview.imageUrl}
+            previousImageUrl={reviews.find(r => r.id === selectedReview.comparisonDetails?.previousReviewIds[0])?.imageUrl}
+          />
+        ) : selectedReview.comparisonInsight && (
           <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
-            <h3 className="font-medium text-purple-800 mb-3">Comparison Insight</h3>
+            <h3 className="font-medium text-purple-800 mb-3">{t('history.comparisonInsight')}</h3>
             <p className="text-sm text-purple-700">{selectedReview.comparisonInsight}</p>
           </div>
         )}
+
+        {isComparable(selectedReview) && getPreviousReview(selectedReview) && (
+          <button
+            onClick={() => handleCompare(selectedReview)}
+            disabled={comparing}
+            className="w-full flex items-center justify-center px-4 py-3 rounded-lg border-2 border-purple-200 text-purple-700 font-medium hover:bg-purple-50 disabled:opacity-50"
+          >
+            <GitCompare className="w-4 h-4 mr-2" />
+            {comparing
+              ? t('history.comparing')
+              : selectedReview.comparisonDetails ? t('history.compareAgain') : t('history.compare')}
+          </button>
+        )}
+        </>
+        )}
       </div>
     )
   }
@@ -299,17 +393,38 @@ export function ReviewHistory() {
             <Clock className="w-8 h-8 text-white" />
           </div>
         </div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Your Style Journey</h2>
-        <p className="text-gray-600">Review your past outfit analyses and track your style evolution</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('history.title')}</h2>
+        <p className="text-gray-600">{t('history.subtitle')}</p>
       </div>
 
-      {reviews.length === 0 ? (
+      {/* Occasion Filter */}
+      <div className="flex justify-end">
+        <select
+          value={occasionFilter}
+          onChange={(e) => setOccasionFilter(e.target.value as Occasion | '')}
+          className="border border-gray-200 rounded-lg px-3 py-2 text-sm text-gray-700 bg-white"
+        >
+          <option value="">{t('history.allOccasions')}</option>
+          {OCCASIONS.map((occasion) => (
+            <option key={occasion} value={occasion}>{t(`occasion.${occasion}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      {reviews.length === 0 && occasionFilter ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {t('history.noOccasionLooks', { occasion: t(`occasion.${occasionFilter}`) })}
+          </h3>
+          <p className="text-gray-600">{t('history.pickOccasion')}</p>
+        </div>
+      ) : reviews.length === 0 ? (
         <div className="text-center py-12">
           <div className="bg-gray-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
             <Sparkles className="w-8 h-8 text-gray-400" />
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews yet</h3>
-          <p className="text-gray-600 mb-6">Start by uploading your first outfit photo</p>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('history.empty')}</h3>
+          <p className="text-gray-600 mb-6">{t('history.emptyHint')}</p>
         </div>
       ) : (
         <div className="space-y-4">
@@ -324,7 +439,7 @@ export function ReviewHistory() {
                 <div className="w-16 h-16 rounded-lg overflow-hidden bg-gray-100 flex-shrink-0">
                   <img 
                     src={review.imageUrl} 
-                    alt="Outfit" 
+                    alt={t('history.outfitAlt')} 
                     className="w-full h-full object-cover"
                   />
                 </div>
@@ -333,12 +448,20 @@ export function ReviewHistory() {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center space-x-2">
-                      <span className={`text-sm font-medium capitalize ${getListItemScoreColor(review.styleCategory)}`}>
-                        {review.styleCategory}
-                      </span>
-                      <div className="bg-gray-900 text-white px-2 py-1 rounded text-xs font-bold">
-                        {convertScore(review.overallScore)}/10
-                      </div>
+                      {review.analysisStatus === 'failed' || isInFlight(review) ? (
+                        <AnalysisStatusBadge status={review.analysisStatus} />
+                      ) : (
+                        <>
+                          <span className={`text-sm font-medium capitalize ${getListItemScoreColor(review.styleCategory)}`}>
+                            {review.styleCategory}
+                          </span>
+                          <div className="bg-gray-900 text-white px-2 py-1 rounded text-xs font-bold">
+                            {convertScore(review.overallScore)}/10
+                          </div>
+                          <AnalysisStatusBadge status={review.analysisStatus} />
+                          <CalibrationBadge calibration={review.calibration} />
+                        </>
+                      )}
                       {review.accepted === true && (
                         <Star className="w-4 h-4 text-yellow-500 fill-current" />
                       )}
@@ -352,9 +475,15 @@ export function ReviewHistory() {
                       <span>{formatDate(review.createdAt)}</span>
                     </div>
                     <span>•</span>
-                    <span>{review.highlights.length} highlights</span>
+                    <span>{t('history.highlightCount', { count: review.highlights.length })}</span>
                     <span>•</span>
-                    <span>{review.improvementSuggestions.length} suggestions</span>
+                    <span>{t('history.suggestionCount', { count: review.improvementSuggestions.length })}</span>
+                    {review.occasion && (
+                      <>
+                        <span>•</span>
+                        <span>{t(`occasion.${review.occasion}`)}</span>
+                      </>
+                    )}
                   </div>
 
                   {review.description && (
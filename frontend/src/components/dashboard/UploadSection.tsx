@@ -1,14 +1,48 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { useDropzone } from 'react-dropzone'
-import { Camera, Upload, Sparkles, CheckCircle, X } from 'lucide-react'
-import { reviewsApi } from '@/lib/api'
+import { Camera, Upload, Sparkles, CheckCircle, X, ShieldAlert, EyeOff, Plus } from 'lucide-react'
+import {
+  reviewsApi,
+  profileApi,
+  AnalysisStage,
+  AnalysisTarget,
+  Garment,
+  ColorPalette,
+  PrivacyMode,
+  Occasion,
+  Season,
+  Climate,
+  ImageRole,
+  Persona,
+  Tone,
+  ReviewerVoice,
+  OCCASIONS,
+  SEASONS,
+  CLIMATES,
+  PERSONAS,
+  TONES,
+  ScoreCalibration,
+} from '@/lib/api'
 import toast from 'react-hot-toast'
 import { OutfitAnalysis } from './OutfitAnalysis'
+import { AnalysisProgress } from './AnalysisProgress'
+import { AnalysisStatus } from '@/components/ui/AnalysisStatusBadge'
+import { useTranslation } from '@/context/LocaleContext'
+
+type ExtraViewRole = Exclude<ImageRole, 'front'>
+
+// Optional angles offered next to the main photo
+const EXTRA_VIEW_ROLES: ExtraViewRole[] = ['side', 'back', 'shoes', 'detail']
 
 interface ReviewResult {
   reviewId: string
+  analysisStatus?: AnalysisStatus
+  analysisProvider?: string | null
+  analysisModel?: string | null
+  cache?: { status: string | null; hit: boolean }
+  calibration?: ScoreCalibration | null
   outfitAnalysis: {
     styleCategory: string
     styleCategoryScore: number
@@ -29,15 +63,68 @@ interface ReviewResult {
     improvementSuggestions: string[]
     expertInsights: string[]
     technicalFlaws: string[]
+    garments?: Garment[]
+    colorPalette?: ColorPalette | null
   }
 }
 
 export function UploadSection() {
+  const { t } = useTranslation()
   const [selectedImage, setSelectedImage] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [description, setDescription] = useState('')
+  const [extraViews, setExtraViews] = useState<Partial<Record<ExtraViewRole, { file: File; preview: string }>>>({})
+  const [target, setTarget] = useState<AnalysisTarget>({})
+  const [voice, setVoice] = useState<ReviewerVoice>({})
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState<ReviewResult | null>(null)
+  const [stage, setStage] = useState<AnalysisStage | null>(null)
+  const [partialFields, setPartialFields] = useState<Record<string, any>>({})
+  const [retrying, setRetrying] = useState(false)
+  const [privacyMode, setPrivacyMode] = useState<PrivacyMode>('off')
+  // What will actually be uploaded when privacy mode is on
+  const [redactedPreview, setRedactedPreview] = useState<{ image: string; faces: number; mode: PrivacyMode } | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  // Set when content moderation refused the upload
+  const [moderationNotice, setModerationNotice] = useState<{ id: string; message: string; appealed: boolean } | null>(null)
+
+  // Start from the privacy mode saved in the profile
+  useEffect(() => {
+    profileApi.get()
+      .then(({ profile }) => {
+        if (profile?.privacyMode) setPrivacyMode(profile.privacyMode)
+      })
+      .catch(() => {})
+  }, [])
+
+  // Show the redacted photo before anything is uploaded
+  useEffect(() => {
+    setRedactedPreview(null)
+    if (!selectedImage || privacyMode === 'off') return
+
+    let cancelled = false
+    setPreviewing(true)
+    reviewsApi.privacyPreview(selectedImage, privacyMode)
+      .then(preview => {
+        if (!cancelled) {
+          setRedactedPreview({ image: preview.image, faces: preview.facesRedacted, mode: preview.privacyMode })
+        }
+      })
+      .catch(error => {
+        console.error('Privacy preview error:', error)
+        if (!cancelled) toast.error(t('upload.previewFailed'))
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewing(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedImage, privacyMode])
+
+  // Privacy mode needs its preview before anything is uploaded
+  const awaitingPreview = privacyMode !== 'off' && !redactedPreview
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0]
@@ -45,6 +132,7 @@ export function UploadSection() {
       setSelectedImage(file)
       setImagePreview(URL.createObjectURL(file))
       setResult(null) // Clear previous result
+      setModerationNotice(null)
     }
   }, [])
 
@@ -58,31 +146,117 @@ export function UploadSection() {
   })
 
   const handleSubmit = async () => {
-    if (!selectedImage) return
+    if (!selectedImage || awaitingPreview) return
 
     try {
       setLoading(true)
-      const response = await reviewsApi.create(selectedImage, description)
-      setResult(response)
-      toast.success('Outfit analyzed successfully!')
-    } catch (error) {
+      setStage(null)
+      setPartialFields({})
+      setRetrying(false)
+      const views = EXTRA_VIEW_ROLES.flatMap(role => {
+        const view = extraViews[role]
+        return view ? [{ role, file: view.file }] : []
+      })
+      const { reviewId } = await reviewsApi.createAsync(selectedImage, description, privacyMode, target, views, voice)
+
+      let finalResult: ReviewResult | null = null
+      let failed = false
+
+      // Follow progress live; partial fields show up as the model writes them
+      try {
+        await reviewsApi.streamEvents(reviewId, (event) => {
+          setStage(event.stage)
+          if (event.stage === 'partial') {
+            setPartialFields(fields => ({ ...fields, ...event.data?.fields }))
+          } else if (event.stage === 'retry_scheduled') {
+            setRetrying(true)
+            setPartialFields({})
+          } else if (event.stage === 'model_started') {
+            setRetrying(false)
+          } else if (event.stage === 'persisted') {
+            finalResult = { reviewId, ...event.data } as ReviewResult
+          } else if (event.stage === 'failed') {
+            failed = true
+          }
+        })
+      } catch (error) {
+        console.warn('Progress stream unavailable, polling instead:', error)
+      }
+
+      // Fall back to long-polling if the stream ended without a final event
+      if (!finalResult && !failed) {
+        let status = await reviewsApi.getStatus(reviewId, 20)
+        for (let attempt = 0; !status.done && attempt < 15; attempt++) {
+          status = await reviewsApi.getStatus(reviewId, 20)
+        }
+        if (status.done && status.analysisStatus !== 'failed') {
+          finalResult = status
+        }
+      }
+
+      if (!finalResult) {
+        throw new Error('Analysis did not complete')
+      }
+
+      const analyzed: ReviewResult = finalResult
+      setResult(analyzed)
+      toast.success(analyzed.cache?.hit ? t('upload.cacheHit') : t('upload.success'))
+    } catch (error: any) {
       console.error('Upload error:', error)
-      toast.error('Failed to analyze outfit. Please try again.')
+      const errorData = error?.response?.data
+      if (errorData?.code === 'CONTENT_REJECTED' || errorData?.code === 'CONTENT_QUARANTINED') {
+        // imageRole names the refused photo when several angles were sent
+        const refused = errorData.imageRole && errorData.imageRole !== 'front'
+          ? t('upload.refusedPhoto', { role: t(`imageRole.${errorData.imageRole as ImageRole}`) })
+          : ''
+        setModerationNotice({ id: errorData.moderationId, message: `${refused}${errorData.error}`, appealed: false })
+      } else {
+        toast.error(t('upload.failed'))
+      }
     } finally {
       setLoading(false)
+      setStage(null)
+      setPartialFields({})
+      setRetrying(false)
+    }
+  }
+
+  const setExtraView = (role: ExtraViewRole, file: File | null) => {
+    const previous = extraViews[role]
+    if (previous) {
+      URL.revokeObjectURL(previous.preview)
     }
+    setExtraViews({ ...extraViews, [role]: file ? { file, preview: URL.createObjectURL(file) } : undefined })
   }
 
   const clearImage = () => {
+    Object.values(extraViews).forEach(view => view && URL.revokeObjectURL(view.preview))
+    setExtraViews({})
     setSelectedImage(null)
     setImagePreview(null)
     setDescription('')
+    setTarget({})
+    setVoice({})
     setResult(null)
+    setModerationNotice(null)
     if (imagePreview) {
       URL.revokeObjectURL(imagePreview)
     }
   }
 
+  const handleAppeal = async () => {
+    if (!moderationNotice) return
+
+    try {
+      await reviewsApi.appealModeration(moderationNotice.id)
+      setModerationNotice({ ...moderationNotice, appealed: true })
+      toast.success(t('upload.appealSent'))
+    } catch (error) {
+      console.error('Appeal error:', error)
+      toast.error(t('upload.appealFailed'))
+    }
+  }
+
   const startOver = () => {
     clearImage()
     setResult(null)
@@ -93,7 +267,7 @@ export function UploadSection() {
       <div className="animate-fade-in">
         <OutfitAnalysis 
           result={result}
-          imageUrl={imagePreview}
+          imageUrl={redactedPreview?.image ?? imagePreview}
           onStartOver={startOver}
         />
       </div>
@@ -114,9 +288,9 @@ export function UploadSection() {
             </div>
           </div>
         </div>
-        <h2 className="text-4xl font-bold text-gradient-luxury mb-4">Premium Style Analysis</h2>
+        <h2 className="text-4xl font-bold text-gradient-luxury mb-4">{t('app.tagline')}</h2>
         <p className="text-luxury-600 text-lg font-medium max-w-md mx-auto leading-relaxed">
-          Experience luxury fashion insights powered by advanced AI technology
+          {t('upload.subtitle')}
         </p>
       </div>
 
@@ -152,17 +326,17 @@ export function UploadSection() {
 
               {isDragActive ? (
                 <div className="animate-luxury-scale">
-                  <p className="text-2xl font-bold text-luxury-900 mb-2">Perfect! Drop it here</p>
-                  <p className="text-luxury-600 font-medium">Your style analysis awaits</p>
+                  <p className="text-2xl font-bold text-luxury-900 mb-2">{t('upload.dropHere')}</p>
+                  <p className="text-luxury-600 font-medium">{t('upload.dropSubtitle')}</p>
                 </div>
               ) : (
                 <>
-                  <h3 className="text-2xl font-bold text-luxury-900 mb-3">Upload Your Outfit</h3>
-                  <p className="text-luxury-600 font-medium mb-6">Drag & drop or click to select your photo</p>
+                  <h3 className="text-2xl font-bold text-luxury-900 mb-3">{t('upload.title')}</h3>
+                  <p className="text-luxury-600 font-medium mb-6">{t('upload.dragOrClick')}</p>
                   <div className="flex items-center justify-center">
                     <div className="btn-gold flex items-center space-x-3 group-hover:scale-105 transition-transform duration-300">
                       <Upload size={20} />
-                      <span className="font-semibold">Choose Photo</span>
+                      <span className="font-semibold">{t('upload.choosePhoto')}</span>
                     </div>
                   </div>
                 </>
@@ -175,9 +349,9 @@ export function UploadSection() {
             <div className="relative card-luxury overflow-hidden">
               <div className="relative rounded-2xl overflow-hidden">
                 <img
-                  src={imagePreview!}
-                  alt="Selected outfit"
-                  className="w-full h-80 object-cover"
+                  src={redactedPreview?.image ?? imagePreview!}
+                  alt={t('upload.selectedAlt')}
+                  className={`w-full h-80 object-cover transition-all duration-300 ${awaitingPreview ? 'blur-md' : ''}`}
                 />
 
                 {/* Gradient Overlay */}
@@ -193,42 +367,234 @@ export function UploadSection() {
 
                 {/* Success Indicator */}
                 <div className="absolute bottom-4 left-4 flex items-center space-x-2 bg-emerald-500/90 backdrop-blur-sm text-white px-3 py-2 rounded-xl">
-                  <CheckCircle size={16} />
-                  <span className="text-sm font-medium">Photo Ready</span>
+                  {redactedPreview ? <EyeOff size={16} /> : <CheckCircle size={16} />}
+                  <span className="text-sm font-medium">
+                    {previewing
+                      ? t('upload.hidingFaces')
+                      : redactedPreview
+                        ? redactedPreview.mode === 'crop'
+                          ? t(redactedPreview.faces === 1 ? 'upload.faceCropped' : 'upload.facesCropped', { count: redactedPreview.faces })
+                          : t(redactedPreview.faces === 1 ? 'upload.faceBlurred' : 'upload.facesBlurred', { count: redactedPreview.faces })
+                        : t('upload.photoReady')}
+                  </span>
                 </div>
               </div>
             </div>
 
+            {/* Extra Angles */}
+            <div className="card-glass">
+              <label className="block text-lg font-semibold text-luxury-900 mb-2">
+                {t('upload.moreAngles')} <span className="text-luxury-500 font-normal">{t('upload.optional')}</span>
+              </label>
+              <p className="text-sm text-luxury-600 mb-4">
+                {t('upload.moreAnglesHint')}
+              </p>
+              <div className="grid grid-cols-4 gap-3">
+                {EXTRA_VIEW_ROLES.map((role) => {
+                  const view = extraViews[role]
+                  return (
+                    <div key={role} className="space-y-1">
+                      {view ? (
+                        <div className="relative h-24 rounded-xl overflow-hidden">
+                          <img src={view.preview} alt={t('upload.viewAlt', { role: t(`imageRole.${role}`) })} className="w-full h-full object-cover" />
+                          <button
+                            type="button"
+                            onClick={() => setExtraView(role, null)}
+                            disabled={loading}
+                            className="absolute top-1 right-1 w-6 h-6 bg-black/40 text-white rounded-lg flex items-center justify-center"
+                          >
+                            <X size={14} />
+                          </button>
+                        </div>
+                      ) : (
+                        <label className={`h-24 rounded-xl border-2 border-dashed border-luxury-300 flex items-center justify-center text-luxury-500 transition-colors ${
+                          loading ? 'opacity-50' : 'cursor-pointer hover:border-gold-400 hover:text-gold-600'
+                        }`}>
+                          <Plus size={20} />
+                          <input
+                            type="file"
+                            accept="image/jpeg,image/png,image/webp"
+                            className="hidden"
+                            disabled={loading}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              if (file && file.size > 10 * 1024 * 1024) {
+                                toast.error(t('upload.photoTooLarge'))
+                              } else if (file) {
+                                setExtraView(role, file)
+                              }
+                              e.target.value = ''
+                            }}
+                          />
+                        </label>
+                      )}
+                      <p className="text-xs text-center font-medium text-luxury-700">{t(`imageRole.${role}`)}</p>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Privacy Mode */}
+            <div className="card-glass">
+              <label className="block text-lg font-semibold text-luxury-900 mb-2">
+                {t('upload.privacyMode')}
+              </label>
+              <p className="text-sm text-luxury-600 mb-4">
+                {t('upload.privacyHint')}
+              </p>
+              <div className="grid grid-cols-3 gap-3">
+                {([['off', t('upload.privacyOff')], ['blur', t('upload.privacyBlur')], ['crop', t('upload.privacyCrop')]] as [PrivacyMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setPrivacyMode(mode)}
+                    disabled={loading}
+                    className={`px-4 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${
+                      privacyMode === mode
+                        ? 'bg-luxury-900 text-white'
+                        : 'bg-white/60 text-luxury-700 hover:bg-white'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Occasion Target */}
+            <div className="card-glass">
+              <label className="block text-lg font-semibold text-luxury-900 mb-2">
+                {t('upload.occasion')} <span className="text-luxury-500 font-normal">{t('upload.optional')}</span>
+              </label>
+              <p className="text-sm text-luxury-600 mb-4">
+                {t('upload.occasionHint')}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <select
+                  value={target.occasion ?? ''}
+                  onChange={(e) => setTarget({ ...target, occasion: (e.target.value || undefined) as Occasion | undefined })}
+                  disabled={loading}
+                  className="input-luxury"
+                >
+                  <option value="">{t('upload.anyOccasion')}</option>
+                  {OCCASIONS.map((occasion) => (
+                    <option key={occasion} value={occasion}>{t(`occasion.${occasion}`)}</option>
+                  ))}
+                </select>
+                <select
+                  value={target.season ?? ''}
+                  onChange={(e) => setTarget({ ...target, season: (e.target.value || undefined) as Season | undefined })}
+                  disabled={loading}
+                  className="input-luxury"
+                >
+                  <option value="">{t('upload.anySeason')}</option>
+                  {SEASONS.map((season) => (
+                    <option key={season} value={season}>{t(`season.${season}`)}</option>
+                  ))}
+                </select>
+                <select
+                  value={target.climate ?? ''}
+                  onChange={(e) => setTarget({ ...target, climate: (e.target.value || undefined) as Climate | undefined })}
+                  disabled={loading}
+                  className="input-luxury"
+                >
+                  <option value="">{t('upload.anyWeather')}</option>
+                  {CLIMATES.map((climate) => (
+                    <option key={climate} value={climate}>{t(`climate.${climate}`)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Reviewer Voice */}
+            <div className="card-glass">
+              <label className="block text-lg font-semibold text-luxury-900 mb-2">
+                {t('upload.voice')} <span className="text-luxury-500 font-normal">{t('upload.optional')}</span>
+              </label>
+              <p className="text-sm text-luxury-600 mb-4">
+                {t('upload.voiceHint')}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select
+                  value={voice.persona ?? ''}
+                  onChange={(e) => setVoice({ ...voice, persona: (e.target.value || undefined) as Persona | undefined })}
+                  disabled={loading}
+                  className="input-luxury"
+                >
+                  <option value="">{t('upload.profilePersona')}</option>
+                  {PERSONAS.map((persona) => (
+                    <option key={persona} value={persona}>{t(`persona.${persona}`)}</option>
+                  ))}
+                </select>
+                <select
+                  value={voice.tone ?? ''}
+                  onChange={(e) => setVoice({ ...voice, tone: (e.target.value || undefined) as Tone | undefined })}
+                  disabled={loading}
+                  className="input-luxury"
+                >
+                  <option value="">{t('upload.profileTone')}</option>
+                  {TONES.map((tone) => (
+                    <option key={tone} value={tone}>{t(`tone.${tone}`)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             {/* Premium Description Input */}
             <div className="card-glass">
               <label className="block text-lg font-semibold text-luxury-900 mb-4">
-                Style Context <span className="text-luxury-500 font-normal">(optional)</span>
+                {t('upload.styleContext')} <span className="text-luxury-500 font-normal">{t('upload.optional')}</span>
               </label>
               <textarea
                 value={description}
                 onChange={(e) => setDescription(e.target.value)}
-                placeholder="Share the story behind this look... special occasion, style goals, inspiration, or anything that helps our AI understand your vision better."
+                placeholder={t('upload.descriptionPlaceholder')}
                 className="input-luxury resize-none"
                 rows={4}
+                maxLength={500}
               />
             </div>
 
+            {/* Content moderation notice */}
+            {moderationNotice && (
+              <div className="card-glass border border-rose-200 flex items-start space-x-3">
+                <ShieldAlert className="w-6 h-6 text-rose-500 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-semibold text-luxury-900">{t('upload.notAccepted')}</p>
+                  <p className="text-sm text-luxury-600 mt-1">{moderationNotice.message}</p>
+                  {moderationNotice.appealed ? (
+                    <p className="text-sm text-luxury-500 mt-2">{t('upload.appealed')}</p>
+                  ) : (
+                    <button onClick={handleAppeal} className="text-sm font-medium text-gold-600 hover:text-gold-700 mt-2">
+                      {t('upload.appeal')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Live analysis progress */}
+            {loading && (
+              <AnalysisProgress stage={stage} partialFields={partialFields} retrying={retrying} />
+            )}
+
             {/* Premium Submit Button */}
             <button
               onClick={handleSubmit}
-              disabled={loading}
+              disabled={loading || awaitingPreview}
               className="w-full btn-luxury relative overflow-hidden group"
             >
               {loading ? (
                 <div className="flex items-center justify-center">
                   <div className="spinner-luxury mr-3"></div>
-                  <span className="font-semibold">Analyzing Your Style...</span>
+                  <span className="font-semibold">{t('upload.analyzing')}</span>
                 </div>
               ) : (
                 <>
                   <div className="flex items-center justify-center relative z-10">
                     <Sparkles className="w-6 h-6 mr-3 animate-pulse-slow" />
-                    <span className="font-bold text-lg">Begin Premium Analysis</span>
+                    <span className="font-bold text-lg">{t('upload.submit')}</span>
                   </div>
 
                   {/* Shimmer Effect */}
@@ -246,15 +612,15 @@ export function UploadSection() {
           <div className="w-8 h-8 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 flex items-center justify-center">
             <span className="text-white text-sm">💡</span>
           </div>
-          <h3 className="text-xl font-bold text-luxury-900">Pro Photography Tips</h3>
+          <h3 className="text-xl font-bold text-luxury-900">{t('upload.tipsTitle')}</h3>
         </div>
 
         <div className="grid grid-cols-1 gap-4">
           {[
-            { icon: '📸', title: 'Perfect Lighting', desc: 'Natural daylight or well-lit indoor space' },
-            { icon: '🎯', title: 'Full Body Shot', desc: 'Show your complete outfit from head to toe' },
-            { icon: '🎨', title: 'Clean Background', desc: 'Plain wall or minimal background works best' },
-            { icon: '✨', title: 'Natural Pose', desc: 'Stand naturally, avoid heavy filters or editing' }
+            { icon: '📸', title: t('upload.tipLighting'), desc: t('upload.tipLightingDesc') },
+            { icon: '🎯', title: t('upload.tipFullBody'), desc: t('upload.tipFullBodyDesc') },
+            { icon: '🎨', title: t('upload.tipBackground'), desc: t('upload.tipBackgroundDesc') },
+            { icon: '✨', title: t('upload.tipPose'), desc: t('upload.tipPoseDesc') }
           ].map((tip, index) => (
             <div key={index} className="flex items-start space-x-3 p-3 rounded-xl bg-white/30 backdrop-blur-sm">
               <span className="text-2xl">{tip.icon}</span>
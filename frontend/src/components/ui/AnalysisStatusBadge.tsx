@@ -0,0 +1,52 @@
+import { AlertTriangle, Loader2, XCircle } from 'lucide-react'
+import { useTranslation } from '@/context/LocaleContext'
+
+export type AnalysisStatus = 'pending' | 'processing' | 'ok' | 'degraded_fallback' | 'no_outfit' | 'failed'
+
+interface AnalysisStatusBadgeProps {
+  status?: AnalysisStatus | null
+  className?: string
+}
+
+// Only non-ok analyses get a badge - a normal review should look normal
+export function AnalysisStatusBadge({ status, className = '' }: AnalysisStatusBadgeProps) {
+  const { t } = useTranslation()
+
+  if (status === 'pending' || status === 'processing') {
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-50 text-gray-700 border border-gray-200 ${className}`}>
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+        {t('status.analyzing')}
+      </span>
+    )
+  }
+
+  if (status === 'degraded_fallback') {
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-yellow-50 text-yellow-700 border border-yellow-200 ${className}`}>
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        {t('status.degraded')}
+      </span>
+    )
+  }
+
+  if (status === 'failed') {
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-red-50 text-red-700 border border-red-200 ${className}`}>
+        <XCircle className="w-3 h-3 mr-1" />
+        {t('status.failed')}
+      </span>
+    )
+  }
+
+  if (status === 'no_outfit') {
+    return (
+      <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-orange-50 text-orange-700 border border-orange-200 ${className}`}>
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        {t('status.noOutfit')}
+      </span>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,63 @@
+import { Minus, TrendingDown, TrendingUp, Trophy } from 'lucide-react'
+import { ScoreCalibration } from '@/lib/api'
+import { useTranslation } from '@/context/LocaleContext'
+
+interface CalibrationBadgeProps {
+  calibration?: ScoreCalibration | null
+  className?: string
+}
+
+// Delta on the 10-point scale the scores are shown in
+const formatDelta = (delta: number) => {
+  const points = (delta / 10).toFixed(1)
+  return delta > 0 ? `+${points}` : points
+}
+
+// How a score compares with the wearer's usual; nothing until there is enough history
+export function CalibrationBadge({ calibration, className = '' }: CalibrationBadgeProps) {
+  const { t } = useTranslation()
+
+  if (!calibration) {
+    return null
+  }
+
+  const { trend, delta } = calibration
+  const title = t('calibration.usual', {
+    baseline: (calibration.baseline / 10).toFixed(1),
+    count: calibration.reviewsConsidered,
+  })
+
+  if (trend === 'personal_best') {
+    return (
+      <span title={title} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-50 text-green-700 border border-green-200 ${className}`}>
+        <Trophy className="w-3 h-3 mr-1" />
+        {t('calibration.personalBest', { delta: formatDelta(delta) })}
+      </span>
+    )
+  }
+
+  if (trend === 'above_usual') {
+    return (
+      <span title={title} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-50 text-green-700 border border-green-200 ${className}`}>
+        <TrendingUp className="w-3 h-3 mr-1" />
+        {t('calibration.vsUsual', { delta: formatDelta(delta) })}
+      </span>
+    )
+  }
+
+  if (trend === 'below_usual') {
+    return (
+      <span title={title} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-orange-50 text-orange-700 border border-orange-200 ${className}`}>
+        <TrendingDown className="w-3 h-3 mr-1" />
+        {t('calibration.vsUsual', { delta: formatDelta(delta) })}
+      </span>
+    )
+  }
+
+  return (
+    <span title={title} className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-50 text-gray-700 border border-gray-200 ${className}`}>
+      <Minus className="w-3 h-3 mr-1" />
+      {t('calibration.aboutUsual')}
+    </span>
+  )
+}
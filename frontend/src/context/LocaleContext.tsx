@@ -0,0 +1,63 @@
+'use client'
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import Cookies from 'js-cookie'
+import { setRequestLocale } from '@/lib/api'
+import { DEFAULT_LOCALE, Locale, MessageKey, detectLocale, isLocale, translate } from '@/locales'
+
+interface LocaleContextType {
+  locale: Locale
+  // null follows the browser's language again
+  setLocale: (locale: Locale | null) => void
+  t: (key: MessageKey, values?: Record<string, string | number>) => string
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined)
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE)
+
+  const applyLocale = (next: Locale) => {
+    setLocaleState(next)
+    setRequestLocale(next)
+    document.documentElement.lang = next
+  }
+
+  const browserLocale = () => detectLocale(navigator.languages ?? [navigator.language])
+
+  // A language picked in the profile wins over the browser's
+  useEffect(() => {
+    const saved = Cookies.get('locale')
+    applyLocale(isLocale(saved) ? saved : browserLocale())
+  }, [])
+
+  const setLocale = (next: Locale | null) => {
+    if (next) {
+      Cookies.set('locale', next, { expires: 365 })
+    } else {
+      Cookies.remove('locale')
+    }
+    applyLocale(next ?? browserLocale())
+  }
+
+  const t = useCallback(
+    (key: MessageKey, values?: Record<string, string | number>) => translate(locale, key, values),
+    [locale]
+  )
+
+  const value = {
+    locale,
+    setLocale,
+    t,
+  }
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+}
+
+export function useTranslation() {
+  const context = useContext(LocaleContext)
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LocaleProvider')
+  }
+  return context
+}
@@ -1,6 +1,7 @@
 import axios from 'axios'
 import Cookies from 'js-cookie'
 import toast from 'react-hot-toast'
+import type { Locale } from '@/locales'
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'
 
@@ -12,6 +13,13 @@ const api = axios.create({
   },
 })
 
+// Language of the UI; sent as Accept-Language so guest analyses and API errors match it
+let requestLocale: Locale | null = null
+
+export const setRequestLocale = (locale: Locale) => {
+  requestLocale = locale
+}
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -19,6 +27,9 @@ api.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`
     }
+    if (requestLocale) {
+      config.headers['Accept-Language'] = requestLocale
+    }
     return config
   },
   (error) => {
@@ -68,6 +79,115 @@ export const profileApi = {
   },
 }
 
+export type PrivacyMode = 'off' | 'blur' | 'crop'
+
+export interface Garment {
+  type: string
+  // Dominant colors as #rrggbb, most prominent first
+  colors: string[]
+  pattern: string | null
+  fabric: string | null
+  fitNotes: string | null
+  score: number | null
+  // Fractions (0-1) of the image width and height, from the top left
+  boundingBox: { x: number; y: number; width: number; height: number } | null
+}
+
+export type Occasion =
+  | 'wedding_guest' | 'job_interview' | 'office' | 'business_meeting' | 'date_night' | 'party' | 'funeral'
+  | 'graduation' | 'religious_service' | 'brunch' | 'casual_outing' | 'travel' | 'festival' | 'beach' | 'gym'
+  | 'white_tie' | 'black_tie' | 'cocktail' | 'business_formal' | 'business_casual' | 'smart_casual' | 'casual'
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter'
+
+export type Climate = 'tropical' | 'hot_dry' | 'temperate' | 'cold' | 'rainy'
+
+// Offered in this order; labels come from the occasion.*, season.* and climate.* messages
+export const OCCASIONS: Occasion[] = [
+  'wedding_guest', 'job_interview', 'office', 'business_meeting', 'date_night', 'party', 'funeral',
+  'graduation', 'religious_service', 'brunch', 'casual_outing', 'travel', 'festival', 'beach', 'gym',
+  'white_tie', 'black_tie', 'cocktail', 'business_formal', 'business_casual', 'smart_casual', 'casual',
+]
+
+export const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter']
+
+export const CLIMATES: Climate[] = ['tropical', 'hot_dry', 'temperate', 'cold', 'rainy']
+
+// What the outfit is scored against; every part is optional
+export interface AnalysisTarget {
+  occasion?: Occasion
+  season?: Season
+  climate?: Climate
+}
+
+// Who the analysis is written as and how bluntly; labels come from the persona.* and tone.* messages
+export type Persona = 'gentle_coach' | 'editorial_critic' | 'practical_friend' | 'image_consultant'
+
+export type Tone = 'gentle' | 'balanced' | 'direct' | 'brutal'
+
+export const PERSONAS: Persona[] = ['gentle_coach', 'editorial_critic', 'practical_friend', 'image_consultant']
+
+// Softest first
+export const TONES: Tone[] = ['gentle', 'balanced', 'direct', 'brutal']
+
+// Changes only the wording, never the scores; unset parts fall back to the profile
+export interface ReviewerVoice {
+  persona?: Persona
+  tone?: Tone
+}
+
+// What a photo of a multi-angle review shows; also the upload field it is sent under
+export type ImageRole = 'front' | 'side' | 'back' | 'shoes' | 'detail'
+
+export interface ReviewImage {
+  role: ImageRole
+  imageUrl: string
+}
+
+// Dominant colors measured from the photo by the backend
+export interface ColorPalette {
+  // Largest share first; share is 0-1, neutral swatches (black, white, grey, beige) do not count towards the harmony
+  swatches: { hex: string; share: number; neutral: boolean }[]
+  harmony: 'monochromatic' | 'analogous' | 'complementary' | 'split_complementary' | 'triadic' | 'neutral' | 'mixed'
+  // False when the whole photo was measured because the background could not be separated
+  backgroundExcluded: boolean
+}
+
+// Overall score relative to the wearer's usual one; null until they have a few scored reviews
+export interface ScoreCalibration {
+  baseline: number
+  // overallScore minus baseline, on the 0-100 scale
+  delta: number
+  trend: 'personal_best' | 'above_usual' | 'usual' | 'below_usual'
+  reviewsConsidered: number
+}
+
+// One turn of the follow-up conversation about a review
+export interface ReviewMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  createdAt: string
+}
+
+export type AnalysisStage =
+  | 'uploaded'
+  | 'image_preprocessed'
+  | 'queued'
+  | 'model_started'
+  | 'partial'
+  | 'repair_started'
+  | 'retry_scheduled'
+  | 'persisted'
+  | 'failed'
+
+export interface AnalysisProgressEvent {
+  reviewId: string
+  stage: AnalysisStage
+  at: string
+  data?: Record<string, any>
+}
+
 // Reviews API
 export const reviewsApi = {
   create: async (imageFile: File, description?: string) => {
@@ -85,8 +205,92 @@ export const reviewsApi = {
     return response.data
   },
 
-  getAll: async () => {
-    const response = await api.get('/reviews')
+  // Queue the analysis and return immediately (202) with the review id
+  // extraViews: more angles of the same outfit, analyzed together with the main photo
+  createAsync: async (
+    imageFile: File,
+    description?: string,
+    privacy?: PrivacyMode,
+    target?: AnalysisTarget,
+    extraViews?: { role: Exclude<ImageRole, 'front'>; file: File }[],
+    voice?: ReviewerVoice
+  ) => {
+    const formData = new FormData()
+    formData.append('image', imageFile)
+    extraViews?.forEach(({ role, file }) => formData.append(role, file))
+    if (description) {
+      formData.append('description', description)
+    }
+    Object.entries({ ...target, ...voice }).forEach(([field, value]) => {
+      if (value) formData.append(field, value)
+    })
+
+    const response = await api.post('/reviews', formData, {
+      params: { async: 'true', ...(privacy && { privacy }) },
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data
+  },
+
+  // wait: seconds the server may hold the request until the analysis finishes (max 25)
+  getStatus: async (reviewId: string, wait = 0) => {
+    const response = await api.get(`/reviews/${reviewId}/status`, {
+      params: wait > 0 ? { wait } : undefined,
+    })
+    return response.data
+  },
+
+  // Stream analysis progress (Server-Sent Events). fetch is used instead of EventSource
+  // so the auth header can be sent. Resolves when the server closes the stream.
+  streamEvents: async (
+    reviewId: string,
+    onEvent: (event: AnalysisProgressEvent) => void,
+    signal?: AbortSignal
+  ) => {
+    const token = Cookies.get('auth-token')
+    const response = await fetch(`${API_BASE_URL}/api/reviews/${reviewId}/events`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...(requestLocale && { 'Accept-Language': requestLocale }),
+      },
+      signal,
+    })
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream unavailable (${response.status})`)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const messages = buffer.split('\n\n')
+      buffer = messages.pop() || ''
+
+      for (const message of messages) {
+        const data = message
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice('data:'.length).trim())
+          .join('')
+        if (data) {
+          onEvent(JSON.parse(data))
+        }
+      }
+    }
+  },
+
+  // occasion narrows the history to reviews scored against it
+  getAll: async (occasion?: Occasion) => {
+    const response = await api.get('/reviews', { params: occasion ? { occasion } : undefined })
     return response.data
   },
 
@@ -97,9 +301,41 @@ export const reviewsApi = {
     return response.data
   },
 
-  accept: async (reviewId: string, accepted: boolean) => {
+  getMessages: async (reviewId: string) => {
+    const response = await api.get(`/reviews/${reviewId}/messages`)
+    return response.data as { messages: ReviewMessage[] }
+  },
+
+  // Ask a follow-up question; both the question and the answer come back once stored
+  sendMessage: async (reviewId: string, content: string) => {
+    const response = await api.post(`/reviews/${reviewId}/messages`, { content })
+    return response.data as { question: ReviewMessage; reply: ReviewMessage }
+  },
+
+  // Faces redacted on the server, for showing before the upload; nothing is stored
+  privacyPreview: async (imageFile: File, privacy?: Exclude<PrivacyMode, 'off'>) => {
+    const formData = new FormData()
+    formData.append('image', imageFile)
+
+    const response = await api.post('/reviews/privacy-preview', formData, {
+      params: privacy ? { privacy } : undefined,
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+    return response.data as { privacyMode: Exclude<PrivacyMode, 'off'>; facesRedacted: number; image: string }
+  },
+
+  // Appeal an upload refused by content moderation (moderationId from the 422 response)
+  appealModeration: async (moderationId: string, message?: string) => {
+    const response = await api.post(`/reviews/moderation/${moderationId}/appeal`, { message })
+    return response.data
+  },
+
+  accept: async (reviewId: string, accepted: boolean, feedback?: { feedbackRating?: number; userFeedback?: string | null }) => {
     const response = await api.post(`/reviews/${reviewId}/accept`, {
       accepted,
+      ...feedback,
     })
     return response.data
   },
@@ -0,0 +1,293 @@
+import type { MessageKey } from './en'
+
+export const de: Record<MessageKey, string> = {
+  'app.tagline': 'Premium-Stilanalyse',
+  'app.welcomeBack': 'Willkommen zurück,',
+
+  'nav.analyze': 'Analysieren',
+  'nav.history': 'Verlauf',
+  'nav.profile': 'Profil',
+
+  'occasion.wedding_guest': 'Hochzeitsgast',
+  'occasion.job_interview': 'Vorstellungsgespräch',
+  'occasion.office': 'Büro',
+  'occasion.business_meeting': 'Geschäftstermin',
+  'occasion.date_night': 'Date',
+  'occasion.party': 'Party',
+  'occasion.funeral': 'Beerdigung',
+  'occasion.graduation': 'Abschlussfeier',
+  'occasion.religious_service': 'Gottesdienst',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Lockerer Ausflug',
+  'occasion.travel': 'Reise',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Strand',
+  'occasion.gym': 'Fitnessstudio',
+  'occasion.white_tie': 'White Tie',
+  'occasion.black_tie': 'Black Tie',
+  'occasion.cocktail': 'Cocktail',
+  'occasion.business_formal': 'Business formell',
+  'occasion.business_casual': 'Business Casual',
+  'occasion.smart_casual': 'Smart Casual',
+  'occasion.casual': 'Leger',
+
+  'season.spring': 'Frühling',
+  'season.summer': 'Sommer',
+  'season.autumn': 'Herbst',
+  'season.winter': 'Winter',
+
+  'climate.tropical': 'Heiß und feucht',
+  'climate.hot_dry': 'Heiß und trocken',
+  'climate.temperate': 'Mild',
+  'climate.cold': 'Kalt',
+  'climate.rainy': 'Regnerisch',
+  'persona.gentle_coach': 'Einfühlsamer Coach',
+  'persona.editorial_critic': 'Modekritiker',
+  'persona.practical_friend': 'Praktischer Freund',
+  'persona.image_consultant': 'Imageberater',
+  'tone.gentle': 'Sanft',
+  'tone.balanced': 'Ausgewogen',
+  'tone.direct': 'Direkt',
+  'tone.brutal': 'Schonungslos ehrlich',
+
+  'imageRole.front': 'Vorne',
+  'imageRole.side': 'Seite',
+  'imageRole.back': 'Hinten',
+  'imageRole.shoes': 'Schuhe',
+  'imageRole.detail': 'Detail',
+
+  'harmony.monochromatic': 'Monochrom',
+  'harmony.analogous': 'Analog',
+  'harmony.complementary': 'Komplementär',
+  'harmony.split_complementary': 'Geteilt komplementär',
+  'harmony.triadic': 'Triadisch',
+  'harmony.neutral': 'Neutral',
+  'harmony.mixed': 'Gemischt',
+
+  'dimension.styleCategory': 'Stilkategorie',
+  'dimension.fit': 'Passform',
+  'dimension.colorHarmony': 'Farblehre',
+  'dimension.occasion': 'Anlass',
+  'dimension.proportion': 'Proportionen & visuelles Gewicht',
+  'dimension.fabric': 'Stoffkombination & Qualität',
+  'dimension.sophistication': 'Styling-Raffinesse',
+
+  'score.style': 'Stil',
+  'score.fit': 'Passform',
+  'score.color': 'Farbe',
+  'score.occasion': 'Anlass',
+  'score.proportion': 'Proportionen',
+  'score.fabric': 'Stoff',
+  'score.sophistication': 'Raffinesse',
+
+  'status.analyzing': 'Wird analysiert',
+  'status.degraded': 'Ersatzanalyse',
+  'status.failed': 'Analyse fehlgeschlagen',
+  'status.noOutfit': 'Kein Outfit erkannt',
+
+  'calibration.usual': 'Deine übliche Bewertung ist {baseline}/10, aus deinen letzten {count} Analysen',
+  'calibration.personalBest': 'Persönlicher Rekord · {delta} gegenüber sonst',
+  'calibration.vsUsual': '{delta} gegenüber sonst',
+  'calibration.aboutUsual': 'Wie üblich',
+
+  'upload.subtitle': 'Luxuriöse Modeeinblicke dank fortschrittlicher KI',
+  'upload.dropHere': 'Perfekt! Hier ablegen',
+  'upload.dropSubtitle': 'Deine Stilanalyse wartet',
+  'upload.title': 'Lade dein Outfit hoch',
+  'upload.dragOrClick': 'Ziehe dein Foto hierher oder klicke zum Auswählen',
+  'upload.choosePhoto': 'Foto auswählen',
+  'upload.selectedAlt': 'Ausgewähltes Outfit',
+  'upload.hidingFaces': 'Gesichter werden verborgen...',
+  'upload.faceBlurred': '1 Gesicht verpixelt',
+  'upload.facesBlurred': '{count} Gesichter verpixelt',
+  'upload.faceCropped': '1 Gesicht abgeschnitten',
+  'upload.facesCropped': '{count} Gesichter abgeschnitten',
+  'upload.photoReady': 'Foto bereit',
+  'upload.optional': '(optional)',
+  'upload.moreAngles': 'Weitere Ansichten',
+  'upload.moreAnglesHint': 'Seiten- und Rückansichten schärfen die Bewertung von Passform und Proportionen; Nahaufnahmen helfen bei Stoffen und Schuhen. Sie werden zusammen mit dem Foto oben analysiert.',
+  'upload.viewAlt': 'Ansicht: {role}',
+  'upload.photoTooLarge': 'Fotos müssen kleiner als 10 MB sein',
+  'upload.privacyMode': 'Privatsphäre-Modus',
+  'upload.privacyHint': 'Gesichter werden auf unserem Server entfernt, bevor ein Foto gespeichert oder analysiert wird. Was du oben siehst, wird hochgeladen; weitere Ansichten werden genauso behandelt.',
+  'upload.privacyOff': 'Aus',
+  'upload.privacyBlur': 'Gesicht verpixeln',
+  'upload.privacyCrop': 'Gesicht abschneiden',
+  'upload.occasion': 'Anlass',
+  'upload.occasionHint': 'Wähle, wo du es trägst, und der Look wird für diesen Anlass oder Dresscode bewertet.',
+  'upload.anyOccasion': 'Beliebiger Anlass',
+  'upload.anySeason': 'Beliebige Jahreszeit',
+  'upload.anyWeather': 'Beliebiges Wetter',
+  'upload.voice': 'Stimme der Analyse',
+  'upload.voiceHint': 'Wähle, wer deine Analyse schreibt und wie offen. Nur die Formulierung ändert sich, die Bewertungen bleiben gleich.',
+  'upload.profilePersona': 'Persona aus meinem Profil',
+  'upload.profileTone': 'Ton aus meinem Profil',
+  'upload.styleContext': 'Kontext',
+  'upload.descriptionPlaceholder': 'Erzähl die Geschichte hinter diesem Look... besonderer Anlass, Stilziele, Inspiration oder alles, was unserer KI hilft, deine Vision besser zu verstehen.',
+  'upload.notAccepted': 'Foto nicht akzeptiert',
+  'upload.refusedPhoto': 'Foto ({role}): ',
+  'upload.appealed': 'Einspruch gesendet. Wir sehen es uns noch einmal an.',
+  'upload.appeal': 'Hältst du das für einen Fehler? Einspruch einlegen',
+  'upload.analyzing': 'Dein Stil wird analysiert...',
+  'upload.submit': 'Premium-Analyse starten',
+  'upload.tipsTitle': 'Foto-Tipps',
+  'upload.tipLighting': 'Perfektes Licht',
+  'upload.tipLightingDesc': 'Tageslicht oder ein gut beleuchteter Innenraum',
+  'upload.tipFullBody': 'Ganzkörperaufnahme',
+  'upload.tipFullBodyDesc': 'Zeige dein komplettes Outfit von Kopf bis Fuß',
+  'upload.tipBackground': 'Ruhiger Hintergrund',
+  'upload.tipBackgroundDesc': 'Eine schlichte Wand oder ein ruhiger Hintergrund eignet sich am besten',
+  'upload.tipPose': 'Natürliche Haltung',
+  'upload.tipPoseDesc': 'Steh natürlich und verzichte auf starke Filter oder Bearbeitung',
+  'upload.previewFailed': 'Die Datenschutzvorschau konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'upload.cacheHit': 'Du hast dieses Foto schon einmal hochgeladen – hier ist seine Analyse',
+  'upload.success': 'Outfit erfolgreich analysiert!',
+  'upload.failed': 'Das Outfit konnte nicht analysiert werden. Bitte versuche es erneut.',
+  'upload.appealSent': 'Einspruch gesendet – wir prüfen dieses Foto erneut',
+  'upload.appealFailed': 'Der Einspruch konnte nicht gesendet werden. Bitte versuche es erneut.',
+
+  'progress.uploaded': 'Foto hochgeladen',
+  'progress.prepared': 'Bild vorbereitet',
+  'progress.reviewing': 'Die Mode-KI prüft deinen Look',
+  'progress.saving': 'Deine Analyse wird gespeichert',
+  'progress.retrying': 'Unsere Mode-KI ist ausgelastet – neuer Versuch in wenigen Sekunden...',
+  'progress.style': 'Stil:',
+
+  'analysis.thanksPositive': 'Danke für das positive Feedback!',
+  'analysis.thanks': 'Danke für dein Feedback!',
+  'analysis.feedbackFailed': 'Feedback konnte nicht gesendet werden',
+  'analysis.noOutfitTitle': 'Kein Outfit erkannt',
+  'analysis.noOutfitSubtitle': 'Auf diesem Bild haben wir nicht genug Kleidung für eine Analyse gefunden',
+  'analysis.uploadedAlt': 'Hochgeladenes Bild',
+  'analysis.notPossible': 'Modeanalyse nicht möglich',
+  'analysis.notPossibleIntro': 'Unsere KI-Modeexpertin muss echte Kleidung sehen, um sie zu analysieren. Dieses Bild scheint Folgendes zu zeigen:',
+  'analysis.noClothing': 'Keine nennenswerte Kleidung sichtbar',
+  'analysis.insufficient': 'Zu wenige Outfit-Elemente für eine Bewertung',
+  'analysis.bestResults': 'Für die besten Ergebnisse',
+  'analysis.tipCompleteOutfit': 'Lade ein Foto mit einem kompletten Outfit hoch',
+  'analysis.tipPieces': 'Zeige nach Möglichkeit Oberteil, Unterteil und Accessoires',
+  'analysis.tipVisible': 'Achte darauf, dass das ganze Outfit gut zu sehen ist',
+  'analysis.tipLighting': 'Sorge für gutes Licht und einen ruhigen Hintergrund',
+  'analysis.uploadNew': 'Neues Outfit-Foto hochladen',
+  'analysis.complete': 'Analyse abgeschlossen!',
+  'analysis.completeSubtitle': 'Premium-Modeeinblicke mit Expertenpräzision',
+  'analysis.fallbackBody': 'Unsere Haupt-Mode-KI war nicht verfügbar, daher stammt dieses Ergebnis von einem Ersatzmodell{provider}. Die Bewertungen sind womöglich ungenauer – versuche es später erneut für eine vollständige Analyse.',
+  'analysis.splitTitle': 'Unsere Experten waren sich uneinig',
+  'analysis.splitBody': 'Die Modelle, die deinen Look bewertet haben, waren sich bei {dimensions} uneinig. Diese Bewertungen sind der Mittelwert der Meinungen und unsicherer als die übrigen.',
+  'analysis.overallScore': 'Gesamtbewertung',
+  'analysis.analyzedAlt': 'Analysiertes Outfit',
+  'analysis.analyzedOutfit': 'Analysiertes Outfit',
+  'analysis.coreAssessments': 'Kernbewertungen',
+  'analysis.measuredPalette': 'Gemessene Palette: {harmony}',
+  'analysis.expertAnalysis': 'Expertenanalyse',
+  'analysis.workingWell': 'Was gut funktioniert',
+  'analysis.expertInsights': 'Experteneinblicke',
+  'analysis.technicalFlaws': 'Technische Analyse & Verbesserungspotenzial',
+  'analysis.recommendations': 'Professionelle Empfehlungen',
+  'analysis.feedbackQuestion': 'Wie fandest du diese Analyse?',
+  'analysis.veryInsightful': 'Sehr aufschlussreich!',
+  'analysis.couldBeBetter': 'Geht besser',
+  'analysis.feedbackHelps': 'Das hilft uns, unsere Mode-KI zu verfeinern',
+  'analysis.analyzeAnother': 'Weiteres Outfit analysieren',
+
+  'garments.title': 'Teil für Teil',
+
+  'comparison.title': 'Vorher & Nachher',
+  'comparison.before': 'Vorher',
+  'comparison.beforeLooks': 'Vorher ({count} Looks)',
+  'comparison.now': 'Jetzt',
+  'comparison.previousAlt': 'Vorheriges Outfit',
+  'comparison.currentAlt': 'Aktuelles Outfit',
+  'comparison.notAvailable': 'k. A.',
+  'comparison.improved': 'Verbessert',
+  'comparison.regressed': 'Verschlechtert',
+
+  'chat.title': 'Frag zu diesem Outfit',
+  'chat.suggestShoes': 'Welche Schuhe würden dazu passen?',
+  'chat.suggestFormal': 'Wie kann ich das formeller gestalten?',
+  'chat.suggestChange': 'Welche Änderung würde es am meisten verbessern?',
+  'chat.thinking': 'Denkt nach...',
+  'chat.placeholder': 'Stell eine Nachfrage...',
+  'chat.send': 'Senden',
+  'chat.failed': 'Keine Antwort erhalten',
+
+  'history.title': 'Deine Stilreise',
+  'history.subtitle': 'Sieh dir frühere Analysen an und verfolge, wie sich dein Stil entwickelt',
+  'history.allOccasions': 'Alle Anlässe',
+  'history.noOccasionLooks': 'Noch keine Looks für „{occasion}“',
+  'history.pickOccasion': 'Wähle diesen Anlass beim Hochladen eines Outfits, um es hier zu sehen',
+  'history.empty': 'Noch keine Analysen',
+  'history.emptyHint': 'Lade zuerst ein Foto deines ersten Outfits hoch',
+  'history.highlightCount': '{count} Highlights',
+  'history.suggestionCount': '{count} Vorschläge',
+  'history.back': '← Zurück',
+  'history.details': 'Analysedetails',
+  'history.outfitAlt': 'Outfit',
+  'history.inProgress': 'Analyse läuft',
+  'history.inProgressBody': 'Unsere Mode-KI arbeitet noch an diesem Foto. Schau gleich noch einmal vorbei.',
+  'history.failedBody': 'Unsere Mode-KI konnte dieses Foto nicht analysieren. Es wurde nicht auf dein Limit angerechnet – bitte lade es erneut hoch.',
+  'history.fallbackBody': 'Dieses Ergebnis stammt von einem Ersatzmodell{provider}, weil unsere Haupt-Mode-KI nicht verfügbar war. Die Bewertungen sind womöglich ungenauer.',
+  'history.highlights': 'Highlights',
+  'history.comparisonInsight': 'Vergleich',
+  'history.comparing': 'Wird verglichen...',
+  'history.compare': 'Mit vorherigem Look vergleichen',
+  'history.compareAgain': 'Erneut mit vorherigem Look vergleichen',
+  'history.compareFailed': 'Outfits konnten nicht verglichen werden',
+
+  'profile.title': 'Dein Profil',
+  'profile.subtitle': 'Hilf unserer KI, dir persönliche Modetipps zu geben',
+  'profile.signedInAs': 'Angemeldet als',
+  'profile.skinTone': 'Hautton',
+  'profile.skinTonePlaceholder': 'Wähle deinen Hautton',
+  'profile.skinTone.fair': 'Sehr hell',
+  'profile.skinTone.light': 'Hell',
+  'profile.skinTone.medium': 'Mittel',
+  'profile.skinTone.tan': 'Gebräunt',
+  'profile.skinTone.olive': 'Oliv',
+  'profile.skinTone.dark': 'Dunkel',
+  'profile.skinTone.deep': 'Sehr dunkel',
+  'profile.build': 'Statur',
+  'profile.buildPlaceholder': 'Wähle deine Statur',
+  'profile.build.petite': 'Zierlich',
+  'profile.build.slim': 'Schlank',
+  'profile.build.athletic': 'Athletisch',
+  'profile.build.curvy': 'Kurvig',
+  'profile.build.plus-size': 'Große Größe',
+  'profile.faceStructure': 'Gesichtsform',
+  'profile.faceStructurePlaceholder': 'Wähle deine Gesichtsform',
+  'profile.faceStructure.oval': 'Oval',
+  'profile.faceStructure.round': 'Rund',
+  'profile.faceStructure.square': 'Eckig',
+  'profile.faceStructure.heart': 'Herzförmig',
+  'profile.faceStructure.diamond': 'Rautenförmig',
+  'profile.faceStructure.oblong': 'Länglich',
+  'profile.hairType': 'Haartyp',
+  'profile.hairTypePlaceholder': 'Wähle deinen Haartyp',
+  'profile.hairType.straight': 'Glatt',
+  'profile.hairType.wavy': 'Wellig',
+  'profile.hairType.curly': 'Lockig',
+  'profile.hairType.coily': 'Kraus',
+  'profile.hairType.bald': 'Glatze',
+  'profile.height': 'Größe (cm)',
+  'profile.weight': 'Gewicht (kg)',
+  'profile.privacyMode': 'Privatsphäre-Modus',
+  'profile.privacyDefault': 'Standard',
+  'profile.privacyOff': 'Aus – Fotos unverändert senden',
+  'profile.privacyBlur': 'Mein Gesicht verpixeln',
+  'profile.privacyCrop': 'Mein Gesicht abschneiden',
+  'profile.privacyHint': 'Gesichter werden auf unserem Server entfernt, bevor dein Foto gespeichert oder an unsere KI-Partner gesendet wird.',
+  'profile.language': 'Sprache',
+  'profile.languageAuto': 'Wie mein Browser',
+  'profile.languageHint': 'Analysen, Antworten und Meldungen werden in dieser Sprache verfasst.',
+  'profile.voice': 'Stimme der Analyse',
+  'profile.personaDefault': 'Standardberater',
+  'profile.toneDefault': 'Standardton',
+  'profile.voiceHint': 'Gilt für jede Analyse, außer du wählst beim Hochladen eine andere Stimme. Die Bewertungen sind bei jeder Stimme gleich.',
+  'profile.saving': 'Wird gespeichert...',
+  'profile.save': 'Profil speichern',
+  'profile.updated': 'Profil aktualisiert!',
+  'profile.updateFailed': 'Profil konnte nicht aktualisiert werden',
+  'profile.privacyTitle': 'Privatsphäre & Daten',
+  'profile.privacyBody': 'Deine Profilangaben werden ausschließlich für persönliche Modetipps verwendet. Wir geben deine persönlichen Daten nicht an Dritte weiter.',
+  'profile.signOut': 'Abmelden',
+}
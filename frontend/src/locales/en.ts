@@ -0,0 +1,294 @@
+// Source catalog: every other language translates these keys. {name} placeholders are filled in by t()
+export const en = {
+  'app.tagline': 'Premium Style Analysis',
+  'app.welcomeBack': 'Welcome back,',
+
+  'nav.analyze': 'Analyze',
+  'nav.history': 'History',
+  'nav.profile': 'Profile',
+
+  'occasion.wedding_guest': 'Wedding guest',
+  'occasion.job_interview': 'Job interview',
+  'occasion.office': 'Office',
+  'occasion.business_meeting': 'Business meeting',
+  'occasion.date_night': 'Date night',
+  'occasion.party': 'Party',
+  'occasion.funeral': 'Funeral',
+  'occasion.graduation': 'Graduation',
+  'occasion.religious_service': 'Religious service',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Casual day out',
+  'occasion.travel': 'Travel',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Beach',
+  'occasion.gym': 'Gym',
+  'occasion.white_tie': 'White tie',
+  'occasion.black_tie': 'Black tie',
+  'occasion.cocktail': 'Cocktail attire',
+  'occasion.business_formal': 'Business formal',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Smart casual',
+  'occasion.casual': 'Casual',
+
+  'season.spring': 'Spring',
+  'season.summer': 'Summer',
+  'season.autumn': 'Autumn',
+  'season.winter': 'Winter',
+
+  'climate.tropical': 'Hot & humid',
+  'climate.hot_dry': 'Hot & dry',
+  'climate.temperate': 'Mild',
+  'climate.cold': 'Cold',
+  'climate.rainy': 'Rainy',
+  'persona.gentle_coach': 'Gentle coach',
+  'persona.editorial_critic': 'Editorial critic',
+  'persona.practical_friend': 'Practical friend',
+  'persona.image_consultant': 'Image consultant',
+  'tone.gentle': 'Gentle',
+  'tone.balanced': 'Balanced',
+  'tone.direct': 'Direct',
+  'tone.brutal': 'Brutally honest',
+
+  'imageRole.front': 'Front',
+  'imageRole.side': 'Side',
+  'imageRole.back': 'Back',
+  'imageRole.shoes': 'Shoes',
+  'imageRole.detail': 'Detail',
+
+  'harmony.monochromatic': 'Monochromatic',
+  'harmony.analogous': 'Analogous',
+  'harmony.complementary': 'Complementary',
+  'harmony.split_complementary': 'Split complementary',
+  'harmony.triadic': 'Triadic',
+  'harmony.neutral': 'Neutral',
+  'harmony.mixed': 'Mixed',
+
+  'dimension.styleCategory': 'Style Category',
+  'dimension.fit': 'Technical Fit',
+  'dimension.colorHarmony': 'Color Theory',
+  'dimension.occasion': 'Occasion',
+  'dimension.proportion': 'Proportion & Visual Weight',
+  'dimension.fabric': 'Fabric Synergy & Merit',
+  'dimension.sophistication': 'Styling Sophistication',
+
+  'score.style': 'Style',
+  'score.fit': 'Fit',
+  'score.color': 'Color',
+  'score.occasion': 'Occasion',
+  'score.proportion': 'Proportion',
+  'score.fabric': 'Fabric',
+  'score.sophistication': 'Sophistication',
+
+  'status.analyzing': 'Analyzing',
+  'status.degraded': 'Fallback analysis',
+  'status.failed': 'Analysis failed',
+  'status.noOutfit': 'No outfit detected',
+
+  'calibration.usual': 'Your usual score is {baseline}/10, from your last {count} reviews',
+  'calibration.personalBest': 'Personal best · {delta} vs your usual',
+  'calibration.vsUsual': '{delta} vs your usual',
+  'calibration.aboutUsual': 'About your usual',
+
+  'upload.subtitle': 'Experience luxury fashion insights powered by advanced AI technology',
+  'upload.dropHere': 'Perfect! Drop it here',
+  'upload.dropSubtitle': 'Your style analysis awaits',
+  'upload.title': 'Upload Your Outfit',
+  'upload.dragOrClick': 'Drag & drop or click to select your photo',
+  'upload.choosePhoto': 'Choose Photo',
+  'upload.selectedAlt': 'Selected outfit',
+  'upload.hidingFaces': 'Hiding faces...',
+  'upload.faceBlurred': '1 face blurred',
+  'upload.facesBlurred': '{count} faces blurred',
+  'upload.faceCropped': '1 face cropped out',
+  'upload.facesCropped': '{count} faces cropped out',
+  'upload.photoReady': 'Photo Ready',
+  'upload.optional': '(optional)',
+  'upload.moreAngles': 'More Angles',
+  'upload.moreAnglesHint': 'Side and back views sharpen the fit and proportion scores; close-ups help with fabric and shoes. They are analyzed together with the photo above.',
+  'upload.viewAlt': '{role} view',
+  'upload.photoTooLarge': 'Photos must be under 10MB',
+  'upload.privacyMode': 'Privacy Mode',
+  'upload.privacyHint': 'Faces are removed on our server before any photo is stored or analyzed. What you see above is what gets uploaded; extra angles are redacted the same way.',
+  'upload.privacyOff': 'Off',
+  'upload.privacyBlur': 'Blur face',
+  'upload.privacyCrop': 'Crop face',
+  'upload.occasion': 'Occasion',
+  'upload.occasionHint': 'Pick where you are wearing it and the look is scored against that occasion or dress code.',
+  'upload.anyOccasion': 'Any occasion',
+  'upload.anySeason': 'Any season',
+  'upload.anyWeather': 'Any weather',
+  'upload.voice': 'Reviewer voice',
+  'upload.voiceHint': 'Choose who writes your analysis and how bluntly. Only the wording changes; the scores stay the same.',
+  'upload.profilePersona': 'Persona from my profile',
+  'upload.profileTone': 'Tone from my profile',
+  'upload.styleContext': 'Style Context',
+  'upload.descriptionPlaceholder': 'Share the story behind this look... special occasion, style goals, inspiration, or anything that helps our AI understand your vision better.',
+  'upload.notAccepted': 'Photo not accepted',
+  'upload.refusedPhoto': '{role} photo: ',
+  'upload.appealed': 'Appeal sent. We will take another look.',
+  'upload.appeal': 'Think this is a mistake? Appeal',
+  'upload.analyzing': 'Analyzing Your Style...',
+  'upload.submit': 'Begin Premium Analysis',
+  'upload.tipsTitle': 'Pro Photography Tips',
+  'upload.tipLighting': 'Perfect Lighting',
+  'upload.tipLightingDesc': 'Natural daylight or well-lit indoor space',
+  'upload.tipFullBody': 'Full Body Shot',
+  'upload.tipFullBodyDesc': 'Show your complete outfit from head to toe',
+  'upload.tipBackground': 'Clean Background',
+  'upload.tipBackgroundDesc': 'Plain wall or minimal background works best',
+  'upload.tipPose': 'Natural Pose',
+  'upload.tipPoseDesc': 'Stand naturally, avoid heavy filters or editing',
+  'upload.previewFailed': 'Could not prepare the privacy preview. Please try again.',
+  'upload.cacheHit': 'You have uploaded this photo before - here is its analysis',
+  'upload.success': 'Outfit analyzed successfully!',
+  'upload.failed': 'Failed to analyze outfit. Please try again.',
+  'upload.appealSent': 'Appeal sent - we will review this photo again',
+  'upload.appealFailed': 'Could not send the appeal. Please try again.',
+
+  'progress.uploaded': 'Photo uploaded',
+  'progress.prepared': 'Image prepared',
+  'progress.reviewing': 'Fashion AI reviewing your look',
+  'progress.saving': 'Saving your analysis',
+  'progress.retrying': 'Our fashion AI is busy - retrying in a few seconds...',
+  'progress.style': 'Style:',
+
+  'analysis.thanksPositive': 'Thanks for the positive feedback!',
+  'analysis.thanks': 'Thanks for your feedback!',
+  'analysis.feedbackFailed': 'Failed to submit feedback',
+  'analysis.noOutfitTitle': 'No Outfit Detected',
+  'analysis.noOutfitSubtitle': "We couldn't find substantial clothing to analyze in this image",
+  'analysis.uploadedAlt': 'Uploaded image',
+  'analysis.notPossible': 'Fashion Analysis Not Possible',
+  'analysis.notPossibleIntro': 'Our AI fashion expert needs to see actual clothing to provide analysis. This image appears to show:',
+  'analysis.noClothing': 'No substantial clothing or garments visible',
+  'analysis.insufficient': 'Insufficient outfit elements for fashion evaluation',
+  'analysis.bestResults': 'For Best Results',
+  'analysis.tipCompleteOutfit': 'Upload a photo showing a complete outfit with clothing',
+  'analysis.tipPieces': 'Include tops, bottoms, and accessories when possible',
+  'analysis.tipVisible': 'Make sure the full outfit is clearly visible',
+  'analysis.tipLighting': 'Use good lighting and a clear background',
+  'analysis.uploadNew': 'Upload New Outfit Photo',
+  'analysis.complete': 'Analysis Complete!',
+  'analysis.completeSubtitle': 'Premium fashion insights with expert-level precision',
+  'analysis.fallbackBody': 'Our main fashion AI was unavailable, so this result comes from a backup{provider}. Scores may be less accurate - try again later for a full analysis.',
+  'analysis.splitTitle': 'Our experts were split',
+  'analysis.splitBody': 'The models scoring your look disagreed on {dimensions}. These scores are the middle opinion and less certain than the rest.',
+  'analysis.overallScore': 'Overall Fashion Score',
+  'analysis.analyzedAlt': 'Analyzed outfit',
+  'analysis.analyzedOutfit': 'Analyzed Outfit',
+  'analysis.coreAssessments': 'Core Assessments',
+  'analysis.measuredPalette': 'Measured palette: {harmony}',
+  'analysis.expertAnalysis': 'Expert Analysis',
+  'analysis.workingWell': "What's Working Well",
+  'analysis.expertInsights': 'Expert Insights',
+  'analysis.technicalFlaws': 'Technical Analysis & Areas for Improvement',
+  'analysis.recommendations': 'Professional Recommendations',
+  'analysis.feedbackQuestion': 'How was this expert analysis?',
+  'analysis.veryInsightful': 'Very insightful!',
+  'analysis.couldBeBetter': 'Could be better',
+  'analysis.feedbackHelps': 'This helps us refine our expert fashion AI',
+  'analysis.analyzeAnother': 'Analyze Another Outfit',
+
+  'garments.title': 'Piece by Piece',
+
+  'comparison.title': 'Before & After',
+  'comparison.before': 'Before',
+  'comparison.beforeLooks': 'Before ({count} looks)',
+  'comparison.now': 'Now',
+  'comparison.previousAlt': 'Previous outfit',
+  'comparison.currentAlt': 'Current outfit',
+  'comparison.notAvailable': 'n/a',
+  'comparison.improved': 'Improved',
+  'comparison.regressed': 'Regressed',
+
+  'chat.title': 'Ask About This Outfit',
+  'chat.suggestShoes': 'What shoes would work with this?',
+  'chat.suggestFormal': 'How can I make this more formal?',
+  'chat.suggestChange': 'What is one change that would improve it most?',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Ask a follow-up question...',
+  'chat.send': 'Send',
+  'chat.failed': 'Failed to get an answer',
+
+  'history.title': 'Your Style Journey',
+  'history.subtitle': 'Review your past outfit analyses and track your style evolution',
+  'history.allOccasions': 'All occasions',
+  'history.noOccasionLooks': 'No “{occasion}” looks yet',
+  'history.pickOccasion': 'Pick this occasion when you upload an outfit to see it here',
+  'history.empty': 'No reviews yet',
+  'history.emptyHint': 'Start by uploading your first outfit photo',
+  'history.highlightCount': '{count} highlights',
+  'history.suggestionCount': '{count} suggestions',
+  'history.back': '← Back',
+  'history.details': 'Review Details',
+  'history.outfitAlt': 'Outfit',
+  'history.inProgress': 'Analysis in progress',
+  'history.inProgressBody': 'Our fashion AI is still working on this photo. Check back in a moment.',
+  'history.failedBody': "Our fashion AI couldn't analyze this photo. It didn't count against your review limit - please upload it again.",
+  'history.fallbackBody': 'This result came from a backup model{provider} while our main fashion AI was unavailable. Scores may be less accurate.',
+  'history.highlights': 'Highlights',
+  'history.comparisonInsight': 'Comparison Insight',
+  'history.comparing': 'Comparing...',
+  'history.compare': 'Compare with previous look',
+  'history.compareAgain': 'Compare again with previous look',
+  'history.compareFailed': 'Failed to compare outfits',
+
+  'profile.title': 'Your Profile',
+  'profile.subtitle': 'Help our AI provide personalized fashion advice',
+  'profile.signedInAs': 'Signed in as',
+  'profile.skinTone': 'Skin Tone',
+  'profile.skinTonePlaceholder': 'Select your skin tone',
+  'profile.skinTone.fair': 'Fair',
+  'profile.skinTone.light': 'Light',
+  'profile.skinTone.medium': 'Medium',
+  'profile.skinTone.tan': 'Tan',
+  'profile.skinTone.olive': 'Olive',
+  'profile.skinTone.dark': 'Dark',
+  'profile.skinTone.deep': 'Deep',
+  'profile.build': 'Body Build',
+  'profile.buildPlaceholder': 'Select your build',
+  'profile.build.petite': 'Petite',
+  'profile.build.slim': 'Slim',
+  'profile.build.athletic': 'Athletic',
+  'profile.build.curvy': 'Curvy',
+  'profile.build.plus-size': 'Plus Size',
+  'profile.faceStructure': 'Face Structure',
+  'profile.faceStructurePlaceholder': 'Select your face shape',
+  'profile.faceStructure.oval': 'Oval',
+  'profile.faceStructure.round': 'Round',
+  'profile.faceStructure.square': 'Square',
+  'profile.faceStructure.heart': 'Heart',
+  'profile.faceStructure.diamond': 'Diamond',
+  'profile.faceStructure.oblong': 'Oblong',
+  'profile.hairType': 'Hair Type',
+  'profile.hairTypePlaceholder': 'Select your hair type',
+  'profile.hairType.straight': 'Straight',
+  'profile.hairType.wavy': 'Wavy',
+  'profile.hairType.curly': 'Curly',
+  'profile.hairType.coily': 'Coily',
+  'profile.hairType.bald': 'Bald',
+  'profile.height': 'Height (cm)',
+  'profile.weight': 'Weight (kg)',
+  'profile.privacyMode': 'Privacy Mode',
+  'profile.privacyDefault': 'Default',
+  'profile.privacyOff': 'Off - send photos as taken',
+  'profile.privacyBlur': 'Blur my face',
+  'profile.privacyCrop': 'Crop out my face',
+  'profile.privacyHint': 'Faces are removed on our server before your photo is stored or sent to our AI partners.',
+  'profile.language': 'Language',
+  'profile.languageAuto': 'Same as my browser',
+  'profile.languageHint': 'Analyses, follow-up answers and messages are written in this language.',
+  'profile.voice': 'Reviewer voice',
+  'profile.personaDefault': 'Default consultant',
+  'profile.toneDefault': 'Default tone',
+  'profile.voiceHint': 'Used for every analysis unless you pick another voice when uploading. Scores are the same in any voice.',
+  'profile.saving': 'Saving...',
+  'profile.save': 'Save Profile',
+  'profile.updated': 'Profile updated successfully!',
+  'profile.updateFailed': 'Failed to update profile',
+  'profile.privacyTitle': 'Privacy & Data',
+  'profile.privacyBody': "Your profile information is used solely to provide personalized fashion advice. We don't share your personal data with third parties.",
+  'profile.signOut': 'Sign Out',
+}
+
+export type MessageKey = keyof typeof en
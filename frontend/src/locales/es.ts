@@ -0,0 +1,293 @@
+import type { MessageKey } from './en'
+
+export const es: Record<MessageKey, string> = {
+  'app.tagline': 'Análisis de estilo premium',
+  'app.welcomeBack': 'Bienvenido de nuevo,',
+
+  'nav.analyze': 'Analizar',
+  'nav.history': 'Historial',
+  'nav.profile': 'Perfil',
+
+  'occasion.wedding_guest': 'Invitado de boda',
+  'occasion.job_interview': 'Entrevista de trabajo',
+  'occasion.office': 'Oficina',
+  'occasion.business_meeting': 'Reunión de negocios',
+  'occasion.date_night': 'Cita',
+  'occasion.party': 'Fiesta',
+  'occasion.funeral': 'Funeral',
+  'occasion.graduation': 'Graduación',
+  'occasion.religious_service': 'Ceremonia religiosa',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Salida informal',
+  'occasion.travel': 'Viaje',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Playa',
+  'occasion.gym': 'Gimnasio',
+  'occasion.white_tie': 'Etiqueta rigurosa',
+  'occasion.black_tie': 'Etiqueta',
+  'occasion.cocktail': 'Cóctel',
+  'occasion.business_formal': 'Formal de negocios',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Smart casual',
+  'occasion.casual': 'Informal',
+
+  'season.spring': 'Primavera',
+  'season.summer': 'Verano',
+  'season.autumn': 'Otoño',
+  'season.winter': 'Invierno',
+
+  'climate.tropical': 'Cálido y húmedo',
+  'climate.hot_dry': 'Cálido y seco',
+  'climate.temperate': 'Templado',
+  'climate.cold': 'Frío',
+  'climate.rainy': 'Lluvioso',
+  'persona.gentle_coach': 'Coach amable',
+  'persona.editorial_critic': 'Crítico editorial',
+  'persona.practical_friend': 'Amigo práctico',
+  'persona.image_consultant': 'Consultor de imagen',
+  'tone.gentle': 'Suave',
+  'tone.balanced': 'Equilibrado',
+  'tone.direct': 'Directo',
+  'tone.brutal': 'Brutalmente honesto',
+
+  'imageRole.front': 'Frente',
+  'imageRole.side': 'Lado',
+  'imageRole.back': 'Espalda',
+  'imageRole.shoes': 'Zapatos',
+  'imageRole.detail': 'Detalle',
+
+  'harmony.monochromatic': 'Monocromática',
+  'harmony.analogous': 'Análoga',
+  'harmony.complementary': 'Complementaria',
+  'harmony.split_complementary': 'Complementaria dividida',
+  'harmony.triadic': 'Triádica',
+  'harmony.neutral': 'Neutra',
+  'harmony.mixed': 'Mixta',
+
+  'dimension.styleCategory': 'Categoría de estilo',
+  'dimension.fit': 'Ajuste técnico',
+  'dimension.colorHarmony': 'Teoría del color',
+  'dimension.occasion': 'Ocasión',
+  'dimension.proportion': 'Proporción y peso visual',
+  'dimension.fabric': 'Sinergia y calidad de tejidos',
+  'dimension.sophistication': 'Sofisticación del estilismo',
+
+  'score.style': 'Estilo',
+  'score.fit': 'Ajuste',
+  'score.color': 'Color',
+  'score.occasion': 'Ocasión',
+  'score.proportion': 'Proporción',
+  'score.fabric': 'Tejido',
+  'score.sophistication': 'Sofisticación',
+
+  'status.analyzing': 'Analizando',
+  'status.degraded': 'Análisis de respaldo',
+  'status.failed': 'Análisis fallido',
+  'status.noOutfit': 'No se detectó ningún atuendo',
+
+  'calibration.usual': 'Tu puntuación habitual es {baseline}/10, según tus últimas {count} reseñas',
+  'calibration.personalBest': 'Récord personal · {delta} frente a lo habitual',
+  'calibration.vsUsual': '{delta} frente a lo habitual',
+  'calibration.aboutUsual': 'En tu línea habitual',
+
+  'upload.subtitle': 'Descubre análisis de moda de lujo impulsados por IA avanzada',
+  'upload.dropHere': '¡Perfecto! Suéltala aquí',
+  'upload.dropSubtitle': 'Tu análisis de estilo te espera',
+  'upload.title': 'Sube tu atuendo',
+  'upload.dragOrClick': 'Arrastra y suelta o haz clic para elegir tu foto',
+  'upload.choosePhoto': 'Elegir foto',
+  'upload.selectedAlt': 'Atuendo seleccionado',
+  'upload.hidingFaces': 'Ocultando rostros...',
+  'upload.faceBlurred': '1 rostro difuminado',
+  'upload.facesBlurred': '{count} rostros difuminados',
+  'upload.faceCropped': '1 rostro recortado',
+  'upload.facesCropped': '{count} rostros recortados',
+  'upload.photoReady': 'Foto lista',
+  'upload.optional': '(opcional)',
+  'upload.moreAngles': 'Más ángulos',
+  'upload.moreAnglesHint': 'Las vistas lateral y trasera afinan las puntuaciones de ajuste y proporción; los primeros planos ayudan con el tejido y el calzado. Se analizan junto con la foto de arriba.',
+  'upload.viewAlt': 'Vista: {role}',
+  'upload.photoTooLarge': 'Las fotos deben pesar menos de 10 MB',
+  'upload.privacyMode': 'Modo privacidad',
+  'upload.privacyHint': 'Los rostros se eliminan en nuestro servidor antes de guardar o analizar cualquier foto. Lo que ves arriba es lo que se sube; los ángulos adicionales se tratan igual.',
+  'upload.privacyOff': 'Desactivado',
+  'upload.privacyBlur': 'Difuminar rostro',
+  'upload.privacyCrop': 'Recortar rostro',
+  'upload.occasion': 'Ocasión',
+  'upload.occasionHint': 'Elige dónde lo vas a llevar y el look se puntuará según esa ocasión o código de vestimenta.',
+  'upload.anyOccasion': 'Cualquier ocasión',
+  'upload.anySeason': 'Cualquier estación',
+  'upload.anyWeather': 'Cualquier clima',
+  'upload.voice': 'Voz del análisis',
+  'upload.voiceHint': 'Elige quién escribe tu análisis y con cuánta franqueza. Solo cambia la redacción; las puntuaciones son las mismas.',
+  'upload.profilePersona': 'Persona de mi perfil',
+  'upload.profileTone': 'Tono de mi perfil',
+  'upload.styleContext': 'Contexto de estilo',
+  'upload.descriptionPlaceholder': 'Cuéntanos la historia de este look... ocasión especial, objetivos de estilo, inspiración o cualquier cosa que ayude a nuestra IA a entender mejor tu visión.',
+  'upload.notAccepted': 'Foto no aceptada',
+  'upload.refusedPhoto': 'Foto ({role}): ',
+  'upload.appealed': 'Apelación enviada. Volveremos a revisarla.',
+  'upload.appeal': '¿Crees que es un error? Apelar',
+  'upload.analyzing': 'Analizando tu estilo...',
+  'upload.submit': 'Comenzar análisis premium',
+  'upload.tipsTitle': 'Consejos de fotografía',
+  'upload.tipLighting': 'Iluminación perfecta',
+  'upload.tipLightingDesc': 'Luz natural o un interior bien iluminado',
+  'upload.tipFullBody': 'Cuerpo entero',
+  'upload.tipFullBodyDesc': 'Muestra tu atuendo completo de la cabeza a los pies',
+  'upload.tipBackground': 'Fondo limpio',
+  'upload.tipBackgroundDesc': 'Una pared lisa o un fondo sencillo funciona mejor',
+  'upload.tipPose': 'Pose natural',
+  'upload.tipPoseDesc': 'Ponte con naturalidad y evita filtros o retoques fuertes',
+  'upload.previewFailed': 'No se pudo preparar la vista previa de privacidad. Inténtalo de nuevo.',
+  'upload.cacheHit': 'Ya habías subido esta foto: este es su análisis',
+  'upload.success': '¡Atuendo analizado con éxito!',
+  'upload.failed': 'No se pudo analizar el atuendo. Inténtalo de nuevo.',
+  'upload.appealSent': 'Apelación enviada: revisaremos esta foto de nuevo',
+  'upload.appealFailed': 'No se pudo enviar la apelación. Inténtalo de nuevo.',
+
+  'progress.uploaded': 'Foto subida',
+  'progress.prepared': 'Imagen preparada',
+  'progress.reviewing': 'La IA de moda está revisando tu look',
+  'progress.saving': 'Guardando tu análisis',
+  'progress.retrying': 'Nuestra IA de moda está ocupada: reintentando en unos segundos...',
+  'progress.style': 'Estilo:',
+
+  'analysis.thanksPositive': '¡Gracias por tu valoración positiva!',
+  'analysis.thanks': '¡Gracias por tu opinión!',
+  'analysis.feedbackFailed': 'No se pudo enviar tu opinión',
+  'analysis.noOutfitTitle': 'No se detectó ningún atuendo',
+  'analysis.noOutfitSubtitle': 'No encontramos suficiente ropa para analizar en esta imagen',
+  'analysis.uploadedAlt': 'Imagen subida',
+  'analysis.notPossible': 'No es posible analizar la moda',
+  'analysis.notPossibleIntro': 'Nuestra experta en moda con IA necesita ver ropa real para hacer un análisis. Esta imagen parece mostrar:',
+  'analysis.noClothing': 'No se ve ropa ni prendas suficientes',
+  'analysis.insufficient': 'Elementos insuficientes para una evaluación de moda',
+  'analysis.bestResults': 'Para obtener mejores resultados',
+  'analysis.tipCompleteOutfit': 'Sube una foto que muestre un atuendo completo',
+  'analysis.tipPieces': 'Incluye partes de arriba, de abajo y accesorios cuando sea posible',
+  'analysis.tipVisible': 'Asegúrate de que el atuendo completo se vea con claridad',
+  'analysis.tipLighting': 'Usa buena luz y un fondo despejado',
+  'analysis.uploadNew': 'Subir una nueva foto',
+  'analysis.complete': '¡Análisis completado!',
+  'analysis.completeSubtitle': 'Análisis de moda premium con precisión de experto',
+  'analysis.fallbackBody': 'Nuestra IA de moda principal no estaba disponible, así que este resultado viene de un modelo de respaldo{provider}. Las puntuaciones pueden ser menos precisas: vuelve a intentarlo más tarde para un análisis completo.',
+  'analysis.splitTitle': 'Nuestros expertos no se pusieron de acuerdo',
+  'analysis.splitBody': 'Los modelos que puntuaron tu look discreparon en {dimensions}. Estas puntuaciones son la opinión intermedia y son menos seguras que el resto.',
+  'analysis.overallScore': 'Puntuación global de moda',
+  'analysis.analyzedAlt': 'Atuendo analizado',
+  'analysis.analyzedOutfit': 'Atuendo analizado',
+  'analysis.coreAssessments': 'Evaluaciones principales',
+  'analysis.measuredPalette': 'Paleta medida: {harmony}',
+  'analysis.expertAnalysis': 'Análisis experto',
+  'analysis.workingWell': 'Lo que funciona',
+  'analysis.expertInsights': 'Claves del experto',
+  'analysis.technicalFlaws': 'Análisis técnico y aspectos a mejorar',
+  'analysis.recommendations': 'Recomendaciones profesionales',
+  'analysis.feedbackQuestion': '¿Qué te ha parecido este análisis?',
+  'analysis.veryInsightful': '¡Muy útil!',
+  'analysis.couldBeBetter': 'Podría ser mejor',
+  'analysis.feedbackHelps': 'Esto nos ayuda a perfeccionar nuestra IA de moda',
+  'analysis.analyzeAnother': 'Analizar otro atuendo',
+
+  'garments.title': 'Prenda a prenda',
+
+  'comparison.title': 'Antes y después',
+  'comparison.before': 'Antes',
+  'comparison.beforeLooks': 'Antes ({count} looks)',
+  'comparison.now': 'Ahora',
+  'comparison.previousAlt': 'Atuendo anterior',
+  'comparison.currentAlt': 'Atuendo actual',
+  'comparison.notAvailable': 'n/d',
+  'comparison.improved': 'Ha mejorado',
+  'comparison.regressed': 'Ha empeorado',
+
+  'chat.title': 'Pregunta sobre este atuendo',
+  'chat.suggestShoes': '¿Qué zapatos irían bien con esto?',
+  'chat.suggestFormal': '¿Cómo puedo hacerlo más formal?',
+  'chat.suggestChange': '¿Qué cambio lo mejoraría más?',
+  'chat.thinking': 'Pensando...',
+  'chat.placeholder': 'Haz otra pregunta...',
+  'chat.send': 'Enviar',
+  'chat.failed': 'No se pudo obtener una respuesta',
+
+  'history.title': 'Tu trayectoria de estilo',
+  'history.subtitle': 'Repasa tus análisis anteriores y sigue la evolución de tu estilo',
+  'history.allOccasions': 'Todas las ocasiones',
+  'history.noOccasionLooks': 'Aún no hay looks para «{occasion}»',
+  'history.pickOccasion': 'Elige esta ocasión al subir un atuendo para verlo aquí',
+  'history.empty': 'Aún no hay reseñas',
+  'history.emptyHint': 'Empieza subiendo la foto de tu primer atuendo',
+  'history.highlightCount': '{count} aciertos',
+  'history.suggestionCount': '{count} sugerencias',
+  'history.back': '← Volver',
+  'history.details': 'Detalles de la reseña',
+  'history.outfitAlt': 'Atuendo',
+  'history.inProgress': 'Análisis en curso',
+  'history.inProgressBody': 'Nuestra IA de moda sigue trabajando en esta foto. Vuelve en un momento.',
+  'history.failedBody': 'Nuestra IA de moda no pudo analizar esta foto. No ha contado para tu límite de reseñas: vuelve a subirla.',
+  'history.fallbackBody': 'Este resultado viene de un modelo de respaldo{provider} porque nuestra IA de moda principal no estaba disponible. Las puntuaciones pueden ser menos precisas.',
+  'history.highlights': 'Aciertos',
+  'history.comparisonInsight': 'Comparación',
+  'history.comparing': 'Comparando...',
+  'history.compare': 'Comparar con el look anterior',
+  'history.compareAgain': 'Volver a comparar con el look anterior',
+  'history.compareFailed': 'No se pudieron comparar los atuendos',
+
+  'profile.title': 'Tu perfil',
+  'profile.subtitle': 'Ayuda a nuestra IA a darte consejos de moda personalizados',
+  'profile.signedInAs': 'Has iniciado sesión como',
+  'profile.skinTone': 'Tono de piel',
+  'profile.skinTonePlaceholder': 'Elige tu tono de piel',
+  'profile.skinTone.fair': 'Muy claro',
+  'profile.skinTone.light': 'Claro',
+  'profile.skinTone.medium': 'Medio',
+  'profile.skinTone.tan': 'Bronceado',
+  'profile.skinTone.olive': 'Oliva',
+  'profile.skinTone.dark': 'Oscuro',
+  'profile.skinTone.deep': 'Muy oscuro',
+  'profile.build': 'Complexión',
+  'profile.buildPlaceholder': 'Elige tu complexión',
+  'profile.build.petite': 'Menuda',
+  'profile.build.slim': 'Delgada',
+  'profile.build.athletic': 'Atlética',
+  'profile.build.curvy': 'Con curvas',
+  'profile.build.plus-size': 'Talla grande',
+  'profile.faceStructure': 'Forma del rostro',
+  'profile.faceStructurePlaceholder': 'Elige la forma de tu rostro',
+  'profile.faceStructure.oval': 'Ovalado',
+  'profile.faceStructure.round': 'Redondo',
+  'profile.faceStructure.square': 'Cuadrado',
+  'profile.faceStructure.heart': 'Corazón',
+  'profile.faceStructure.diamond': 'Diamante',
+  'profile.faceStructure.oblong': 'Alargado',
+  'profile.hairType': 'Tipo de cabello',
+  'profile.hairTypePlaceholder': 'Elige tu tipo de cabello',
+  'profile.hairType.straight': 'Liso',
+  'profile.hairType.wavy': 'Ondulado',
+  'profile.hairType.curly': 'Rizado',
+  'profile.hairType.coily': 'Afro',
+  'profile.hairType.bald': 'Sin pelo',
+  'profile.height': 'Altura (cm)',
+  'profile.weight': 'Peso (kg)',
+  'profile.privacyMode': 'Modo privacidad',
+  'profile.privacyDefault': 'Predeterminado',
+  'profile.privacyOff': 'Desactivado: enviar las fotos tal cual',
+  'profile.privacyBlur': 'Difuminar mi rostro',
+  'profile.privacyCrop': 'Recortar mi rostro',
+  'profile.privacyHint': 'Los rostros se eliminan en nuestro servidor antes de guardar tu foto o enviarla a nuestros socios de IA.',
+  'profile.language': 'Idioma',
+  'profile.languageAuto': 'El de mi navegador',
+  'profile.languageHint': 'Los análisis, las respuestas y los mensajes se escriben en este idioma.',
+  'profile.voice': 'Voz del análisis',
+  'profile.personaDefault': 'Consultor predeterminado',
+  'profile.toneDefault': 'Tono predeterminado',
+  'profile.voiceHint': 'Se usa en todos los análisis salvo que elijas otra voz al subir una foto. Las puntuaciones son las mismas con cualquier voz.',
+  'profile.saving': 'Guardando...',
+  'profile.save': 'Guardar perfil',
+  'profile.updated': '¡Perfil actualizado!',
+  'profile.updateFailed': 'No se pudo actualizar el perfil',
+  'profile.privacyTitle': 'Privacidad y datos',
+  'profile.privacyBody': 'La información de tu perfil solo se usa para darte consejos de moda personalizados. No compartimos tus datos personales con terceros.',
+  'profile.signOut': 'Cerrar sesión',
+}
@@ -0,0 +1,293 @@
+import type { MessageKey } from './en'
+
+export const fr: Record<MessageKey, string> = {
+  'app.tagline': 'Analyse de style premium',
+  'app.welcomeBack': 'Bon retour,',
+
+  'nav.analyze': 'Analyser',
+  'nav.history': 'Historique',
+  'nav.profile': 'Profil',
+
+  'occasion.wedding_guest': 'Invité à un mariage',
+  'occasion.job_interview': "Entretien d'embauche",
+  'occasion.office': 'Bureau',
+  'occasion.business_meeting': "Rendez-vous d'affaires",
+  'occasion.date_night': 'Rendez-vous galant',
+  'occasion.party': 'Soirée',
+  'occasion.funeral': 'Funérailles',
+  'occasion.graduation': 'Remise de diplôme',
+  'occasion.religious_service': 'Cérémonie religieuse',
+  'occasion.brunch': 'Brunch',
+  'occasion.casual_outing': 'Sortie décontractée',
+  'occasion.travel': 'Voyage',
+  'occasion.festival': 'Festival',
+  'occasion.beach': 'Plage',
+  'occasion.gym': 'Salle de sport',
+  'occasion.white_tie': 'Grande tenue',
+  'occasion.black_tie': 'Tenue de soirée',
+  'occasion.cocktail': 'Tenue cocktail',
+  'occasion.business_formal': 'Tenue de ville',
+  'occasion.business_casual': 'Business casual',
+  'occasion.smart_casual': 'Chic décontracté',
+  'occasion.casual': 'Décontracté',
+
+  'season.spring': 'Printemps',
+  'season.summer': 'Été',
+  'season.autumn': 'Automne',
+  'season.winter': 'Hiver',
+
+  'climate.tropical': 'Chaud et humide',
+  'climate.hot_dry': 'Chaud et sec',
+  'climate.temperate': 'Doux',
+  'climate.cold': 'Froid',
+  'climate.rainy': 'Pluvieux',
+  'persona.gentle_coach': 'Coach bienveillant',
+  'persona.editorial_critic': 'Critique de mode',
+  'persona.practical_friend': 'Ami pratique',
+  'persona.image_consultant': 'Consultant en image',
+  'tone.gentle': 'Doux',
+  'tone.balanced': 'Équilibré',
+  'tone.direct': 'Direct',
+  'tone.brutal': 'Franchise brutale',
+
+  'imageRole.front': 'Face',
+  'imageRole.side': 'Profil',
+  'imageRole.back': 'Dos',
+  'imageRole.shoes': 'Chaussures',
+  'imageRole.detail': 'Détail',
+
+  'harmony.monochromatic': 'Monochrome',
+  'harmony.analogous': 'Analogue',
+  'harmony.complementary': 'Complémentaire',
+  'harmony.split_complementary': 'Complémentaire adjacente',
+  'harmony.triadic': 'Triadique',
+  'harmony.neutral': 'Neutre',
+  'harmony.mixed': 'Mixte',
+
+  'dimension.styleCategory': 'Catégorie de style',
+  'dimension.fit': 'Coupe',
+  'dimension.colorHarmony': 'Théorie des couleurs',
+  'dimension.occasion': 'Occasion',
+  'dimension.proportion': 'Proportions et poids visuel',
+  'dimension.fabric': 'Harmonie et qualité des matières',
+  'dimension.sophistication': 'Raffinement du stylisme',
+
+  'score.style': 'Style',
+  'score.fit': 'Coupe',
+  'score.color': 'Couleur',
+  'score.occasion': 'Occasion',
+  'score.proportion': 'Proportions',
+  'score.fabric': 'Matière',
+  'score.sophistication': 'Raffinement',
+
+  'status.analyzing': 'Analyse en cours',
+  'status.degraded': 'Analyse de secours',
+  'status.failed': "Échec de l'analyse",
+  'status.noOutfit': 'Aucune tenue détectée',
+
+  'calibration.usual': 'Votre note habituelle est de {baseline}/10, sur vos {count} dernières analyses',
+  'calibration.personalBest': 'Record personnel · {delta} par rapport à d’habitude',
+  'calibration.vsUsual': '{delta} par rapport à d’habitude',
+  'calibration.aboutUsual': 'Dans votre moyenne',
+
+  'upload.subtitle': "Des analyses de mode haut de gamme grâce à une IA de pointe",
+  'upload.dropHere': 'Parfait ! Déposez-la ici',
+  'upload.dropSubtitle': 'Votre analyse de style vous attend',
+  'upload.title': 'Importez votre tenue',
+  'upload.dragOrClick': 'Glissez-déposez ou cliquez pour choisir votre photo',
+  'upload.choosePhoto': 'Choisir une photo',
+  'upload.selectedAlt': 'Tenue sélectionnée',
+  'upload.hidingFaces': 'Masquage des visages...',
+  'upload.faceBlurred': '1 visage flouté',
+  'upload.facesBlurred': '{count} visages floutés',
+  'upload.faceCropped': '1 visage recadré',
+  'upload.facesCropped': '{count} visages recadrés',
+  'upload.photoReady': 'Photo prête',
+  'upload.optional': '(facultatif)',
+  'upload.moreAngles': "Plus d'angles",
+  'upload.moreAnglesHint': 'Les vues de profil et de dos affinent les notes de coupe et de proportions ; les gros plans aident pour les matières et les chaussures. Ils sont analysés avec la photo ci-dessus.',
+  'upload.viewAlt': 'Vue : {role}',
+  'upload.photoTooLarge': 'Les photos doivent faire moins de 10 Mo',
+  'upload.privacyMode': 'Mode confidentialité',
+  'upload.privacyHint': "Les visages sont supprimés sur notre serveur avant que la photo soit enregistrée ou analysée. Ce que vous voyez ci-dessus est ce qui sera envoyé ; les angles supplémentaires sont traités de la même façon.",
+  'upload.privacyOff': 'Désactivé',
+  'upload.privacyBlur': 'Flouter le visage',
+  'upload.privacyCrop': 'Recadrer le visage',
+  'upload.occasion': 'Occasion',
+  'upload.occasionHint': "Indiquez où vous la portez et la tenue sera notée selon cette occasion ou ce dress code.",
+  'upload.anyOccasion': 'Toute occasion',
+  'upload.anySeason': 'Toute saison',
+  'upload.anyWeather': 'Toute météo',
+  'upload.voice': "Voix de l'analyse",
+  'upload.voiceHint': 'Choisissez qui rédige votre analyse et avec quelle franchise. Seule la formulation change ; les scores restent les mêmes.',
+  'upload.profilePersona': 'Persona de mon profil',
+  'upload.profileTone': 'Ton de mon profil',
+  'upload.styleContext': 'Contexte',
+  'upload.descriptionPlaceholder': "Racontez l'histoire de ce look... occasion spéciale, objectifs de style, inspiration ou tout ce qui aide notre IA à mieux comprendre votre vision.",
+  'upload.notAccepted': 'Photo refusée',
+  'upload.refusedPhoto': 'Photo ({role}) : ',
+  'upload.appealed': 'Contestation envoyée. Nous allons la réexaminer.',
+  'upload.appeal': "Vous pensez qu'il s'agit d'une erreur ? Contester",
+  'upload.analyzing': 'Analyse de votre style...',
+  'upload.submit': "Lancer l'analyse premium",
+  'upload.tipsTitle': 'Conseils photo',
+  'upload.tipLighting': 'Éclairage idéal',
+  'upload.tipLightingDesc': 'Lumière du jour ou intérieur bien éclairé',
+  'upload.tipFullBody': 'En pied',
+  'upload.tipFullBodyDesc': 'Montrez votre tenue complète de la tête aux pieds',
+  'upload.tipBackground': 'Fond épuré',
+  'upload.tipBackgroundDesc': 'Un mur uni ou un fond sobre fonctionne le mieux',
+  'upload.tipPose': 'Pose naturelle',
+  'upload.tipPoseDesc': 'Tenez-vous naturellement, évitez les filtres et retouches',
+  'upload.previewFailed': "Impossible de préparer l'aperçu de confidentialité. Veuillez réessayer.",
+  'upload.cacheHit': 'Vous avez déjà importé cette photo : voici son analyse',
+  'upload.success': 'Tenue analysée avec succès !',
+  'upload.failed': "Impossible d'analyser la tenue. Veuillez réessayer.",
+  'upload.appealSent': 'Contestation envoyée : nous réexaminerons cette photo',
+  'upload.appealFailed': "Impossible d'envoyer la contestation. Veuillez réessayer.",
+
+  'progress.uploaded': 'Photo importée',
+  'progress.prepared': 'Image préparée',
+  'progress.reviewing': "L'IA mode examine votre look",
+  'progress.saving': 'Enregistrement de votre analyse',
+  'progress.retrying': 'Notre IA mode est occupée : nouvel essai dans quelques secondes...',
+  'progress.style': 'Style :',
+
+  'analysis.thanksPositive': 'Merci pour votre retour positif !',
+  'analysis.thanks': 'Merci pour votre retour !',
+  'analysis.feedbackFailed': "Impossible d'envoyer votre avis",
+  'analysis.noOutfitTitle': 'Aucune tenue détectée',
+  'analysis.noOutfitSubtitle': "Nous n'avons pas trouvé suffisamment de vêtements à analyser sur cette image",
+  'analysis.uploadedAlt': 'Image importée',
+  'analysis.notPossible': 'Analyse de mode impossible',
+  'analysis.notPossibleIntro': "Notre experte mode IA doit voir de vrais vêtements pour faire une analyse. Cette image semble montrer :",
+  'analysis.noClothing': 'Aucun vêtement significatif visible',
+  'analysis.insufficient': "Pas assez d'éléments de tenue pour une évaluation",
+  'analysis.bestResults': 'Pour de meilleurs résultats',
+  'analysis.tipCompleteOutfit': 'Importez une photo montrant une tenue complète',
+  'analysis.tipPieces': 'Incluez hauts, bas et accessoires si possible',
+  'analysis.tipVisible': "Assurez-vous que toute la tenue est bien visible",
+  'analysis.tipLighting': 'Utilisez un bon éclairage et un fond dégagé',
+  'analysis.uploadNew': 'Importer une nouvelle photo',
+  'analysis.complete': 'Analyse terminée !',
+  'analysis.completeSubtitle': "Des conseils de mode premium avec une précision d'expert",
+  'analysis.fallbackBody': "Notre IA mode principale était indisponible : ce résultat provient d'un modèle de secours{provider}. Les notes peuvent être moins précises, réessayez plus tard pour une analyse complète.",
+  'analysis.splitTitle': 'Nos experts étaient partagés',
+  'analysis.splitBody': 'Les modèles qui ont noté votre look étaient en désaccord sur {dimensions}. Ces notes correspondent à l’avis médian et sont moins sûres que les autres.',
+  'analysis.overallScore': 'Note de style globale',
+  'analysis.analyzedAlt': 'Tenue analysée',
+  'analysis.analyzedOutfit': 'Tenue analysée',
+  'analysis.coreAssessments': 'Évaluations principales',
+  'analysis.measuredPalette': 'Palette mesurée : {harmony}',
+  'analysis.expertAnalysis': "Analyse d'expert",
+  'analysis.workingWell': 'Ce qui fonctionne',
+  'analysis.expertInsights': "Regard d'expert",
+  'analysis.technicalFlaws': 'Analyse technique et points à améliorer',
+  'analysis.recommendations': 'Recommandations professionnelles',
+  'analysis.feedbackQuestion': "Qu'avez-vous pensé de cette analyse ?",
+  'analysis.veryInsightful': 'Très pertinente !',
+  'analysis.couldBeBetter': 'Peut mieux faire',
+  'analysis.feedbackHelps': 'Cela nous aide à affiner notre IA mode',
+  'analysis.analyzeAnother': 'Analyser une autre tenue',
+
+  'garments.title': 'Pièce par pièce',
+
+  'comparison.title': 'Avant / après',
+  'comparison.before': 'Avant',
+  'comparison.beforeLooks': 'Avant ({count} looks)',
+  'comparison.now': 'Maintenant',
+  'comparison.previousAlt': 'Tenue précédente',
+  'comparison.currentAlt': 'Tenue actuelle',
+  'comparison.notAvailable': 'n/d',
+  'comparison.improved': 'En progrès',
+  'comparison.regressed': 'En recul',
+
+  'chat.title': 'Posez une question sur cette tenue',
+  'chat.suggestShoes': 'Quelles chaussures iraient avec ?',
+  'chat.suggestFormal': 'Comment la rendre plus habillée ?',
+  'chat.suggestChange': "Quel changement l'améliorerait le plus ?",
+  'chat.thinking': 'Réflexion...',
+  'chat.placeholder': 'Posez une autre question...',
+  'chat.send': 'Envoyer',
+  'chat.failed': "Impossible d'obtenir une réponse",
+
+  'history.title': 'Votre parcours style',
+  'history.subtitle': 'Revoyez vos analyses passées et suivez l’évolution de votre style',
+  'history.allOccasions': 'Toutes les occasions',
+  'history.noOccasionLooks': 'Pas encore de looks « {occasion} »',
+  'history.pickOccasion': "Choisissez cette occasion lors de l'import d'une tenue pour la voir ici",
+  'history.empty': "Pas encore d'analyses",
+  'history.emptyHint': 'Commencez par importer la photo de votre première tenue',
+  'history.highlightCount': '{count} points forts',
+  'history.suggestionCount': '{count} suggestions',
+  'history.back': '← Retour',
+  'history.details': "Détails de l'analyse",
+  'history.outfitAlt': 'Tenue',
+  'history.inProgress': 'Analyse en cours',
+  'history.inProgressBody': 'Notre IA mode travaille encore sur cette photo. Revenez dans un instant.',
+  'history.failedBody': "Notre IA mode n'a pas pu analyser cette photo. Elle n'a pas été décomptée de votre limite : importez-la à nouveau.",
+  'history.fallbackBody': "Ce résultat provient d'un modèle de secours{provider} car notre IA mode principale était indisponible. Les notes peuvent être moins précises.",
+  'history.highlights': 'Points forts',
+  'history.comparisonInsight': 'Comparaison',
+  'history.comparing': 'Comparaison...',
+  'history.compare': 'Comparer avec le look précédent',
+  'history.compareAgain': 'Comparer à nouveau avec le look précédent',
+  'history.compareFailed': 'Impossible de comparer les tenues',
+
+  'profile.title': 'Votre profil',
+  'profile.subtitle': 'Aidez notre IA à vous donner des conseils de mode personnalisés',
+  'profile.signedInAs': 'Connecté en tant que',
+  'profile.skinTone': 'Carnation',
+  'profile.skinTonePlaceholder': 'Choisissez votre carnation',
+  'profile.skinTone.fair': 'Très claire',
+  'profile.skinTone.light': 'Claire',
+  'profile.skinTone.medium': 'Moyenne',
+  'profile.skinTone.tan': 'Hâlée',
+  'profile.skinTone.olive': 'Olive',
+  'profile.skinTone.dark': 'Foncée',
+  'profile.skinTone.deep': 'Très foncée',
+  'profile.build': 'Morphologie',
+  'profile.buildPlaceholder': 'Choisissez votre morphologie',
+  'profile.build.petite': 'Menue',
+  'profile.build.slim': 'Mince',
+  'profile.build.athletic': 'Athlétique',
+  'profile.build.curvy': 'Pulpeuse',
+  'profile.build.plus-size': 'Grande taille',
+  'profile.faceStructure': 'Forme du visage',
+  'profile.faceStructurePlaceholder': 'Choisissez la forme de votre visage',
+  'profile.faceStructure.oval': 'Ovale',
+  'profile.faceStructure.round': 'Rond',
+  'profile.faceStructure.square': 'Carré',
+  'profile.faceStructure.heart': 'En cœur',
+  'profile.faceStructure.diamond': 'Diamant',
+  'profile.faceStructure.oblong': 'Allongé',
+  'profile.hairType': 'Type de cheveux',
+  'profile.hairTypePlaceholder': 'Choisissez votre type de cheveux',
+  'profile.hairType.straight': 'Raides',
+  'profile.hairType.wavy': 'Ondulés',
+  'profile.hairType.curly': 'Bouclés',
+  'profile.hairType.coily': 'Crépus',
+  'profile.hairType.bald': 'Chauve',
+  'profile.height': 'Taille (cm)',
+  'profile.weight': 'Poids (kg)',
+  'profile.privacyMode': 'Mode confidentialité',
+  'profile.privacyDefault': 'Par défaut',
+  'profile.privacyOff': 'Désactivé : envoyer les photos telles quelles',
+  'profile.privacyBlur': 'Flouter mon visage',
+  'profile.privacyCrop': 'Recadrer mon visage',
+  'profile.privacyHint': 'Les visages sont supprimés sur notre serveur avant que votre photo soit enregistrée ou envoyée à nos partenaires IA.',
+  'profile.language': 'Langue',
+  'profile.languageAuto': 'Celle de mon navigateur',
+  'profile.languageHint': 'Les analyses, les réponses et les messages sont rédigés dans cette langue.',
+  'profile.voice': "Voix de l'analyse",
+  'profile.personaDefault': 'Consultant par défaut',
+  'profile.toneDefault': 'Ton par défaut',
+  'profile.voiceHint': "Utilisée pour chaque analyse, sauf si vous choisissez une autre voix lors de l'envoi. Les scores sont les mêmes quelle que soit la voix.",
+  'profile.saving': 'Enregistrement...',
+  'profile.save': 'Enregistrer le profil',
+  'profile.updated': 'Profil mis à jour !',
+  'profile.updateFailed': 'Impossible de mettre à jour le profil',
+  'profile.privacyTitle': 'Confidentialité et données',
+  'profile.privacyBody': 'Les informations de votre profil servent uniquement à vous donner des conseils de mode personnalisés. Nous ne partageons pas vos données personnelles avec des tiers.',
+  'profile.signOut': 'Se déconnecter',
+}
@@ -0,0 +1,42 @@
+import { en, MessageKey } from './en'
+import { es } from './es'
+import { fr } from './fr'
+import { de } from './de'
+
+export type { MessageKey }
+
+// Same set the backend writes analyses and API messages in
+export type Locale = 'en' | 'es' | 'fr' | 'de'
+
+export const LOCALES: Locale[] = ['en', 'es', 'fr', 'de']
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+// Each language named in itself, for the language picker
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+}
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, es, fr, de }
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && LOCALES.includes(value as Locale)
+}
+
+// First supported language in the browser's preference list ("de-CH" counts as German)
+export function detectLocale(languages: readonly string[]): Locale {
+  const supported = languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale)
+  return supported ?? DEFAULT_LOCALE
+}
+
+// Catalog text for a key with {name} placeholders filled in
+export function translate(locale: Locale, key: MessageKey, values?: Record<string, string | number>): string {
+  const message = CATALOGS[locale][key] ?? en[key]
+  if (!values) {
+    return message
+  }
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match))
+}